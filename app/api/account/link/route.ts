@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { getServiceSupabaseClient, hashSecret } from '@/lib/supabase/server'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/account/link
+ * Header: Authorization: Bearer <access token>. Body: { playerId, playerKey }.
+ * Moves the anonymous player's unclaimed game sessions and daily challenge
+ * scores onto the signed-in account. The player id is public, so only rows
+ * stamped with the hash of the caller's secret player key move. Rows already
+ * owned by an account are left alone.
+ */
+export async function POST(request: Request) {
+  const supabase = getServiceSupabaseClient()
+  if (!supabase) {
+    return NextResponse.json({ error: 'accounts are not configured' }, { status: 503 })
+  }
+
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  const { data: auth } = token ? await supabase.auth.getUser(token) : { data: { user: null } }
+  if (!auth.user) {
+    return NextResponse.json({ error: 'not signed in' }, { status: 401 })
+  }
+
+  let body: { playerId?: unknown; playerKey?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'invalid JSON body' }, { status: 400 })
+  }
+  const playerId = typeof body.playerId === 'string' ? body.playerId.slice(0, 64) : ''
+  const playerKey = typeof body.playerKey === 'string' ? body.playerKey.slice(0, 128) : ''
+  if (!playerId || !playerKey) {
+    return NextResponse.json({ error: 'playerId and playerKey are required' }, { status: 400 })
+  }
+  const keyHash = hashSecret(playerKey)
+
+  // Both tables reference profiles — make sure the row exists before pointing at it
+  await supabase.from('profiles').upsert({ id: auth.user.id }, { onConflict: 'id', ignoreDuplicates: true })
+
+  const sessions = await supabase
+    .from('game_sessions')
+    .update({ user_id: auth.user.id })
+    .eq('player_id', playerId)
+    .eq('player_key_hash', keyHash)
+    .is('user_id', null)
+    .select('id')
+  const daily = await supabase
+    .from('daily_challenge_scores')
+    .update({ user_id: auth.user.id })
+    .eq('player_id', playerId)
+    .eq('player_key_hash', keyHash)
+    .is('user_id', null)
+    .select('id')
+  if (sessions.error || daily.error) {
+    return NextResponse.json({ error: 'could not link history' }, { status: 500 })
+  }
+
+  return NextResponse.json({ linkedSessions: sessions.data.length, linkedDailyScores: daily.data.length })
+}
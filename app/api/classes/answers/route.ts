@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { getServiceSupabaseClient, hashSecret, secretsMatch } from '@/lib/supabase/server'
+import type { QuizAnswerLog } from '@/lib/supabase/classroom'
+
+export const runtime = 'nodejs'
+
+const MAX_ANSWERS_PER_REQUEST = 50
+
+function isAnswer(a: unknown): a is QuizAnswerLog {
+  const x = a as QuizAnswerLog
+  return (
+    typeof x?.questionId === 'string' &&
+    typeof x.questionLabel === 'string' &&
+    typeof x.topicId === 'string' &&
+    Number.isInteger(x.grade) &&
+    Number.isInteger(x.difficulty) &&
+    typeof x.correct === 'boolean' &&
+    typeof x.firstTry === 'boolean'
+  )
+}
+
+/**
+ * POST /api/classes/answers
+ * Body: { studentId, studentKey, answers: QuizAnswerLog[] } — appends to quiz_answers.
+ * The student key issued on joining must match the seat.
+ */
+export async function POST(request: Request) {
+  const supabase = getServiceSupabaseClient()
+  if (!supabase) {
+    return NextResponse.json({ error: 'classes are not configured' }, { status: 503 })
+  }
+
+  let body: { studentId?: unknown; studentKey?: unknown; answers?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'invalid JSON body' }, { status: 400 })
+  }
+  const studentId = typeof body.studentId === 'string' ? body.studentId : ''
+  const studentKey = typeof body.studentKey === 'string' ? body.studentKey.slice(0, 128) : ''
+  const answers = Array.isArray(body.answers) ? body.answers.slice(0, MAX_ANSWERS_PER_REQUEST) : []
+  if (!studentId || !studentKey || answers.length === 0 || !answers.every(isAnswer)) {
+    return NextResponse.json({ error: 'studentId, studentKey and valid answers are required' }, { status: 400 })
+  }
+
+  const { data: student } = await supabase
+    .from('class_students')
+    .select('id, class_id, student_key_hash')
+    .eq('id', studentId)
+    .maybeSingle()
+  if (!student) {
+    return NextResponse.json({ error: 'unknown student' }, { status: 404 })
+  }
+  if (!student.student_key_hash || !secretsMatch(hashSecret(studentKey), student.student_key_hash)) {
+    return NextResponse.json({ error: 'wrong student key' }, { status: 403 })
+  }
+
+  const { error } = await supabase.from('quiz_answers').insert(
+    answers.map(a => ({
+      class_id: student.class_id,
+      student_id: student.id,
+      question_id: a.questionId.slice(0, 64),
+      question_label: a.questionLabel.slice(0, 80),
+      topic_id: a.topicId.slice(0, 64),
+      grade: a.grade,
+      difficulty: a.difficulty,
+      correct: a.correct,
+      first_try: a.firstTry,
+    })),
+  )
+  if (error) {
+    return NextResponse.json({ error: 'could not save answers' }, { status: 500 })
+  }
+  return NextResponse.json({ saved: answers.length })
+}
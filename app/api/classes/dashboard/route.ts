@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { getServiceSupabaseClient, hashSecret, secretsMatch } from '@/lib/supabase/server'
+import { normalizeClassCode } from '@/lib/supabase/classroom'
+import { buildClassDashboard } from '@/lib/supabase/class-analytics'
+
+export const runtime = 'nodejs'
+
+// PostgREST caps a single response, so answers are read a page at a time
+const ANSWER_PAGE_SIZE = 1000
+
+/**
+ * POST /api/classes/dashboard
+ * Body: { code, teacherKey } — returns the ClassDashboard for that class.
+ * POST rather than GET so the teacher key stays out of URLs and logs.
+ */
+export async function POST(request: Request) {
+  const supabase = getServiceSupabaseClient()
+  if (!supabase) {
+    return NextResponse.json({ error: 'classes are not configured' }, { status: 503 })
+  }
+
+  let body: { code?: unknown; teacherKey?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'invalid JSON body' }, { status: 400 })
+  }
+  const code = typeof body.code === 'string' ? normalizeClassCode(body.code) : ''
+  const teacherKey = typeof body.teacherKey === 'string' ? body.teacherKey : ''
+
+  const { data: cls } = await supabase.from('classes').select('id, code, name, teacher_key_hash').eq('code', code).maybeSingle()
+  if (!cls || !teacherKey || !secretsMatch(hashSecret(teacherKey), cls.teacher_key_hash)) {
+    return NextResponse.json({ error: 'class code or teacher key is wrong' }, { status: 403 })
+  }
+
+  const studentsRes = await supabase.from('class_students').select('id, name').eq('class_id', cls.id)
+  if (studentsRes.error) {
+    return NextResponse.json({ error: 'could not load class data' }, { status: 500 })
+  }
+
+  // Every answer, newest first — a dashboard built from a truncated list would
+  // quietly under-report the class
+  const answers = []
+  for (let from = 0; ; from += ANSWER_PAGE_SIZE) {
+    const page = await supabase
+      .from('quiz_answers')
+      .select('student_id, question_id, question_label, topic_id, grade, correct, first_try, answered_at')
+      .eq('class_id', cls.id)
+      .order('answered_at', { ascending: false })
+      .order('id')
+      .range(from, from + ANSWER_PAGE_SIZE - 1)
+    if (page.error) {
+      return NextResponse.json({ error: 'could not load class data' }, { status: 500 })
+    }
+    answers.push(...page.data)
+    if (page.data.length < ANSWER_PAGE_SIZE) break
+  }
+
+  return NextResponse.json(buildClassDashboard(cls, studentsRes.data ?? [], answers))
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server'
+import { getServiceSupabaseClient, hashSecret, secretsMatch } from '@/lib/supabase/server'
+import { normalizeClassCode } from '@/lib/supabase/classroom'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/classes/join
+ * Body: { code, studentName, playerId, studentKey? } — returns the student's ClassMembership.
+ * Names are unique per class. The first join claims the name and gets a
+ * secret student key; rejoining under that name (from another device, say)
+ * needs the key, so typing a classmate's name can't take over their seat.
+ */
+export async function POST(request: Request) {
+  const supabase = getServiceSupabaseClient()
+  if (!supabase) {
+    return NextResponse.json({ error: 'classes are not configured' }, { status: 503 })
+  }
+
+  let body: { code?: unknown; studentName?: unknown; playerId?: unknown; studentKey?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'invalid JSON body' }, { status: 400 })
+  }
+  const code = typeof body.code === 'string' ? normalizeClassCode(body.code) : ''
+  const studentName = typeof body.studentName === 'string' ? body.studentName.trim().slice(0, 20) : ''
+  const playerId = typeof body.playerId === 'string' ? body.playerId.slice(0, 64) : null
+  const givenKey = typeof body.studentKey === 'string' ? body.studentKey.slice(0, 128) : ''
+  if (!code || !studentName) {
+    return NextResponse.json({ error: 'class code and name are required' }, { status: 400 })
+  }
+
+  const { data: cls } = await supabase.from('classes').select('id, name, code').eq('code', code).maybeSingle()
+  if (!cls) {
+    return NextResponse.json({ error: 'no class with that code' }, { status: 404 })
+  }
+
+  const { data: existing, error: readError } = await supabase
+    .from('class_students')
+    .select('id, name, player_id, student_key_hash')
+    .eq('class_id', cls.id)
+    .eq('name', studentName)
+    .maybeSingle()
+  if (readError) {
+    return NextResponse.json({ error: 'could not join class' }, { status: 500 })
+  }
+
+  let student: { id: string; name: string }
+  let studentKey = givenKey
+  if (!existing) {
+    studentKey = crypto.randomUUID()
+    const { data, error } = await supabase
+      .from('class_students')
+      .insert({ class_id: cls.id, name: studentName, player_id: playerId, student_key_hash: hashSecret(studentKey) })
+      .select('id, name')
+      .single()
+    // A classmate claiming the same name at the same moment loses to the unique index
+    if (error?.code === '23505') return nameTaken()
+    if (error || !data) {
+      return NextResponse.json({ error: 'could not join class' }, { status: 500 })
+    }
+    student = data
+  } else if (existing.student_key_hash) {
+    if (!givenKey || !secretsMatch(hashSecret(givenKey), existing.student_key_hash)) return nameTaken()
+    student = existing
+  } else {
+    // Seat from before student keys: only the browser that joined it can claim it
+    if (!playerId || existing.player_id !== playerId) return nameTaken()
+    studentKey = crypto.randomUUID()
+    const { error } = await supabase
+      .from('class_students')
+      .update({ student_key_hash: hashSecret(studentKey) })
+      .eq('id', existing.id)
+    if (error) {
+      return NextResponse.json({ error: 'could not join class' }, { status: 500 })
+    }
+    student = existing
+  }
+
+  return NextResponse.json({
+    classId: cls.id,
+    className: cls.name,
+    code: cls.code,
+    studentId: student.id,
+    studentName: student.name,
+    studentKey,
+  })
+}
+
+function nameTaken() {
+  return NextResponse.json({ error: 'that name is already taken in this class' }, { status: 409 })
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { getServiceSupabaseClient, hashSecret } from '@/lib/supabase/server'
+import { generateClassCode } from '@/lib/supabase/classroom'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/classes
+ * Body: { name } — creates a class and returns { code, name, teacherKey }.
+ * The teacher key is only ever returned here (only its hash is stored); it
+ * unlocks the dashboard.
+ */
+export async function POST(request: Request) {
+  const supabase = getServiceSupabaseClient()
+  if (!supabase) {
+    return NextResponse.json({ error: 'classes are not configured' }, { status: 503 })
+  }
+
+  let body: { name?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'invalid JSON body' }, { status: 400 })
+  }
+  const name = typeof body.name === 'string' ? body.name.trim().slice(0, 40) : ''
+  if (!name) {
+    return NextResponse.json({ error: 'class name is required' }, { status: 400 })
+  }
+
+  const teacherKey = crypto.randomUUID()
+  // Codes are short, so retry the rare collision with the unique index
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = generateClassCode()
+    const { error } = await supabase.from('classes').insert({ code, name, teacher_key_hash: hashSecret(teacherKey) })
+    if (!error) return NextResponse.json({ code, name, teacherKey })
+    if (error.code !== '23505') break
+  }
+  return NextResponse.json({ error: 'could not create class' }, { status: 500 })
+}
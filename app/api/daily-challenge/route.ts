@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server'
+import { parseReplay } from '@/lib/game/replay'
+import { verifyDailyReplay } from '@/lib/game/verification'
+import { getServiceSupabaseClient, hashSecret, secretsMatch } from '@/lib/supabase/server'
+
+// The engine keeps its RNG and arena radius in module state. Re-simulation is
+// fully synchronous, so concurrent requests can't interleave inside a run.
+export const runtime = 'nodejs'
+
+// An hour-long run with a stick held the whole way encodes to a few MB; anything
+// bigger isn't a real replay and shouldn't be parsed
+const MAX_BODY_BYTES = 8 * 1024 * 1024
+
+/**
+ * POST /api/daily-challenge
+ * Body: { playerId, playerKey, playerName, replay } — replay as produced by encodeReplay.
+ * Re-simulates the run and stores the server's score, keeping each player's best.
+ * The row keeps the hash of the secret player key; a later submission under
+ * the same id must carry the same key.
+ */
+export async function POST(request: Request) {
+  const supabase = getServiceSupabaseClient()
+  if (!supabase) {
+    return NextResponse.json({ error: 'score verification is not configured' }, { status: 503 })
+  }
+
+  const text = await readBody(request, MAX_BODY_BYTES)
+  if (text === null) {
+    return NextResponse.json({ error: 'replay is too large' }, { status: 413 })
+  }
+  let body: { playerId?: unknown; playerKey?: unknown; playerName?: unknown; replay?: unknown }
+  try {
+    body = JSON.parse(text)
+  } catch {
+    return NextResponse.json({ error: 'invalid JSON body' }, { status: 400 })
+  }
+
+  const playerId = typeof body.playerId === 'string' ? body.playerId.slice(0, 64) : ''
+  const playerKey = typeof body.playerKey === 'string' ? body.playerKey.slice(0, 128) : ''
+  const playerName = (typeof body.playerName === 'string' ? body.playerName.trim().slice(0, 20) : '') || 'Anonymous'
+  const replay = parseReplay(body.replay)
+  if (!playerId || !playerKey || !replay) {
+    return NextResponse.json({ error: 'playerId, playerKey and a valid replay are required' }, { status: 400 })
+  }
+  const keyHash = hashSecret(playerKey)
+
+  const result = verifyDailyReplay(replay)
+  if (result.status === 'rejected') {
+    return NextResponse.json({ status: 'rejected', reason: result.reason }, { status: 422 })
+  }
+
+  const verified = result.status === 'verified'
+  const flagReason = result.status === 'flagged' ? result.reason : null
+  // Keep the player id out of server logs
+  if (!verified) console.warn(`[daily-challenge] flagged run on ${replay.challengeDate}: ${flagReason}`)
+
+  const { data: existing, error: readError } = await supabase
+    .from('daily_challenge_scores')
+    .select('id, score, verified, player_key_hash')
+    .eq('challenge_date', replay.challengeDate)
+    .eq('player_id', playerId)
+    .maybeSingle()
+  if (readError) {
+    return NextResponse.json({ error: 'could not read existing score' }, { status: 500 })
+  }
+  if (existing?.player_key_hash && !secretsMatch(keyHash, existing.player_key_hash)) {
+    return NextResponse.json({ error: 'this player id belongs to another browser' }, { status: 403 })
+  }
+
+  const row = {
+    player_name: playerName,
+    score: result.score,
+    wave_reached: result.wave,
+    verified,
+    flag_reason: flagReason,
+    submitted_at: new Date().toISOString(),
+    player_key_hash: keyHash,
+  }
+
+  // A verified score always beats a flagged one; otherwise keep the best
+  let writeError = null
+  if (!existing) {
+    const { error } = await supabase.from('daily_challenge_scores').insert({
+      ...row,
+      challenge_date: replay.challengeDate,
+      player_id: playerId,
+      seed: replay.challengeDate,
+    })
+    writeError = error
+  } else if ((verified && !existing.verified) || (verified === existing.verified && result.score > existing.score)) {
+    const { error } = await supabase.from('daily_challenge_scores').update(row).eq('id', existing.id)
+    writeError = error
+  }
+  if (writeError) {
+    return NextResponse.json({ error: 'could not save score' }, { status: 500 })
+  }
+
+  return NextResponse.json({ status: result.status, score: result.score, wave: result.wave })
+}
+
+/** The request body as text, or null once it passes `limit` bytes (read no further). */
+async function readBody(request: Request, limit: number): Promise<string | null> {
+  if (Number(request.headers.get('content-length') ?? 0) > limit) return null
+  if (!request.body) return ''
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > limit) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
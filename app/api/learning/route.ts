@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server'
+import { getServiceSupabaseClient, hashSecret, secretsMatch } from '@/lib/supabase/server'
+import type { LearningRecordSync } from '@/lib/supabase/learning'
+
+export const runtime = 'nodejs'
+
+const MAX_RECORDS_PER_REQUEST = 50
+
+function isRecord(r: unknown): r is LearningRecordSync {
+  const x = r as LearningRecordSync
+  return (
+    typeof x?.questionId === 'string' &&
+    Number.isInteger(x.attempts) && x.attempts >= 0 &&
+    Number.isInteger(x.correctFirstTry) && x.correctFirstTry >= 0 &&
+    (x.lastSeenAt === null || (typeof x.lastSeenAt === 'string' && !Number.isNaN(Date.parse(x.lastSeenAt))))
+  )
+}
+
+/**
+ * POST /api/learning
+ * Body: { records: LearningRecordSync[] } plus either { studentId, studentKey }
+ * for a class seat or { playerId, playerKey } for an anonymous player —
+ * upserts that player's learning_records rows.
+ * A seat's key must match the one issued on joining; an anonymous player's
+ * rows belong to the key that first wrote them.
+ */
+export async function POST(request: Request) {
+  const supabase = getServiceSupabaseClient()
+  if (!supabase) {
+    return NextResponse.json({ error: 'learning sync is not configured' }, { status: 503 })
+  }
+
+  let body: { studentId?: unknown; studentKey?: unknown; playerId?: unknown; playerKey?: unknown; records?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'invalid JSON body' }, { status: 400 })
+  }
+  const studentId = typeof body.studentId === 'string' ? body.studentId : ''
+  const playerId = studentId || (typeof body.playerId === 'string' ? body.playerId.slice(0, 64) : '')
+  const rawKey = studentId ? body.studentKey : body.playerKey
+  const key = typeof rawKey === 'string' ? rawKey.slice(0, 128) : ''
+  const records = Array.isArray(body.records) ? body.records.slice(0, MAX_RECORDS_PER_REQUEST) : []
+  if (!playerId || !key || records.length === 0 || !records.every(isRecord)) {
+    return NextResponse.json({ error: 'a player id, its key and valid records are required' }, { status: 400 })
+  }
+  const keyHash = hashSecret(key)
+
+  if (studentId) {
+    const { data: student } = await supabase
+      .from('class_students')
+      .select('student_key_hash')
+      .eq('id', studentId)
+      .maybeSingle()
+    if (!student) {
+      return NextResponse.json({ error: 'unknown student' }, { status: 404 })
+    }
+    if (!student.student_key_hash || !secretsMatch(keyHash, student.student_key_hash)) {
+      return NextResponse.json({ error: 'wrong student key' }, { status: 403 })
+    }
+  } else {
+    const { data: owned } = await supabase
+      .from('learning_records')
+      .select('owner_key_hash')
+      .eq('player_id', playerId)
+      .not('owner_key_hash', 'is', null)
+      .limit(1)
+      .maybeSingle()
+    if (owned?.owner_key_hash && !secretsMatch(keyHash, owned.owner_key_hash)) {
+      return NextResponse.json({ error: 'this player id belongs to another browser' }, { status: 403 })
+    }
+  }
+
+  const updatedAt = new Date().toISOString()
+  const { error } = await supabase.from('learning_records').upsert(
+    records.map(r => ({
+      player_id: playerId,
+      question_id: r.questionId.slice(0, 64),
+      attempts: r.attempts,
+      correct_first_try: Math.min(r.correctFirstTry, r.attempts),
+      last_seen_at: r.lastSeenAt,
+      updated_at: updatedAt,
+      owner_key_hash: keyHash,
+    })),
+    { onConflict: 'player_id,question_id' },
+  )
+  if (error) {
+    return NextResponse.json({ error: 'could not save learning records' }, { status: 500 })
+  }
+  return NextResponse.json({ saved: records.length })
+}
@@ -0,0 +1,11 @@
+import type { Metadata } from 'next'
+import TeacherDashboard from '@/components/teacher/TeacherDashboard'
+
+export const metadata: Metadata = {
+  title: 'SHADOW PULSE · Teacher',
+  description: 'Class codes and quiz results for Classroom Mode.',
+}
+
+export default function TeacherPage() {
+  return <TeacherDashboard />
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { useEffect } from 'react'
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS } from '@/lib/game/mixer'
+
+const SLIDERS: { field: 'master' | 'music' | 'sfx'; name: string }[] = [
+  { field: 'master', name: 'Master' },
+  { field: 'music', name: 'Music' },
+  { field: 'sfx', name: 'Sound FX' },
+]
+
+/**
+ * Volume overlay, opened from the title screen and the pause menu. Changes
+ * apply as the sliders move; M toggles mute here as in game.
+ */
+export default function AudioMixer({
+  settings,
+  classroom,
+  onChange,
+  onClose,
+}: {
+  settings: AudioSettings
+  classroom: boolean
+  onChange: (settings: AudioSettings) => void
+  onClose: () => void
+}) {
+  useEffect(() => {
+    // Capture so the game underneath doesn't see keys; arrows still move a focused slider
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.stopPropagation()
+      if (e.key === 'Escape') onClose()
+      else if (e.key.toLowerCase() === 'm' && !e.repeat) onChange({ ...settings, muted: !settings.muted })
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [settings, onChange, onClose])
+
+  const mono = { fontFamily: 'monospace' } as const
+  const button = {
+    ...mono,
+    background: 'transparent',
+    border: '1px solid #ffffff22',
+    borderRadius: '6px',
+    color: '#ffffff88',
+    fontSize: '12px',
+    padding: '6px 18px',
+    cursor: 'pointer',
+    letterSpacing: '0.1em',
+  } as const
+  const toggle = (on: boolean) => ({
+    ...mono,
+    background: on ? 'rgba(123,47,255,0.35)' : 'transparent',
+    border: on ? '1px solid #7b2fffcc' : '1px solid #ffffff22',
+    borderRadius: '4px',
+    color: on ? '#ffffffdd' : '#ffffff44',
+    fontSize: '11px',
+    padding: '3px 12px',
+    cursor: 'pointer',
+    minWidth: '48px',
+  })
+  const musicSilenced = classroom && !settings.classroomMusic
+
+  return (
+    <div
+      style={{ position: 'absolute', inset: 0, background: 'rgba(0,0,0,0.85)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 10 }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div style={{ background: '#0d0d1a', border: '1px solid #7b2fff55', borderRadius: '10px', padding: '24px 32px', display: 'flex', flexDirection: 'column', gap: '12px', minWidth: '360px' }}>
+        <p style={{ ...mono, color: '#c084fc', fontSize: '14px', letterSpacing: '0.25em', margin: '0 0 6px', textAlign: 'center' }}>
+          ♪ AUDIO
+        </p>
+        {SLIDERS.map(({ field, name }) => {
+          const dimmed = settings.muted || (field === 'music' && musicSilenced)
+          return (
+            <label key={field} style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+              <span style={{ ...mono, color: dimmed ? '#ffffff33' : '#ffffffaa', fontSize: '13px', width: '80px' }}>{name}</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(settings[field] * 100)}
+                onChange={(e) => onChange({ ...settings, [field]: Number(e.target.value) / 100 })}
+                style={{ flex: 1, accentColor: '#7b2fff', opacity: dimmed ? 0.4 : 1 }}
+              />
+              <span style={{ ...mono, color: '#ffffff66', fontSize: '11px', width: '36px', textAlign: 'right' }}>
+                {Math.round(settings[field] * 100)}%
+              </span>
+            </label>
+          )
+        })}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <span style={{ ...mono, color: '#ffffffaa', fontSize: '13px' }}>Mute all <span style={{ color: '#ffffff44', fontSize: '11px' }}>[M]</span></span>
+          <button onClick={() => onChange({ ...settings, muted: !settings.muted })} style={toggle(settings.muted)}>
+            {settings.muted ? 'ON' : 'OFF'}
+          </button>
+        </div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <span style={{ ...mono, color: '#ffffffaa', fontSize: '13px' }}>Music in Classroom Mode</span>
+          <button onClick={() => onChange({ ...settings, classroomMusic: !settings.classroomMusic })} style={toggle(settings.classroomMusic)}>
+            {settings.classroomMusic ? 'ON' : 'OFF'}
+          </button>
+        </div>
+        <p style={{ ...mono, color: '#ffffff44', fontSize: '11px', margin: '4px 0 0', textAlign: 'center', minHeight: '14px' }}>
+          {musicSilenced ? 'Music is off while Classroom Mode is on' : 'ESC to close'}
+        </p>
+        <div style={{ display: 'flex', gap: '12px', justifyContent: 'center', marginTop: '4px' }}>
+          <button onClick={() => onChange({ ...DEFAULT_AUDIO_SETTINGS })} style={button}>
+            RESET
+          </button>
+          <button onClick={onClose} style={{ ...button, border: '1px solid #7b2fff88', color: '#ffffffcc' }}>
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
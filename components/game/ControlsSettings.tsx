@@ -0,0 +1,116 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { DEFAULT_KEYMAP, GAME_ACTIONS, GameAction, KeyMap, bindKey, keyLabel } from '@/lib/game/keymap'
+
+const HEBREW_RANGE = /[\u05d0-\u05ea]/
+
+/**
+ * Title-screen overlay for rebinding keys. Click an action, then press the
+ * key to use; pressing a key another action already has swaps the two.
+ */
+export default function ControlsSettings({
+  keymap,
+  onChange,
+  onClose,
+}: {
+  keymap: KeyMap
+  onChange: (keymap: KeyMap) => void
+  onClose: () => void
+}) {
+  const [listening, setListening] = useState<GameAction | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      if (!listening) {
+        if (e.key === 'Escape') onClose()
+        return
+      }
+      if (e.key === 'Escape') {
+        setListening(null)
+        setMessage(null)
+        return
+      }
+      if (HEBREW_RANGE.test(e.key)) {
+        setMessage('Switch to an English keyboard layout first')
+        return
+      }
+      const key = e.key.toLowerCase()
+      const next = bindKey(keymap, listening, key)
+      if (!next) {
+        setMessage(`${keyLabel(key)} is used by the menus — pick another key`)
+        return
+      }
+      onChange(next)
+      setListening(null)
+      setMessage(null)
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [listening, keymap, onChange, onClose])
+
+  const mono = { fontFamily: 'monospace' } as const
+  const button = {
+    ...mono,
+    background: 'transparent',
+    border: '1px solid #ffffff22',
+    borderRadius: '6px',
+    color: '#ffffff88',
+    fontSize: '12px',
+    padding: '6px 18px',
+    cursor: 'pointer',
+    letterSpacing: '0.1em',
+  } as const
+
+  return (
+    <div
+      style={{ position: 'absolute', inset: 0, background: 'rgba(0,0,0,0.85)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 10 }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div style={{ background: '#0d0d1a', border: '1px solid #7b2fff55', borderRadius: '10px', padding: '24px 32px', display: 'flex', flexDirection: 'column', gap: '10px', minWidth: '360px' }}>
+        <p style={{ ...mono, color: '#c084fc', fontSize: '14px', letterSpacing: '0.25em', margin: '0 0 6px', textAlign: 'center' }}>
+          ⌨ CONTROLS
+        </p>
+        {GAME_ACTIONS.map(({ action, name }) => {
+          const active = listening === action
+          return (
+            <button
+              key={action}
+              onClick={() => { setListening(action); setMessage(null) }}
+              style={{
+                ...mono,
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                background: active ? 'rgba(123, 47, 255, 0.25)' : 'transparent',
+                border: active ? '1px solid #7b2fffaa' : '1px solid #ffffff11',
+                borderRadius: '6px',
+                padding: '5px 12px',
+                cursor: 'pointer',
+              }}
+            >
+              <span style={{ color: '#ffffffaa', fontSize: '13px' }}>{name}</span>
+              <span style={{ background: '#ffffff11', border: '1px solid #ffffff33', borderRadius: '4px', padding: '1px 8px', fontSize: '12px', color: active ? '#fbbf24' : '#ffffffcc', minWidth: '48px', textAlign: 'center' }}>
+                {active ? 'PRESS A KEY' : keyLabel(keymap[action])}
+              </span>
+            </button>
+          )
+        })}
+        <p style={{ ...mono, color: message ? '#ff6644' : '#ffffff44', fontSize: '11px', margin: '4px 0 0', textAlign: 'center', minHeight: '14px' }}>
+          {message ?? 'Arrow keys and Shift always work too'}
+        </p>
+        <div style={{ display: 'flex', gap: '12px', justifyContent: 'center', marginTop: '4px' }}>
+          <button onClick={() => { onChange({ ...DEFAULT_KEYMAP }); setListening(null); setMessage(null) }} style={button}>
+            RESET
+          </button>
+          <button onClick={onClose} style={{ ...button, border: '1px solid #7b2fff88', color: '#ffffffcc' }}>
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
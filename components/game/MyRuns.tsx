@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { User } from '@supabase/supabase-js'
+import { GameScore, getScoreHistory } from '@/lib/game/scores'
+import { Profile, getProfile, saveProfile, signInWithEmail, signOut } from '@/lib/supabase/auth'
+import { isSupabaseConfigured } from '@/lib/supabase/client'
+
+function formatDuration(seconds?: number): string {
+  if (seconds === undefined) return '—'
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/**
+ * Title-screen overlay for the optional account: magic-link sign-in when
+ * signed out; profile and past runs when signed in.
+ */
+export default function MyRuns({ user, onClose }: { user: User | null; onClose: () => void }) {
+  const [email, setEmail] = useState('')
+  const [linkSent, setLinkSent] = useState(false)
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [username, setUsername] = useState('')
+  const [displayName, setDisplayName] = useState('')
+  const [runs, setRuns] = useState<GameScore[] | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!user) return
+    getProfile(user.id).then(p => {
+      setProfile(p)
+      setUsername(p?.username ?? '')
+      setDisplayName(p?.displayName ?? '')
+    })
+    getScoreHistory().then(setRuns)
+  }, [user])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const handleSignIn = () => {
+    if (!email.includes('@')) {
+      setMessage('Enter your email address')
+      return
+    }
+    signInWithEmail(email.trim()).then(({ error }) => {
+      setMessage(error)
+      setLinkSent(!error)
+    })
+  }
+
+  const handleSaveProfile = () => {
+    if (!user) return
+    saveProfile(user.id, { username, displayName }).then(({ data, error }) => {
+      setMessage(error ?? 'Profile saved')
+      if (data) setProfile(data)
+    })
+  }
+
+  const mono = { fontFamily: 'monospace' } as const
+  const button = {
+    ...mono,
+    background: 'transparent',
+    border: '1px solid #ffffff22',
+    borderRadius: '6px',
+    color: '#ffffff88',
+    fontSize: '12px',
+    padding: '6px 18px',
+    cursor: 'pointer',
+    letterSpacing: '0.1em',
+  } as const
+  const field = {
+    ...mono,
+    background: '#ffffff0d',
+    border: '1px solid #ffffff33',
+    borderRadius: '6px',
+    color: '#ffffffcc',
+    fontSize: '13px',
+    padding: '6px 10px',
+    outline: 'none',
+  } as const
+
+  return (
+    <div
+      style={{ position: 'absolute', inset: 0, background: 'rgba(0,0,0,0.85)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 10 }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div style={{ background: '#0d0d1a', border: '1px solid #7b2fff55', borderRadius: '10px', padding: '24px 32px', display: 'flex', flexDirection: 'column', gap: '10px', width: '440px', maxHeight: '90%' }}>
+        <p style={{ ...mono, color: '#c084fc', fontSize: '14px', letterSpacing: '0.25em', margin: '0 0 6px', textAlign: 'center' }}>
+          ◇ MY RUNS
+        </p>
+
+        {!isSupabaseConfigured() ? (
+          <p style={{ ...mono, color: '#ffffff66', fontSize: '12px', textAlign: 'center' }}>Accounts are not available on this server.</p>
+        ) : !user ? (
+          <>
+            <p style={{ ...mono, color: '#ffffff66', fontSize: '12px', textAlign: 'center', lineHeight: 1.6, margin: 0 }}>
+              Sign in to keep your run history across devices.<br />Runs you played here are added on first sign-in.
+            </p>
+            {linkSent ? (
+              <p style={{ ...mono, color: '#88ff88', fontSize: '12px', textAlign: 'center' }}>Check your inbox for the sign-in link.</p>
+            ) : (
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <input
+                  type="email"
+                  value={email}
+                  placeholder="you@example.com"
+                  onChange={(e) => setEmail(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleSignIn() }}
+                  style={{ ...field, flex: 1 }}
+                />
+                <button onClick={handleSignIn} style={{ ...button, border: '1px solid #7b2fff88', color: '#ffffffcc' }}>SEND LINK</button>
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <input value={username} placeholder="username" maxLength={20} onChange={(e) => setUsername(e.target.value)} style={{ ...field, flex: 1, minWidth: 0 }} />
+              <input value={displayName} placeholder="display name" maxLength={30} onChange={(e) => setDisplayName(e.target.value)} style={{ ...field, flex: 1, minWidth: 0 }} />
+              <button onClick={handleSaveProfile} style={button}>SAVE</button>
+            </div>
+            <p style={{ ...mono, color: '#ffffff44', fontSize: '11px', margin: 0 }}>
+              Signed in as {profile?.displayName ?? user.email}
+            </p>
+
+            <div style={{ overflowY: 'auto', maxHeight: '320px', borderTop: '1px solid #ffffff11', paddingTop: '6px' }}>
+              {runs === null && <p style={{ ...mono, color: '#ffffff44', fontSize: '11px', textAlign: 'center' }}>Loading…</p>}
+              {runs?.length === 0 && <p style={{ ...mono, color: '#ffffff44', fontSize: '11px', textAlign: 'center' }}>No runs yet — go play one.</p>}
+              {runs?.map((run, i) => (
+                <div key={i} style={{ ...mono, display: 'flex', gap: '10px', fontSize: '11px', color: '#ffffff88', padding: '3px 0' }}>
+                  <span style={{ color: '#ffffff44', minWidth: '72px' }}>{run.playedAt ? new Date(run.playedAt).toLocaleDateString() : '—'}</span>
+                  <span style={{ color: '#ffc800', minWidth: '64px', textAlign: 'right' }}>{run.score.toLocaleString()}</span>
+                  <span>W{run.waveReached} L{run.levelReached}</span>
+                  <span style={{ color: '#ffffff55' }}>{formatDuration(run.durationSeconds)}</span>
+                  <span style={{ color: '#ff8866', flex: 1, overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}>{run.deathCause ?? ''}</span>
+                  <span style={{ color: '#c084fc' }}>{run.mutatorsSelected?.length ?? 0}◆</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <p style={{ ...mono, color: '#ff6644', fontSize: '11px', margin: '4px 0 0', textAlign: 'center', minHeight: '14px' }}>
+          {message ?? ''}
+        </p>
+        <div style={{ display: 'flex', gap: '12px', justifyContent: 'center' }}>
+          {user && (
+            <button onClick={() => { signOut(); setMessage(null) }} style={button}>
+              SIGN OUT
+            </button>
+          )}
+          <button onClick={onClose} style={{ ...button, border: '1px solid #7b2fff88', color: '#ffffffcc' }}>
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
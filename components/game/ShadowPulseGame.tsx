@@ -4,25 +4,121 @@ import { useRef, useEffect, useCallback, useState } from 'react'
 import { GameState, createGameState, updateGame, renderGame, resetGame } from '@/lib/game/engine'
 import { InputState } from '@/lib/game/player'
 import { audio } from '@/lib/game/audio'
-import { GAME_WIDTH, GAME_HEIGHT, QUESTION_FEEDBACK_DURATION as QUIZ_FEEDBACK_MS, LETTER_FLASH_GRADES, DifficultyLevel } from '@/lib/game/settings'
-import { DailyEntry } from '@/lib/game/renderer'
-import { TOPICS } from '@/lib/game/questions'
+import { subscribe } from '@/lib/game/events'
+import { followMusic, playEventSound } from '@/lib/game/sfx'
+import { GAME_WIDTH, GAME_HEIGHT, LETTER_FLASH_GRADES, MAX_FRAME_TIME, SIM_DT, DifficultyLevel } from '@/lib/game/settings'
+import { FixedStepClock, PositionSnapshot, createFixedStepClock, drawInterpolated, interpolationAlpha, snapshotPositions, tickClock } from '@/lib/game/timestep'
+import { pauseMenuRects, pointInRect } from '@/lib/game/renderer'
+import { DailyEntry } from '@/lib/game/scene'
+import { MAX_TYPED_ANSWER, findQuestion, getTopics, questionLabel } from '@/lib/game/questions'
+import { PAD, PadSnapshot, padButtonKey, padContext, snapshotPad, stickVector, typedPadKeys } from '@/lib/game/gamepad'
+import {
+  TouchLayout,
+  createTouchState,
+  drawTouchControls,
+  hitButton,
+  hitPause,
+  joystickVector,
+  tapKey,
+  touchLayout,
+} from '@/lib/game/touch'
+import { ACTION_COLORS, KeyMap, actionForKey, fromDefaultKey, isActionHeld, keyLabel, loadKeymap, saveKeymap } from '@/lib/game/keymap'
+import { QualitySetting, createAutoQuality, loadQualitySetting, saveQualitySetting, setQualityLevel, trackFrameTime } from '@/lib/game/quality'
+import { RENDER_SCALES, RenderScale, Viewport, computeViewport, loadRenderScale, saveRenderScale, toViewport } from '@/lib/game/viewport'
+import { AudioSettings, loadAudioSettings, mixLevels, saveAudioSettings } from '@/lib/game/mixer'
+import AudioMixer from '@/components/game/AudioMixer'
+import ControlsSettings from '@/components/game/ControlsSettings'
+import MyRuns from '@/components/game/MyRuns'
+import UnlockTree from '@/components/game/UnlockTree'
+import TrophyGallery from '@/components/game/TrophyGallery'
+import { useIsMobile } from '@/hooks/use-mobile'
+import { QuizAttempt, loadLearningRecord, storeQuizAttempts } from '@/lib/game/learning'
+import { TopicPackIssue, importTopicPack, registerStoredTopicPacks, removeTopicPack, saveTopicPack } from '@/lib/game/topic-packs'
 import { AssetCache, loadAssets } from '@/lib/game/assetLoader'
+import { SavedRun, clearSavedRun, isSafePoint, loadSavedRun, restoreSavedRun, saveRun } from '@/lib/game/savegame'
+import {
+  Replay,
+  ReplayRecorder,
+  ReplayPlayer,
+  createReplayRecorder,
+  recordFrame,
+  finishReplay,
+  createReplayPlayer,
+  advanceReplay,
+  encodeReplay,
+  decodeReplay,
+} from '@/lib/game/replay'
 import {
   submitDailyChallengeScore,
   getDailyLeaderboard,
   getAllTimeLeaderboard,
   getOrCreatePlayerId,
+  getOrCreatePlayerKey,
   AllTimeEntry,
 } from '@/lib/supabase/daily-challenge'
+import { syncLearningRecord } from '@/lib/supabase/learning'
+import { buildLoadout, creditRun, loadProgression, shardsForRun } from '@/lib/game/progression'
+import { loadAchievements, storeAchievementUnlocks, storeRunAchievements } from '@/lib/game/achievements'
+import { pushProgression, syncProgression } from '@/lib/supabase/progression'
+import { saveScore } from '@/lib/game/scores'
+import { getCurrentUser, linkAnonymousHistory, onAuthChange } from '@/lib/supabase/auth'
+import type { User } from '@supabase/supabase-js'
+import { getTopDamageSource } from '@/lib/game/enemy'
+import {
+  ClassMembership,
+  QuizAnswerLog,
+  getClassMembership,
+  joinClass,
+  leaveClass,
+  logQuizAnswers,
+} from '@/lib/supabase/classroom'
 
 const HEBREW_RANGE = /[\u05d0-\u05ea]/
+const REPLAY_SPEEDS = [1, 2, 4]
+// Characters a typed quiz answer accepts, by question kind
+const TYPED_ANSWER_CHARS = { spelling: /^[a-z' ]$/, number: /^[0-9.-]$/ }
+
+/** Attach the topic, grade and label a teacher needs to each answered question. */
+function toAnswerLogs(attempts: QuizAttempt[]): QuizAnswerLog[] {
+  return attempts.flatMap(a => {
+    const found = findQuestion(a.questionId)
+    if (!found) return []
+    const { topic, question } = found
+    return [{
+      questionId: a.questionId,
+      questionLabel: questionLabel(question),
+      topicId: topic.id,
+      grade: question.grade,
+      difficulty: question.difficulty,
+      correct: a.correct,
+      firstTry: a.firstTry,
+    }]
+  })
+}
+
+function downloadReplay(replay: Replay): void {
+  const blob = new Blob([encodeReplay(replay)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `shadowpulse-${replay.isDailyChallenge ? `daily-${replay.challengeDate}` : 'run'}-${replay.finalScore}.json`
+  a.click()
+  URL.revokeObjectURL(url)
+}
 
 export default function ShadowPulseGame() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const gameStateRef = useRef<GameState | null>(null)
   const assetsRef = useRef<AssetCache | null>(null)
   const [scale, setScale] = useState(1)
+  // Touch controls: shown on narrow screens, or as soon as a touch lands (tablets are wide)
+  const isMobile = useIsMobile()
+  const [touchSeen, setTouchSeen] = useState(false)
+  const touchLayoutRef = useRef<TouchLayout | null>(null)
+  const touchRef = useRef(createTouchState())
+  const answerInputRef = useRef<HTMLInputElement>(null)
+  const [keymap, setKeymap] = useState<KeyMap>(loadKeymap)
+  const keymapRef = useRef(keymap)
   const [selectedGrade, setSelectedGrade] = useState<number>(() =>
     parseInt(typeof window !== 'undefined' ? localStorage.getItem('shadowpulse_grade') ?? '1' : '1', 10)
   )
@@ -35,14 +131,52 @@ export default function ShadowPulseGame() {
   const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyLevel>(() =>
     (typeof window !== 'undefined' ? localStorage.getItem('shadowpulse_difficulty') as DifficultyLevel : null) ?? 'normal'
   )
-
+  const [qualitySetting, setQualitySetting] = useState<QualitySetting>(loadQualitySetting)
+  const qualitySettingRef = useRef(qualitySetting)
+  const autoQualityRef = useRef(createAutoQuality())
+  const [renderScale, setRenderScale] = useState<RenderScale>(loadRenderScale)
+  const [viewport, setViewport] = useState<Viewport>(() => computeViewport(GAME_WIDTH, GAME_HEIGHT))
+  const viewportRef = useRef(viewport)
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings)
+  const [showAudio, setShowAudio] = useState(false)
+  const showAudioRef = useRef(showAudio)
+
+  // Fit the game canvas to the window at full device resolution (also re-run when
+  // a window moves to a screen with a different pixel ratio, which fires resize)
   useEffect(() => {
-    const update = () =>
+    const update = () => {
       setScale(Math.min(window.innerWidth / GAME_WIDTH, window.innerHeight / GAME_HEIGHT))
+      setViewport(computeViewport(window.innerWidth, window.innerHeight, window.devicePixelRatio || 1, renderScale))
+    }
     update()
     window.addEventListener('resize', update)
     return () => window.removeEventListener('resize', update)
-  }, [])
+  }, [renderScale])
+
+  useEffect(() => {
+    keymapRef.current = keymap
+    viewportRef.current = viewport
+    touchLayoutRef.current = isMobile || touchSeen ? touchLayout(isMobile, keymap, viewport) : null
+  }, [isMobile, touchSeen, keymap, viewport])
+
+  // A fixed preset applies at once; auto mode re-picks from frame times in the game loop
+  useEffect(() => {
+    qualitySettingRef.current = qualitySetting
+    setQualityLevel(qualitySetting === 'auto' ? autoQualityRef.current.level : qualitySetting)
+  }, [qualitySetting])
+
+  // Volume changes apply immediately — music stays off in Classroom Mode unless allowed there
+  useEffect(() => {
+    audio.setMix(mixLevels(audioSettings, quizEnabled))
+    saveAudioSettings(audioSettings)
+  }, [audioSettings, quizEnabled])
+
+  useEffect(() => {
+    showAudioRef.current = showAudio
+  }, [showAudio])
+
+  // Game sounds come off the engine's event bus while the game is on screen
+  useEffect(() => subscribe(playEventSound), [])
 
   // Preload sprite assets on mount (non-blocking — game renders with fallback until ready)
   useEffect(() => {
@@ -67,24 +201,87 @@ export default function ShadowPulseGame() {
   const keysRef = useRef<Set<string>>(new Set())
   const animFrameRef = useRef<number>(0)
   const lastTimeRef = useRef<number>(0)
+  const clockRef = useRef<FixedStepClock>(createFixedStepClock())
+  const prevPositionsRef = useRef<PositionSnapshot | null>(null) // positions before the latest step, for interpolation
   const [started, setStarted] = useState(false)
   const [dailyLeaderboard, setDailyLeaderboard] = useState<DailyEntry[]>([])
   const scoreSubmittedRef = useRef(false)
+  // Replay: recorder for the live run, the finished recording, and playback
+  const recorderRef = useRef<ReplayRecorder | null>(null)
+  const lastReplayRef = useRef<Replay | null>(null)
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null)
+  const replaySpeedRef = useRef(1)
+  const liveStateRef = useRef<GameState | null>(null) // finished run to return to after watching
+  const wasSafeRef = useRef(true) // previous frame was a save point — the run is saved on arriving at one
+
+  /** Make `state` the live run and start recording it. */
+  const beginRun = useCallback((state: GameState) => {
+    // Quiz picks lean on the student's history; attached before recording so the replay carries it
+    if (state.quizEnabled && !state.isDailyChallenge) state.learningRecord = loadLearningRecord()
+    state.achievementRecord = loadAchievements()
+    gameStateRef.current = state
+    recorderRef.current = createReplayRecorder(state)
+    lastReplayRef.current = null
+    replayPlayerRef.current = null
+    liveStateRef.current = null
+    scoreSubmittedRef.current = false
+    wasSafeRef.current = true
+    clearSavedRun()
+  }, [])
 
-  const startGame = useCallback((isDailyChallenge = false) => {
+  /** Continue a saved run — it opens on the pause menu and keeps recording into its replay. */
+  const resumeRun = useCallback((saved: SavedRun) => {
     audio.init()
     audio.resume()
-    gameStateRef.current = createGameState(isDailyChallenge, selectedGrade, quizEnabled, selectedTopicId, selectedDifficulty)
+    gameStateRef.current = restoreSavedRun(saved)
+    recorderRef.current = saved.recorder
+    lastReplayRef.current = null
+    replayPlayerRef.current = null
+    liveStateRef.current = null
     scoreSubmittedRef.current = false
+    wasSafeRef.current = true
+    setDailyLeaderboard([])
+    setStarted(true)
+  }, [])
+
+  const startGame = useCallback((isDailyChallenge = false) => {
+    audio.init()
+    audio.resume()
+    // Unlocks bought on the title screen come along (createGameState drops them for Daily)
+    const loadout = buildLoadout(loadProgression())
+    beginRun(createGameState(isDailyChallenge, selectedGrade, quizEnabled, selectedTopicId, selectedDifficulty, undefined, loadout))
     setDailyLeaderboard([])
     setStarted(true)
-  }, [selectedGrade, quizEnabled, selectedTopicId, selectedDifficulty])
+  }, [beginRun, selectedGrade, quizEnabled, selectedTopicId, selectedDifficulty])
+
+  /** Play the same run again — with today's unlocks, not the ones it started with. */
+  const restartRun = useCallback((state: GameState) => {
+    beginRun(resetGame(state, buildLoadout(loadProgression())))
+  }, [beginRun])
+
+  const watchReplay = useCallback((replay: Replay) => {
+    const player = createReplayPlayer(replay)
+    replayPlayerRef.current = player
+    replaySpeedRef.current = 1
+    gameStateRef.current = player.state
+  }, [])
+
+  const exitReplay = useCallback(() => {
+    replayPlayerRef.current = null
+    if (liveStateRef.current) {
+      gameStateRef.current = liveStateRef.current
+      liveStateRef.current = null
+    } else {
+      setStarted(false)
+    }
+  }, [])
 
   // Input handling
   useEffect(() => {
     if (!started) return
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target === answerInputRef.current) return // the on-screen keyboard's input handles itself
       e.preventDefault()
       audio.resume()
 
@@ -104,33 +301,72 @@ export default function ShadowPulseGame() {
         // don't return — process the English key normally
       }
 
-      const key = e.key.toLowerCase()
+      pressKey(e.key.toLowerCase())
+    }
+
+    /** Key press shared by the keyboard and the gamepad. `key` is a lower-cased KeyboardEvent.key. */
+    const pressKey = (key: string) => {
       const wasPressed = keysRef.current.has(key)
       keysRef.current.add(key)
 
       const input = inputRef.current
+      const keymap = keymapRef.current
+      const action = actionForKey(keymap, key)
+
+      // Audio overlay open from the pause menu — it takes the keyboard itself; a gamepad's B closes it
+      if (showAudioRef.current) {
+        if (key === 'escape' && !wasPressed) setShowAudio(false)
+        return
+      }
+
+      const toggleMute = () => setAudioSettings(a => ({ ...a, muted: !a.muted }))
+
+      // Replay playback — only speed, mute and exit, the recording drives everything else
+      if (replayPlayerRef.current) {
+        if (key === 'escape' && !wasPressed) exitReplay()
+        if (key === 'm' && !wasPressed) toggleMute()
+        if (key === 'f' && !wasPressed) {
+          const i = REPLAY_SPEEDS.indexOf(replaySpeedRef.current)
+          replaySpeedRef.current = REPLAY_SPEEDS[(i + 1) % REPLAY_SPEEDS.length]
+        }
+        return
+      }
 
-      // A/B/C/D for vocabulary quiz phase
+      // Quiz answers — each question kind has its own keys (graded by the engine)
       const quizState = gameStateRef.current
-      if (quizState?.questionPhase && quizState.questionResult === 'pending' && !wasPressed) {
-        const answerMap: Record<string, number> = { a: 0, b: 1, c: 2, d: 3 }
-        if (key in answerMap) {
-          const chosen = answerMap[key]
-          if (chosen === quizState.currentQuestion?.correctIndex) {
-            quizState.questionResult = 'correct'
-            quizState.questionFeedbackTimer = 1000
-          } else if (quizState.questionRetryAvailable) {
-            quizState.questionResult = 'wrong-first'
-            quizState.questionRetryAvailable = false
-            quizState.questionFeedbackTimer = QUIZ_FEEDBACK_MS
-          } else {
-            quizState.questionResult = 'wrong-final'
-            quizState.questionFeedbackTimer = QUIZ_FEEDBACK_MS
+      const question = quizState?.questionPhase && quizState.questionResult === 'pending' ? quizState.currentQuestion : null
+      if (question) {
+        switch (question.kind) {
+          case 'true-false':
+            if ((key === 't' || key === 'f') && !wasPressed) {
+              input.quizAnswer = key === 't'
+              return
+            }
+            break
+          case 'spelling':
+          case 'number': {
+            // Typed answers swallow every key so letters don't double as game controls
+            const allowed = TYPED_ANSWER_CHARS[question.kind]
+            const typed = key === 'backspace' ? 'Backspace' : key === 'enter' ? 'Enter' : allowed.test(key) ? key : null
+            if (typed && (typed === 'Backspace' || !wasPressed)) {
+              input.quizKeys = [...(input.quizKeys ?? []), typed]
+            }
+            return
+          }
+          default: {
+            // 4-option kinds: A/B/C/D
+            const answerMap: Record<string, number> = { a: 0, b: 1, c: 2, d: 3 }
+            if (key in answerMap && !wasPressed) {
+              input.quizAnswer = answerMap[key]
+              return
+            }
           }
-          return
         }
       }
 
+      // M — mute (typed quiz answers returned above, so a spelled M never lands here)
+      if (key === 'm' && !wasPressed) toggleMute()
+
       // ESC — toggle pause (blocked during gameOver, mutator selection, quiz, wave events)
       if (key === 'escape' && !wasPressed) {
         const s = gameStateRef.current
@@ -143,96 +379,86 @@ export default function ShadowPulseGame() {
       // Pause menu navigation — block all other input while paused
       if (gameStateRef.current?.paused) {
         const s = gameStateRef.current
-        if ((key === 'arrowup' || key === 'w') && !wasPressed)
+        if (action === 'up' && !wasPressed)
           s.pauseMenuSelection = Math.max(0, s.pauseMenuSelection - 1)
-        if ((key === 'arrowdown' || key === 's') && !wasPressed)
-          s.pauseMenuSelection = Math.min(2, s.pauseMenuSelection + 1)
+        if (action === 'down' && !wasPressed)
+          s.pauseMenuSelection = Math.min(3, s.pauseMenuSelection + 1)
 
         const confirmSel = (sel: number) => {
           if (sel === 0) { s.paused = false; s.pauseMenuSelection = 0 }
-          else if (sel === 1) { gameStateRef.current = resetGame(s) }
-          else if (sel === 2) { setStarted(false) }
+          else if (sel === 1) { restartRun(s) }
+          else if (sel === 2) { setShowAudio(true) }
+          else if (sel === 3) { setStarted(false) }
         }
         if (key === 'enter' && !wasPressed) confirmSel(s.pauseMenuSelection)
         if (key === '1' && !wasPressed) confirmSel(0)
         if (key === '2' && !wasPressed) confirmSel(1)
         if (key === '3' && !wasPressed) confirmSel(2)
+        if (key === '4' && !wasPressed) confirmSel(3)
         return
       }
 
       // Movement
-      input.up = keysRef.current.has('w') || keysRef.current.has('arrowup')
-      input.down = keysRef.current.has('s') || keysRef.current.has('arrowdown')
-      input.left = keysRef.current.has('a') || keysRef.current.has('arrowleft')
-      input.right = keysRef.current.has('d') || keysRef.current.has('arrowright')
+      input.up = isActionHeld(keymap, keysRef.current, 'up')
+      input.down = isActionHeld(keymap, keysRef.current, 'down')
+      input.left = isActionHeld(keymap, keysRef.current, 'left')
+      input.right = isActionHeld(keymap, keysRef.current, 'right')
 
       // Dash (on press, not hold)
-      if ((key === ' ' || key === 'shift') && !wasPressed) {
+      if (action === 'dash' && !wasPressed) {
         input.dash = true
       }
 
       // Light attack (on press)
-      if (key === 'j' && !wasPressed) {
+      if (action === 'lightAttack' && !wasPressed) {
         input.lightAttack = true
       }
 
       // Heavy attack (hold)
-      if (key === 'k' && !wasPressed) {
+      if (action === 'heavyAttack' && !wasPressed) {
         input.heavyAttack = true
       }
 
       // Pulse wave (on press)
-      if (key === 'l' && !wasPressed) {
+      if (action === 'pulseWave' && !wasPressed) {
         input.pulseWave = true
       }
 
       // Time flicker (on press)
-      if (key === ';' && !wasPressed) {
+      if (action === 'timeFlicker' && !wasPressed) {
         input.timeFlicker = true
       }
 
-      // Letter flash (Grade 1–4) — triggered on any control key press
-      if (!wasPressed) {
+      // Letter flash (Grade 1–4) — triggered on any bound control key press
+      if (!wasPressed && action && key === keymap[action]) {
         const flashState = gameStateRef.current
-        const canvas = canvasRef.current
-        if (flashState && canvas && flashState.quizEnabled && LETTER_FLASH_GRADES.includes(flashState.selectedGrade)) {
-          const FLASH_COLORS: Record<string, string> = {
-            j: '#cc99ff', k: '#ffaa22', l: '#44ccff', ';': '#ffffff',
-            w: '#88ff88', a: '#88ff88', s: '#88ff88', d: '#88ff88',
-            ' ': '#ffdd44',
-          }
-          const flashKey = e.key === ' ' ? ' ' : key
-          if (flashKey in FLASH_COLORS) {
-            flashState.letterFlashes.push({
-              letter: flashKey === ' ' ? 'SPACE' : flashKey.toUpperCase(),
-              x: canvas.width / 2 + (Math.random() - 0.5) * 200,
-              y: canvas.height * 0.4,
-              age: 0,
-              color: FLASH_COLORS[flashKey],
-            })
-          }
+        const color = ACTION_COLORS[action]
+        if (flashState && color && flashState.quizEnabled && LETTER_FLASH_GRADES.includes(flashState.selectedGrade)) {
+          flashState.letterFlashes.push({
+            letter: key === ' ' ? 'SPACE' : keyLabel(key),
+            x: GAME_WIDTH / 2 + (Math.random() - 0.5) * 200,
+            y: GAME_HEIGHT * 0.4,
+            age: 0,
+            color,
+          })
         }
       }
 
       // Mutator selection (1, 2, 3 keys)
       const state = gameStateRef.current
       if (state?.mutatorSelectionActive && !wasPressed) {
-        if (key === '1') {
-          state.mutatorSelectionInput = 1
-        } else if (key === '2') {
-          state.mutatorSelectionInput = 2
-        } else if (key === '3') {
-          state.mutatorSelectionInput = 3
+        if (key === '1' || key === '2' || key === '3') {
+          input.mutatorChoice = parseInt(key, 10)
         }
       }
 
       // Mutator peek (Tab)
-      if (key === 'tab' && !wasPressed) {
+      if (action === 'mutatorPeek' && !wasPressed) {
         inputRef.current.mutatorPeek = true
       }
 
       // Consumable activate (Q)
-      if (key === 'q' && !wasPressed) {
+      if (action === 'consumable' && !wasPressed) {
         input.consumableActivate = true
       }
 
@@ -249,40 +475,226 @@ export default function ShadowPulseGame() {
       // Restart
       if (key === 'r' && gameStateRef.current?.gameOver) {
         const wasDaily = gameStateRef.current.isDailyChallenge
-        gameStateRef.current = resetGame(gameStateRef.current)
-        scoreSubmittedRef.current = false
+        restartRun(gameStateRef.current)
         if (wasDaily) setDailyLeaderboard([])
       }
+
+      // Watch / export the run that just ended
+      if (gameStateRef.current?.gameOver && lastReplayRef.current && !wasPressed) {
+        if (key === 'v') {
+          liveStateRef.current = gameStateRef.current
+          watchReplay(lastReplayRef.current)
+        } else if (key === 'e') {
+          downloadReplay(lastReplayRef.current)
+        }
+      }
     }
 
-    const handleKeyUp = (e: KeyboardEvent) => {
-      const key = e.key.toLowerCase()
+    const handleKeyUp = (e: KeyboardEvent) => releaseKey(e.key.toLowerCase())
+
+    const releaseKey = (key: string) => {
       keysRef.current.delete(key)
 
       const input = inputRef.current
+      const keymap = keymapRef.current
+      const action = actionForKey(keymap, key)
 
-      input.up = keysRef.current.has('w') || keysRef.current.has('arrowup')
-      input.down = keysRef.current.has('s') || keysRef.current.has('arrowdown')
-      input.left = keysRef.current.has('a') || keysRef.current.has('arrowleft')
-      input.right = keysRef.current.has('d') || keysRef.current.has('arrowright')
+      input.up = isActionHeld(keymap, keysRef.current, 'up')
+      input.down = isActionHeld(keymap, keysRef.current, 'down')
+      input.left = isActionHeld(keymap, keysRef.current, 'left')
+      input.right = isActionHeld(keymap, keysRef.current, 'right')
 
-      if (key === 'k') {
+      if (action === 'heavyAttack') {
         input.heavyAttack = false
         input.heavyRelease = true
       }
 
-      if (key === 'tab') {
+      if (action === 'mutatorPeek') {
         input.mutatorPeek = false
       }
     }
 
+    // Gamepad — the API has no button events, so poll once per frame. Each button
+    // press is replayed through pressKey as the key it stands for on the current screen.
+    const padHeld = new Map<number, string>() // button → key it pressed, so the release matches
+    let prevPad: PadSnapshot | null = null
+    let padFrame = 0
+    const pollPad = () => {
+      padFrame = requestAnimationFrame(pollPad)
+      const pad = navigator.getGamepads?.().find(p => p?.connected) ?? null
+      if (!pad) {
+        prevPad = null
+        return
+      }
+      const snap = snapshotPad(pad)
+      const state = gameStateRef.current
+      const context = padContext(state, replayPlayerRef.current !== null)
+      const input = inputRef.current
+
+      snap.buttons.forEach((down, button) => {
+        const was = prevPad?.buttons[button] ?? false
+        if (down && !was) {
+          audio.resume()
+          if (context === 'quiz-typed' && state?.currentQuestion && state.questionResult === 'pending') {
+            const keys = typedPadKeys(button, state.questionTyped, state.currentQuestion)
+            if (keys.length > 0) input.quizKeys = [...(input.quizKeys ?? []), ...keys]
+            return
+          }
+          const key = padButtonKey(context, button)
+          if (key) {
+            const bound = context === 'play' ? fromDefaultKey(keymapRef.current, key) : key
+            padHeld.set(button, bound)
+            pressKey(bound)
+          }
+        } else if (!down && was) {
+          const key = padHeld.get(button)
+          if (key) {
+            padHeld.delete(button)
+            releaseKey(key)
+          }
+        }
+      })
+
+      input.move = context === 'play' ? stickVector(snap.axes) ?? undefined : undefined
+      prevPad = snap
+    }
+
+    // Touch — joystick and ability buttons during play, direct taps on overlays.
+    // Listeners are added by hand because React's touch handlers are passive and
+    // can't preventDefault the page scroll / zoom.
+    const canvas = canvasRef.current
+    const touch = touchRef.current
+    const toGame = (t: Touch) => toViewport(viewportRef.current, canvas!.getBoundingClientRect(), t.clientX, t.clientY)
+    const holdKey = (id: number, key: string) => {
+      touch.held.set(id, key)
+      pressKey(key)
+    }
+
+    const handleTouchStart = (e: TouchEvent) => {
+      e.preventDefault()
+      audio.resume()
+      setTouchSeen(true)
+      const layout = touchLayoutRef.current ?? touchLayout(false, keymapRef.current, viewportRef.current)
+      const state = gameStateRef.current
+      const context = padContext(state, replayPlayerRef.current !== null)
+      if (context !== 'quiz-typed') answerInputRef.current?.blur()
+
+      for (const t of Array.from(e.changedTouches)) {
+        const p = toGame(t)
+        if ((context === 'play' || context === 'replay') && hitPause(layout, p)) {
+          holdKey(t.identifier, layout.pause.key)
+        } else if (context === 'play') {
+          const button = hitButton(layout, p)
+          if (button) {
+            holdKey(t.identifier, button.key)
+          } else if (touch.stickId === null && p.x < viewportRef.current.w / 2) {
+            touch.stickId = t.identifier
+            touch.stickOrigin = p
+            touch.stickPos = p
+          }
+        } else if (context === 'quiz-typed') {
+          // Bring up the device keyboard; its input events feed quizKeys below
+          const el = answerInputRef.current
+          if (el && state?.currentQuestion) {
+            el.inputMode = state.currentQuestion.kind === 'number' ? 'decimal' : 'text'
+            el.value = state.questionTyped
+            el.focus()
+          }
+        } else if (state) {
+          const key = tapKey(state, context, p, viewportRef.current)
+          if (key) holdKey(t.identifier, key)
+        }
+      }
+    }
+
+    const handleTouchMove = (e: TouchEvent) => {
+      e.preventDefault()
+      const layout = touchLayoutRef.current
+      for (const t of Array.from(e.changedTouches)) {
+        if (t.identifier !== touch.stickId || !touch.stickOrigin || !layout) continue
+        touch.stickPos = toGame(t)
+        inputRef.current.move = joystickVector(layout, touch.stickOrigin, touch.stickPos) ?? undefined
+      }
+    }
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      e.preventDefault()
+      for (const t of Array.from(e.changedTouches)) {
+        if (t.identifier === touch.stickId) {
+          touch.stickId = null
+          touch.stickOrigin = null
+          touch.stickPos = null
+          inputRef.current.move = undefined
+        }
+        const key = touch.held.get(t.identifier)
+        if (key) {
+          touch.held.delete(t.identifier)
+          releaseKey(key)
+        }
+      }
+    }
+
+    // Typed quiz answers from the device keyboard — send the edit as Backspaces + new characters
+    const answerInput = answerInputRef.current
+    let lastAnswer = ''
+    const handleAnswerFocus = () => { lastAnswer = answerInput?.value ?? '' }
+    const handleAnswerInput = () => {
+      const question = gameStateRef.current?.currentQuestion
+      if (!answerInput || (question?.kind !== 'spelling' && question?.kind !== 'number')) return
+      const allowed = TYPED_ANSWER_CHARS[question.kind]
+      const value = Array.from(answerInput.value.toLowerCase()).filter(c => allowed.test(c)).join('')
+      let common = 0
+      while (common < Math.min(value.length, lastAnswer.length) && value[common] === lastAnswer[common]) common++
+      const keys = [...Array(lastAnswer.length - common).fill('Backspace'), ...value.slice(common)]
+      if (keys.length > 0) inputRef.current.quizKeys = [...(inputRef.current.quizKeys ?? []), ...keys]
+      answerInput.value = value
+      lastAnswer = value
+    }
+    const handleAnswerKey = (e: KeyboardEvent) => {
+      if (e.key !== 'Enter') return
+      e.preventDefault()
+      inputRef.current.quizKeys = [...(inputRef.current.quizKeys ?? []), 'Enter']
+    }
+
     window.addEventListener('keydown', handleKeyDown)
     window.addEventListener('keyup', handleKeyUp)
+    padFrame = requestAnimationFrame(pollPad)
+    canvas?.addEventListener('touchstart', handleTouchStart, { passive: false })
+    canvas?.addEventListener('touchmove', handleTouchMove, { passive: false })
+    canvas?.addEventListener('touchend', handleTouchEnd, { passive: false })
+    canvas?.addEventListener('touchcancel', handleTouchEnd, { passive: false })
+    answerInput?.addEventListener('focus', handleAnswerFocus)
+    answerInput?.addEventListener('input', handleAnswerInput)
+    answerInput?.addEventListener('keydown', handleAnswerKey)
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown)
       window.removeEventListener('keyup', handleKeyUp)
+      cancelAnimationFrame(padFrame)
+      canvas?.removeEventListener('touchstart', handleTouchStart)
+      canvas?.removeEventListener('touchmove', handleTouchMove)
+      canvas?.removeEventListener('touchend', handleTouchEnd)
+      canvas?.removeEventListener('touchcancel', handleTouchEnd)
+      answerInput?.removeEventListener('focus', handleAnswerFocus)
+      answerInput?.removeEventListener('input', handleAnswerInput)
+      answerInput?.removeEventListener('keydown', handleAnswerKey)
+    }
+  }, [started, restartRun, watchReplay, exitReplay])
+
+  // Hiding the tab pauses and saves — the loop stops running in the background
+  useEffect(() => {
+    if (!started) return
+    const handleVisibility = () => {
+      const s = gameStateRef.current
+      if (document.visibilityState !== 'hidden' || !s || replayPlayerRef.current || s.gameOver) return
+      if (!s.mutatorSelectionActive && !s.questionPhase && !s.pendingWaveEvent) s.paused = true
+      if (isSafePoint(s)) {
+        saveRun(s, recorderRef.current)
+        wasSafeRef.current = true
+      }
     }
+    document.addEventListener('visibilitychange', handleVisibility)
+    return () => document.removeEventListener('visibilitychange', handleVisibility)
   }, [started])
 
   // Game loop
@@ -294,52 +706,116 @@ export default function ShadowPulseGame() {
     if (!ctx) return
 
     lastTimeRef.current = performance.now()
+    clockRef.current = createFixedStepClock()
+    prevPositionsRef.current = null
 
     const gameLoop = (time: number) => {
       const state = gameStateRef.current
       if (!state) return
 
-      let dt = (time - lastTimeRef.current) / 1000
+      const frameMs = time - lastTimeRef.current
+      const frameDt = Math.min(frameMs / 1000, MAX_FRAME_TIME)
       lastTimeRef.current = time
+      if (qualitySettingRef.current === 'auto' && !state.paused) {
+        setQualityLevel(trackFrameTime(autoQualityRef.current, frameMs))
+      }
+      followMusic(state)
+
+      // Replay playback — simulate recorded frames instead of live input
+      const player = replayPlayerRef.current
+      if (player) {
+        advanceReplay(player, frameDt, replaySpeedRef.current)
+        renderGame(state, ctx, [], assetsRef.current, { progress: player.played / Math.max(1, player.total), speed: replaySpeedRef.current }, keymapRef.current, viewportRef.current)
+        if (touchLayoutRef.current) drawTouchControls(ctx, touchLayoutRef.current, touchRef.current, false)
+        animFrameRef.current = requestAnimationFrame(gameLoop)
+        return
+      }
 
-      // Clamp dt
-      dt = Math.min(dt, 1 / 30)
-
-      // Process input
-      const input = { ...inputRef.current }
+      // Fixed-timestep update: as many SIM_DT steps as the banked frame time covers
+      const steps = tickClock(clockRef.current, frameDt)
+      for (let i = 0; i < steps; i++) {
+        if (i === steps - 1) prevPositionsRef.current = snapshotPositions(state)
+        const input = { ...inputRef.current }
+
+        // Recorded first — updateGame may mutate the input it is given
+        if (recorderRef.current) recordFrame(recorderRef.current, state, input, SIM_DT)
+        updateGame(state, input, SIM_DT)
+        if (state.gameOver && recorderRef.current) {
+          lastReplayRef.current = finishReplay(recorderRef.current, state)
+          recorderRef.current = null
+          // Run history — under the account when signed in, the anonymous player id otherwise
+          saveScore({
+            score: state.score,
+            waveReached: state.wave,
+            levelReached: state.level,
+            durationSeconds: Math.round(state.runTime),
+            mutatorsSelected: state.activeMutators.map(m => m.id),
+            deathCause: getTopDamageSource(state.damageByEnemyType),
+          }, getOrCreatePlayerId())
+          // Shards for the unlock tree, mirrored to the account when signed in
+          const progression = creditRun(shardsForRun(state))
+          getCurrentUser().then(u => { if (u) pushProgression(u.id, progression) })
+          storeRunAchievements(state)
+          clearSavedRun()
+        }
 
-      // Update
-      updateGame(state, input, dt)
+        // One-shot inputs reach exactly one step
+        inputRef.current.dash = false
+        inputRef.current.lightAttack = false
+        inputRef.current.heavyRelease = false
+        inputRef.current.pulseWave = false
+        inputRef.current.timeFlicker = false
+        inputRef.current.consumableActivate = false
+        inputRef.current.acceptWaveEvent = false
+        inputRef.current.rejectWaveEvent = false
+        inputRef.current.mutatorChoice = undefined
+        inputRef.current.quizAnswer = undefined
+        inputRef.current.quizKeys = undefined
+      }
 
-      // Clear one-shot inputs
-      inputRef.current.dash = false
-      inputRef.current.lightAttack = false
-      inputRef.current.heavyRelease = false
-      inputRef.current.pulseWave = false
-      inputRef.current.timeFlicker = false
-      inputRef.current.consumableActivate = false
-      inputRef.current.acceptWaveEvent = false
-      inputRef.current.rejectWaveEvent = false
+      // Save on arriving at a safe point (pause, wave break) so a closed tab can pick the run back up
+      const safe = isSafePoint(state)
+      if (safe && !wasSafeRef.current) saveRun(state, recorderRef.current)
+      wasSafeRef.current = safe
+
+      // Persist achievements as they unlock
+      if (state.achievementUnlocks.length > 0) storeAchievementUnlocks(state.achievementUnlocks.splice(0))
+
+      // Persist answered quiz questions to the learning record (and mirror to Supabase),
+      // and log them to the teacher's dashboard when the student has joined a class
+      if (state.quizAttempts.length > 0) {
+        const attempts = state.quizAttempts.splice(0)
+        const membership = getClassMembership()
+        const record = storeQuizAttempts(attempts)
+        const owner = membership
+          ? { studentId: membership.studentId, studentKey: membership.studentKey }
+          : { playerId: getOrCreatePlayerId(), playerKey: getOrCreatePlayerKey() }
+        syncLearningRecord(owner, record, attempts.map(a => a.questionId))
+        if (membership) logQuizAnswers(membership, toAnswerLogs(attempts))
+      }
 
       // Submit daily score on game over (once)
-      if (state.gameOver && state.isDailyChallenge && !scoreSubmittedRef.current) {
+      if (state.gameOver && state.isDailyChallenge && !scoreSubmittedRef.current && lastReplayRef.current) {
         scoreSubmittedRef.current = true
         const playerId = getOrCreatePlayerId()
         const playerName = localStorage.getItem('shadowpulse_player_name') || 'Anonymous'
         submitDailyChallengeScore({
-          date: state.challengeDate,
           playerId,
+          playerKey: getOrCreatePlayerKey(),
           playerName,
-          score: state.score,
-          waveReached: state.wave,
-          seed: state.challengeDate,
+          replay: lastReplayRef.current,
         }).then(() => {
           getDailyLeaderboard(state.challengeDate, playerId).then(setDailyLeaderboard)
         })
       }
 
       // Render
-      renderGame(state, ctx, dailyLeaderboard, assetsRef.current)
+      drawInterpolated(state, prevPositionsRef.current, interpolationAlpha(clockRef.current), () => {
+        renderGame(state, ctx, dailyLeaderboard, assetsRef.current, undefined, keymapRef.current, viewportRef.current)
+      })
+      if (touchLayoutRef.current && padContext(state, false) === 'play') {
+        drawTouchControls(ctx, touchLayoutRef.current, touchRef.current, true)
+      }
 
       animFrameRef.current = requestAnimationFrame(gameLoop)
     }
@@ -356,6 +832,11 @@ export default function ShadowPulseGame() {
       <TitleScreen
         onStart={() => startGame(false)}
         onStartDaily={() => startGame(true)}
+        onContinue={resumeRun}
+        onWatchReplay={(replay) => {
+          watchReplay(replay)
+          setStarted(true)
+        }}
         scale={scale}
         selectedGrade={selectedGrade}
         onGradeChange={(g) => {
@@ -377,6 +858,23 @@ export default function ShadowPulseGame() {
           setSelectedDifficulty(d)
           localStorage.setItem('shadowpulse_difficulty', d)
         }}
+        selectedQuality={qualitySetting}
+        onQualityChange={(q) => {
+          setQualitySetting(q)
+          saveQualitySetting(q)
+        }}
+        renderScale={renderScale}
+        onRenderScaleChange={(r) => {
+          setRenderScale(r)
+          saveRenderScale(r)
+        }}
+        keymap={keymap}
+        onKeymapChange={(m) => {
+          setKeymap(m)
+          saveKeymap(m)
+        }}
+        audioSettings={audioSettings}
+        onAudioChange={setAudioSettings}
       />
     )
   }
@@ -385,29 +883,26 @@ export default function ShadowPulseGame() {
     <div style={{ width: '100vw', height: '100vh', background: '#0a0a12', display: 'flex', alignItems: 'center', justifyContent: 'center', overflow: 'hidden' }}>
       <canvas
         ref={canvasRef}
-        width={GAME_WIDTH}
-        height={GAME_HEIGHT}
+        width={viewport.pixelWidth}
+        height={viewport.pixelHeight}
         style={{
-          imageRendering: 'pixelated',
-          transform: `scale(${scale})`,
-          transformOrigin: 'center',
+          width: viewport.cssWidth,
+          height: viewport.cssHeight,
           border: '1px solid #1a1a2e',
+          touchAction: 'none',
         }}
         tabIndex={0}
         onClick={(e) => {
           const s = gameStateRef.current
-          if (!s?.paused) return
-          const rect = (e.target as HTMLCanvasElement).getBoundingClientRect()
-          const cx = GAME_WIDTH / 2, cy = GAME_HEIGHT / 2
-          const x = (e.clientX - rect.left) * (GAME_WIDTH / rect.width)
-          const y = (e.clientY - rect.top) * (GAME_HEIGHT / rect.height)
-          const startY = cy - 18
-          for (let i = 0; i < 3; i++) {
-            const iy = startY + i * 52
-            if (x >= cx - 140 && x <= cx + 140 && y >= iy - 18 && y <= iy + 18) {
+          if (!s?.paused || showAudio) return
+          const { x, y } = toViewport(viewport, (e.target as HTMLCanvasElement).getBoundingClientRect(), e.clientX, e.clientY)
+          const items = pauseMenuRects(viewport.w, viewport.h)
+          for (let i = 0; i < items.length; i++) {
+            if (pointInRect(x, y, items[i])) {
               if (i === 0) { s.paused = false; s.pauseMenuSelection = 0 }
-              else if (i === 1) { gameStateRef.current = resetGame(s) }
-              else if (i === 2) { setStarted(false) }
+              else if (i === 1) { restartRun(s) }
+              else if (i === 2) { setShowAudio(true) }
+              else if (i === 3) { setStarted(false) }
               break
             }
           }
@@ -415,16 +910,12 @@ export default function ShadowPulseGame() {
         onMouseMove={(e) => {
           const s = gameStateRef.current
           const canvas = e.target as HTMLCanvasElement
-          if (!s?.paused) { canvas.style.cursor = 'default'; return }
-          const rect = canvas.getBoundingClientRect()
-          const cx = GAME_WIDTH / 2, cy = GAME_HEIGHT / 2
-          const x = (e.clientX - rect.left) * (GAME_WIDTH / rect.width)
-          const y = (e.clientY - rect.top) * (GAME_HEIGHT / rect.height)
-          const startY = cy - 18
+          if (!s?.paused || showAudio) { canvas.style.cursor = 'default'; return }
+          const { x, y } = toViewport(viewport, canvas.getBoundingClientRect(), e.clientX, e.clientY)
+          const items = pauseMenuRects(viewport.w, viewport.h)
           let hit = false
-          for (let i = 0; i < 3; i++) {
-            const iy = startY + i * 52
-            if (x >= cx - 140 && x <= cx + 140 && y >= iy - 18 && y <= iy + 18) {
+          for (let i = 0; i < items.length; i++) {
+            if (pointInRect(x, y, items[i])) {
               s.pauseMenuSelection = i
               hit = true
               break
@@ -433,6 +924,20 @@ export default function ShadowPulseGame() {
           canvas.style.cursor = hit ? 'pointer' : 'default'
         }}
       />
+      {showAudio && (
+        <AudioMixer settings={audioSettings} classroom={quizEnabled} onChange={setAudioSettings} onClose={() => setShowAudio(false)} />
+      )}
+      {/* Off-screen field that summons the device keyboard for typed quiz answers */}
+      <input
+        ref={answerInputRef}
+        aria-label="Quiz answer"
+        autoCapitalize="off"
+        autoComplete="off"
+        autoCorrect="off"
+        spellCheck={false}
+        maxLength={MAX_TYPED_ANSWER}
+        style={{ position: 'absolute', left: 0, bottom: 0, width: 1, height: 1, opacity: 0, pointerEvents: 'none' }}
+      />
     </div>
   )
 }
@@ -442,6 +947,7 @@ const DIFFICULTY_COLORS: Record<DifficultyLevel, { border: string; bg: string; t
   easy:      { border: '#44ff8888', bg: 'rgba(68,255,136,0.15)', text: '#44ff88' },
   normal:    { border: '#7b2fff88', bg: 'rgba(123,47,255,0.20)', text: '#ffffffdd' },
   arcade:    { border: '#ff664488', bg: 'rgba(255,102,68,0.15)', text: '#ff8866' },
+  horde:     { border: '#ffcc2288', bg: 'rgba(255,204,34,0.15)', text: '#ffdd55' },
 }
 
 const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
@@ -449,11 +955,21 @@ const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
   easy:      'EASY',
   normal:    'NORMAL',
   arcade:    'ARCADE',
+  horde:     'HORDE',
+}
+
+const QUALITY_LABELS: Record<QualitySetting, string> = {
+  auto:   'AUTO',
+  low:    'LOW',
+  medium: 'MEDIUM',
+  high:   'HIGH',
 }
 
 function TitleScreen({
   onStart,
   onStartDaily,
+  onContinue,
+  onWatchReplay,
   scale,
   selectedGrade,
   onGradeChange,
@@ -463,9 +979,19 @@ function TitleScreen({
   onTopicChange,
   selectedDifficulty,
   onDifficultyChange,
+  selectedQuality,
+  onQualityChange,
+  renderScale,
+  onRenderScaleChange,
+  keymap,
+  onKeymapChange,
+  audioSettings,
+  onAudioChange,
 }: {
   onStart: () => void
   onStartDaily: () => void
+  onContinue: (saved: SavedRun) => void
+  onWatchReplay: (replay: Replay) => void
   scale: number
   selectedGrade: number
   onGradeChange: (g: number) => void
@@ -475,21 +1001,129 @@ function TitleScreen({
   onTopicChange: (id: string) => void
   selectedDifficulty: DifficultyLevel
   onDifficultyChange: (d: DifficultyLevel) => void
+  selectedQuality: QualitySetting
+  onQualityChange: (q: QualitySetting) => void
+  renderScale: RenderScale
+  onRenderScaleChange: (r: RenderScale) => void
+  keymap: KeyMap
+  onKeymapChange: (keymap: KeyMap) => void
+  audioSettings: AudioSettings
+  onAudioChange: (settings: AudioSettings) => void
 }) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const animRef = useRef<number>(0)
   const [showNamePrompt, setShowNamePrompt] = useState(false)
+  const [showControls, setShowControls] = useState(false)
+  const [showAudio, setShowAudio] = useState(false)
+  const [showRuns, setShowRuns] = useState(false)
+  const [showUnlocks, setShowUnlocks] = useState(false)
+  const [showTrophies, setShowTrophies] = useState(false)
+  const [savedRun] = useState(loadSavedRun)
+  const [user, setUser] = useState<User | null>(null)
   const [playerName, setPlayerName] = useState(() => {
     if (typeof window !== 'undefined') return localStorage.getItem('shadowpulse_player_name') || ''
     return ''
   })
   const [allTimeBoard, setAllTimeBoard] = useState<AllTimeEntry[]>([])
+  const replayInputRef = useRef<HTMLInputElement>(null)
+  const [replayError, setReplayError] = useState(false)
+  const [topics, setTopics] = useState(getTopics)
+  const packInputRef = useRef<HTMLInputElement>(null)
+  const [packIssues, setPackIssues] = useState<TopicPackIssue[]>([])
+  const [membership, setMembership] = useState<ClassMembership | null>(getClassMembership)
+  const [classCode, setClassCode] = useState('')
+  const [classError, setClassError] = useState<string | null>(null)
+
+  const handleJoinClass = () => {
+    const name = playerName.trim()
+    if (!classCode.trim() || !name) {
+      setClassError('ENTER A CLASS CODE AND YOUR NAME')
+      return
+    }
+    localStorage.setItem('shadowpulse_player_name', name)
+    joinClass(classCode, name, getOrCreatePlayerId()).then(({ data, error }) => {
+      setMembership(data)
+      setClassError(error && error.toUpperCase())
+    })
+  }
+
+  const handleReplayFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    file.text().then(text => {
+      const replay = decodeReplay(text)
+      if (replay) onWatchReplay(replay)
+      else setReplayError(true)
+    })
+  }
+
+  // Imported topic packs live in localStorage — register them before the dropdown renders
+  useEffect(() => {
+    registerStoredTopicPacks()
+    const all = getTopics()
+    setTopics(all)
+    if (!all.some(t => t.id === selectedTopicId)) onTopicChange('english-vocab')
+  }, [])
+
+  const handlePackFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    file.text().then(text => {
+      const { topic, issues } = importTopicPack(text, file.name)
+      setPackIssues(issues)
+      if (!topic || issues.some(i => i.severity === 'error')) return
+      const stored = saveTopicPack(topic)
+      if (!stored) {
+        setPackIssues([{ severity: 'error', message: 'Another pack took some of these question ids — import the file again' }])
+        return
+      }
+      setTopics(getTopics())
+      onTopicChange(stored.id)
+    })
+  }
+
+  const handleRemovePack = () => {
+    removeTopicPack(selectedTopicId)
+    setTopics(getTopics())
+    setPackIssues([])
+    onTopicChange('english-vocab')
+  }
 
   useEffect(() => {
     const playerId = getOrCreatePlayerId()
     getAllTimeLeaderboard(playerId, 8).then(setAllTimeBoard)
   }, [])
 
+  // Track the signed-in account; the first sign-in in this browser adopts its anonymous runs
+  useEffect(() => {
+    const adopt = (u: User | null) => {
+      setUser(u)
+      if (u) {
+        linkAnonymousHistory(u, getOrCreatePlayerId(), getOrCreatePlayerKey())
+        syncProgression(u.id)
+      }
+    }
+    getCurrentUser().then(adopt)
+    return onAuthChange(adopt)
+  }, [])
+
+  // A or Start on a connected gamepad starts a normal run
+  useEffect(() => {
+    let frame = 0
+    let wasDown = true // ignore a button still held from the previous game-over screen
+    const poll = () => {
+      frame = requestAnimationFrame(poll)
+      const pad = navigator.getGamepads?.().find(p => p?.connected)
+      const down = !!pad && (pad.buttons[PAD.A]?.pressed || pad.buttons[PAD.START]?.pressed)
+      if (down && !wasDown && !showNamePrompt && !showControls && !showAudio && !showRuns && !showUnlocks && !showTrophies) onStart()
+      wasDown = down
+    }
+    frame = requestAnimationFrame(poll)
+    return () => cancelAnimationFrame(frame)
+  }, [onStart, showNamePrompt, showControls, showAudio, showRuns, showUnlocks, showTrophies])
+
   const handleDailyClick = (e: React.MouseEvent) => {
     e.stopPropagation()
     setShowNamePrompt(true)
@@ -550,15 +1184,15 @@ function TitleScreen({
   const mono = { fontFamily: 'monospace' } as const
 
   const abilities = [
-    { key: 'J', name: 'Light Attack', desc: 'Fast arc strike', color: '#cc88ff' },
-    { key: 'K', name: 'Heavy Attack', desc: 'Hold to charge · high knockback', color: '#ffaa22' },
-    { key: 'L', name: 'Pulse Wave', desc: 'AoE energy burst', color: '#aa44ff' },
-    { key: ';', name: 'Time Flicker', desc: 'Slows all enemies', color: '#00ccff' },
+    { key: keyLabel(keymap.lightAttack), name: 'Light Attack', desc: 'Fast arc strike', color: '#cc88ff' },
+    { key: keyLabel(keymap.heavyAttack), name: 'Heavy Attack', desc: 'Hold to charge · high knockback', color: '#ffaa22' },
+    { key: keyLabel(keymap.pulseWave), name: 'Pulse Wave', desc: 'AoE energy burst', color: '#aa44ff' },
+    { key: keyLabel(keymap.timeFlicker), name: 'Time Flicker', desc: 'Slows all enemies', color: '#00ccff' },
   ]
 
   const movement = [
-    { key: 'WASD', desc: 'Move' },
-    { key: 'SPACE', desc: 'Dash' },
+    { key: [keymap.up, keymap.left, keymap.down, keymap.right].map(keyLabel).join(''), desc: 'Move' },
+    { key: keymap.dash === ' ' ? 'SPACE' : keyLabel(keymap.dash), desc: 'Dash' },
   ]
 
   return (
@@ -621,10 +1255,14 @@ function TitleScreen({
           </div>
         </div>
 
+        <p style={{ ...mono, color: '#ffffff33', fontSize: '11px', letterSpacing: '0.1em', margin: 0 }} className="pointer-events-none">
+          🎮 CONTROLLER · L-STICK MOVE · A DASH · X/RT LIGHT · Y/LT HEAVY · B/RB PULSE · LB FLICKER · START PAUSE
+        </p>
+
         {/* Difficulty Selector */}
         <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
           <span style={{ ...mono, color: quizEnabled ? '#ffffff1a' : '#ffffff44', fontSize: '11px', letterSpacing: '0.2em' }}>DIFFICULTY</span>
-          {(['very_easy', 'easy', 'normal', 'arcade'] as DifficultyLevel[]).map(d => {
+          {(['very_easy', 'easy', 'normal', 'arcade', 'horde'] as DifficultyLevel[]).map(d => {
             const isActive = selectedDifficulty === d && !quizEnabled
             const dc = DIFFICULTY_COLORS[d]
             return (
@@ -654,6 +1292,60 @@ function TitleScreen({
           )}
         </div>
 
+        {/* Graphics Quality */}
+        <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+          <span style={{ ...mono, color: '#ffffff44', fontSize: '11px', letterSpacing: '0.2em' }}>GRAPHICS</span>
+          {(['auto', 'low', 'medium', 'high'] as QualitySetting[]).map(q => {
+            const isActive = selectedQuality === q
+            return (
+              <button
+                key={q}
+                onClick={() => onQualityChange(q)}
+                style={{
+                  ...mono,
+                  background: isActive ? 'rgba(123,47,255,0.20)' : 'transparent',
+                  border: isActive ? '1px solid #7b2fff88' : '1px solid #ffffff11',
+                  borderRadius: '5px',
+                  color: isActive ? '#ffffffdd' : '#ffffff33',
+                  fontSize: '12px',
+                  padding: '3px 10px',
+                  cursor: 'pointer',
+                  fontWeight: isActive ? 'bold' : 'normal',
+                  letterSpacing: '0.08em',
+                  boxShadow: isActive ? '0 0 8px #7b2fff88' : 'none',
+                }}
+              >
+                {QUALITY_LABELS[q]}
+              </button>
+            )
+          })}
+          <span style={{ ...mono, color: '#ffffff44', fontSize: '11px', letterSpacing: '0.2em', marginLeft: '12px' }}>RESOLUTION</span>
+          {RENDER_SCALES.map(r => {
+            const isActive = renderScale === r
+            return (
+              <button
+                key={r}
+                onClick={() => onRenderScaleChange(r)}
+                style={{
+                  ...mono,
+                  background: isActive ? 'rgba(123,47,255,0.20)' : 'transparent',
+                  border: isActive ? '1px solid #7b2fff88' : '1px solid #ffffff11',
+                  borderRadius: '5px',
+                  color: isActive ? '#ffffffdd' : '#ffffff33',
+                  fontSize: '12px',
+                  padding: '3px 10px',
+                  cursor: 'pointer',
+                  fontWeight: isActive ? 'bold' : 'normal',
+                  letterSpacing: '0.08em',
+                  boxShadow: isActive ? '0 0 8px #7b2fff88' : 'none',
+                }}
+              >
+                {Math.round(r * 100)}%
+              </button>
+            )
+          })}
+        </div>
+
         {/* Classroom Mode */}
         <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '7px', marginTop: '2px' }}>
           {/* Toggle row */}
@@ -724,17 +1416,106 @@ function TitleScreen({
                     outline: 'none',
                   }}
                 >
-                  {TOPICS.map(t => (
+                  {topics.map(t => (
                     <option key={t.id} value={t.id}>{t.displayName}</option>
                   ))}
                 </select>
+                <button
+                  onClick={() => { setPackIssues([]); packInputRef.current?.click() }}
+                  style={{ ...mono, background: 'transparent', border: '1px solid #ffffff22', borderRadius: '5px', color: '#ffffff66', fontSize: '11px', padding: '4px 8px', cursor: 'pointer' }}
+                >
+                  IMPORT
+                </button>
+                {selectedTopicId.startsWith('pack-') && (
+                  <button
+                    onClick={handleRemovePack}
+                    style={{ ...mono, background: 'transparent', border: '1px solid #ff446644', borderRadius: '5px', color: '#ff446699', fontSize: '11px', padding: '4px 8px', cursor: 'pointer' }}
+                  >
+                    REMOVE
+                  </button>
+                )}
+                <input ref={packInputRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handlePackFile} style={{ display: 'none' }} />
               </div>
+              {/* Import problems — errors block the import, warnings are informational */}
+              {packIssues.length > 0 && (
+                <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '2px', maxWidth: '420px' }}>
+                  {packIssues.slice(0, 4).map((issue, i) => (
+                    <span key={i} style={{ ...mono, color: issue.severity === 'error' ? '#ff4466' : '#ffc800aa', fontSize: '10px', textAlign: 'center' }}>
+                      {issue.message}
+                    </span>
+                  ))}
+                  {packIssues.length > 4 && (
+                    <span style={{ ...mono, color: '#ffffff44', fontSize: '10px' }}>+{packIssues.length - 4} more</span>
+                  )}
+                </div>
+              )}
+              {/* Class code — answers are logged to the teacher's dashboard once joined */}
+              {membership ? (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                  <span style={{ ...mono, color: '#22ff88aa', fontSize: '11px', letterSpacing: '0.08em' }}>
+                    CLASS {membership.className} · {membership.studentName}
+                  </span>
+                  <button
+                    onClick={() => { leaveClass(); setMembership(null) }}
+                    style={{ ...mono, background: 'transparent', border: '1px solid #ffffff22', borderRadius: '5px', color: '#ffffff55', fontSize: '10px', padding: '2px 6px', cursor: 'pointer' }}
+                  >
+                    LEAVE
+                  </button>
+                </div>
+              ) : (
+                <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '4px' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <span style={{ ...mono, color: '#ffffff44', fontSize: '11px', letterSpacing: '0.1em' }}>CLASS</span>
+                    {[
+                      { value: classCode, set: setClassCode, placeholder: 'CODE', width: '70px' },
+                      { value: playerName, set: setPlayerName, placeholder: 'YOUR NAME', width: '110px' },
+                    ].map(field => (
+                      <input
+                        key={field.placeholder}
+                        value={field.value}
+                        placeholder={field.placeholder}
+                        maxLength={20}
+                        onChange={e => field.set(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleJoinClass() }}
+                        style={{ ...mono, background: '#0d0d1a', border: '1px solid #7b2fff55', borderRadius: '5px', color: '#ffffffcc', fontSize: '11px', padding: '3px 8px', width: field.width, outline: 'none' }}
+                      />
+                    ))}
+                    <button
+                      onClick={handleJoinClass}
+                      style={{ ...mono, background: 'transparent', border: '1px solid #ffffff22', borderRadius: '5px', color: '#ffffff66', fontSize: '11px', padding: '3px 8px', cursor: 'pointer' }}
+                    >
+                      JOIN
+                    </button>
+                  </div>
+                  {classError && <span style={{ ...mono, color: '#ff4466', fontSize: '10px' }}>{classError}</span>}
+                </div>
+              )}
             </div>
           )}
         </div>
 
         {/* Buttons */}
         <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '10px', marginTop: '4px' }}>
+          {/* Resume the run saved at its last pause or wave break */}
+          {savedRun && (
+            <button
+              onClick={() => onContinue(savedRun)}
+              style={{
+                ...mono,
+                background: 'rgba(123, 47, 255, 0.15)',
+                border: '1px solid #7b2fffcc',
+                borderRadius: '6px',
+                color: '#ffffffee',
+                fontSize: '15px',
+                letterSpacing: '0.15em',
+                padding: '8px 32px',
+                cursor: 'pointer',
+              }}
+            >
+              ▶ CONTINUE RUN · {savedRun.state.isDailyChallenge ? 'DAILY · ' : ''}WAVE {savedRun.state.wave}
+            </button>
+          )}
+
           {/* Normal start */}
           <button
             onClick={onStart}
@@ -772,6 +1553,103 @@ function TitleScreen({
           >
             ◆ DAILY CHALLENGE
           </button>
+
+          {/* Watch a shared replay file */}
+          <button
+            onClick={() => { setReplayError(false); replayInputRef.current?.click() }}
+            style={{
+              ...mono,
+              background: 'transparent',
+              border: 'none',
+              color: replayError ? '#ff4466' : '#ffffff44',
+              fontSize: '11px',
+              letterSpacing: '0.12em',
+              cursor: 'pointer',
+            }}
+          >
+            {replayError ? 'NOT A VALID REPLAY FILE' : '▶ WATCH REPLAY'}
+          </button>
+          <input ref={replayInputRef} type="file" accept=".json,application/json" onChange={handleReplayFile} style={{ display: 'none' }} />
+
+          {/* Rebind keys */}
+          <button
+            onClick={() => setShowControls(true)}
+            style={{
+              ...mono,
+              background: 'transparent',
+              border: 'none',
+              color: '#ffffff44',
+              fontSize: '11px',
+              letterSpacing: '0.12em',
+              cursor: 'pointer',
+            }}
+          >
+            ⌨ CONTROLS
+          </button>
+
+          {/* Volume mixer */}
+          <button
+            onClick={() => setShowAudio(true)}
+            style={{
+              ...mono,
+              background: 'transparent',
+              border: 'none',
+              color: '#ffffff44',
+              fontSize: '11px',
+              letterSpacing: '0.12em',
+              cursor: 'pointer',
+            }}
+          >
+            {audioSettings.muted ? '♪ AUDIO (MUTED)' : '♪ AUDIO'}
+          </button>
+
+          {/* Optional account: sign-in, profile and run history */}
+          <button
+            onClick={() => setShowRuns(true)}
+            style={{
+              ...mono,
+              background: 'transparent',
+              border: 'none',
+              color: '#ffffff44',
+              fontSize: '11px',
+              letterSpacing: '0.12em',
+              cursor: 'pointer',
+            }}
+          >
+            ◇ MY RUNS
+          </button>
+
+          {/* Spend shards on the unlock tree */}
+          <button
+            onClick={() => setShowUnlocks(true)}
+            style={{
+              ...mono,
+              background: 'transparent',
+              border: 'none',
+              color: '#ffffff44',
+              fontSize: '11px',
+              letterSpacing: '0.12em',
+              cursor: 'pointer',
+            }}
+          >
+            ✦ UNLOCKS
+          </button>
+
+          {/* Achievement gallery */}
+          <button
+            onClick={() => setShowTrophies(true)}
+            style={{
+              ...mono,
+              background: 'transparent',
+              border: 'none',
+              color: '#ffffff44',
+              fontSize: '11px',
+              letterSpacing: '0.12em',
+              cursor: 'pointer',
+            }}
+          >
+            ♛ TROPHIES
+          </button>
         </div>
 
         {/* Story blurb */}
@@ -813,6 +1691,20 @@ function TitleScreen({
         )}
       </div>
 
+      {showControls && (
+        <ControlsSettings keymap={keymap} onChange={onKeymapChange} onClose={() => setShowControls(false)} />
+      )}
+
+      {showAudio && (
+        <AudioMixer settings={audioSettings} classroom={quizEnabled} onChange={onAudioChange} onClose={() => setShowAudio(false)} />
+      )}
+
+      {showRuns && <MyRuns user={user} onClose={() => setShowRuns(false)} />}
+
+      {showUnlocks && <UnlockTree user={user} onClose={() => setShowUnlocks(false)} />}
+
+      {showTrophies && <TrophyGallery onClose={() => setShowTrophies(false)} />}
+
       {/* Name Prompt Modal */}
       {showNamePrompt && (
         <div
@@ -0,0 +1,88 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ACHIEVEMENTS, achievementProgress, loadAchievements } from '@/lib/game/achievements'
+
+/**
+ * Title-screen overlay listing every achievement: unlocked ones in colour with
+ * their date, locked ones greyed out with progress toward the goal.
+ */
+export default function TrophyGallery({ onClose }: { onClose: () => void }) {
+  const [record] = useState(loadAchievements)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const mono = { fontFamily: 'monospace' } as const
+  const unlockedCount = ACHIEVEMENTS.filter(a => record.unlocked[a.id] !== undefined).length
+
+  return (
+    <div
+      style={{ position: 'absolute', inset: 0, background: 'rgba(0,0,0,0.85)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 10 }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div style={{ background: '#0d0d1a', border: '1px solid #ffc80055', borderRadius: '10px', padding: '24px 32px', display: 'flex', flexDirection: 'column', gap: '10px', width: '480px', maxHeight: '90%' }}>
+        <p style={{ ...mono, color: '#ffc800', fontSize: '14px', letterSpacing: '0.25em', margin: 0, textAlign: 'center' }}>
+          ♛ TROPHIES
+        </p>
+        <p style={{ ...mono, color: '#ffffff44', fontSize: '11px', margin: 0, textAlign: 'center' }}>
+          {unlockedCount} / {ACHIEVEMENTS.length} UNLOCKED
+        </p>
+
+        <div style={{ overflowY: 'auto', maxHeight: '420px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          {ACHIEVEMENTS.map(def => {
+            const unlockedAt = record.unlocked[def.id]
+            const unlocked = unlockedAt !== undefined
+            const progress = achievementProgress(def, record, null)
+            return (
+              <div
+                key={def.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '12px',
+                  padding: '8px 10px',
+                  border: `1px solid ${unlocked ? def.color + '88' : '#ffffff11'}`,
+                  borderRadius: '6px',
+                  background: unlocked ? def.color + '11' : 'transparent',
+                }}
+              >
+                <span style={{ ...mono, fontSize: '20px', width: '24px', textAlign: 'center', color: unlocked ? def.color : '#ffffff22' }}>
+                  {def.icon}
+                </span>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <p style={{ ...mono, margin: 0, fontSize: '12px', color: unlocked ? '#ffffff' : '#ffffff66' }}>{def.name}</p>
+                  <p style={{ ...mono, margin: 0, fontSize: '10px', color: '#ffffff55' }}>{def.description}</p>
+                  {!unlocked && def.goal > 1 && (
+                    <div style={{ marginTop: '4px', height: '3px', background: '#ffffff11', borderRadius: '2px' }}>
+                      <div style={{ width: `${(progress / def.goal) * 100}%`, height: '100%', background: def.color + '88', borderRadius: '2px' }} />
+                    </div>
+                  )}
+                </div>
+                <span style={{ ...mono, fontSize: '10px', color: unlocked ? def.color : '#ffffff33', whiteSpace: 'nowrap' }}>
+                  {unlocked
+                    ? (unlockedAt > 0 ? new Date(unlockedAt).toLocaleDateString() : '✓')
+                    : def.goal > 1 ? `${progress}/${def.goal}` : 'LOCKED'}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'center' }}>
+          <button
+            onClick={onClose}
+            style={{ ...mono, background: 'transparent', border: '1px solid #ffc80088', borderRadius: '6px', color: '#ffffffcc', fontSize: '12px', padding: '6px 18px', cursor: 'pointer', letterSpacing: '0.1em' }}
+          >
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { User } from '@supabase/supabase-js'
+import {
+  ProgressionRecord,
+  UNLOCK_TREE,
+  UnlockDef,
+  canUnlock,
+  equipTrail,
+  loadProgression,
+  purchaseUnlock,
+  saveProgression,
+  shardBalance,
+} from '@/lib/game/progression'
+import { pushProgression } from '@/lib/supabase/progression'
+
+const BRANCHES: { id: UnlockDef['branch']; label: string; color: string }[] = [
+  { id: 'arsenal', label: 'ARSENAL', color: '#c084fc' },
+  { id: 'supplies', label: 'SUPPLIES', color: '#44ff88' },
+  { id: 'survival', label: 'SURVIVAL', color: '#ffaa00' },
+  { id: 'cosmetic', label: 'TRAILS', color: '#88ddff' },
+]
+
+/**
+ * Title-screen overlay for spending shards. Each branch is a chain: an
+ * unlock opens once the one above it is owned. Changes are saved locally and
+ * mirrored to the account when signed in.
+ */
+export default function UnlockTree({ user, onClose }: { user: User | null; onClose: () => void }) {
+  const [record, setRecord] = useState<ProgressionRecord>(loadProgression)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const commit = (change: (next: ProgressionRecord) => void) => {
+    const next = { ...record, unlocked: [...record.unlocked] }
+    change(next)
+    saveProgression(next)
+    setRecord(next)
+    if (user) pushProgression(user.id, next)
+  }
+
+  const handleClick = (def: UnlockDef) => {
+    if (!record.unlocked.includes(def.id)) {
+      if (canUnlock(record, def.id)) commit(next => purchaseUnlock(next, def.id))
+    } else if (def.trailColor) {
+      commit(next => equipTrail(next, record.trail === def.id ? null : def.id))
+    }
+  }
+
+  const mono = { fontFamily: 'monospace' } as const
+  const balance = shardBalance(record)
+
+  return (
+    <div
+      style={{ position: 'absolute', inset: 0, background: 'rgba(0,0,0,0.85)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 10 }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div style={{ background: '#0d0d1a', border: '1px solid #7b2fff55', borderRadius: '10px', padding: '24px 32px', display: 'flex', flexDirection: 'column', gap: '12px', width: '560px', maxHeight: '90%' }}>
+        <p style={{ ...mono, color: '#c084fc', fontSize: '14px', letterSpacing: '0.25em', margin: 0, textAlign: 'center' }}>
+          ✦ UNLOCKS
+        </p>
+        <p style={{ ...mono, color: '#ffc800', fontSize: '13px', margin: 0, textAlign: 'center' }}>
+          {balance.toLocaleString()} SHARDS
+        </p>
+        <p style={{ ...mono, color: '#ffffff44', fontSize: '11px', margin: 0, textAlign: 'center', lineHeight: 1.6 }}>
+          Earn shards from kills, waves and contracts.<br />Daily Challenge always starts from the baseline.
+        </p>
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '10px', overflowY: 'auto' }}>
+          {BRANCHES.map(branch => (
+            <div key={branch.id} style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+              <p style={{ ...mono, color: branch.color, fontSize: '10px', letterSpacing: '0.2em', margin: '0 0 2px', textAlign: 'center' }}>
+                {branch.label}
+              </p>
+              {UNLOCK_TREE.filter(u => u.branch === branch.id).map(def => {
+                const owned = record.unlocked.includes(def.id)
+                const available = canUnlock(record, def.id)
+                const worn = record.trail === def.id
+                return (
+                  <button
+                    key={def.id}
+                    onClick={() => handleClick(def)}
+                    title={def.description}
+                    style={{
+                      ...mono,
+                      background: owned ? `${branch.color}22` : 'transparent',
+                      border: `1px solid ${owned || available ? branch.color : '#ffffff22'}${worn ? '' : '88'}`,
+                      borderRadius: '6px',
+                      color: owned || available ? '#ffffffcc' : '#ffffff44',
+                      fontSize: '11px',
+                      padding: '6px',
+                      cursor: owned ? (def.trailColor ? 'pointer' : 'default') : available ? 'pointer' : 'not-allowed',
+                      textAlign: 'left',
+                    }}
+                  >
+                    <span style={{ display: 'block', color: def.trailColor ?? undefined }}>{def.name}</span>
+                    <span style={{ display: 'block', fontSize: '10px', color: '#ffffff55', margin: '2px 0' }}>{def.description}</span>
+                    <span style={{ display: 'block', fontSize: '10px', color: owned ? branch.color : '#ffc800' }}>
+                      {owned ? (def.trailColor ? (worn ? 'WORN' : 'OWNED · WEAR') : 'OWNED') : `${def.cost} ✦`}
+                    </span>
+                  </button>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'center' }}>
+          <button
+            onClick={onClose}
+            style={{ ...mono, background: 'transparent', border: '1px solid #7b2fff88', borderRadius: '6px', color: '#ffffffcc', fontSize: '12px', padding: '6px 18px', cursor: 'pointer', letterSpacing: '0.1em' }}
+          >
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { getTopics } from '@/lib/game/questions'
+import { registerStoredTopicPacks } from '@/lib/game/topic-packs'
+import {
+  TeacherClass,
+  createClass,
+  fetchClassDashboard,
+  getTeacherClasses,
+  normalizeClassCode,
+  saveTeacherClass,
+} from '@/lib/supabase/classroom'
+import { ClassDashboard, Tally, accuracy } from '@/lib/supabase/class-analytics'
+
+function Accuracy({ tally }: { tally: Tally | undefined }) {
+  const value = accuracy(tally)
+  if (value === null) return <span className="text-muted-foreground">—</span>
+  const color = value >= 0.8 ? 'text-emerald-400' : value >= 0.5 ? 'text-amber-400' : 'text-rose-400'
+  return (
+    <span className={color} title={`${tally!.correct} / ${tally!.answered} first tries`}>
+      {Math.round(value * 100)}%
+    </span>
+  )
+}
+
+export default function TeacherDashboard() {
+  const [classes, setClasses] = useState<TeacherClass[]>([])
+  const [selected, setSelected] = useState<TeacherClass | null>(null)
+  const [dashboard, setDashboard] = useState<ClassDashboard | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [openCode, setOpenCode] = useState('')
+  const [openKey, setOpenKey] = useState('')
+  const [topicNames, setTopicNames] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    registerStoredTopicPacks()
+    setTopicNames(Object.fromEntries(getTopics().map(t => [t.id, t.displayName])))
+    const stored = getTeacherClasses()
+    setClasses(stored)
+    if (stored.length > 0) setSelected(stored[stored.length - 1])
+  }, [])
+
+  const refresh = useCallback(async (cls: TeacherClass) => {
+    setLoading(true)
+    setError(null)
+    const { data, error } = await fetchClassDashboard(cls)
+    setDashboard(data)
+    setError(error)
+    setLoading(false)
+    // Classes opened by code only learn their real name from the server
+    if (data && data.name !== cls.name) {
+      saveTeacherClass({ ...cls, name: data.name })
+      setClasses(getTeacherClasses())
+    }
+  }, [])
+
+  useEffect(() => {
+    if (selected) refresh(selected)
+  }, [selected, refresh])
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return
+    const { data, error } = await createClass(newName.trim())
+    setError(error)
+    if (!data) return
+    setNewName('')
+    setClasses(getTeacherClasses())
+    setSelected(data)
+  }
+
+  const handleOpen = () => {
+    const code = normalizeClassCode(openCode)
+    if (!code || !openKey.trim()) return
+    const cls = { code, name: code, teacherKey: openKey.trim() }
+    saveTeacherClass(cls)
+    setClasses(getTeacherClasses())
+    setSelected(cls)
+    setOpenCode('')
+    setOpenKey('')
+  }
+
+  const topicName = (id: string) => topicNames[id] ?? id
+
+  return (
+    <div className="dark h-screen overflow-y-auto bg-background text-foreground">
+      <div className="mx-auto flex max-w-6xl flex-col gap-6 p-6">
+        <header className="flex items-center justify-between">
+          <h1 className="font-mono text-xl tracking-widest">
+            SHADOW PULSE <span className="text-muted-foreground">· TEACHER</span>
+          </h1>
+          <a href="/" className="font-mono text-sm text-muted-foreground hover:text-foreground">← back to the game</a>
+        </header>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Create a class</CardTitle>
+              <CardDescription>Students type the class code in the Classroom panel on the title screen.</CardDescription>
+            </CardHeader>
+            <CardContent className="flex gap-2">
+              <Input placeholder="Class name, e.g. 4B English" value={newName} onChange={e => setNewName(e.target.value)} />
+              <Button onClick={handleCreate}>Create</Button>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Open a class</CardTitle>
+              <CardDescription>On another computer, enter the code and the teacher key shown with the class.</CardDescription>
+            </CardHeader>
+            <CardContent className="flex gap-2">
+              <Input placeholder="Code" value={openCode} onChange={e => setOpenCode(e.target.value)} className="w-28" />
+              <Input placeholder="Teacher key" value={openKey} onChange={e => setOpenKey(e.target.value)} />
+              <Button variant="secondary" onClick={handleOpen}>Open</Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        {classes.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {classes.map(c => (
+              <Button key={c.code} variant={selected?.code === c.code ? 'default' : 'outline'} onClick={() => setSelected(c)}>
+                {c.name} <span className="font-mono text-xs opacity-70">{c.code}</span>
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-rose-400">{error}</p>}
+
+        {selected && dashboard && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-baseline gap-4">
+                  {dashboard.name}
+                  <span className="font-mono text-3xl tracking-[0.3em] text-violet-400">{dashboard.code}</span>
+                </CardTitle>
+                <CardDescription>
+                  {dashboard.students.length} students · teacher key <span className="font-mono">{selected.teacherKey}</span>
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="mb-3 flex justify-end">
+                  <Button variant="outline" size="sm" disabled={loading} onClick={() => refresh(selected)}>
+                    {loading ? 'Loading…' : 'Refresh'}
+                  </Button>
+                </div>
+                {dashboard.students.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No students yet. Share the code above.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Student</TableHead>
+                        <TableHead className="text-right">Answered</TableHead>
+                        <TableHead className="text-right">Overall</TableHead>
+                        {dashboard.topics.map(t => <TableHead key={t} className="text-right">{topicName(t)}</TableHead>)}
+                        {dashboard.grades.map(g => <TableHead key={g} className="text-right">Grade {g}</TableHead>)}
+                        <TableHead className="text-right">Last active</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {dashboard.students.map(s => (
+                        <TableRow key={s.studentId}>
+                          <TableCell className="font-medium">{s.name}</TableCell>
+                          <TableCell className="text-right">{s.total.answered}</TableCell>
+                          <TableCell className="text-right"><Accuracy tally={s.total} /></TableCell>
+                          {dashboard.topics.map(t => <TableCell key={t} className="text-right"><Accuracy tally={s.byTopic[t]} /></TableCell>)}
+                          {dashboard.grades.map(g => <TableCell key={g} className="text-right"><Accuracy tally={s.byGrade[g]} /></TableCell>)}
+                          <TableCell className="text-right text-muted-foreground">
+                            {s.lastActive ? new Date(s.lastActive).toLocaleDateString() : '—'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Most missed</CardTitle>
+                <CardDescription>Wrong first answers across the class — good candidates for a review lesson.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {dashboard.mostMissed.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing missed yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Word</TableHead>
+                        <TableHead>Topic</TableHead>
+                        <TableHead className="text-right">Missed</TableHead>
+                        <TableHead className="text-right">Asked</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {dashboard.mostMissed.map(q => (
+                        <TableRow key={q.questionId}>
+                          <TableCell className="font-medium">{q.label}</TableCell>
+                          <TableCell className="text-muted-foreground">{topicName(q.topicId)}</TableCell>
+                          <TableCell className="text-right text-rose-400">{q.misses}</TableCell>
+                          <TableCell className="text-right">{q.answered}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+/**
+ * Achievements.
+ *
+ * Every achievement is a stat read off the run plus a goal. `run` achievements
+ * need the goal inside a single run (best-ever kept for the trophy gallery);
+ * `lifetime` ones add the run's stat to the total banked from earlier runs.
+ *
+ * The component attaches the stored record to the run at start (like the
+ * learning record). The engine checks it every frame and queues fresh unlocks
+ * in `achievementUnlocks` for the component to persist, plus a toast the HUD
+ * shows over live play. Replays carry no record, so they never unlock anything.
+ */
+
+import type { DifficultyLevel } from './settings'
+import type { EnemyType } from './enemy'
+
+const STORAGE_KEY = 'shadowpulse_achievements'
+
+export const ACHIEVEMENT_TOAST_DURATION = 3.5
+
+/** The run stats achievements are measured against (GameState satisfies this). */
+export interface AchievementStats {
+  wave: number
+  difficulty: DifficultyLevel
+  totalKills: number
+  contractsCompleted: number
+  perfectDodges: number
+  damageByEnemyType: Record<EnemyType, number>
+  bossesDefeated: number
+  flawlessBosses: number     // bosses killed without taking a hit that wave
+  quizCorrect: number
+}
+
+export interface AchievementDef {
+  id: string
+  name: string
+  description: string
+  icon: string
+  color: string
+  scope: 'run' | 'lifetime'
+  goal: number
+  stat: (run: AchievementStats) => number
+}
+
+export interface AchievementRecord {
+  unlocked: Record<string, number>   // id → unlock time (ms)
+  progress: Record<string, number>   // run: best single run · lifetime: total from finished runs
+}
+
+export interface AchievementToast {
+  id: string
+  timer: number   // seconds left on screen
+}
+
+const damageTaken = (run: AchievementStats) => Object.values(run.damageByEnemyType).reduce((sum, d) => sum + d, 0)
+
+export const ACHIEVEMENTS: AchievementDef[] = [
+  { id: 'survivor', name: 'Survivor', description: 'Reach wave 5', icon: '◆', color: '#7b2fff', scope: 'run', goal: 5, stat: r => r.wave },
+  { id: 'arcade_legend', name: 'Arcade Legend', description: 'Reach wave 20 on Arcade', icon: '★', color: '#ff2266', scope: 'run', goal: 20, stat: r => (r.difficulty === 'arcade' ? r.wave : 0) },
+  { id: 'centurion', name: 'Centurion', description: 'Defeat 100 enemies in one run', icon: '✕', color: '#ff6644', scope: 'run', goal: 100, stat: r => r.totalKills },
+  { id: 'exterminator', name: 'Exterminator', description: 'Defeat 1,000 enemies', icon: '☠', color: '#ff4444', scope: 'lifetime', goal: 1000, stat: r => r.totalKills },
+  { id: 'contractor', name: 'Contractor', description: 'Complete 10 contracts in one run', icon: '✓', color: '#44ff88', scope: 'run', goal: 10, stat: r => r.contractsCompleted },
+  { id: 'ghost', name: 'Ghost', description: 'Pull off 10 perfect dodges in one run', icon: '≈', color: '#66ffee', scope: 'run', goal: 10, stat: r => r.perfectDodges },
+  { id: 'boss_slayer', name: 'Boss Slayer', description: 'Defeat a boss', icon: '♛', color: '#ffaa00', scope: 'lifetime', goal: 1, stat: r => r.bossesDefeated },
+  { id: 'untouchable', name: 'Untouchable', description: 'Beat a boss without taking damage', icon: '◇', color: '#ffee33', scope: 'lifetime', goal: 1, stat: r => r.flawlessBosses },
+  { id: 'iron_will', name: 'Iron Will', description: 'Reach wave 10 having taken under 100 damage', icon: '▣', color: '#aaaacc', scope: 'run', goal: 1, stat: r => (r.wave >= 10 && damageTaken(r) < 100 ? 1 : 0) },
+  { id: 'scholar', name: 'Scholar', description: 'Answer 50 quiz questions correctly', icon: '✎', color: '#88ddff', scope: 'lifetime', goal: 50, stat: r => r.quizCorrect },
+]
+
+export function createAchievementRecord(): AchievementRecord {
+  return { unlocked: {}, progress: {} }
+}
+
+export function getAchievement(id: string): AchievementDef | undefined {
+  return ACHIEVEMENTS.find(a => a.id === id)
+}
+
+/** Progress toward `def` counting the run in flight, capped at the goal. */
+export function achievementProgress(def: AchievementDef, record: AchievementRecord, run: AchievementStats | null): number {
+  const banked = record.progress[def.id] ?? 0
+  const current = run ? def.stat(run) : 0
+  const value = def.scope === 'lifetime' ? banked + current : Math.max(banked, current)
+  return Math.min(def.goal, value)
+}
+
+/**
+ * Unlock everything the run has now reached (mutates `record`). Returns the
+ * ids unlocked by this call, in registry order.
+ */
+export function checkAchievements(record: AchievementRecord, run: AchievementStats, now = 0): string[] {
+  const fresh: string[] = []
+  for (const def of ACHIEVEMENTS) {
+    if (record.unlocked[def.id] !== undefined) continue
+    if (achievementProgress(def, record, run) >= def.goal) {
+      record.unlocked[def.id] = now
+      fresh.push(def.id)
+    }
+  }
+  return fresh
+}
+
+/** Bank a finished run's stats into `record` (mutates): lifetime totals add up, run bests keep the max. */
+export function foldRun(record: AchievementRecord, run: AchievementStats): void {
+  for (const def of ACHIEVEMENTS) {
+    const value = def.stat(run)
+    const banked = record.progress[def.id] ?? 0
+    record.progress[def.id] = def.scope === 'lifetime' ? banked + value : Math.max(banked, value)
+  }
+}
+
+// ── Storage ───────────────────────────────────────────────────────────────────
+
+export function loadAchievements(): AchievementRecord {
+  if (typeof window === 'undefined') return createAchievementRecord()
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as AchievementRecord | null
+    return stored && stored.unlocked && stored.progress ? stored : createAchievementRecord()
+  } catch {
+    return createAchievementRecord()
+  }
+}
+
+function saveAchievements(record: AchievementRecord): void {
+  if (typeof window !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(record))
+}
+
+/** Save unlocks the moment they happen, so a closed tab doesn't lose them. */
+export function storeAchievementUnlocks(ids: string[], now = Date.now()): void {
+  const record = loadAchievements()
+  for (const id of ids) {
+    if (record.unlocked[id] === undefined) record.unlocked[id] = now
+  }
+  saveAchievements(record)
+}
+
+/** Bank a finished run into the stored record. */
+export function storeRunAchievements(run: AchievementStats): void {
+  const record = loadAchievements()
+  foldRun(record, run)
+  saveAchievements(record)
+}
@@ -1,7 +1,8 @@
 // Wave Affix system - enemy modifiers applied per wave
 import { rng } from './seeded-rng'
+import type { StatusKind } from './status'
 
-export type AffixId = 'swift' | 'frenzied' | 'armored' | 'regenerating' | 'volatile' | 'berserker'
+export type AffixId = 'swift' | 'frenzied' | 'armored' | 'regenerating' | 'scorching' | 'frostbitten' | 'volatile' | 'berserker'
 export type AffixTier = 'mild' | 'medium' | 'strong'
 
 export interface WaveAffix {
@@ -25,6 +26,7 @@ export interface WaveAffix {
   explosionRadius?: number // Radius of explosion
   berserkerThreshold?: number // HP % threshold to trigger berserk mode
   berserkerDamageMultiplier?: number // Extra damage when berserking
+  hitStatus?: StatusKind // Status effect applied to the player on every hit
 }
 
 export interface EnemyAffixState {
@@ -77,6 +79,26 @@ export const AFFIX_POOL: WaveAffix[] = [
     minWave: 5,
     regenPerSecond: 3,
   },
+  {
+    id: 'scorching',
+    name: 'Scorching',
+    description: 'Enemy hits set you burning',
+    tier: 'medium',
+    color: '#ff6622', // Ember orange
+    icon: '~~',
+    minWave: 5,
+    hitStatus: 'burning',
+  },
+  {
+    id: 'frostbitten',
+    name: 'Frostbitten',
+    description: 'Enemy hits chill you (slower movement)',
+    tier: 'medium',
+    color: '#88ddff', // Ice blue
+    icon: '<>',
+    minWave: 5,
+    hitStatus: 'chilled',
+  },
 
   // === STRONG TIER (waves 8+) ===
   {
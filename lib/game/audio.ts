@@ -2,6 +2,9 @@
 // All sound generated procedurally (no audio files)
 
 import type { EnemyType } from './enemy'
+import type { BossZoneKind } from './bosses'
+import type { MixLevels } from './mixer'
+import { TRACKS, Track, TrackId, noteFrequency } from './soundtrack'
 
 type AttackSoundType = 'light' | 'heavy' | 'pulse' | 'flicker'
 
@@ -39,7 +42,7 @@ function createImpulseResponse(ctx: AudioContext, duration: number, decay: numbe
   return buffer
 }
 
-// C minor pentatonic notes in Hz (C3 = 130.81)
+// C minor notes in Hz for stingers and UI sounds (C3 = 130.81)
 const NOTES = {
   C2: 65.41, G2: 98.00, Bb2: 116.54,
   C3: 130.81, Eb3: 155.56, G3: 196.00, Bb3: 233.08,
@@ -47,20 +50,37 @@ const NOTES = {
   C5: 523.25,
 }
 
-const BPM = 120
-const BEAT = 60 / BPM           // 0.5s
-const SIXTEENTH = BEAT / 4      // 0.125s
+type MusicLayer = 'bass' | 'arp' | 'lead' | 'perc'
+
+const MUSIC_LAYERS: MusicLayer[] = ['bass', 'arp', 'lead', 'perc']
+
+// A playing track. Each has its own layer and fade gains, so on a change the
+// outgoing track keeps playing under the incoming one until the crossfade ends.
+interface MusicVoice {
+  track: Track
+  fade: GainNode                   // dry output into the music bus
+  wet: GainNode                    // reverb send, faded alongside
+  layers: Record<MusicLayer, GainNode>
+  sources: AudioScheduledSourceNode[]   // pad oscillators, stopped with the voice
+  step: number                     // sixteenth notes played
+  nextNoteTime: number
+  endTime: number | null           // when fading out: dropped after this
+}
+
+const CROSSFADE = 2.5   // seconds between tracks
+const DUCK_LEVEL = 0.3  // music level under the quiz and mutator draft
 
-// Arpeggio pattern — 16 steps, C minor pentatonic
-const ARP_PATTERN: number[] = [
-  NOTES.C3, NOTES.G3, NOTES.Eb3, NOTES.Bb3,
-  NOTES.C4, NOTES.G3, NOTES.Eb3, NOTES.C3,
-  NOTES.G2, NOTES.Bb2, NOTES.C3, NOTES.G3,
-  NOTES.Eb4, NOTES.C4, NOTES.Bb3, NOTES.G3,
-]
+// Layer levels at a wave intensity — more of the track joins in as waves climb
+function layerLevels(intensity: number): Record<MusicLayer, number> {
+  return {
+    bass: intensity >= 2 ? 0.6 : 0,
+    arp: intensity >= 3 ? 0.55 : 0,
+    lead: intensity >= 5 ? 0.45 : 0,
+    perc: intensity >= 4 ? 0.5 : 0,
+  }
+}
 
-// Bass pattern — 8 steps, 1 = play, 0 = rest
-const BASS_PATTERN = [1, 0, 0, 1, 0, 1, 0, 0]
+const hits = (pattern: string, step: number) => pattern[step % pattern.length] === 'x'
 
 // ─── Audio Engine ─────────────────────────────────────────────────────────────
 
@@ -70,25 +90,24 @@ class AudioEngine {
   private sfxGain: GainNode | null = null
   private musicGain: GainNode | null = null
 
-  // Music layers
-  private padNodes: OscillatorNode[] = []
-  private padGains: GainNode[] = []
+  // Player volume (see mixer.ts) — applied after the engine's own balance and ducking
+  private masterVolume: GainNode | null = null
+  private musicVolume: GainNode | null = null
+  private sfxVolume: GainNode | null = null
+  private mix: MixLevels = { master: 1, music: 1, sfx: 1 }
+
+  // Music: the cued track, plus any still fading out (see soundtrack.ts)
   private reverbNode: ConvolverNode | null = null
   private reverbGain: GainNode | null = null
+  private duckGain: GainNode | null = null
+  private voices: MusicVoice[] = []
+  private trackId: TrackId = 'void'
+  private ducked = false
 
-  // Arpeggio & Bass scheduler
+  // Note scheduler
   private scheduleAhead = 0.1   // seconds to schedule ahead
   private scheduleInterval = 80 // ms between scheduler runs
-  private nextNoteTime = 0
-  private arpStep = 0
-  private bassStep = 0
   private schedulerHandle: ReturnType<typeof setInterval> | null = null
-
-  // Layer gains (separate GainNode per layer for independent control)
-  private bassGain: GainNode | null = null
-  private arpGain: GainNode | null = null
-  private leadGain: GainNode | null = null
-  private percGain: GainNode | null = null
   private noiseBuffer: AudioBuffer | null = null
 
   // Last Stand
@@ -105,9 +124,9 @@ class AudioEngine {
       const AC = window.AudioContext ?? (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext
       this.ctx = new AC()
       this._setupGraph()
-      this._startPad()
-      this._startScheduler()
       this.noiseBuffer = createNoiseBuffer(this.ctx, 2.0)
+      this._startVoice(this.trackId, 0)
+      this._startScheduler()
     } catch {
       // Audio not available
     }
@@ -116,17 +135,33 @@ class AudioEngine {
   private _setupGraph(): void {
     const ctx = this.ctx!
 
+    this.masterVolume = ctx.createGain()
+    this.masterVolume.gain.value = this.mix.master
+    this.masterVolume.connect(ctx.destination)
+
     this.masterGain = ctx.createGain()
     this.masterGain.gain.value = 0.65
-    this.masterGain.connect(ctx.destination)
+    this.masterGain.connect(this.masterVolume)
+
+    this.sfxVolume = ctx.createGain()
+    this.sfxVolume.gain.value = this.mix.sfx
+    this.sfxVolume.connect(this.masterGain)
 
     this.sfxGain = ctx.createGain()
     this.sfxGain.gain.value = 0.55
-    this.sfxGain.connect(this.masterGain)
+    this.sfxGain.connect(this.sfxVolume)
+
+    this.musicVolume = ctx.createGain()
+    this.musicVolume.gain.value = this.mix.music
+    this.musicVolume.connect(this.masterGain)
+
+    this.duckGain = ctx.createGain()
+    this.duckGain.gain.value = this.ducked ? DUCK_LEVEL : 1
+    this.duckGain.connect(this.musicVolume)
 
     this.musicGain = ctx.createGain()
     this.musicGain.gain.value = 0
-    this.musicGain.connect(this.masterGain)
+    this.musicGain.connect(this.duckGain)
     // Fade in music over 2s
     this.musicGain.gain.linearRampToValueAtTime(0.38, ctx.currentTime + 2.5)
 
@@ -137,39 +172,42 @@ class AudioEngine {
     this.reverbGain.gain.value = 0.18
     this.reverbNode.connect(this.reverbGain)
     this.reverbGain.connect(this.musicGain)
-
-    // Sub-layer gains (initially silent, brought up by setMusicIntensity)
-    this.bassGain = ctx.createGain()
-    this.bassGain.gain.value = 0
-    this.bassGain.connect(this.musicGain)
-
-    this.arpGain = ctx.createGain()
-    this.arpGain.gain.value = 0
-    this.arpGain.connect(this.musicGain)
-    this.arpGain.connect(this.reverbNode)
-
-    this.leadGain = ctx.createGain()
-    this.leadGain.gain.value = 0
-    this.leadGain.connect(this.musicGain)
-
-    this.percGain = ctx.createGain()
-    this.percGain.gain.value = 0
-    this.percGain.connect(this.musicGain)
   }
 
-  // ─── Pad (ambient drone, always on) ────────────────────────────────────────
+  // ─── Tracks ────────────────────────────────────────────────────────────────
 
-  private _startPad(): void {
+  private _startVoice(id: TrackId, fadeIn: number): void {
     const ctx = this.ctx!
-    const padFreqs = [NOTES.C3, NOTES.Eb3 * 1.001, NOTES.G3 * 0.999, NOTES.Bb3 * 1.002]
-    const padGainValues = [0.06, 0.05, 0.06, 0.04]
+    const track = TRACKS[id]
+    const t = ctx.currentTime
+
+    const fade = ctx.createGain()
+    const wet = ctx.createGain()
+    fade.connect(this.musicGain!)
+    wet.connect(this.reverbNode!)
+    for (const g of [fade, wet]) {
+      g.gain.setValueAtTime(fadeIn > 0 ? 0 : 1, t)
+      if (fadeIn > 0) g.gain.linearRampToValueAtTime(1, t + fadeIn)
+    }
 
-    for (let i = 0; i < padFreqs.length; i++) {
+    // Layer gains start where the current intensity has them
+    const levels = layerLevels(Math.max(this.currentIntensity, track.intensityFloor))
+    const layer = (name: MusicLayer) => {
+      const g = ctx.createGain()
+      g.gain.value = levels[name]
+      g.connect(fade)
+      return g
+    }
+    const layers = { bass: layer('bass'), arp: layer('arp'), lead: layer('lead'), perc: layer('perc') }
+    layers.arp.connect(wet)
+
+    // Pad (ambient drone, always on) — the track's chord with slow vibrato
+    const sources: AudioScheduledSourceNode[] = []
+    track.pad.forEach((degree, i) => {
       const osc = ctx.createOscillator()
-      osc.type = 'triangle'
-      osc.frequency.value = padFreqs[i]
+      osc.type = track.timbre.pad
+      osc.frequency.value = noteFrequency(track, degree) * (i % 2 === 0 ? 1.001 : 0.999)
 
-      // Slow LFO for vibrato
       const lfo = ctx.createOscillator()
       lfo.type = 'sine'
       lfo.frequency.value = 0.15 + i * 0.07
@@ -180,70 +218,80 @@ class AudioEngine {
       lfoGain.connect(osc.frequency)
 
       const g = ctx.createGain()
-      g.gain.value = padGainValues[i]
+      g.gain.value = 0.2 / track.pad.length
       osc.connect(g)
-      g.connect(this.musicGain!)
-      g.connect(this.reverbNode!)
+      g.connect(fade)
+      g.connect(wet)
 
-      osc.start()
-      lfo.start()
-      this.padNodes.push(osc)
-      this.padGains.push(g)
-    }
+      osc.start(t)
+      lfo.start(t)
+      sources.push(osc, lfo)
+    })
+
+    this.voices.push({ track, fade, wet, layers, sources, step: 0, nextNoteTime: t + 0.1, endTime: null })
   }
 
   // ─── Scheduler ─────────────────────────────────────────────────────────────
 
   private _startScheduler(): void {
     if (!this.ctx) return
-    this.nextNoteTime = this.ctx.currentTime + 0.5
     this.schedulerHandle = setInterval(() => {
-      if (!this.ctx) return
-      while (this.nextNoteTime < this.ctx.currentTime + this.scheduleAhead) {
-        this._scheduleNote(this.nextNoteTime)
-        this.nextNoteTime += SIXTEENTH
+      const ctx = this.ctx
+      if (!ctx) return
+      const horizon = ctx.currentTime + this.scheduleAhead
+      for (const voice of this.voices) {
+        const sixteenth = 60 / voice.track.bpm / 4
+        while (voice.nextNoteTime < horizon && (voice.endTime === null || voice.nextNoteTime < voice.endTime)) {
+          this._scheduleStep(voice, voice.nextNoteTime)
+          voice.nextNoteTime += sixteenth
+        }
       }
+      // Drop tracks that have finished fading out
+      this.voices = this.voices.filter(voice => {
+        if (voice.endTime === null || voice.endTime > ctx.currentTime) return true
+        voice.sources.forEach(s => s.stop())
+        voice.fade.disconnect()
+        voice.wet.disconnect()
+        return false
+      })
     }, this.scheduleInterval)
   }
 
-  private _scheduleNote(time: number): void {
-    const ctx = this.ctx!
+  private _scheduleStep(voice: MusicVoice, time: number): void {
+    const { track, step } = voice
+    const intensity = Math.max(this.currentIntensity, track.intensityFloor)
 
-    // Bass (every 8 steps = 2 beats)
-    if (this.currentIntensity >= 2 && this.bassGain) {
-      if (BASS_PATTERN[this.bassStep % BASS_PATTERN.length]) {
-        this._playBassNote(NOTES.C2, time)
-      }
-      if (this.arpStep % 2 === 0) this.bassStep++
+    // Bass (eighth notes, an octave below the root)
+    if (intensity >= 2 && step % 2 === 0) {
+      const degree = track.bass[(step / 2) % track.bass.length]
+      if (degree !== null) this._playBassNote(voice, noteFrequency(track, degree) / 2, time)
     }
 
     // Arpeggio (every step = 16th note)
-    if (this.currentIntensity >= 3 && this.arpGain) {
-      const freq = ARP_PATTERN[this.arpStep % ARP_PATTERN.length]
-      this._playArpNote(freq, time)
+    if (intensity >= 3) {
+      this._playArpNote(voice, noteFrequency(track, track.arp[step % track.arp.length]), time)
     }
 
     // Lead (every 8 steps)
-    if (this.currentIntensity >= 5 && this.leadGain && this.arpStep % 8 === 0) {
-      const leadNote = [NOTES.Eb4, NOTES.G4, NOTES.Bb4, NOTES.C5][Math.floor(this.arpStep / 8) % 4]
-      this._playLeadNote(leadNote, time)
+    if (intensity >= 5 && step % 8 === 0) {
+      this._playLeadNote(voice, noteFrequency(track, track.lead[Math.floor(step / 8) % track.lead.length]), time)
     }
 
-    // Percussion
-    if (this.currentIntensity >= 6 && this.percGain) {
-      if (this.arpStep % 8 === 0) this._playKick(time)
-      if (this.arpStep % 4 === 2) this._playHihat(time)
-    } else if (this.currentIntensity >= 4 && this.percGain) {
-      if (this.arpStep % 8 === 0) this._playKick(time)
+    // Percussion — kick first, snare and hats at full intensity
+    if (intensity >= 4 && hits(track.kick, step)) this._playKick(voice, time)
+    if (intensity >= 6) {
+      if (hits(track.snare, step)) this._playSnare(voice, time)
+      if (hits(track.hat, step)) this._playHihat(voice, time)
     }
 
-    this.arpStep++
+    voice.step++
   }
 
-  private _playBassNote(freq: number, time: number): void {
+  private _playBassNote(voice: MusicVoice, freq: number, time: number): void {
     const ctx = this.ctx!
+    const beat = 60 / voice.track.bpm
     const osc = ctx.createOscillator()
-    osc.type = 'sawtooth'
+    osc.type = voice.track.timbre.bass
     osc.frequency.value = freq
 
     const filter = ctx.createBiquadFilter()
@@ -254,19 +302,20 @@ class AudioEngine {
     const env = ctx.createGain()
     env.gain.setValueAtTime(0, time)
     env.gain.linearRampToValueAtTime(0.55, time + 0.01)
-    env.gain.exponentialRampToValueAtTime(0.01, time + BEAT * 0.8)
+    env.gain.exponentialRampToValueAtTime(0.01, time + beat * 0.8)
 
     osc.connect(filter)
     filter.connect(env)
-    env.connect(this.bassGain!)
+    env.connect(voice.layers.bass)
     osc.start(time)
-    osc.stop(time + BEAT)
+    osc.stop(time + beat)
   }
 
-  private _playArpNote(freq: number, time: number): void {
+  private _playArpNote(voice: MusicVoice, freq: number, time: number): void {
     const ctx = this.ctx!
+    const sixteenth = 60 / voice.track.bpm / 4
     const osc = ctx.createOscillator()
-    osc.type = 'square'
+    osc.type = voice.track.timbre.arp
     osc.frequency.value = freq
 
     const filter = ctx.createBiquadFilter()
@@ -277,19 +326,20 @@ class AudioEngine {
     const env = ctx.createGain()
     env.gain.setValueAtTime(0, time)
     env.gain.linearRampToValueAtTime(0.22, time + 0.005)
-    env.gain.exponentialRampToValueAtTime(0.001, time + SIXTEENTH * 0.85)
+    env.gain.exponentialRampToValueAtTime(0.001, time + sixteenth * 0.85)
 
     osc.connect(filter)
     filter.connect(env)
-    env.connect(this.arpGain!)
+    env.connect(voice.layers.arp)
     osc.start(time)
-    osc.stop(time + SIXTEENTH)
+    osc.stop(time + sixteenth)
   }
 
-  private _playLeadNote(freq: number, time: number): void {
+  private _playLeadNote(voice: MusicVoice, freq: number, time: number): void {
     const ctx = this.ctx!
+    const beat = 60 / voice.track.bpm
     const osc = ctx.createOscillator()
-    osc.type = 'sawtooth'
+    osc.type = voice.track.timbre.lead
     osc.frequency.value = freq
 
     const filter = ctx.createBiquadFilter()
@@ -300,17 +350,17 @@ class AudioEngine {
     const env = ctx.createGain()
     env.gain.setValueAtTime(0, time)
     env.gain.linearRampToValueAtTime(0.3, time + 0.02)
-    env.gain.setValueAtTime(0.25, time + BEAT * 0.6)
-    env.gain.linearRampToValueAtTime(0, time + BEAT * 0.9)
+    env.gain.setValueAtTime(0.25, time + beat * 0.6)
+    env.gain.linearRampToValueAtTime(0, time + beat * 0.9)
 
     osc.connect(filter)
     filter.connect(env)
-    env.connect(this.leadGain!)
+    env.connect(voice.layers.lead)
     osc.start(time)
-    osc.stop(time + BEAT)
+    osc.stop(time + beat)
   }
 
-  private _playKick(time: number): void {
+  private _playKick(voice: MusicVoice, time: number): void {
     const ctx = this.ctx!
     const osc = ctx.createOscillator()
     osc.type = 'sine'
@@ -322,12 +372,35 @@ class AudioEngine {
     env.gain.exponentialRampToValueAtTime(0.001, time + 0.18)
 
     osc.connect(env)
-    env.connect(this.percGain!)
+    env.connect(voice.layers.perc)
     osc.start(time)
     osc.stop(time + 0.2)
   }
 
-  private _playHihat(time: number): void {
+  private _playSnare(voice: MusicVoice, time: number): void {
+    const ctx = this.ctx!
+    if (!this.noiseBuffer) return
+
+    const src = ctx.createBufferSource()
+    src.buffer = this.noiseBuffer
+
+    const filter = ctx.createBiquadFilter()
+    filter.type = 'bandpass'
+    filter.frequency.value = 1800
+    filter.Q.value = 0.8
+
+    const env = ctx.createGain()
+    env.gain.setValueAtTime(0.3, time)
+    env.gain.exponentialRampToValueAtTime(0.001, time + 0.12)
+
+    src.connect(filter)
+    filter.connect(env)
+    env.connect(voice.layers.perc)
+    src.start(time)
+    src.stop(time + 0.14)
+  }
+
+  private _playHihat(voice: MusicVoice, time: number): void {
     const ctx = this.ctx!
     if (!this.noiseBuffer) return
 
@@ -345,7 +418,7 @@ class AudioEngine {
 
     src.connect(filter)
     filter.connect(env)
-    env.connect(this.percGain!)
+    env.connect(voice.layers.perc)
     src.start(time)
     src.stop(time + 0.06)
   }
@@ -361,21 +434,44 @@ class AudioEngine {
     const t = this.ctx.currentTime
     const ramp = 1.5
 
-    const bassTarget = intensity >= 2 ? 0.6 : 0
-    const arpTarget = intensity >= 3 ? 0.55 : 0
-    const leadTarget = intensity >= 5 ? 0.45 : 0
-    const percTarget = intensity >= 4 ? 0.5 : 0
+    for (const voice of this.voices) {
+      const levels = layerLevels(Math.max(intensity, voice.track.intensityFloor))
+      for (const name of MUSIC_LAYERS) voice.layers[name].gain.linearRampToValueAtTime(levels[name], t + ramp)
+    }
     const musicTarget = intensity >= 6 ? 0.55 : 0.38
-
-    this.bassGain?.gain.linearRampToValueAtTime(bassTarget, t + ramp)
-    this.arpGain?.gain.linearRampToValueAtTime(arpTarget, t + ramp)
-    this.leadGain?.gain.linearRampToValueAtTime(leadTarget, t + ramp)
-    this.percGain?.gain.linearRampToValueAtTime(percTarget, t + ramp)
     if (!this.musicMuted) {
       this.musicGain.gain.linearRampToValueAtTime(musicTarget, t + ramp)
     }
   }
 
+  /** Cue a track, crossfading from whatever is playing. Safe to call before init(). */
+  setSoundtrack(id: TrackId): void {
+    if (id === this.trackId) return
+    this.trackId = id
+    const ctx = this.ctx
+    if (!ctx || !this.musicGain) return
+
+    const t = ctx.currentTime
+    for (const voice of this.voices) {
+      if (voice.endTime !== null) continue
+      for (const g of [voice.fade, voice.wet]) {
+        g.gain.cancelScheduledValues(t)
+        g.gain.setValueAtTime(g.gain.value, t)
+        g.gain.linearRampToValueAtTime(0, t + CROSSFADE)
+      }
+      voice.endTime = t + CROSSFADE
+    }
+    this._startVoice(id, CROSSFADE)
+  }
+
+  /** Pull the music down under the quiz and mutator draft, and back up after. */
+  setMusicDucked(ducked: boolean): void {
+    if (ducked === this.ducked) return
+    this.ducked = ducked
+    if (!this.ctx || !this.duckGain) return
+    this.duckGain.gain.setTargetAtTime(ducked ? DUCK_LEVEL : 1, this.ctx.currentTime, 0.15)
+  }
+
   playAttack(type: AttackSoundType): void {
     const ctx = this.ctx
     if (!ctx || !this.sfxGain) return
@@ -778,6 +874,132 @@ class AudioEngine {
     osc.stop(t + 0.12)
   }
 
+  playPerfectDodge(): void {
+    const ctx = this.ctx
+    if (!ctx || !this.sfxGain) return
+    const t = ctx.currentTime
+    // Glassy two-note chime (E6 → B6) over a reversed-feeling swell
+    for (const [freq, delay] of [[1319, 0], [1976, 0.06]] as const) {
+      const osc = ctx.createOscillator()
+      osc.type = 'sine'
+      osc.frequency.setValueAtTime(freq, t + delay)
+      const env = ctx.createGain()
+      env.gain.setValueAtTime(0.001, t + delay)
+      env.gain.exponentialRampToValueAtTime(0.2, t + delay + 0.01)
+      env.gain.exponentialRampToValueAtTime(0.001, t + delay + 0.35)
+      osc.connect(env)
+      env.connect(this.sfxGain)
+      osc.start(t + delay)
+      osc.stop(t + delay + 0.4)
+    }
+    const swell = ctx.createOscillator()
+    swell.type = 'triangle'
+    swell.frequency.setValueAtTime(220, t)
+    swell.frequency.exponentialRampToValueAtTime(880, t + 0.15)
+    const swellEnv = ctx.createGain()
+    swellEnv.gain.setValueAtTime(0.001, t)
+    swellEnv.gain.exponentialRampToValueAtTime(0.12, t + 0.12)
+    swellEnv.gain.exponentialRampToValueAtTime(0.001, t + 0.2)
+    swell.connect(swellEnv)
+    swellEnv.connect(this.sfxGain)
+    swell.start(t)
+    swell.stop(t + 0.22)
+  }
+
+  playBossPhase(): void {
+    const ctx = this.ctx
+    if (!ctx || !this.sfxGain) return
+    const t = ctx.currentTime
+    // Roar: detuned sawtooth pair sliding down, through a closing lowpass
+    const filter = ctx.createBiquadFilter()
+    filter.type = 'lowpass'
+    filter.frequency.setValueAtTime(1800, t)
+    filter.frequency.exponentialRampToValueAtTime(200, t + 0.8)
+    const env = ctx.createGain()
+    env.gain.setValueAtTime(0.001, t)
+    env.gain.exponentialRampToValueAtTime(0.35, t + 0.08)
+    env.gain.exponentialRampToValueAtTime(0.001, t + 0.85)
+    filter.connect(env)
+    env.connect(this.sfxGain)
+    for (const detune of [0, 14]) {
+      const osc = ctx.createOscillator()
+      osc.type = 'sawtooth'
+      osc.frequency.setValueAtTime(110, t)
+      osc.frequency.exponentialRampToValueAtTime(45, t + 0.8)
+      osc.detune.value = detune
+      osc.connect(filter)
+      osc.start(t)
+      osc.stop(t + 0.9)
+    }
+  }
+
+  playBossBlink(): void {
+    const ctx = this.ctx
+    if (!ctx || !this.sfxGain) return
+    const t = ctx.currentTime
+    // Blink: a square blip sweeping up and cutting off
+    const osc = ctx.createOscillator()
+    osc.type = 'square'
+    osc.frequency.setValueAtTime(180, t)
+    osc.frequency.exponentialRampToValueAtTime(1400, t + 0.12)
+    const env = ctx.createGain()
+    env.gain.setValueAtTime(0.12, t)
+    env.gain.exponentialRampToValueAtTime(0.001, t + 0.14)
+    osc.connect(env)
+    env.connect(this.sfxGain)
+    osc.start(t)
+    osc.stop(t + 0.15)
+  }
+
+  playBossStrike(kind: BossZoneKind): void {
+    const ctx = this.ctx
+    if (!ctx || !this.sfxGain || !this.noiseBuffer || kind === 'fire') return
+    const t = ctx.currentTime
+    if (kind === 'rift') {
+      // Rift collapse: a sine thump dropping out from under a muffled rush
+      const osc = ctx.createOscillator()
+      osc.type = 'sine'
+      osc.frequency.setValueAtTime(160, t)
+      osc.frequency.exponentialRampToValueAtTime(35, t + 0.4)
+      const thump = ctx.createGain()
+      thump.gain.setValueAtTime(0.45, t)
+      thump.gain.exponentialRampToValueAtTime(0.001, t + 0.45)
+      osc.connect(thump)
+      thump.connect(this.sfxGain)
+      osc.start(t)
+      osc.stop(t + 0.5)
+      const src = ctx.createBufferSource()
+      src.buffer = this.noiseBuffer
+      const filter = ctx.createBiquadFilter()
+      filter.type = 'lowpass'
+      filter.frequency.value = 500
+      const rush = ctx.createGain()
+      rush.gain.setValueAtTime(0.25, t)
+      rush.gain.exponentialRampToValueAtTime(0.001, t + 0.3)
+      src.connect(filter)
+      filter.connect(rush)
+      rush.connect(this.sfxGain)
+      src.start(t)
+      src.stop(t + 0.32)
+      return
+    }
+    // Lightning cracks bright and short; frost shatters higher and rings out
+    const src = ctx.createBufferSource()
+    src.buffer = this.noiseBuffer
+    const filter = ctx.createBiquadFilter()
+    filter.type = kind === 'lightning' ? 'highpass' : 'bandpass'
+    filter.frequency.value = kind === 'lightning' ? 1500 : 4000
+    const env = ctx.createGain()
+    const length = kind === 'lightning' ? 0.18 : 0.3
+    env.gain.setValueAtTime(kind === 'lightning' ? 0.4 : 0.2, t)
+    env.gain.exponentialRampToValueAtTime(0.001, t + length)
+    src.connect(filter)
+    filter.connect(env)
+    env.connect(this.sfxGain)
+    src.start(t)
+    src.stop(t + length + 0.02)
+  }
+
   playWaveStart(_wave: number): void {
     const ctx = this.ctx
     if (!ctx || !this.sfxGain) return
@@ -970,6 +1192,18 @@ class AudioEngine {
     }
   }
 
+  /** Set the player's volume levels; safe to call before init(). */
+  setMix(levels: MixLevels): void {
+    this.mix = { ...levels }
+    const ctx = this.ctx
+    if (!ctx || !this.masterVolume || !this.musicVolume || !this.sfxVolume) return
+    // Short glide so dragging a slider doesn't click
+    const t = ctx.currentTime
+    this.masterVolume.gain.setTargetAtTime(levels.master, t, 0.03)
+    this.musicVolume.gain.setTargetAtTime(levels.music, t, 0.03)
+    this.sfxVolume.gain.setTargetAtTime(levels.sfx, t, 0.03)
+  }
+
   resume(): void {
     // Resume suspended AudioContext (required after user interaction in some browsers)
     if (this.ctx?.state === 'suspended') {
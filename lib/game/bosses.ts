@@ -0,0 +1,251 @@
+// ==============================
+// SHADOW PULSE - Boss Roster
+// ==============================
+//
+// Every boss is the `boss` EnemyType, so death recap, contracts and stats treat
+// them alike; `bossTheme` picks which boss it is. bossPhase rises at 66% and
+// 33% HP, each phase unlocks more of the boss's attack set, and every
+// transition halts the boss for a roar before the new pattern starts.
+//
+// Ground attacks (fire trails, frost zones, lightning, void rifts) are queued
+// on the boss in `bossCasts` and moved into GameState.bossZones by the engine —
+// the same hand-off spawners use for their minions. A blink is handed off the
+// same way, through `bossBlinkedFrom`.
+
+import { Vec2, vec2, add, scale, fromAngle } from './vec2'
+import * as S from './settings'
+import type { Enemy } from './enemy'
+import type { Player } from './player'
+import type { ThemeKey } from './levels'
+import { rng } from './seeded-rng'
+
+export type BossAttack = 'charge' | 'ring_pulse' | 'minions' | 'fire_trail' | 'frost_zone' | 'lightning' | 'void_rift' | 'blink'
+
+export interface BossDef {
+  name: string
+  color: string
+  phases: [BossAttack[], BossAttack[], BossAttack[]] // attack set in phase 1, 2, 3
+}
+
+export type BossZoneKind = 'fire' | 'frost' | 'lightning' | 'rift'
+
+export interface BossZone {
+  kind: BossZoneKind
+  pos: Vec2
+  radius: number
+  warmup: number   // telegraph seconds left before the zone bites
+  life: number     // seconds left once it has
+  maxLife: number
+}
+
+const WARDEN: BossDef = {
+  name: 'THE WARDEN',
+  color: S.ENEMY_COLORS.boss,
+  phases: [['charge'], ['charge', 'ring_pulse'], ['charge', 'ring_pulse', 'minions']],
+}
+
+export const BOSS_ROSTER: Record<ThemeKey, BossDef> = {
+  // The Void ends before the first boss wave; the Warden stands in if it's ever asked for
+  void: WARDEN,
+  inferno: {
+    name: 'PYRE TYRANT',
+    color: '#ff5511',
+    phases: [['charge', 'fire_trail'], ['charge', 'fire_trail', 'ring_pulse'], ['charge', 'fire_trail', 'ring_pulse', 'minions']],
+  },
+  cryo: {
+    name: 'GLACIER MAW',
+    color: '#66ddff',
+    phases: [['frost_zone'], ['frost_zone', 'charge'], ['frost_zone', 'charge', 'ring_pulse']],
+  },
+  storm: {
+    name: 'TEMPEST',
+    color: '#ffee33',
+    phases: [['lightning'], ['lightning', 'charge'], ['lightning', 'charge', 'ring_pulse']],
+  },
+  // Drags the player into collapsing rifts, and from phase 2 blinks in behind them
+  abyss: {
+    name: 'THE HOLLOW',
+    color: '#9933ff',
+    phases: [['void_rift'], ['void_rift', 'blink'], ['void_rift', 'blink', 'ring_pulse', 'minions']],
+  },
+  apocalypse: {
+    name: 'THE HERALD',
+    color: '#ff0040',
+    phases: [['charge', 'fire_trail'], ['charge', 'fire_trail', 'frost_zone'], ['charge', 'fire_trail', 'frost_zone', 'lightning', 'minions']],
+  },
+}
+
+/** Turn a freshly spawned boss into the boss of `theme`. */
+export function assignBoss(enemy: Enemy, theme: ThemeKey): void {
+  enemy.bossTheme = theme
+  enemy.color = BOSS_ROSTER[theme].color
+}
+
+export function getBossDef(enemy: Enemy): BossDef {
+  return BOSS_ROSTER[enemy.bossTheme]
+}
+
+// Size, telegraph and linger time of each ground attack
+const ZONE_SHAPES: Record<BossZoneKind, { radius: number; warmup: number; life: number }> = {
+  fire: { radius: S.BOSS_FIRE_TRAIL.radius, warmup: 0, life: S.BOSS_FIRE_TRAIL.life },
+  frost: { radius: S.BOSS_FROST_ZONE.radius, warmup: S.BOSS_FROST_ZONE.warmup, life: S.BOSS_FROST_ZONE.life },
+  lightning: { radius: S.BOSS_LIGHTNING.radius, warmup: S.BOSS_LIGHTNING.warmup, life: 0.25 },
+  rift: { radius: S.BOSS_VOID_RIFT.radius, warmup: S.BOSS_VOID_RIFT.warmup, life: 0.35 },
+}
+
+/** Telegraph length of a zone that bites once (frost, lightning, rift). */
+export function zoneWarmup(kind: BossZoneKind): number {
+  return ZONE_SHAPES[kind].warmup
+}
+
+function castZone(enemy: Enemy, kind: BossZoneKind, pos: Vec2): void {
+  const { radius, warmup, life } = ZONE_SHAPES[kind]
+  enemy.bossCasts.push({ kind, pos: { ...pos }, radius, warmup, life, maxLife: life })
+}
+
+export function updateBossAI(enemy: Enemy, player: Player, dir: Vec2, dist: number, dt: number): void {
+  // Phase transitions based on HP — a big hit can skip straight to phase 3
+  const hpRatio = enemy.hp / enemy.maxHp
+  const phase = hpRatio <= 0.33 ? 3 : hpRatio <= 0.66 ? 2 : 1
+  if (phase > enemy.bossPhase) {
+    enemy.speed += 15 * (phase - enemy.bossPhase)
+    enemy.bossPhase = phase
+    enemy.bossPhaseTimer = S.BOSS_PHASE_TRANSITION
+    enemy.bossPhaseChanged = true
+    enemy.isCharging = false
+    enemy.chargeWindupTimer = 0
+  }
+
+  const attacks = getBossDef(enemy).phases[enemy.bossPhase - 1]
+  if (attacks.includes('minions') && !enemy.bossSpawnedMinions) {
+    enemy.pendingSpawn = true
+    enemy.bossSpawnedMinions = true
+  }
+
+  // Roar between phases: stand still, no attacks
+  if (enemy.bossPhaseTimer > 0) {
+    enemy.bossPhaseTimer -= dt
+    enemy.vel = vec2(0, 0)
+    return
+  }
+
+  // Fire trail: scorched ground behind every charge, and behind every step from phase 2
+  if (attacks.includes('fire_trail') && (enemy.isCharging || enemy.bossPhase >= 2)) {
+    enemy.trailTimer -= dt
+    if (enemy.trailTimer <= 0) {
+      castZone(enemy, 'fire', enemy.pos)
+      enemy.trailTimer = enemy.isCharging ? S.BOSS_FIRE_TRAIL.interval : S.BOSS_FIRE_TRAIL.walkInterval
+    }
+  }
+
+  // Frost zone: freeze the floor under the player; phase 3 adds two flanking zones
+  if (attacks.includes('frost_zone')) {
+    enemy.frostTimer -= dt
+    if (enemy.frostTimer <= 0) {
+      castZone(enemy, 'frost', player.pos)
+      if (enemy.bossPhase >= 3) {
+        const side = fromAngle(Math.atan2(dir.y, dir.x) + Math.PI / 2)
+        castZone(enemy, 'frost', add(player.pos, scale(side, S.BOSS_FROST_ZONE.radius * 1.8)))
+        castZone(enemy, 'frost', add(player.pos, scale(side, -S.BOSS_FROST_ZONE.radius * 1.8)))
+      }
+      enemy.frostTimer = S.BOSS_FROST_ZONE.cooldown * (enemy.bossPhase >= 2 ? 0.8 : 1)
+    }
+  }
+
+  // Lightning: one bolt on the player, plus scattered bolts around them as phases rise
+  if (attacks.includes('lightning')) {
+    enemy.lightningTimer -= dt
+    if (enemy.lightningTimer <= 0) {
+      castZone(enemy, 'lightning', player.pos)
+      for (let i = 1; i < enemy.bossPhase * 2 - 1; i++) {
+        const offset = scale(fromAngle(rng() * Math.PI * 2), S.BOSS_LIGHTNING.radius + rng() * S.BOSS_LIGHTNING.scatter)
+        castZone(enemy, 'lightning', add(player.pos, offset))
+      }
+      enemy.lightningTimer = S.BOSS_LIGHTNING.cooldown * (enemy.bossPhase >= 3 ? 0.75 : 1)
+    }
+  }
+
+  // Void rift: opens under the player and drags them in until it collapses;
+  // phase 3 opens a second one across the boss from the first
+  if (attacks.includes('void_rift')) {
+    enemy.riftTimer -= dt
+    if (enemy.riftTimer <= 0) {
+      castZone(enemy, 'rift', player.pos)
+      if (enemy.bossPhase >= 3) castZone(enemy, 'rift', add(enemy.pos, scale(dir, -dist)))
+      enemy.riftTimer = S.BOSS_VOID_RIFT.cooldown * (enemy.bossPhase >= 2 ? 0.8 : 1)
+    }
+  }
+
+  // Blink: fade out, reappear on the far side of the player and burst on arrival
+  if (attacks.includes('blink')) {
+    if (enemy.blinkWindupTimer > 0) {
+      enemy.blinkWindupTimer -= dt
+      enemy.vel = vec2(0, 0)
+      if (enemy.blinkWindupTimer <= 0) {
+        enemy.bossBlinkedFrom = { ...enemy.pos }
+        enemy.pos = add(player.pos, scale(dir, S.BOSS_BLINK.distance))
+        enemy.shockwaveActive = true
+        enemy.shockwaveTimer = 0.5
+        enemy.shockwaveRange = S.BOSS_BLINK.burstRange
+        enemy.isAttacking = true
+        enemy.attackAnimTimer = 0.4
+      }
+      return
+    }
+    enemy.blinkTimer -= dt
+    if (enemy.blinkTimer <= 0) {
+      enemy.blinkWindupTimer = S.BOSS_BLINK.windup
+      enemy.blinkTimer = S.BOSS_BLINK.cooldown * (enemy.bossPhase >= 3 ? 0.75 : 1)
+    }
+  }
+
+  if (attacks.includes('charge')) {
+    if (enemy.isCharging) {
+      enemy.chargeTimer -= dt
+      enemy.vel = scale(enemy.chargeDir, S.BOSS_ENEMY.chargeSpeed)
+      if (enemy.chargeTimer <= 0 || dist < enemy.size + 20) {
+        enemy.isCharging = false
+        enemy.isAttacking = true
+        enemy.attackAnimTimer = 0.3
+        enemy.chargeCooldownTimer = S.BOSS_ENEMY.chargeCooldown
+      }
+      return
+    }
+
+    if (enemy.chargeWindupTimer > 0) {
+      enemy.chargeWindupTimer -= dt
+      enemy.vel = scale(dir, enemy.speed * 0.3) // slow creep during windup
+      if (enemy.chargeWindupTimer <= 0) {
+        enemy.isCharging = true
+        enemy.chargeTimer = S.BOSS_ENEMY.chargeDuration
+        enemy.chargeDir = dir
+      }
+      return
+    }
+
+    // Cooldown between charges
+    enemy.chargeCooldownTimer -= dt
+    if (enemy.chargeCooldownTimer <= 0) {
+      enemy.chargeWindupTimer = S.BOSS_ENEMY.chargeWindup
+    }
+  }
+
+  // Default movement: orbit/chase
+  if (dist > 100) {
+    enemy.vel = scale(dir, enemy.speed * 0.6)
+  } else {
+    enemy.vel = vec2(0, 0)
+  }
+
+  if (attacks.includes('ring_pulse')) {
+    enemy.ringPulseTimer -= dt
+    if (enemy.ringPulseTimer <= 0) {
+      enemy.shockwaveActive = true
+      enemy.shockwaveTimer = 0.5
+      enemy.shockwaveRange = 140
+      enemy.isAttacking = true
+      enemy.attackAnimTimer = 0.5
+      enemy.ringPulseTimer = S.BOSS_ENEMY.ringPulseCooldown
+    }
+  }
+}
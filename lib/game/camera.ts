@@ -30,6 +30,8 @@ export function updateCamera(camera: Camera, dt: number): void {
     camera.shakeTimer -= dt
     const progress = camera.shakeTimer / camera.shakeDuration
     const intensity = camera.shakeIntensity * progress
+    // Cosmetic, like particles: drawing from the seeded rng() would let a
+    // shake change the run (shakes are started by event listeners)
     camera.offsetX = (Math.random() - 0.5) * 2 * intensity
     camera.offsetY = (Math.random() - 0.5) * 2 * intensity
   } else {
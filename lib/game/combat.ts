@@ -1,8 +1,10 @@
 import { Vec2, vec2, sub, normalize, distance, angle, fromAngle, scale, add } from './vec2'
-import { Player } from './player'
+import { Player, tryPerfectDodge } from './player'
 import { Enemy, EnemyType, damageEnemy, tryDodge } from './enemy'
 import * as S from './settings'
 import { MutatorModifiers } from './mutators'
+import { StatusKind, applyStatus, applyHitStatus } from './status'
+import { SpatialGrid, queryCircle } from './spatial'
 
 export interface HitEffect {
   pos: Vec2
@@ -26,6 +28,8 @@ export interface CombatResult {
   damageDir: Vec2   // normalized direction from attacker to player
   // Floating damage numbers
   damageHits: Array<{ damage: number; pos: { x: number; y: number }; hitType: 'light' | 'heavy' | 'pulse' }>
+  // Attackers whose hit the player dashed through at the start of a dash
+  perfectDodges: Enemy[]
 }
 
 function angleDiff(a: number, b: number): number {
@@ -35,7 +39,8 @@ function angleDiff(a: number, b: number): number {
   return Math.abs(diff)
 }
 
-export function processPlayerAttacks(player: Player, enemies: Enemy[], modifiers: MutatorModifiers = {}): CombatResult {
+/** `grid`, when given, must be built over `enemies`; only enemies near the swing are then tested. */
+export function processPlayerAttacks(player: Player, enemies: Enemy[], modifiers: MutatorModifiers = {}, grid?: SpatialGrid<Enemy>): CombatResult {
   const result: CombatResult = {
     hitFreeze: 0,
     cameraShake: { intensity: 0, duration: 0 },
@@ -49,6 +54,7 @@ export function processPlayerAttacks(player: Player, enemies: Enemy[], modifiers
     damageSourceType: null,
     damageDir: vec2(0, 0),
     damageHits: [],
+    perfectDodges: [],
   }
 
   if (player.attacking === 'none' || player.attackTime < 0.01) return result
@@ -115,9 +121,17 @@ export function processPlayerAttacks(player: Player, enemies: Enemy[], modifiers
 
   if (attackProgress > 0.5) return result
 
+  // Elemental mutators: what this attack leaves on the enemies it hits
+  const hitStatuses: StatusKind[] = []
+  if (player.attacking === 'light' && modifiers.burnOnLight) hitStatuses.push('burning')
+  if (modifiers.chillOnHit) hitStatuses.push('chilled')
+  if (player.attacking === 'pulse_wave' && modifiers.shockOnPulse) hitStatuses.push('shocked')
+  if (player.attacking === 'heavy' && modifiers.vulnerableOnHeavy) hitStatuses.push('vulnerable')
+
   let hitSomething = false
 
-  for (const enemy of enemies) {
+  const inReach = grid ? queryCircle(grid, player.pos, attackRange) : enemies
+  for (const enemy of inReach) {
     if (!enemy.isAlive) continue
 
     const dist = distance(player.pos, enemy.pos)
@@ -149,6 +163,7 @@ export function processPlayerAttacks(player: Player, enemies: Enemy[], modifiers
 
     const knockDir = normalize(sub(enemy.pos, player.pos))
     const killed = damageEnemy(enemy, attackDamage, knockDir, attackKnockback)
+    for (const status of hitStatuses) applyStatus(enemy.status, status)
 
     hitSomething = true
     result.energyGained += S.ENERGY_PER_HIT
@@ -212,19 +227,28 @@ export function processPlayerAttacks(player: Player, enemies: Enemy[], modifiers
 function applyPlayerDamage(
   player: Player,
   damage: number,
-  enemyType: EnemyType,
+  source: Enemy,
   canTriggerLastStand: boolean,
   result: CombatResult,
   cameraShake: { intensity: number; duration: number },
   knockback?: Vec2
 ): void {
-  if (player.iframes > 0 || player.isDashing) return
+  if (player.isDashing) {
+    if (tryPerfectDodge(player)) result.perfectDodges.push(source)
+    return
+  }
+  if (player.iframes > 0) return
 
+  damage = applyHitStatus(player.status, damage)
   const wouldBeLethal = player.hp - damage <= 0
 
+  // Affixes like Scorching carry an element on every hit
+  const hitStatus = source.affixState.affix?.hitStatus
+  if (hitStatus) applyStatus(player.status, hitStatus, 1, source.type)
+
   // Track damage source for death recap
   result.damageDealt += damage
-  result.damageSourceType = enemyType
+  result.damageSourceType = source.type
 
   // If this would kill the player and Last Stand is available, trigger it
   if (wouldBeLethal && canTriggerLastStand) {
@@ -279,6 +303,7 @@ export function processEnemyAttacks(player: Player, enemies: Enemy[], canTrigger
     damageSourceType: null,
     damageDir: vec2(0, 0),
     damageHits: [],
+    perfectDodges: [],
   }
 
   if (!player.isAlive) return result
@@ -298,7 +323,7 @@ export function processEnemyAttacks(player: Player, enemies: Enemy[], canTrigger
           applyPlayerDamage(
             player,
             enemy.damage,
-            enemy.type,
+            enemy,
             canTriggerLastStand && !result.lastStandTriggered,
             result,
             { intensity: 10, duration: 0.15 }
@@ -322,7 +347,7 @@ export function processEnemyAttacks(player: Player, enemies: Enemy[], canTrigger
               applyPlayerDamage(
                 player,
                 enemy.damage,
-                enemy.type,
+                enemy,
                 canTriggerLastStand && !result.lastStandTriggered,
                 result,
                 { intensity: 8, duration: 0.12 }
@@ -343,7 +368,7 @@ export function processEnemyAttacks(player: Player, enemies: Enemy[], canTrigger
           applyPlayerDamage(
             player,
             enemy.damage,
-            enemy.type,
+            enemy,
             canTriggerLastStand && !result.lastStandTriggered,
             result,
             { intensity: 15, duration: 0.25 },
@@ -367,7 +392,7 @@ export function processEnemyAttacks(player: Player, enemies: Enemy[], canTrigger
           applyPlayerDamage(
             player,
             enemy.damage,
-            enemy.type,
+            enemy,
             canTriggerLastStand && !result.lastStandTriggered,
             result,
             { intensity: 18, duration: 0.3 },
@@ -384,7 +409,7 @@ export function processEnemyAttacks(player: Player, enemies: Enemy[], canTrigger
           applyPlayerDamage(
             player,
             Math.round(enemy.damage * 0.7),
-            enemy.type,
+            enemy,
             canTriggerLastStand && !result.lastStandTriggered,
             result,
             { intensity: 20, duration: 0.3 },
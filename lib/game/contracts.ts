@@ -27,14 +27,15 @@ export interface ContractProgress {
   killsByType: Record<EnemyType, number>
   firstKillType: EnemyType | null
   killOrder: EnemyType[]
-  waveStartTime: number
-  killTimestamps: number[]
+  waveElapsedMs: number      // sim time since wave start (advanced by the engine, not the wall clock)
+  killTimestamps: number[]   // waveElapsedMs at each kill
   damageTaken: number
   wasHit: boolean
   pulseWaveUsed: boolean
   timeFlickerUsed: boolean
   maxCombo: number
   finalCombo: number
+  perfectDodges: number
 }
 
 export interface ContractState {
@@ -114,6 +115,17 @@ export const CONTRACT_POOL: WaveContract[] = [
     energyRestore: 15,
     failurePenalty: 'drop_to_1hp',
   },
+  {
+    id: 'dodge_dancer',
+    name: 'Dodge Dancer',
+    description: 'Perfect-dodge 3 attacks',
+    difficulty: 'medium',
+    minWave: 2,
+    scoreBonus: 350,
+    hpRestore: 10,
+    energyRestore: 20,
+    failurePenalty: 'drop_to_1hp',
+  },
   {
     id: 'combo_chain',
     name: 'Combo Chain',
@@ -176,7 +188,7 @@ export function createContractProgress(): ContractProgress {
     killsByType: { normal: 0, sniper: 0, heavy: 0, fast: 0 },
     firstKillType: null,
     killOrder: [],
-    waveStartTime: Date.now(),
+    waveElapsedMs: 0,
     killTimestamps: [],
     damageTaken: 0,
     wasHit: false,
@@ -184,6 +196,7 @@ export function createContractProgress(): ContractProgress {
     timeFlickerUsed: false,
     maxCombo: 0,
     finalCombo: 0,
+    perfectDodges: 0,
   }
 }
 
@@ -270,7 +283,7 @@ export function checkContractCompletion(
 
     case 'speed_demon': {
       const windowMs = 10000
-      const now = Date.now()
+      const now = progress.waveElapsedMs
       const recentKills = progress.killTimestamps.filter((t) => now - t <= windowMs)
       return recentKills.length >= 3 ? 'completed' : 'active'
     }
@@ -278,6 +291,9 @@ export function checkContractCompletion(
     case 'combo_chain':
       return progress.maxCombo >= 3 ? 'completed' : 'active'
 
+    case 'dodge_dancer':
+      return progress.perfectDodges >= 3 ? 'completed' : 'active'
+
     case 'heavy_priority': {
       const heavyCount = enemyCounts.heavy
       if (heavyCount === 0) return 'completed' // No heavies = auto-complete
@@ -323,7 +339,7 @@ export function finalizeContract(
       return progress.wasHit ? 'failed' : 'completed'
 
     case 'perfect_rush': {
-      const elapsed = (Date.now() - progress.waveStartTime) / 1000
+      const elapsed = progress.waveElapsedMs / 1000
       return !progress.wasHit && elapsed <= 15 ? 'completed' : 'failed'
     }
 
@@ -361,7 +377,7 @@ export function getContractProgressText(
 
     case 'speed_demon': {
       const windowMs = 10000
-      const now = Date.now()
+      const now = progress.waveElapsedMs
       const recentKills = progress.killTimestamps.filter((t) => now - t <= windowMs)
       return `${recentKills.length}/3 in 10s`
     }
@@ -370,7 +386,7 @@ export function getContractProgressText(
       return progress.wasHit ? 'HIT!' : 'No damage yet'
 
     case 'perfect_rush': {
-      const elapsed = ((Date.now() - progress.waveStartTime) / 1000).toFixed(1)
+      const elapsed = (progress.waveElapsedMs / 1000).toFixed(1)
       return `${elapsed}s | ${progress.wasHit ? 'HIT!' : 'Clean'}`
     }
 
@@ -383,6 +399,9 @@ export function getContractProgressText(
     case 'pulse_user':
       return progress.pulseWaveUsed ? 'Used!' : 'Press L'
 
+    case 'dodge_dancer':
+      return `${progress.perfectDodges}/3 perfect dodges`
+
     default:
       return ''
   }
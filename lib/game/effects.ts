@@ -0,0 +1,139 @@
+/**
+ * Visual feedback — the engine's own event listeners.
+ *
+ * Particles and camera shake are part of the scene the renderer draws, so the
+ * engine subscribes both at load. Each turns gameplay events into the bursts
+ * and shakes that used to be fired inline from updateGame.
+ */
+
+import type { GameState } from './engine'
+import type { GameEvent, PlayerHitSource } from './events'
+import { shakeCamera } from './camera'
+import {
+  emitHitSparks,
+  emitPulseWave,
+  emitTypedDeathExplosion,
+  emitAffixDeathEffect,
+  emitPerfectDodge,
+  emitBossDeath,
+  emitBossZoneStrike,
+  emitBossBlink,
+  emitShockArc,
+} from './particles'
+import * as S from './settings'
+
+// One dense burst as the player's pulse wave leaves — hazard pulses use the default 20
+const PLAYER_PULSE_PARTICLES = 120
+
+/** Shake for arena damage; enemy attacks bring their own impact from combat. */
+const ARENA_HIT_SHAKE: Partial<Record<PlayerHitSource, { intensity: number; duration: number }>> = {
+  boss_zone: { intensity: 10, duration: 0.2 },
+  hazard_zone: { intensity: 4, duration: 0.1 },
+  hazard_trap: { intensity: 8, duration: 0.15 },
+  hazard_pulse: { intensity: 12, duration: 0.2 },
+  explosion: { intensity: 8, duration: 0.15 },
+  contract: { intensity: 14, duration: 0.3 },
+}
+
+export function particleEffects(event: GameEvent, state: GameState): void {
+  const ps = state.particles
+  switch (event.type) {
+    case 'attackStarted':
+      if (event.attack === 'pulse_wave') emitPulseWave(ps, event.pos, event.facing, S.PULSE_WAVE_ARC, PLAYER_PULSE_PARTICLES)
+      break
+    case 'perfectDodge':
+      emitPerfectDodge(ps, event.pos)
+      break
+    case 'enemyHit':
+      switch (event.source) {
+        case 'light': emitHitSparks(ps, event.pos, '#ffffff', 8); break
+        case 'heavy': emitHitSparks(ps, event.pos, '#ffffff', 15); break
+        case 'pulse': emitHitSparks(ps, event.pos, '#7b2fff', 8); break
+        case 'dash': emitHitSparks(ps, event.pos, '#22ffaa', 4); break
+        case 'explosion': emitHitSparks(ps, event.pos, '#ff8844', 6); break
+      }
+      break
+    case 'enemyKilled': {
+      const enemy = event.enemy
+      if (enemy.type === 'boss') emitBossDeath(enemy.bossTheme, enemy.pos, ps)
+      else emitTypedDeathExplosion(enemy.type, enemy.pos, ps)
+      if (enemy.affixState.affix) emitAffixDeathEffect(enemy.affixState.affix, enemy.pos, ps)
+      break
+    }
+    case 'playerHit':
+      if (event.source === 'hazard_trap' && event.hazard) {
+        emitHitSparks(ps, event.pos, event.hazard.color, 8)
+      } else if (event.impact) {
+        // Enemy attacks — Last Stand flares gold instead of red
+        emitHitSparks(ps, event.pos, event.lastStand ? '#ffaa00' : '#ff2244', event.lastStand ? 20 : 10)
+      }
+      break
+    case 'shockArc':
+      emitShockArc(event.from, event.to, ps)
+      break
+    case 'obstacleDamaged': {
+      const obs = event.obstacle
+      emitHitSparks(ps, { x: obs.x, y: obs.y }, state.levelTheme.glowColor, obs.state === 'rubble' ? 20 : 10)
+      break
+    }
+    case 'hazardFired': {
+      const hz = event.hazard
+      if (hz.type === 'wall_trap') {
+        emitHitSparks(ps, hz.pos, hz.color, 12)
+      } else if (hz.type === 'pulse_center') {
+        emitPulseWave(ps, hz.pos, 0, Math.PI * 2)
+        emitHitSparks(ps, hz.pos, hz.color, 20)
+      }
+      break
+    }
+    case 'bossZoneStruck':
+      emitBossZoneStrike(event.zone.kind, event.zone.pos, event.zone.radius, ps)
+      break
+    case 'bossPhaseChanged':
+      emitHitSparks(ps, event.boss.pos, event.boss.color, 30)
+      break
+    case 'bossSummoned':
+      emitHitSparks(ps, event.boss.pos, event.boss.color, 20)
+      break
+    case 'bossBlinked':
+      emitBossBlink(event.from, event.boss.pos, event.boss.color, ps)
+      break
+  }
+}
+
+export function cameraEffects(event: GameEvent, state: GameState): void {
+  const camera = state.camera
+  switch (event.type) {
+    case 'consumableUsed':
+      if (event.consumable === 'nuke') shakeCamera(camera, 18, 0.4)
+      break
+    case 'enemyHit':
+      if (event.source === 'light') shakeCamera(camera, S.CAMERA_SHAKE_INTENSITY, S.CAMERA_SHAKE_DURATION)
+      else if (event.source === 'heavy' || event.source === 'pulse') shakeCamera(camera, S.HEAVY_SHAKE_INTENSITY, S.HEAVY_SHAKE_DURATION)
+      break
+    case 'enemyKilled':
+      if (event.enemy.type === 'boss') shakeCamera(camera, 20, 0.6)
+      break
+    case 'playerHit': {
+      if (event.lastStand) shakeCamera(camera, 20, 0.4)
+      const shake = event.impact ?? ARENA_HIT_SHAKE[event.source]
+      if (shake) shakeCamera(camera, shake.intensity, shake.duration)
+      break
+    }
+    case 'hazardFired':
+      if (event.hazard.type === 'pulse_center') shakeCamera(camera, 10, 0.3)
+      break
+    case 'bossPhaseChanged':
+      shakeCamera(camera, 12, S.BOSS_PHASE_TRANSITION * 0.5)
+      break
+    case 'bossSummoned':
+      shakeCamera(camera, 14, 0.35)
+      break
+    case 'bossBlinked':
+      shakeCamera(camera, 8, 0.2)
+      break
+    case 'waveCleared':
+      if (event.bossWave) shakeCamera(camera, 16, 0.5)
+      break
+  }
+}
@@ -2,6 +2,11 @@ import { Vec2, vec2, sub, add, scale, normalize, distance, length, fromAngle, an
 import * as S from './settings'
 import type { Player } from './player'
 import { WaveAffix, EnemyAffixState, createEnemyAffixState } from './affixes'
+import { rng } from './seeded-rng'
+import type { ThemeKey } from './levels'
+import { BossZone, updateBossAI } from './bosses'
+import { StatusEffects, createStatusEffects, tickStatus, statusSpeedMultiplier, applyHitStatus } from './status'
+import { SpatialGrid, queryCircle } from './spatial'
 
 export type EnemyType = 'normal' | 'sniper' | 'heavy' | 'fast' | 'shielder' | 'spawner' | 'boss'
 
@@ -26,11 +31,13 @@ export interface Enemy {
   knockbackVel: Vec2
   knockbackTime: number
   stunTime: number
+  status: StatusEffects
   // Sniper specific
   laserWarning: boolean
   laserAngle: number
   // Fast specific
   dodgeCooldown: number
+  strafeTime: number        // drives the side-approach weave (sim time, not wall clock)
   // Heavy specific
   shockwaveActive: boolean
   shockwaveTimer: number
@@ -46,7 +53,10 @@ export interface Enemy {
   maxSpawns: number         // cap before spawner exhausts
   pendingSpawn: boolean     // signals engine to create a Normal nearby
   // Boss specific
+  bossTheme: ThemeKey       // which boss from the roster (see bosses.ts)
   bossPhase: number         // 1 | 2 | 3 — driven by HP thresholds
+  bossPhaseTimer: number    // roar pause remaining after a phase change
+  bossPhaseChanged: boolean // signals engine to play the phase-change roar
   isCharging: boolean
   chargeTimer: number       // active charge duration remaining
   chargeWindupTimer: number // pre-charge telegraph remaining
@@ -54,10 +64,38 @@ export interface Enemy {
   chargeDir: Vec2           // direction locked at windup end
   ringPulseTimer: number    // countdown to next ring pulse (phase 2+)
   bossSpawnedMinions: boolean // phase 3 one-time spawn flag
+  trailTimer: number        // countdown to the next fire trail patch
+  frostTimer: number        // countdown to the next frost zone
+  lightningTimer: number    // countdown to the next lightning volley
+  riftTimer: number         // countdown to the next void rift
+  blinkTimer: number        // countdown to the next blink
+  blinkWindupTimer: number  // fade-out remaining before the blink lands
+  bossBlinkedFrom: Vec2 | null // signals engine that the boss blinked this tick, and from where
+  bossCasts: BossZone[]     // ground attacks for the engine to place
 }
 
 let nextId = 0
 
+/** Keep new enemy ids clear of `minNext` and below (restored enemies keep their saved ids). */
+export function reserveEnemyIds(minNext: number): void {
+  nextId = Math.max(nextId, minNext)
+}
+
+/** Which enemy type dealt the most damage this run ('none' if nothing hit the player). */
+export function getTopDamageSource(damageByType: Record<EnemyType, number>): string {
+  let topType: string = 'none'
+  let topDamage = 0
+
+  for (const [type, damage] of Object.entries(damageByType)) {
+    if (damage > topDamage) {
+      topDamage = damage
+      topType = type
+    }
+  }
+
+  return topType
+}
+
 export function createEnemy(
   type: EnemyType,
   x: number,
@@ -108,7 +146,7 @@ export function createEnemy(
     damage: scaledDamage,
     attackRange: cfg.attackRange,
     attackCooldown: finalAttackCooldown,
-    attackTimer: finalAttackCooldown * 0.5 + Math.random() * finalAttackCooldown * 0.5,
+    attackTimer: finalAttackCooldown * 0.5 + rng() * finalAttackCooldown * 0.5,
     isAttacking: false,
     attackAnimTimer: 0,
     color: cfg.color,
@@ -118,9 +156,11 @@ export function createEnemy(
     knockbackVel: vec2(0, 0),
     knockbackTime: 0,
     stunTime: 0,
+    status: createStatusEffects(),
     laserWarning: false,
     laserAngle: 0,
     dodgeCooldown: 0,
+    strafeTime: 0,
     shockwaveActive: false,
     shockwaveTimer: 0,
     shockwaveRange: type === 'boss' ? 140 : (cfg as typeof S.HEAVY_ENEMY).shockwaveRange || 0,
@@ -134,7 +174,10 @@ export function createEnemy(
     maxSpawns: type === 'spawner' ? S.SPAWNER_ENEMY.maxSpawns : 0,
     pendingSpawn: false,
     // Boss
+    bossTheme: 'void',
     bossPhase: 1,
+    bossPhaseTimer: 0,
+    bossPhaseChanged: false,
     isCharging: false,
     chargeTimer: 0,
     chargeWindupTimer: 0,
@@ -142,6 +185,14 @@ export function createEnemy(
     chargeDir: vec2(1, 0),
     ringPulseTimer: S.BOSS_ENEMY.ringPulseCooldown,
     bossSpawnedMinions: false,
+    trailTimer: 0,
+    frostTimer: S.BOSS_FROST_ZONE.cooldown * 0.5,
+    lightningTimer: S.BOSS_LIGHTNING.cooldown * 0.5,
+    riftTimer: S.BOSS_VOID_RIFT.cooldown * 0.5,
+    blinkTimer: S.BOSS_BLINK.cooldown,
+    blinkWindupTimer: 0,
+    bossBlinkedFrom: null,
+    bossCasts: [],
   }
 }
 
@@ -158,6 +209,17 @@ export function updateEnemy(enemy: Enemy, player: Player, dt: number, timeScale:
     enemy.vel = vec2(0, 0)
   }
 
+  // Status effects: burning ticks even while stunned or knocked back
+  const burn = tickStatus(enemy.status, adt)
+  if (burn > 0) {
+    enemy.hp -= burn
+    if (enemy.hp <= 0) {
+      enemy.hp = 0
+      enemy.isAlive = false
+      return
+    }
+  }
+
   // Affix: Regenerating - heal over time
   if (affix?.regenPerSecond && enemy.hp < enemy.maxHp) {
     enemy.affixState.regenAccumulator += affix.regenPerSecond * adt
@@ -233,7 +295,8 @@ export function updateEnemy(enemy: Enemy, player: Player, dt: number, timeScale:
       break
   }
 
-  // Apply velocity
+  // Apply velocity (chilled enemies move slower)
+  enemy.vel = scale(enemy.vel, statusSpeedMultiplier(enemy.status))
   enemy.pos = add(enemy.pos, scale(enemy.vel, adt))
 
   // Arena bounds
@@ -311,10 +374,11 @@ function updateHeavyAI(enemy: Enemy, player: Player, dir: Vec2, dist: number, dt
 
 function updateFastAI(enemy: Enemy, player: Player, dir: Vec2, dist: number, dt: number): void {
   if (enemy.dodgeCooldown > 0) enemy.dodgeCooldown -= dt
+  enemy.strafeTime += dt
 
   if (dist > enemy.attackRange + 30) {
     // Approach from side
-    const sideAngle = angleBetween(enemy.pos, player.pos) + (Math.sin(Date.now() * 0.003) * 0.8)
+    const sideAngle = angleBetween(enemy.pos, player.pos) + (Math.sin(enemy.strafeTime * 3) * 0.8)
     const sideDir = fromAngle(sideAngle)
     enemy.vel = scale(sideDir, enemy.speed)
   } else {
@@ -377,83 +441,14 @@ function updateSpawnerAI(enemy: Enemy, dt: number): void {
   }
 }
 
-function updateBossAI(enemy: Enemy, player: Player, dir: Vec2, dist: number, dt: number): void {
-  // Phase transitions based on HP
-  const hpRatio = enemy.hp / enemy.maxHp
-  const prevPhase = enemy.bossPhase
-  if (hpRatio <= 0.33 && enemy.bossPhase < 3) {
-    enemy.bossPhase = 3
-    if (!enemy.bossSpawnedMinions) {
-      enemy.pendingSpawn = true
-      enemy.bossSpawnedMinions = true
-    }
-  } else if (hpRatio <= 0.66 && enemy.bossPhase < 2) {
-    enemy.bossPhase = 2
-    enemy.speed += 15
-  }
-  if (prevPhase < enemy.bossPhase && enemy.bossPhase === 2) {
-    enemy.speed += 15 // speed boost on phase 3
-  }
-
-  // Charge behavior (all phases)
-  if (enemy.isCharging) {
-    enemy.chargeTimer -= dt
-    enemy.vel = scale(enemy.chargeDir, S.BOSS_ENEMY.chargeSpeed)
-    if (enemy.chargeTimer <= 0 || dist < enemy.size + 20) {
-      enemy.isCharging = false
-      enemy.isAttacking = true
-      enemy.attackAnimTimer = 0.3
-      enemy.chargeCooldownTimer = S.BOSS_ENEMY.chargeCooldown
-    }
-    return
-  }
-
-  if (enemy.chargeWindupTimer > 0) {
-    enemy.chargeWindupTimer -= dt
-    enemy.vel = scale(dir, enemy.speed * 0.3) // slow creep during windup
-    if (enemy.chargeWindupTimer <= 0) {
-      enemy.isCharging = true
-      enemy.chargeTimer = S.BOSS_ENEMY.chargeDuration
-      enemy.chargeDir = dir
-    }
-    return
-  }
-
-  // Cooldown between charges
-  enemy.chargeCooldownTimer -= dt
-  if (enemy.chargeCooldownTimer <= 0) {
-    enemy.chargeWindupTimer = S.BOSS_ENEMY.chargeWindup
-  }
-
-  // Default movement: orbit/chase
-  if (dist > 100) {
-    enemy.vel = scale(dir, enemy.speed * 0.6)
-  } else {
-    enemy.vel = vec2(0, 0)
-  }
-
-  // Ring pulse (phase 2+)
-  if (enemy.bossPhase >= 2) {
-    enemy.ringPulseTimer -= dt
-    if (enemy.ringPulseTimer <= 0) {
-      enemy.shockwaveActive = true
-      enemy.shockwaveTimer = 0.5
-      enemy.shockwaveRange = 140
-      enemy.isAttacking = true
-      enemy.attackAnimTimer = 0.5
-      enemy.ringPulseTimer = S.BOSS_ENEMY.ringPulseCooldown
-    }
-  }
-}
-
 export function damageEnemy(enemy: Enemy, damage: number, knockbackDir: Vec2, knockback: number): boolean {
   if (!enemy.isAlive) return false
 
   // Apply Armored affix damage reduction
-  let finalDamage = damage
+  let finalDamage = applyHitStatus(enemy.status, damage)
   const affix = enemy.affixState.affix
   if (affix?.damageReduction) {
-    finalDamage = Math.round(damage * (1 - affix.damageReduction))
+    finalDamage = Math.round(finalDamage * (1 - affix.damageReduction))
     finalDamage = Math.max(1, finalDamage) // Always deal at least 1 damage
   }
 
@@ -471,12 +466,35 @@ export function damageEnemy(enemy: Enemy, damage: number, knockbackDir: Vec2, kn
   return false
 }
 
+/**
+ * Push overlapping enemies apart so a crowd closes in as a ring instead of
+ * stacking on one spot. Bigger bodies give way less. `grid` must be built
+ * over `enemies`.
+ *
+ * Horde difficulty only — a deliberate balance change for that mode: a ring
+ * of hundreds reaches the player a few at a time instead of as one stack.
+ */
+export function separateEnemies(enemies: Enemy[], grid: SpatialGrid<Enemy>): void {
+  const near: Enemy[] = []
+  for (const enemy of enemies) {
+    if (!enemy.isAlive) continue
+    for (const other of queryCircle(grid, enemy.pos, enemy.size, near)) {
+      if (other === enemy || !other.isAlive) continue
+      const d = distance(enemy.pos, other.pos)
+      const overlap = enemy.size + other.size - d
+      if (overlap <= 0 || d < 0.001) continue
+      const give = other.size / (enemy.size + other.size)
+      enemy.pos = add(enemy.pos, scale(sub(enemy.pos, other.pos), (overlap * give * S.ENEMY_SEPARATION) / d))
+    }
+  }
+}
+
 // Fast enemies can dodge
 export function tryDodge(enemy: Enemy): boolean {
   if (enemy.type !== 'fast') return false
   if (enemy.dodgeCooldown > 0) return false
-  if (Math.random() < (S.FAST_ENEMY.dodgeChance ?? 0.4)) {
-    const dodgeAngle = Math.random() * Math.PI * 2
+  if (rng() < (S.FAST_ENEMY.dodgeChance ?? 0.4)) {
+    const dodgeAngle = rng() * Math.PI * 2
     enemy.pos = add(enemy.pos, scale(fromAngle(dodgeAngle), 60))
     enemy.dodgeCooldown = 1.5
     return true
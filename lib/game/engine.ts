@@ -1,12 +1,17 @@
-import { Player, createPlayer, updatePlayer, InputState, AttackType } from './player'
-import { Question, getQuestion } from './questions'
-import { Enemy, EnemyType, updateEnemy, createEnemy } from './enemy'
-import { distance, normalize, sub, scale, add } from './vec2'
-import { Camera, createCamera, shakeCamera, updateCamera } from './camera'
-import { ParticleSystem, createParticleSystem, updateParticles, emitHitSparks, emitPulseWave, emitDeathExplosion, emitTypedDeathExplosion, emitAffixDeathEffect, emitAmbientParticle } from './particles'
+import { Player, createPlayer, updatePlayer, damagePlayer, tryPerfectDodge, InputState, AttackType, DamageResult } from './player'
+import { LearningRecord, QuizAttempt, recordAttempt } from './learning'
+import { Question, QuizAnswer, MAX_TYPED_ANSWER, getQuestion, isCorrectAnswer, isTypedQuestion } from './questions'
+import { Enemy, EnemyType, updateEnemy, createEnemy, separateEnemies } from './enemy'
+import { Vec2, distance, normalize, sub, scale, add } from './vec2'
+import { Camera, createCamera, updateCamera } from './camera'
+import { ParticleSystem, createParticleSystem, updateParticles, emitAmbientParticle } from './particles'
 import { processPlayerAttacks, processEnemyAttacks, HitEffect } from './combat'
-import { spawnWaveEnemies, WaveEvent, selectWaveEvent } from './waves'
-import { render, DailyEntry } from './renderer'
+import { spawnWaveEnemies, WaveEvent, selectWaveEvent, isBossWave } from './waves'
+import { BossZone, BossZoneKind, assignBoss } from './bosses'
+import { render } from './renderer'
+import { DailyEntry, ReplayView } from './scene'
+import { Viewport } from './viewport'
+import { KeyMap } from './keymap'
 import { AssetCache } from './assetLoader'
 import { LevelTheme, Obstacle, Hazard, getLevelTheme, getLevelNumber, isLevelTransition, generateObstacles, generateHazards } from './levels'
 import * as S from './settings'
@@ -22,8 +27,23 @@ import {
   finalizeContract,
 } from './contracts'
 import { WaveAffix, selectAffixForWave } from './affixes'
-import { rng, setRng, resetToMathRandom, getDailySeed, createSeededRng } from './seeded-rng'
-import { audio } from './audio'
+import { Loadout, BASELINE_LOADOUT } from './progression'
+import { AchievementRecord, AchievementToast, ACHIEVEMENT_TOAST_DURATION, checkAchievements } from './achievements'
+import { StatusEffects, StatusKind, createStatusEffects, applyStatus, applyHitStatus, tickStatus } from './status'
+import { rng, setRng, getDailySeed, createSeededRng, createRunSeed } from './seeded-rng'
+import { GameEvent, PlayerHitSource, subscribe, publishEvents } from './events'
+import { particleEffects, cameraEffects } from './effects'
+import { createSpatialGrid, rebuildSpatialGrid, queryCircle } from './spatial'
+import { acquire, cull } from './pool'
+
+// Particles and shake live on the game state, so they always listen; audio is attached by the component
+subscribe(particleEffects)
+subscribe(cameraEffects)
+
+// Scratch space rebuilt every tick — kept off GameState so it never lands in a save
+const enemyGrid = createSpatialGrid<Enemy>()
+const freeDamageNumbers: DamageNumber[] = []
+const freeSlashTrails: SlashTrail[] = []
 
 export interface SlashTrail {
   pos: { x: number; y: number }
@@ -70,6 +90,7 @@ export interface GameState {
   levelTheme: LevelTheme
   obstacles: Obstacle[]
   hazards: Hazard[]
+  bossZones: BossZone[]     // live fire trails, frost zones and lightning telegraphs
   // Wave Events (player choice pre-wave challenge)
   pendingWaveEvent: WaveEvent | null
   activeWaveEvent: WaveEvent | null
@@ -88,8 +109,11 @@ export interface GameState {
   originalEnemyCounts: Record<EnemyType, number>
   // Last Stand system (one-time lethal hit survival)
   lastStandUsed: boolean
+  extraLastStand: boolean        // Second Wind unlock: a spare that is spent first
   lastStandActive: boolean
   lastStandTimer: number
+  // Perfect dodge slow-mo (seconds left)
+  perfectDodgeTimer: number
   // Death recap (damage tracking by enemy type)
   damageByEnemyType: Record<EnemyType, number>
   // Damage feedback
@@ -130,16 +154,36 @@ export interface GameState {
   questionResult: 'pending' | 'correct' | 'wrong-first' | 'wrong-final'
   questionRetryAvailable: boolean
   questionFeedbackTimer: number  // counts DOWN in ms
+  questionTyped: string          // in-progress answer for spelling / number questions
+  learningRecord: LearningRecord | null  // student's quiz history — biases question picks
+  quizAttempts: QuizAttempt[]    // answered this run, drained by the component to persist
   pendingMutatorIndex: number    // which mutator was selected (0-indexed)
   // ── Pause menu ───────────────────────────────────────────────────────────────
   paused: boolean
-  pauseMenuSelection: number     // 0=Resume, 1=Restart, 2=Return to Title
+  pauseMenuSelection: number     // 0=Resume, 1=Restart, 2=Audio, 3=Return to Title
   // ── Run stats ────────────────────────────────────────────────────────────────
   totalKills: number
   totalDamageDealt: number
   contractsCompleted: number
+  perfectDodges: number
+  runTime: number                // seconds of live play (pause, quiz and layout prompts excluded)
+  bossesDefeated: number
+  flawlessBosses: number         // bosses killed in a wave the player took no damage
+  waveDamageTaken: number        // HP lost this wave from any source (see recordPlayerDamage)
+  quizCorrect: number
+  // ── Achievements ────────────────────────────────────────────────────────────
+  achievementRecord: AchievementRecord | null  // stored progress at run start; null = not tracked (replays)
+  achievementUnlocks: string[]   // unlocked this run, drained by the component to persist
+  achievementToasts: AchievementToast[]
   // ── Boss system ──────────────────────────────────────────────────────────────
   bossWaveCompleted: boolean     // next mutator draft forces 3 epics
+  // ── Meta-progression ────────────────────────────────────────────────────────
+  loadout: Loadout               // what the unlock tree brought into this run (baseline for Daily)
+  // ── Replay ───────────────────────────────────────────────────────────────────
+  seed: number                   // rng seed for this run (Daily: derived from the date)
+  isReplay: boolean              // playback of a recorded run — never touches the high score
+  // ── Events ───────────────────────────────────────────────────────────────────
+  events: GameEvent[]            // what happened in the last tick, published to listeners after it
 }
 
 /** Returns the active DifficultyPreset, respecting Classroom (grade-split) and Daily overrides. */
@@ -153,13 +197,11 @@ export function getEffectivePreset(state: GameState): DifficultyPreset {
   return DIFFICULTY_PRESETS[state.difficulty]
 }
 
-export function createGameState(isDailyChallenge = false, selectedGrade = 1, quizEnabled = false, selectedTopicId = 'english-vocab', difficulty: DifficultyLevel = 'normal'): GameState {
+export function createGameState(isDailyChallenge = false, selectedGrade = 1, quizEnabled = false, selectedTopicId = 'english-vocab', difficulty: DifficultyLevel = 'normal', seed?: number, loadout: Loadout = BASELINE_LOADOUT): GameState {
   const challengeDate = new Date().toISOString().slice(0, 10)
-  if (isDailyChallenge) {
-    setRng(createSeededRng(getDailySeed(challengeDate)))
-  } else {
-    resetToMathRandom()
-  }
+  // Every run is seeded so it can be replayed from its recorded inputs
+  const runSeed = seed ?? (isDailyChallenge ? getDailySeed(challengeDate) : createRunSeed())
+  setRng(createSeededRng(runSeed))
 
   // Resolve effective preset (Daily locked to normal; Classroom splits by grade)
   const effectiveDifficulty: DifficultyLevel | 'classroom' =
@@ -168,11 +210,16 @@ export function createGameState(isDailyChallenge = false, selectedGrade = 1, qui
     : difficulty
   const preset = DIFFICULTY_PRESETS[effectiveDifficulty]
   const difficultyHpBonus = preset.playerHpBonus
+  // Daily Challenge stays on the baseline so its leaderboard is fair
+  const runLoadout = isDailyChallenge ? BASELINE_LOADOUT : loadout
 
   const startTheme = getLevelTheme(1)
+  // ARENA_RADIUS is module state — a previous run may have left it shrunk
+  setArenaRadius(startTheme.arenaRadius)
   const basePlayer = createPlayer()
   basePlayer.hp = S.PLAYER_HP + difficultyHpBonus
   basePlayer.maxHp = S.PLAYER_HP + difficultyHpBonus
+  if (runLoadout.trailColor) basePlayer.trailColor = runLoadout.trailColor
   return {
     player: basePlayer,
     enemies: [],
@@ -192,6 +239,7 @@ export function createGameState(isDailyChallenge = false, selectedGrade = 1, qui
     levelTheme: startTheme,
     obstacles: [],
     hazards: [],
+    bossZones: [],
     pendingWaveEvent: null,
     activeWaveEvent: null,
     waveEventTimer: 0,
@@ -209,8 +257,10 @@ export function createGameState(isDailyChallenge = false, selectedGrade = 1, qui
     originalEnemyCounts: { normal: 0, sniper: 0, heavy: 0, fast: 0, shielder: 0, spawner: 0, boss: 0 },
     // Last Stand system
     lastStandUsed: false,
+    extraLastStand: runLoadout.extraLastStand,
     lastStandActive: false,
     lastStandTimer: 0,
+    perfectDodgeTimer: 0,
     // Death recap
     damageByEnemyType: { normal: 0, sniper: 0, heavy: 0, fast: 0, shielder: 0, spawner: 0, boss: 0 },
     // Damage feedback
@@ -230,7 +280,7 @@ export function createGameState(isDailyChallenge = false, selectedGrade = 1, qui
     playerRarityGlowTimer: 0,
     playerRarityGlowColor: '#7b2fff',
     // Consumables
-    consumables: [],
+    consumables: [...runLoadout.consumables],
     consumableActive: null,
     // Difficulty system
     difficulty: isDailyChallenge ? 'normal' : difficulty,
@@ -247,6 +297,9 @@ export function createGameState(isDailyChallenge = false, selectedGrade = 1, qui
     questionResult: 'pending',
     questionRetryAvailable: true,
     questionFeedbackTimer: 0,
+    questionTyped: '',
+    learningRecord: null,
+    quizAttempts: [],
     pendingMutatorIndex: 0,
     paused: false,
     pauseMenuSelection: 0,
@@ -254,13 +307,64 @@ export function createGameState(isDailyChallenge = false, selectedGrade = 1, qui
     totalKills: 0,
     totalDamageDealt: 0,
     contractsCompleted: 0,
+    perfectDodges: 0,
+    runTime: 0,
+    bossesDefeated: 0,
+    flawlessBosses: 0,
+    waveDamageTaken: 0,
+    quizCorrect: 0,
+    achievementRecord: null,
+    achievementUnlocks: [],
+    achievementToasts: [],
     // Boss
     bossWaveCompleted: false,
+    loadout: runLoadout,
+    // Replay
+    seed: runSeed,
+    isReplay: false,
+    events: [],
   }
 }
 
 // ── Educational helpers ───────────────────────────────────────────────────────
 
+/** Grade a quiz answer of any question kind and start the feedback timer. */
+function answerQuestion(state: GameState, chosen: QuizAnswer): void {
+  const correct = state.currentQuestion !== null && isCorrectAnswer(state.currentQuestion, chosen)
+  if (state.currentQuestion) {
+    const attempt = { questionId: state.currentQuestion.id, correct, firstTry: state.questionRetryAvailable }
+    if (state.learningRecord) recordAttempt(state.learningRecord, attempt)
+    state.quizAttempts.push(attempt)
+    state.events.push({ type: 'quizAnswered', ...attempt })
+  }
+  if (correct) {
+    state.quizCorrect++
+    state.questionResult = 'correct'
+    state.questionFeedbackTimer = 1000
+  } else if (state.questionRetryAvailable) {
+    state.questionResult = 'wrong-first'
+    state.questionRetryAvailable = false
+    state.questionFeedbackTimer = S.QUESTION_FEEDBACK_DURATION
+  } else {
+    state.questionResult = 'wrong-final'
+    state.questionFeedbackTimer = S.QUESTION_FEEDBACK_DURATION
+  }
+}
+
+/** Feed typed keys into the answer box. Backspace deletes, Enter submits. */
+function typeAnswer(state: GameState, keys: string[]): void {
+  for (const key of keys) {
+    if (state.questionResult !== 'pending') return
+    if (key === 'Backspace') {
+      state.questionTyped = state.questionTyped.slice(0, -1)
+    } else if (key === 'Enter') {
+      if (state.questionTyped.trim() !== '') answerQuestion(state, state.questionTyped)
+    } else if (key.length === 1 && state.questionTyped.length < MAX_TYPED_ANSWER) {
+      state.questionTyped += key
+    }
+  }
+}
+
 /** Apply the chosen mutator from state.pendingMutatorIndex to state. */
 function applyPendingMutator(state: GameState): void {
   const choiceIndex = state.pendingMutatorIndex
@@ -290,7 +394,160 @@ function applyPendingMutator(state: GameState): void {
   state.mutatorFeedback = { name: chosen.name, description: feedbackDesc + synergyText, color: chosen.color, timer: 2.5 }
   state.playerRarityGlowTimer = 2.0
   state.playerRarityGlowColor = chosen.color
-  audio.playMutatorSelect(chosen.rarity as 'common' | 'rare' | 'epic')
+  state.events.push({ type: 'mutatorPicked', mutator: chosen })
+}
+
+/**
+ * Note HP the player just lost, for the flawless-boss check. hurtPlayer()
+ * calls it, and so does the enemy-attack batch from combat.ts — nothing else
+ * should lower player.hp.
+ */
+function recordPlayerDamage(state: GameState, damage: number): void {
+  if (damage > 0) state.waveDamageTaken += damage
+}
+
+/** Use up a Last Stand — Second Wind's spare goes first, leaving the run's own for later. */
+function spendLastStand(state: GameState): void {
+  if (state.extraLastStand) state.extraLastStand = false
+  else state.lastStandUsed = true
+}
+
+interface PlayerHurt {
+  source: PlayerHitSource
+  overTime?: boolean            // damage over time, see damagePlayer()
+  iframes?: number              // iframes granted, when not the usual
+  from?: Vec2                   // where it came from, for the damage vignette
+  enemyType?: EnemyType | null  // credited in the death recap
+  hazard?: Hazard
+}
+
+/**
+ * Hurt the player with anything but an enemy's own attack (those resolve in
+ * combat.ts). Goes through damagePlayer, so it can trigger Last Stand or kill,
+ * and does the bookkeeping every hit needs: the playerHit event, the
+ * flawless-boss tally, the death recap and the damage vignette.
+ */
+function hurtPlayer(state: GameState, damage: number, hurt: PlayerHurt): DamageResult {
+  const player = state.player
+  const hit = damagePlayer(player, damage, !state.lastStandUsed, { overTime: hurt.overTime, iframes: hurt.iframes })
+  if (!hit.damaged) return hit
+  const lastStand = hit.wouldBeLethal && player.isAlive
+  if (lastStand) {
+    spendLastStand(state)
+    state.lastStandActive = true
+    state.lastStandTimer = S.LAST_STAND_SLOW_MO_DURATION
+  }
+  state.events.push({ type: 'playerHit', source: hurt.source, damage: hit.dealt, pos: { ...player.pos }, lastStand, hazard: hurt.hazard })
+  recordPlayerDamage(state, hit.dealt)
+  if (hurt.enemyType) state.damageByEnemyType[hurt.enemyType] += hit.dealt
+  if (hurt.overTime) {
+    state.damageFlashTimer = Math.max(state.damageFlashTimer, 0.1)
+  } else {
+    state.damageFlashTimer = S.DAMAGE_VIGNETTE_DURATION
+    if (hurt.from) state.damageDir = normalize(sub(player.pos, hurt.from))
+  }
+  return hit
+}
+
+/**
+ * Reward a perfect dodge: energy refund, a short enemy slow-mo and the
+ * feedback burst. `attacker` is null for hazards; Counterstep stuns it otherwise.
+ */
+function registerPerfectDodge(state: GameState, attacker: Enemy | null): void {
+  const player = state.player
+  player.energy = Math.min(player.maxEnergy, player.energy + S.ENERGY_PERFECT_DODGE)
+  state.perfectDodgeTimer = S.PERFECT_DODGE_SLOW_MO_DURATION
+  state.perfectDodges++
+  state.contractState.progress.perfectDodges++
+  if (attacker && state.combinedModifiers.perfectDodgeStun) {
+    attacker.stunTime = Math.max(attacker.stunTime, S.PERFECT_DODGE_STUN)
+  }
+  state.events.push({ type: 'perfectDodge', pos: { ...player.pos }, attacker })
+}
+
+// What a zone that bites once does when its telegraph runs out
+const ZONE_STRIKES: Record<Exclude<BossZoneKind, 'fire'>, { damage: number; status: StatusKind }> = {
+  frost: { damage: S.BOSS_FROST_ZONE.damage, status: 'chilled' },
+  lightning: { damage: S.BOSS_LIGHTNING.damage, status: 'shocked' },
+  rift: { damage: S.BOSS_VOID_RIFT.damage, status: 'vulnerable' },
+}
+
+/**
+ * Age boss ground attacks. Frost zones, lightning and void rifts bite once
+ * when their telegraph runs out — rifts drag the player toward their centre
+ * until then; fire trails burn while the player stands in them.
+ * Boss attacks run on the enemies' clock, so time slows freeze them too.
+ */
+function updateBossZones(state: GameState, dt: number): void {
+  const player = state.player
+  const adt = dt * state.timeScale
+  const damageMult = getEffectivePreset(state).enemyDamageMult
+  for (let i = state.bossZones.length - 1; i >= 0; i--) {
+    const zone = state.bossZones[i]
+    const inside = player.isAlive && distance(player.pos, zone.pos) < zone.radius + S.PLAYER_SIZE
+
+    if (zone.warmup > 0) {
+      zone.warmup -= adt
+      // A dash breaks free of a rift's pull
+      if (zone.kind === 'rift' && player.isAlive && !player.isDashing) {
+        const d = distance(player.pos, zone.pos)
+        if (d > 1 && d < S.BOSS_VOID_RIFT.pullRadius) {
+          player.pos = add(player.pos, scale(normalize(sub(zone.pos, player.pos)), Math.min(d, S.BOSS_VOID_RIFT.pull * adt)))
+        }
+      }
+      if (zone.warmup > 0) continue
+      state.events.push({ type: 'bossZoneStruck', zone })
+      if (inside && tryPerfectDodge(player)) {
+        registerPerfectDodge(state, null)
+      } else if (inside) {
+        const strike = ZONE_STRIKES[zone.kind as Exclude<BossZoneKind, 'fire'>]
+        const hit = hurtPlayer(state, Math.round(strike.damage * damageMult), { source: 'boss_zone', from: zone.pos, enemyType: 'boss' })
+        if (hit.damaged) {
+          applyStatus(player.status, strike.status)
+          state.contractState.progress.wasHit = true
+        }
+      }
+      continue
+    }
+
+    zone.life -= adt
+    if (zone.life <= 0) {
+      state.bossZones.splice(i, 1)
+      continue
+    }
+    // Standing on frozen ground keeps the chill topped up
+    if (zone.kind === 'frost' && inside) applyStatus(player.status, 'chilled', 0)
+    if (zone.kind === 'fire' && inside && player.iframes <= 0 && !player.isDashing) {
+      applyStatus(player.status, 'burning', 0, 'boss')
+      hurtPlayer(state, S.BOSS_FIRE_TRAIL.dps * damageMult * dt, { source: 'burn', overTime: true, enemyType: 'boss' })
+      state.contractState.progress.wasHit = true
+    }
+  }
+}
+
+/**
+ * Arc every shock that went off this frame to the nearest living enemies.
+ * A shocked player discharges into the enemies around them too.
+ */
+function dischargeShocks(state: GameState): void {
+  const carriers: { pos: Vec2; status: StatusEffects; self: Enemy | null }[] = []
+  if (state.player.status.discharged) carriers.push({ pos: state.player.pos, status: state.player.status, self: null })
+  for (const e of state.enemies) {
+    if (e.status.discharged) carriers.push({ pos: e.pos, status: e.status, self: e })
+  }
+  for (const carrier of carriers) {
+    carrier.status.discharged = false
+    const targets = queryCircle(enemyGrid, carrier.pos, S.STATUS_SHOCK_RANGE)
+      .filter(e => e.isAlive && e !== carrier.self && distance(e.pos, carrier.pos) < S.STATUS_SHOCK_RANGE)
+      .sort((a, b) => distance(a.pos, carrier.pos) - distance(b.pos, carrier.pos))
+      .slice(0, S.STATUS_SHOCK_ARCS)
+    for (const target of targets) {
+      target.hp -= S.STATUS_SHOCK_DAMAGE
+      target.flashTimer = 0.1
+      if (target.hp <= 0) { target.hp = 0; target.isAlive = false }
+      state.events.push({ type: 'shockArc', from: { ...carrier.pos }, to: { ...target.pos } })
+    }
+  }
 }
 
 // Apply mutator stat changes to player (difficultyHpBonus preserves difficulty HP offset)
@@ -308,7 +565,14 @@ function applyMutatorStats(player: Player, mods: MutatorModifiers, difficultyHpB
   // Speed is applied dynamically in updatePlayer
 }
 
+/** Advance the run by one tick, then publish what happened in it to the event listeners. */
 export function updateGame(state: GameState, input: InputState, dt: number): void {
+  state.events = []
+  stepGame(state, input, dt)
+  publishEvents(state)
+}
+
+function stepGame(state: GameState, input: InputState, dt: number): void {
   if (state.gameOver) {
     return
   }
@@ -325,6 +589,12 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
 
   // Question phase — game paused while student answers vocabulary quiz
   if (state.questionPhase) {
+    if (state.questionResult === 'pending' && input.quizAnswer !== undefined) {
+      answerQuestion(state, input.quizAnswer)
+    }
+    if (state.questionResult === 'pending' && input.quizKeys && state.currentQuestion && isTypedQuestion(state.currentQuestion)) {
+      typeAnswer(state, input.quizKeys)
+    }
     if (state.questionFeedbackTimer > 0) {
       state.questionFeedbackTimer -= dt * 1000
       if (state.questionFeedbackTimer <= 0) {
@@ -335,6 +605,7 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
         } else if (state.questionResult === 'wrong-first') {
           // Allow retry — reset to pending
           state.questionResult = 'pending'
+          state.questionTyped = ''
         } else if (state.questionResult === 'wrong-final') {
           // No mutator awarded
         }
@@ -354,6 +625,9 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
   if (state.mutatorSelectionActive) {
     state.mutatorSelectionTimer += dt
     state.mutatorPeekActive = input.mutatorPeek ?? false
+    if (input.mutatorChoice !== undefined) {
+      state.mutatorSelectionInput = input.mutatorChoice
+    }
     if (state.mutatorSelectionInput !== null) {
       const choiceIndex = state.mutatorSelectionInput - 1
       if (choiceIndex >= 0 && choiceIndex < state.mutatorChoices.length) {
@@ -361,13 +635,15 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
         state.mutatorSelectionActive = false
         state.mutatorPeekActive = false
 
-        if (state.quizEnabled && S.QUIZ_GRADES.includes(state.selectedGrade)) {
-          // Classroom Mode ON + Grade 3+ — gate mutator behind vocabulary quiz
+        if (state.quizEnabled && !state.isDailyChallenge && S.QUIZ_GRADES.includes(state.selectedGrade)) {
+          // Classroom Mode ON + Grade 3+ — gate mutator behind vocabulary quiz.
+          // Daily runs skip the gate so every run is re-simulated on the same ruleset.
           state.questionPhase = true
-          state.currentQuestion = getQuestion(state.selectedGrade, state.wave, state.selectedTopicId)
+          state.currentQuestion = getQuestion(state.selectedGrade, state.wave, state.selectedTopicId, state.learningRecord)
           state.questionResult = 'pending'
           state.questionRetryAvailable = true
           state.questionFeedbackTimer = 0
+          state.questionTyped = ''
         } else {
           // Grade 1–2 — apply mutator immediately, no quiz
           applyPendingMutator(state)
@@ -408,8 +684,13 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
     if (state.mutatorFeedback.timer <= 0) state.mutatorFeedback = null
   }
 
+  // Achievement toasts fade over live play
+  for (const toast of state.achievementToasts) toast.timer -= dt
+  state.achievementToasts = state.achievementToasts.filter(t => t.timer > 0)
+
   // Keyboard panel timer (counts up during active gameplay, in seconds)
   state.keyboardPanelTimer += dt
+  state.runTime += dt
 
   // Age out letter flashes
   for (let i = state.letterFlashes.length - 1; i >= 0; i--) {
@@ -425,15 +706,22 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
     if (state.lastStandTimer <= 0) {
       state.lastStandActive = false
       state.lastStandTimer = 0
-      audio.resumeMusic()
+      state.events.push({ type: 'lastStandEnded' })
     }
   }
 
-  // Time scale from Time Flicker or Last Stand
+  // Perfect dodge slow-mo timer
+  if (state.perfectDodgeTimer > 0) {
+    state.perfectDodgeTimer = Math.max(0, state.perfectDodgeTimer - dt)
+  }
+
+  // Time scale from Time Flicker, Last Stand or a perfect dodge
   if (state.lastStandActive) {
     state.timeScale = S.LAST_STAND_SLOW_MO_SCALE
   } else if (state.player.timeFlickerActive) {
     state.timeScale = S.TIME_FLICKER_SLOW
+  } else if (state.perfectDodgeTimer > 0) {
+    state.timeScale = S.PERFECT_DODGE_SLOW_MO_SCALE
   } else {
     state.timeScale = 1
   }
@@ -451,20 +739,17 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
           }
         }
         state.consumableActive = { type: 'nuke', timer: 0.5 }
-        shakeCamera(state.camera, 18, 0.4)
-        audio.playConsumable('nuke')
         break
       case 'full_heal':
         state.player.hp = state.player.maxHp
         state.consumableActive = { type: 'full_heal', timer: 0.8 }
-        audio.playConsumable('full_heal')
         break
       case 'invincibility':
         state.player.iframes = 3.0
         state.consumableActive = { type: 'invincibility', timer: 3.0 }
-        audio.playConsumable('invincibility')
         break
     }
+    state.events.push({ type: 'consumableUsed', consumable: type })
   }
 
   // Decay consumable active timer
@@ -479,14 +764,16 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
   const prevDashing = state.player.isDashing
   updatePlayer(state.player, input, dt, state.combinedModifiers)
 
-  // Audio: time flicker activation
+  // Player status effects — burning ticks on the player's own clock
+  const burnSource = state.player.status.active.burning?.source ?? null
+  const burn = tickStatus(state.player.status, dt)
+  if (burn > 0) hurtPlayer(state, burn, { source: 'burn', overTime: true, enemyType: burnSource })
+
   if (state.player.timeFlickerActive && !prevTimeFlicker) {
-    audio.playAttack('flicker')
+    state.events.push({ type: 'timeFlickerStarted' })
   }
-
-  // Audio: dash start
   if (state.player.isDashing && !prevDashing) {
-    audio.playDash()
+    state.events.push({ type: 'dashStarted', pos: { ...state.player.pos } })
   }
 
   // Player-obstacle collision (push player out of pillars)
@@ -527,35 +814,48 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
           enemy.hp = 0
           enemy.isAlive = false
         }
-        emitHitSparks(state.particles, enemy.pos, '#22ffaa', 4)
+        state.events.push({ type: 'enemyHit', source: 'dash', pos: { ...enemy.pos } })
       }
     }
   }
 
   // Slash trail recording — detect new attack start
   if (state.player.attacking !== 'none' && prevAttacking === 'none') {
-    state.slashTrails.push({
-      pos: { x: state.player.pos.x, y: state.player.pos.y },
-      facing: state.player.facing,
-      attackType: state.player.attacking,
-      age: 0,
-      maxAge: S.SLASH_TRAIL_DURATION,
-    })
+    const trail = acquire(freeSlashTrails, () => ({ pos: { x: 0, y: 0 }, facing: 0, attackType: 'none' as AttackType, age: 0, maxAge: 0 }))
+    trail.pos.x = state.player.pos.x
+    trail.pos.y = state.player.pos.y
+    trail.facing = state.player.facing
+    trail.attackType = state.player.attacking
+    trail.age = 0
+    trail.maxAge = S.SLASH_TRAIL_DURATION
+    state.slashTrails.push(trail)
   }
 
   // Decay slash trails
-  for (let i = state.slashTrails.length - 1; i >= 0; i--) {
-    state.slashTrails[i].age += dt
-    if (state.slashTrails[i].age >= state.slashTrails[i].maxAge) {
-      state.slashTrails.splice(i, 1)
-    }
-  }
+  cull(state.slashTrails, freeSlashTrails, trail => (trail.age += dt) >= trail.maxAge)
 
   // Enemies update with time scale
   for (const enemy of state.enemies) {
     updateEnemy(enemy, state.player, dt, state.timeScale)
   }
 
+  // Boss hand-offs: queued ground attacks and the phase-change roar
+  for (const enemy of state.enemies) {
+    if (enemy.type !== 'boss') continue
+    if (enemy.bossCasts.length > 0) {
+      state.bossZones.push(...enemy.bossCasts)
+      enemy.bossCasts = []
+    }
+    if (enemy.bossPhaseChanged) {
+      enemy.bossPhaseChanged = false
+      state.events.push({ type: 'bossPhaseChanged', boss: enemy })
+    }
+    if (enemy.bossBlinkedFrom) {
+      state.events.push({ type: 'bossBlinked', boss: enemy, from: enemy.bossBlinkedFrom })
+      enemy.bossBlinkedFrom = null
+    }
+  }
+
   // Handle spawner/boss pendingSpawn — create new Normal enemies
   {
     const diffPreset = getEffectivePreset(state)
@@ -579,19 +879,23 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
           const d = enemy.size + 30 + rng() * 30
           newEnemies.push(createEnemy('normal', enemy.pos.x + Math.cos(ang) * d, enemy.pos.y + Math.sin(ang) * d, difficultyMult, state.currentAffix, presetMults))
         }
-        emitHitSparks(state.particles, enemy.pos, S.ENEMY_COLORS.boss, 20)
-        shakeCamera(state.camera, 14, 0.35)
+        state.events.push({ type: 'bossSummoned', boss: enemy })
       }
     }
     state.enemies = state.enemies.concat(newEnemies)
   }
 
+  rebuildSpatialGrid(enemyGrid, state.enemies)
+  // Horde only: separation changes how crowds reach the player, so the other
+  // presets (and the Daily baseline) keep their original stacking behaviour
+  if (getEffectivePreset(state).horde) separateEnemies(state.enemies, enemyGrid)
+
   // Enemy-obstacle collision (push enemies out of pillars)
-  for (const enemy of state.enemies) {
-    if (!enemy.isAlive) continue
-    for (const obs of state.obstacles) {
-      const effR = obs.state === 'rubble' ? obs.rubbleRadius : obs.radius
-      const obsPos = { x: obs.x, y: obs.y }
+  for (const obs of state.obstacles) {
+    const effR = obs.state === 'rubble' ? obs.rubbleRadius : obs.radius
+    const obsPos = { x: obs.x, y: obs.y }
+    for (const enemy of queryCircle(enemyGrid, obsPos, effR)) {
+      if (!enemy.isAlive) continue
       const d = distance(enemy.pos, obsPos)
       const minDist = enemy.size + effR
       if (d < minDist && d > 0.001) {
@@ -612,16 +916,15 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
         pulseWaveDamageMultiplier: (state.combinedModifiers.pulseWaveDamageMultiplier ?? 1) * 2,
       }
     : state.combinedModifiers
-  const playerCombat = processPlayerAttacks(state.player, state.enemies, effectiveMods)
+  // Separation and pillars moved enemies since the last rebuild
+  rebuildSpatialGrid(enemyGrid, state.enemies)
+  const playerCombat = processPlayerAttacks(state.player, state.enemies, effectiveMods, enemyGrid)
   if (playerCombat.hitFreeze > 0) {
     state.hitFreezeTimer = playerCombat.hitFreeze
   }
-  if (playerCombat.cameraShake.intensity > 0) {
-    shakeCamera(state.camera, playerCombat.cameraShake.intensity, playerCombat.cameraShake.duration)
-  }
   for (const effect of playerCombat.hitEffects) {
     state.hitEffects.push(effect)
-    emitHitSparks(state.particles, effect.pos, effect.type === 'pulse' ? '#7b2fff' : '#ffffff', effect.type === 'heavy' ? 15 : 8)
+    if (effect.type !== 'enemy') state.events.push({ type: 'enemyHit', source: effect.type, pos: { ...effect.pos } })
   }
   state.score += playerCombat.enemiesKilled * 50
   // Run stats tracking
@@ -630,35 +933,33 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
 
   // Spawn floating damage numbers
   for (const hit of playerCombat.damageHits) {
-    state.damageNumbers.push({
-      value: hit.damage,
-      pos: { x: hit.pos.x, y: hit.pos.y },
-      vel: { x: (Math.random() - 0.5) * 30, y: -55 },
-      age: 0,
-      lifetime: S.DAMAGE_NUMBER_LIFETIME,
-      color: S.DAMAGE_NUMBER_COLORS[hit.hitType] ?? '#ffffff',
-    })
+    const num = acquire(freeDamageNumbers, () => ({ value: 0, pos: { x: 0, y: 0 }, vel: { x: 0, y: 0 }, age: 0, lifetime: 0, color: '' }))
+    num.value = hit.damage
+    num.pos.x = hit.pos.x
+    num.pos.y = hit.pos.y
+    num.vel.x = (rng() - 0.5) * 30
+    num.vel.y = -55
+    num.age = 0
+    num.lifetime = S.DAMAGE_NUMBER_LIFETIME
+    num.color = S.DAMAGE_NUMBER_COLORS[hit.hitType] ?? '#ffffff'
+    state.damageNumbers.push(num)
   }
 
-  // Audio: attack sounds (on new attack start)
   if (state.player.attacking !== 'none' && prevAttacking === 'none') {
-    if (state.player.attacking === 'light') audio.playAttack('light')
-    else if (state.player.attacking === 'heavy') audio.playAttack('heavy')
-    else if (state.player.attacking === 'pulse_wave') audio.playAttack('pulse')
-  }
-  // Audio: enemy deaths
-  for (const type of playerCombat.killedEnemyTypes) {
-    audio.playEnemyDeath(type)
+    state.events.push({ type: 'attackStarted', attack: state.player.attacking, pos: { ...state.player.pos }, facing: state.player.facing })
   }
 
   // Contract progress tracking - kills
   const cProgress = state.contractState.progress
   const cContract = state.contractState.contract
+  if (state.waveActive) {
+    cProgress.waveElapsedMs += dt * 1000
+  }
   for (const type of playerCombat.killedEnemyTypes) {
     cProgress.totalKills++
     cProgress.killsByType[type]++
     cProgress.killOrder.push(type)
-    cProgress.killTimestamps.push(Date.now())
+    cProgress.killTimestamps.push(cProgress.waveElapsedMs)
     if (cProgress.firstKillType === null) {
       cProgress.firstKillType = type
     }
@@ -729,41 +1030,37 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
         obs.hp = Math.max(0, obs.hp - pillarDmg)
         obs.state = obs.hp > obs.maxHp * 0.5 ? 'intact' : obs.hp > 0 ? 'cracked' : 'rubble'
         if (obs.state !== prevState) {
-          // Emit debris particles on state change
-          emitHitSparks(state.particles, obsPos, state.levelTheme.glowColor, obs.state === 'rubble' ? 20 : 10)
+          state.events.push({ type: 'obstacleDamaged', obstacle: obs })
         }
       }
     }
   }
 
-  // Pulse wave particles
-  if (state.player.pulseWaveActive && state.player.pulseWaveTimer > S.PULSE_WAVE_DURATION - 0.05) {
-    emitPulseWave(state.particles, state.player.pos, state.player.facing, S.PULSE_WAVE_ARC)
-  }
-
   // Enemy attacks - pass whether Last Stand can be triggered
   const canTriggerLastStand = !state.lastStandUsed
   const enemyCombat = processEnemyAttacks(state.player, state.enemies, canTriggerLastStand)
+  for (const attacker of enemyCombat.perfectDodges) registerPerfectDodge(state, attacker)
 
   // Handle Last Stand trigger
   if (enemyCombat.lastStandTriggered) {
-    state.lastStandUsed = true
+    spendLastStand(state)
     state.lastStandActive = true
     state.lastStandTimer = S.LAST_STAND_SLOW_MO_DURATION
-    // Extra dramatic camera shake for Last Stand
-    shakeCamera(state.camera, 20, 0.4)
-    audio.playLastStand()
   }
 
   if (enemyCombat.playerDamaged) {
+    recordPlayerDamage(state, enemyCombat.damageDealt)
     state.damageFlashTimer = S.DAMAGE_VIGNETTE_DURATION
     state.damageDir = enemyCombat.damageDir
-    if (!enemyCombat.lastStandTriggered) audio.playHit(enemyCombat.damageDealt)
-    shakeCamera(state.camera, enemyCombat.cameraShake.intensity, enemyCombat.cameraShake.duration)
     for (const effect of enemyCombat.hitEffects) {
-      // Different particle color for Last Stand
-      const particleColor = enemyCombat.lastStandTriggered ? '#ffaa00' : '#ff2244'
-      emitHitSparks(state.particles, effect.pos, particleColor, enemyCombat.lastStandTriggered ? 20 : 10)
+      state.events.push({
+        type: 'playerHit',
+        source: enemyCombat.damageSourceType ?? 'normal',
+        damage: enemyCombat.damageDealt,
+        pos: { ...effect.pos },
+        lastStand: enemyCombat.lastStandTriggered,
+        impact: enemyCombat.cameraShake,
+      })
     }
     // Track damage for death recap
     if (enemyCombat.damageSourceType) {
@@ -780,6 +1077,9 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
     }
   }
 
+  // Knockback, dodges and enemy attacks moved things again
+  rebuildSpatialGrid(enemyGrid, state.enemies)
+
   // Arena hazards update
   if (state.hazards.length > 0 && state.player.isAlive && state.waveActive) {
     const hazardMult = getEffectivePreset(state).hazardDamageMult
@@ -795,10 +1095,8 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
         // Damage player if inside zone
         const d = distance(state.player.pos, hz.pos)
         if (d < hz.radius + S.PLAYER_SIZE && state.player.iframes <= 0 && !state.player.isDashing) {
-          state.player.hp -= S.HAZARD_ZONE_DAMAGE * hazardMult * dt
-          if (state.player.hp <= 0) { state.player.hp = 0; state.player.isAlive = false }
-          state.damageFlashTimer = Math.max(state.damageFlashTimer, 0.1)
-          shakeCamera(state.camera, 4, 0.1)
+          hurtPlayer(state, S.HAZARD_ZONE_DAMAGE * hazardMult * dt, { source: 'hazard_zone', overTime: true, hazard: hz })
+          if (hz.status) applyStatus(state.player.status, hz.status, 0)
         }
       }
 
@@ -812,63 +1110,71 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
           let diff = ang - trapAngle
           while (diff > Math.PI) diff -= Math.PI * 2
           while (diff < -Math.PI) diff += Math.PI * 2
-          if (Math.abs(diff) < Math.PI / 3 && state.player.iframes <= 0 && !state.player.isDashing) {
-            state.player.hp -= S.HAZARD_TRAP_DAMAGE * hazardMult
-            state.player.iframes = S.PLAYER_IFRAMES * 0.8
-            if (state.player.hp <= 0) { state.player.hp = 0; state.player.isAlive = false }
-            state.damageFlashTimer = S.DAMAGE_VIGNETTE_DURATION
-            state.damageDir = normalize(sub(state.player.pos, hz.pos))
-            shakeCamera(state.camera, 8, 0.15)
-            emitHitSparks(state.particles, state.player.pos, hz.color, 8)
+          if (Math.abs(diff) < Math.PI / 3 && tryPerfectDodge(state.player)) {
+            registerPerfectDodge(state, null)
+          } else if (Math.abs(diff) < Math.PI / 3) {
+            const hit = hurtPlayer(state, S.HAZARD_TRAP_DAMAGE * hazardMult, { source: 'hazard_trap', iframes: S.PLAYER_IFRAMES * 0.8, from: hz.pos, hazard: hz })
+            if (hit.damaged && hz.status) applyStatus(state.player.status, hz.status)
           }
         }
-        // Emit visual sparks from trap
-        emitHitSparks(state.particles, hz.pos, hz.color, 12)
+        state.events.push({ type: 'hazardFired', hazard: hz })
       }
 
       if (hz.type === 'pulse_center' && !wasActive && hz.active) {
         // Pulse shockwave — damage player and enemies in radius
         const playerDist = distance(state.player.pos, hz.pos)
-        if (playerDist < hz.radius && state.player.iframes <= 0 && !state.player.isDashing) {
-          state.player.hp -= S.HAZARD_PULSE_DAMAGE * hazardMult
-          state.player.iframes = S.PLAYER_IFRAMES
-          if (state.player.hp <= 0) { state.player.hp = 0; state.player.isAlive = false }
-          state.damageFlashTimer = S.DAMAGE_VIGNETTE_DURATION
-          state.damageDir = normalize(sub(state.player.pos, hz.pos))
-          shakeCamera(state.camera, 12, 0.2)
+        if (playerDist < hz.radius && tryPerfectDodge(state.player)) {
+          registerPerfectDodge(state, null)
+        } else if (playerDist < hz.radius) {
+          const hit = hurtPlayer(state, S.HAZARD_PULSE_DAMAGE * hazardMult, { source: 'hazard_pulse', from: hz.pos, hazard: hz })
+          if (hit.damaged && hz.status) applyStatus(state.player.status, hz.status)
         }
         // Damage enemies in range too (helpful to player)
-        for (const enemy of state.enemies) {
+        for (const enemy of queryCircle(enemyGrid, hz.pos, hz.radius)) {
           if (!enemy.isAlive) continue
           if (distance(enemy.pos, hz.pos) < hz.radius) {
-            enemy.hp -= S.HAZARD_PULSE_DAMAGE
+            enemy.hp -= applyHitStatus(enemy.status, S.HAZARD_PULSE_DAMAGE)
             if (enemy.hp <= 0) { enemy.hp = 0; enemy.isAlive = false }
+            if (hz.status) applyStatus(enemy.status, hz.status)
           }
         }
-        // Big particle ring
-        emitPulseWave(state.particles, hz.pos, 0, Math.PI * 2)
-        emitHitSparks(state.particles, hz.pos, hz.color, 20)
-        shakeCamera(state.camera, 10, 0.3)
+        state.events.push({ type: 'hazardFired', hazard: hz })
       }
     }
   }
 
+  updateBossZones(state, dt)
+
+  // EXPOSED wave event: everyone stays vulnerable for the whole wave
+  if (state.activeWaveEvent?.effectType === 'exposed' && state.waveActive) {
+    applyStatus(state.player.status, 'vulnerable', 0)
+    for (const enemy of state.enemies) {
+      if (enemy.isAlive) applyStatus(enemy.status, 'vulnerable', 0)
+    }
+  }
+
+  dischargeShocks(state)
+
   // Arena shrink (start wave controlled by difficulty preset)
   if (state.wave >= getEffectivePreset(state).shrinkStartWave && state.waveActive) {
     const newRadius = Math.max(S.SHRINK_MIN_RADIUS, S.ARENA_RADIUS - S.SHRINK_RATE * dt)
     setArenaRadius(newRadius)
   }
 
-  // Death explosions
+  // Deaths
   for (const enemy of state.enemies) {
     if (!enemy.isAlive && enemy.hp <= 0) {
-      emitTypedDeathExplosion(enemy.type, enemy.pos, state.particles)
+      state.events.push({ type: 'enemyKilled', enemy })
+      if (enemy.type === 'boss') {
+        // The boss's ground attacks die with it
+        state.bossZones = []
+        state.bossesDefeated++
+        if (state.waveDamageTaken === 0) state.flawlessBosses++
+      }
 
       // Affix death effects
       const affix = enemy.affixState.affix
       if (affix) {
-        emitAffixDeathEffect(affix, enemy.pos, state.particles)
-
         // Volatile: player damage + chain damage to nearby enemies
         if (affix.explodesOnDeath && state.player.isAlive) {
           const explosionRadius = affix.explosionRadius ?? 60
@@ -877,16 +1183,11 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
           // Damage player if in range
           const playerDist = distance(enemy.pos, state.player.pos)
           if (playerDist <= explosionRadius + S.PLAYER_SIZE) {
-            if (state.player.iframes <= 0 && !state.player.isDashing) {
-              state.player.hp -= explosionDamage
-              state.player.iframes = S.PLAYER_IFRAMES * 0.5
-              state.player.flashTimer = 0.1
-              shakeCamera(state.camera, 8, 0.15)
-            }
+            hurtPlayer(state, explosionDamage, { source: 'explosion', iframes: S.PLAYER_IFRAMES * 0.5, from: enemy.pos, enemyType: enemy.type })
           }
 
           // Chain damage to nearby alive enemies
-          for (const other of state.enemies) {
+          for (const other of queryCircle(enemyGrid, enemy.pos, explosionRadius)) {
             if (other === enemy || !other.isAlive) continue
             const chainDist = distance(enemy.pos, other.pos)
             if (chainDist <= explosionRadius) {
@@ -896,7 +1197,7 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
                 other.hp = 0
                 other.isAlive = false
               }
-              emitHitSparks(state.particles, other.pos, '#ff8844', 6)
+              state.events.push({ type: 'enemyHit', source: 'explosion', pos: { ...other.pos } })
             }
           }
         }
@@ -936,6 +1237,7 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
 
     if (state.waveTimer <= 0 && state.pendingWaveEvent === null) {
       state.wave++
+      state.waveDamageTaken = 0
 
       // ── Level transition ──
       const newLevel = getLevelNumber(state.wave)
@@ -947,7 +1249,7 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
         setArenaRadius(state.levelTheme.arenaRadius)
         state.levelUpTimer = 3.0
         state.levelUpName = state.levelTheme.name
-        audio.playLevelUp()
+        state.events.push({ type: 'levelStarted', level: state.level, theme: state.levelTheme })
       }
 
       const { arenaRadius, difficultyMult } = state.levelTheme
@@ -959,12 +1261,16 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
       const diffPreset = getEffectivePreset(state)
       const presetMults = { hp: diffPreset.enemyHpMult, speed: diffPreset.enemySpeedMult, damage: diffPreset.enemyDamageMult }
       const isDoubleEnemies = state.activeWaveEvent?.effectType === 'double_enemies'
-      let enemies = spawnWaveEnemies(state.wave, arenaRadius, S.ARENA_CENTER_X, S.ARENA_CENTER_Y, difficultyMult, state.currentAffix, presetMults, diffPreset.waveCountMult)
+      const horde = diffPreset.horde ?? false
+      let enemies = spawnWaveEnemies(state.wave, arenaRadius, S.ARENA_CENTER_X, S.ARENA_CENTER_Y, difficultyMult, state.currentAffix, presetMults, diffPreset.waveCountMult, horde)
       if (isDoubleEnemies) {
-        const extras = spawnWaveEnemies(state.wave, arenaRadius, S.ARENA_CENTER_X, S.ARENA_CENTER_Y, difficultyMult, state.currentAffix, presetMults, diffPreset.waveCountMult)
+        const extras = spawnWaveEnemies(state.wave, arenaRadius, S.ARENA_CENTER_X, S.ARENA_CENTER_Y, difficultyMult, state.currentAffix, presetMults, diffPreset.waveCountMult, horde)
         // Add half the count of extras (50% more)
         enemies = enemies.concat(extras.slice(0, Math.ceil(extras.length * 0.5)))
       }
+      for (const enemy of enemies) {
+        if (enemy.type === 'boss') assignBoss(enemy, state.levelTheme.themeKey)
+      }
       state.enemies = enemies
 
       // enemy_frenzy: boost speed and attack rate of all enemies
@@ -991,8 +1297,7 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
       }
       state.waveActive = true
       state.waveTimer = 2.5
-      audio.setMusicIntensity(state.wave)
-      audio.playWaveStart(state.wave)
+      state.events.push({ type: 'waveStarted', wave: state.wave })
 
       // Contract system - count enemies and select contract
       state.originalEnemyCounts = { normal: 0, sniper: 0, heavy: 0, fast: 0, shielder: 0, spawner: 0, boss: 0 }
@@ -1015,12 +1320,12 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
       state.waveTimer = S.WAVE_DELAY
       state.score += state.wave * 100
       // Boss wave reward
-      if (state.wave % S.BOSS_WAVE_INTERVAL === 0) {
+      const bossWave = isBossWave(state.wave)
+      if (bossWave) {
         state.bossWaveCompleted = true
         state.score += 500 // bonus score for defeating boss
-        shakeCamera(state.camera, 16, 0.5)
       }
-      audio.playWaveEnd()
+      state.events.push({ type: 'waveCleared', wave: state.wave, bossWave })
 
       // Apply wave event score bonus if accepted
       if (state.activeWaveEvent) {
@@ -1028,6 +1333,8 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
         state.activeWaveEvent = null
       }
       state.surgeZone = null
+      // Statuses don't outlast the wave — nothing can hurt the player in the break
+      state.player.status = createStatusEffects()
 
       // Select wave event for next wave (shown during inter-wave break)
       state.pendingWaveEvent = selectWaveEvent(state.wave + 1)
@@ -1039,10 +1346,10 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
       if (contract && state.contractState.status === 'active') {
         const finalStatus = finalizeContract(contract, progress, state.originalEnemyCounts)
         state.contractState.status = finalStatus
-        audio.playContractResult(finalStatus === 'completed')
 
         // Apply rewards if completed
         if (finalStatus === 'completed') {
+          state.events.push({ type: 'contractCompleted', contract })
           state.score += contract.scoreBonus
           state.player.hp = Math.min(state.player.maxHp, state.player.hp + contract.hpRestore)
           state.player.energy = Math.min(state.player.maxEnergy, state.player.energy + contract.energyRestore)
@@ -1062,10 +1369,10 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
         const ownedIds = state.activeMutators.map((m) => m.id)
         if (state.bossWaveCompleted) {
           // Boss reward: all 3 choices are epic
-          state.mutatorChoices = getEpicMutators(3, ownedIds)
+          state.mutatorChoices = getEpicMutators(3, ownedIds, state.loadout.mutators)
           state.bossWaveCompleted = false
         } else {
-          state.mutatorChoices = getRandomMutators(3, ownedIds)
+          state.mutatorChoices = getRandomMutators(3, ownedIds, state.loadout.mutators)
         }
         if (state.mutatorChoices.length > 0) {
           state.mutatorSelectionActive = true
@@ -1082,12 +1389,13 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
     !state.contractState.penaltyApplied
   ) {
     state.contractState.penaltyApplied = true
+    state.events.push({ type: 'contractFailed', contract: state.contractState.contract })
     if (state.contractState.contract.failurePenalty === 'drop_to_1hp' && state.player.isAlive && state.player.hp > 1) {
-      state.player.hp = 1
+      // Not a hit, so it lands through iframes like damage over time; it never kills
+      hurtPlayer(state, state.player.hp - 1, { source: 'contract', overTime: true })
       state.player.flashTimer = 0.5
       state.damageFlashTimer = S.DAMAGE_VIGNETTE_DURATION
       state.damageDir = { x: 0, y: 0 }
-      shakeCamera(state.camera, 14, 0.3)
     }
   }
 
@@ -1100,12 +1408,7 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
   }
 
   // Damage numbers — age and cull
-  for (let i = state.damageNumbers.length - 1; i >= 0; i--) {
-    state.damageNumbers[i].age += dt
-    if (state.damageNumbers[i].age >= state.damageNumbers[i].lifetime) {
-      state.damageNumbers.splice(i, 1)
-    }
-  }
+  cull(state.damageNumbers, freeDamageNumbers, num => (num.age += dt) >= num.lifetime)
 
   // Particles
   updateParticles(state.particles, dt)
@@ -1120,10 +1423,19 @@ export function updateGame(state: GameState, input: InputState, dt: number): voi
   // Camera
   updateCamera(state.camera, dt)
 
+  // Achievements — queue fresh unlocks for the component and toast them
+  if (state.achievementRecord) {
+    for (const id of checkAchievements(state.achievementRecord, state)) {
+      state.achievementUnlocks.push(id)
+      state.achievementToasts.push({ id, timer: ACHIEVEMENT_TOAST_DURATION })
+      state.events.push({ type: 'achievementUnlocked', id })
+    }
+  }
+
   // Game over
   if (!state.player.isAlive) {
     state.gameOver = true
-    if (state.score > state.highScore) {
+    if (state.score > state.highScore && !state.isReplay) {
       state.highScore = state.score
       if (typeof window !== 'undefined') {
         localStorage.setItem('shadowpulse_hs', state.score.toString())
@@ -1137,97 +1449,31 @@ export function renderGame(
   ctx: CanvasRenderingContext2D,
   dailyLeaderboard?: DailyEntry[],
   assets?: AssetCache | null,
+  replay?: ReplayView,
+  keymap?: KeyMap,
+  viewport?: Viewport,
 ): void {
-  render(
-    ctx,
-    state.player,
-    state.enemies,
-    state.camera,
-    state.particles,
-    state.wave,
-    state.waveTimer > 0 && state.waveActive ? state.waveTimer : 0,
-    state.gameOver,
-    state.score,
-    state.highScore,
-    state.levelTheme,
-    state.obstacles,
-    state.hazards,
-    state.level,
-    state.levelUpTimer,
-    state.levelUpName,
-    // Mutator system
-    state.mutatorSelectionActive,
-    state.mutatorChoices,
-    state.activeMutators,
-    // Contract system
-    state.contractState,
-    // Affix system
-    state.currentAffix,
-    // Last Stand system
-    state.lastStandActive,
-    state.lastStandTimer,
-    state.lastStandUsed,
-    // Death recap
-    state.damageByEnemyType,
-    // Daily Challenge
-    state.isDailyChallenge,
-    dailyLeaderboard,
-    // Mutator feedback
-    state.mutatorFeedback,
-    // Damage feedback
-    state.damageFlashTimer,
-    state.damageDir,
-    // Slash trails
-    state.slashTrails,
-    // Mutator ceremony
-    state.mutatorSelectionTimer,
-    state.mutatorPeekActive,
-    state.playerRarityGlowTimer,
-    state.playerRarityGlowColor,
-    // Consumables
-    state.consumables,
-    state.consumableActive,
-    // Wave events
-    state.pendingWaveEvent,
-    state.activeWaveEvent,
-    state.surgeZone,
-    // Sprite assets
+  render(ctx, state, {
+    viewport,
+    keymap,
     assets,
-    // Damage numbers
-    state.damageNumbers,
-    // Educational layer
-    state.quizEnabled,
-    state.selectedGrade,
-    state.hebrewLayoutActive,
-    state.keyboardPanelTimer,
-    state.letterFlashes,
-    state.questionPhase,
-    state.currentQuestion,
-    state.questionResult,
-    state.questionRetryAvailable,
-    state.questionFeedbackTimer,
-    state.pendingMutatorIndex,
+    dailyLeaderboard,
+    replay,
     // Difficulty badge label (empty string = Normal, hidden)
-    state.quizEnabled
+    difficultyLabel: state.quizEnabled
       ? (state.selectedGrade <= 2 ? 'VERY EASY' : 'CLASSROOM')
       : state.difficulty === 'very_easy' ? 'VERY EASY'
       : state.difficulty === 'easy' ? 'EASY'
       : state.difficulty === 'arcade' ? 'ARCADE'
+      : state.difficulty === 'horde' ? 'HORDE'
       : '',
-    // Pause menu
-    state.paused,
-    state.pauseMenuSelection,
-    // Run stats
-    state.totalKills,
-    state.totalDamageDealt,
-    state.contractsCompleted,
-    state.activeMutators.length,
-  )
+  })
 }
 
-export function resetGame(state: GameState): GameState {
+/** A fresh run with the same settings. Pass `loadout` to bring unlocks bought since this run began. */
+export function resetGame(state: GameState, loadout: Loadout = state.loadout): GameState {
   const hs = state.highScore
-  const newState = createGameState(state.isDailyChallenge, state.selectedGrade, state.quizEnabled, state.selectedTopicId, state.difficulty)
+  const newState = createGameState(state.isDailyChallenge, state.selectedGrade, state.quizEnabled, state.selectedTopicId, state.difficulty, undefined, loadout)
   newState.highScore = hs
   return newState
 }
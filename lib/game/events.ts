@@ -0,0 +1,80 @@
+/**
+ * Engine event bus.
+ *
+ * updateGame doesn't play sounds, spawn particles or shake the camera itself.
+ * It pushes a typed event onto `state.events` for every gameplay moment in the
+ * tick, then publishes the tick's events to whoever subscribed. Particles and
+ * camera shake are subscribed by the engine (they live on the game state);
+ * audio is attached by the component, so headless runs never touch it.
+ *
+ * Listeners run after the tick has finished, and may run anywhere the engine
+ * does — particles and shake run in the headless harness, replays and server
+ * Daily verification too. So they must never touch simulation state or draw
+ * from the seeded rng(): anything random they set off (particle spread, shake
+ * offsets) uses Math.random, or the same run would play out differently.
+ */
+
+import type { GameState } from './engine'
+import type { AttackType } from './player'
+import type { Enemy, EnemyType } from './enemy'
+import type { Vec2 } from './vec2'
+import type { Mutator } from './mutators'
+import type { ConsumableType, WaveContract } from './contracts'
+import type { BossZone } from './bosses'
+import type { Hazard, LevelTheme, Obstacle } from './levels'
+
+/** What landed a blow on an enemy outside the regular damage-number path. */
+export type EnemyHitSource = 'light' | 'heavy' | 'pulse' | 'dash' | 'explosion'
+
+/** What hurt the player: an enemy attack by type, or the arena. */
+export type PlayerHitSource = EnemyType | 'boss_zone' | 'hazard_zone' | 'hazard_trap' | 'hazard_pulse' | 'explosion' | 'contract' | 'burn'
+
+export type GameEvent =
+  // ── Waves and levels ──
+  | { type: 'waveStarted'; wave: number }
+  | { type: 'waveCleared'; wave: number; bossWave: boolean }
+  | { type: 'levelStarted'; level: number; theme: LevelTheme }
+  // ── Player actions ──
+  | { type: 'attackStarted'; attack: AttackType; pos: Vec2; facing: number }
+  | { type: 'dashStarted'; pos: Vec2 }
+  | { type: 'timeFlickerStarted' }
+  | { type: 'consumableUsed'; consumable: ConsumableType }
+  | { type: 'perfectDodge'; pos: Vec2; attacker: Enemy | null }
+  // ── Damage ──
+  | { type: 'enemyHit'; source: EnemyHitSource; pos: Vec2 }
+  | { type: 'enemyKilled'; enemy: Enemy }
+  | { type: 'playerHit'; source: PlayerHitSource; damage: number; pos: Vec2; lastStand: boolean; impact?: { intensity: number; duration: number }; hazard?: Hazard }
+  | { type: 'lastStandEnded' }
+  | { type: 'shockArc'; from: Vec2; to: Vec2 }
+  // ── Arena ──
+  | { type: 'obstacleDamaged'; obstacle: Obstacle }
+  | { type: 'hazardFired'; hazard: Hazard }
+  | { type: 'bossZoneStruck'; zone: BossZone }
+  | { type: 'bossPhaseChanged'; boss: Enemy }
+  | { type: 'bossSummoned'; boss: Enemy }
+  | { type: 'bossBlinked'; boss: Enemy; from: Vec2 }
+  // ── Meta ──
+  | { type: 'mutatorPicked'; mutator: Mutator }
+  | { type: 'contractCompleted'; contract: WaveContract }
+  | { type: 'contractFailed'; contract: WaveContract }
+  | { type: 'quizAnswered'; questionId: string; correct: boolean; firstTry: boolean }
+  | { type: 'achievementUnlocked'; id: string }
+
+export type GameEventType = GameEvent['type']
+
+export type GameEventListener = (event: GameEvent, state: GameState) => void
+
+const listeners = new Set<GameEventListener>()
+
+/** Listen to every event the engine publishes. Returns the unsubscribe function. */
+export function subscribe(listener: GameEventListener): () => void {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+/** Hand the tick's events to every listener, in the order they happened. */
+export function publishEvents(state: GameState): void {
+  for (const event of state.events) {
+    for (const listener of listeners) listener(event, state)
+  }
+}
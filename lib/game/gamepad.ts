@@ -0,0 +1,166 @@
+/**
+ * Gamepad mapping for the standard (Xbox-style) layout.
+ *
+ * The component polls navigator.getGamepads() every frame. The left stick
+ * becomes InputState.move; every button press is translated into the key the
+ * keyboard handler already understands, chosen by what's on screen — so the
+ * pause menu, mutator cards, quiz and wave-event prompts need no pad-specific
+ * logic of their own. Typed quiz answers use a small letter picker instead.
+ */
+
+import type { GameState } from './engine'
+import type { Question } from './questions'
+import { Vec2, vec2, length, scale } from './vec2'
+
+// Button indices from the W3C "standard" gamepad mapping
+export const PAD = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LB: 4,
+  RB: 5,
+  LT: 6,
+  RT: 7,
+  BACK: 8,
+  START: 9,
+  LSTICK: 10,
+  RSTICK: 11,
+  UP: 12,
+  DOWN: 13,
+  LEFT: 14,
+  RIGHT: 15,
+} as const
+
+export const STICK_DEADZONE = 0.2
+const TRIGGER_THRESHOLD = 0.5
+
+/** Just the parts of a Gamepad we read — lets tests build one by hand. */
+export interface PadSnapshot {
+  buttons: boolean[]
+  axes: number[]
+}
+
+export type PadContext =
+  | 'play'
+  | 'mutator'
+  | 'quiz-choice'
+  | 'quiz-true-false'
+  | 'quiz-typed'
+  | 'wave-event'
+  | 'paused'
+  | 'game-over'
+  | 'replay'
+
+export function snapshotPad(pad: Gamepad): PadSnapshot {
+  return {
+    // Analog triggers report a value; treat a half pull as pressed
+    buttons: pad.buttons.map(b => b.pressed || b.value > TRIGGER_THRESHOLD),
+    axes: [...pad.axes],
+  }
+}
+
+/**
+ * Left stick as a movement vector with a radial deadzone. Magnitude is
+ * rescaled to 0–1 past the deadzone and rounded so a steady stick produces
+ * identical frames (keeps replays run-length compressed).
+ */
+export function stickVector(axes: number[], deadzone = STICK_DEADZONE): Vec2 | null {
+  const raw = vec2(axes[0] ?? 0, axes[1] ?? 0)
+  const mag = length(raw)
+  if (mag <= deadzone) return null
+  const scaled = scale(raw, Math.min(1, (mag - deadzone) / (1 - deadzone)) / mag)
+  return vec2(Math.round(scaled.x * 100) / 100, Math.round(scaled.y * 100) / 100)
+}
+
+/** Which screen the pad is driving. Order matches the keyboard handler's priorities. */
+export function padContext(state: GameState | null, replaying: boolean): PadContext {
+  if (replaying) return 'replay'
+  if (!state) return 'play'
+  if (state.gameOver) return 'game-over'
+  if (state.questionPhase && state.currentQuestion) {
+    const kind = state.currentQuestion.kind
+    if (kind === 'true-false') return 'quiz-true-false'
+    if (kind === 'spelling' || kind === 'number') return 'quiz-typed'
+    return 'quiz-choice'
+  }
+  if (state.paused) return 'paused'
+  if (state.mutatorSelectionActive) return 'mutator'
+  if (state.pendingWaveEvent) return 'wave-event'
+  return 'play'
+}
+
+const PLAY_KEYS: Record<number, string> = {
+  [PAD.A]: ' ',            // dash
+  [PAD.X]: 'j',            // light attack
+  [PAD.RT]: 'j',
+  [PAD.Y]: 'k',            // heavy attack — hold to charge
+  [PAD.LT]: 'k',
+  [PAD.B]: 'l',            // pulse wave
+  [PAD.RB]: 'l',
+  [PAD.LB]: ';',           // time flicker
+  [PAD.BACK]: 'q',         // consumable
+  [PAD.RSTICK]: 'tab',     // mutator peek — hold
+  [PAD.START]: 'escape',
+  [PAD.UP]: 'arrowup',
+  [PAD.DOWN]: 'arrowdown',
+  [PAD.LEFT]: 'arrowleft',
+  [PAD.RIGHT]: 'arrowright',
+}
+
+const CONTEXT_KEYS: Record<Exclude<PadContext, 'play' | 'quiz-typed'>, Record<number, string>> = {
+  // Face buttons sit left / top / right like the three cards
+  mutator: { [PAD.X]: '1', [PAD.Y]: '2', [PAD.B]: '3', [PAD.RSTICK]: 'tab' },
+  // Pad letters A/B answer A/B; X and Y take C and D
+  'quiz-choice': { [PAD.A]: 'a', [PAD.B]: 'b', [PAD.X]: 'c', [PAD.Y]: 'd' },
+  'quiz-true-false': { [PAD.A]: 't', [PAD.B]: 'f' },
+  'wave-event': { [PAD.A]: 'y', [PAD.B]: 'n' },
+  paused: {
+    [PAD.UP]: 'arrowup',
+    [PAD.DOWN]: 'arrowdown',
+    [PAD.A]: 'enter',
+    [PAD.START]: 'escape',
+    [PAD.B]: 'escape',
+  },
+  'game-over': { [PAD.A]: 'r', [PAD.START]: 'r', [PAD.X]: 'v' },
+  replay: { [PAD.B]: 'escape', [PAD.START]: 'escape', [PAD.Y]: 'f' },
+}
+
+/** The keyboard key a pad button stands for on the current screen, or null. */
+export function padButtonKey(context: PadContext, button: number): string | null {
+  if (context === 'play') return PLAY_KEYS[button] ?? null
+  if (context === 'quiz-typed') return null
+  return CONTEXT_KEYS[context][button] ?? null
+}
+
+const SPELLING_CHARS = 'abcdefghijklmnopqrstuvwxyz'
+const NUMBER_CHARS = '0123456789.-'
+
+/**
+ * Letter picker for typed answers: D-pad up/down cycles the last character,
+ * right starts a new one, B deletes and A submits. Returns the quizKeys to
+ * send (the engine owns the text, so a cycle is Backspace + the new char).
+ */
+export function typedPadKeys(button: number, typed: string, question: Question): string[] {
+  const chars = question.kind === 'number' ? NUMBER_CHARS : SPELLING_CHARS
+  const last = typed.slice(-1)
+  switch (button) {
+    case PAD.UP:
+    case PAD.DOWN: {
+      const step = button === PAD.UP ? 1 : -1
+      const i = last ? chars.indexOf(last) : -1
+      if (i < 0) return [chars[step > 0 ? 0 : chars.length - 1]]
+      return ['Backspace', chars[(i + step + chars.length) % chars.length]]
+    }
+    case PAD.RIGHT:
+      return [chars[0]]
+    case PAD.B:
+    case PAD.LEFT:
+      return ['Backspace']
+    case PAD.A:
+    case PAD.START:
+      return ['Enter']
+    default:
+      return []
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Rebindable keyboard controls.
+ *
+ * Each gameplay action has one bound key (lower-cased KeyboardEvent.key),
+ * stored in localStorage and edited from the title screen. Arrow keys and
+ * Shift stay as fixed alternates for movement and dash so a bad binding can't
+ * leave a player stuck. Menu keys (Esc, Enter, 1–4, Y/N, R/V/E) and M (mute) are reserved.
+ *
+ * The gamepad and touch layers press the *default* keys; fromDefaultKey()
+ * turns those into whatever is bound now.
+ */
+
+const STORAGE_KEY = 'shadowpulse_keymap'
+
+export type GameAction =
+  | 'up'
+  | 'left'
+  | 'down'
+  | 'right'
+  | 'dash'
+  | 'lightAttack'
+  | 'heavyAttack'
+  | 'pulseWave'
+  | 'timeFlicker'
+  | 'consumable'
+  | 'mutatorPeek'
+
+export type KeyMap = Record<GameAction, string>
+
+export const DEFAULT_KEYMAP: KeyMap = {
+  up: 'w',
+  left: 'a',
+  down: 's',
+  right: 'd',
+  dash: ' ',
+  lightAttack: 'j',
+  heavyAttack: 'k',
+  pulseWave: 'l',
+  timeFlicker: ';',
+  consumable: 'q',
+  mutatorPeek: 'tab',
+}
+
+/** Display order and names for the settings screen. */
+export const GAME_ACTIONS: { action: GameAction; name: string }[] = [
+  { action: 'up', name: 'Move Up' },
+  { action: 'left', name: 'Move Left' },
+  { action: 'down', name: 'Move Down' },
+  { action: 'right', name: 'Move Right' },
+  { action: 'dash', name: 'Dash' },
+  { action: 'lightAttack', name: 'Light Attack' },
+  { action: 'heavyAttack', name: 'Heavy Attack' },
+  { action: 'pulseWave', name: 'Pulse Wave' },
+  { action: 'timeFlicker', name: 'Time Flicker' },
+  { action: 'consumable', name: 'Consumable' },
+  { action: 'mutatorPeek', name: 'Peek Build' },
+]
+
+/** Colour each action is drawn in by the keyboard panel and letter flashes. */
+export const ACTION_COLORS: Partial<Record<GameAction, string>> = {
+  up: '#88ff88',
+  left: '#88ff88',
+  down: '#88ff88',
+  right: '#88ff88',
+  dash: '#ffdd44',
+  lightAttack: '#cc99ff',
+  heavyAttack: '#ffaa22',
+  pulseWave: '#44ccff',
+  timeFlicker: '#ffffff',
+}
+
+// Always active alongside the bound key
+const FIXED_KEYS: Partial<Record<GameAction, string>> = {
+  up: 'arrowup',
+  left: 'arrowleft',
+  down: 'arrowdown',
+  right: 'arrowright',
+  dash: 'shift',
+}
+
+export const RESERVED_KEYS = new Set([
+  'escape', 'enter', 'backspace', '1', '2', '3', '4', 'y', 'n', 'r', 'v', 'e', 'm',
+  'arrowup', 'arrowdown', 'arrowleft', 'arrowright', 'shift',
+])
+
+/** The action `key` triggers, or null. */
+export function actionForKey(map: KeyMap, key: string): GameAction | null {
+  for (const { action } of GAME_ACTIONS) {
+    if (map[action] === key || FIXED_KEYS[action] === key) return action
+  }
+  return null
+}
+
+/** Whether any key for `action` is in the held set. */
+export function isActionHeld(map: KeyMap, held: Set<string>, action: GameAction): boolean {
+  const fixed = FIXED_KEYS[action]
+  return held.has(map[action]) || (fixed !== undefined && held.has(fixed))
+}
+
+/** The key bound to whatever `defaultKey` does in DEFAULT_KEYMAP (unchanged if it isn't an action key). */
+export function fromDefaultKey(map: KeyMap, defaultKey: string): string {
+  const action = GAME_ACTIONS.find(a => DEFAULT_KEYMAP[a.action] === defaultKey)?.action
+  return action ? map[action] : defaultKey
+}
+
+/**
+ * Bind `key` to `action`. If another action already uses the key the two swap,
+ * so every action always keeps a key. Returns null for reserved keys.
+ */
+export function bindKey(map: KeyMap, action: GameAction, key: string): KeyMap | null {
+  if (RESERVED_KEYS.has(key)) return null
+  const next = { ...map }
+  const current = actionForKey(map, key)
+  if (current && current !== action) next[current] = map[action]
+  next[action] = key
+  return next
+}
+
+/** Short label for a key cap: "SPC", "TAB", "Q", "↑". */
+export function keyLabel(key: string): string {
+  switch (key) {
+    case ' ': return 'SPC'
+    case 'arrowup': return '↑'
+    case 'arrowdown': return '↓'
+    case 'arrowleft': return '←'
+    case 'arrowright': return '→'
+    case 'control': return 'CTRL'
+    default: return key.length === 1 ? key.toUpperCase() : key.slice(0, 4).toUpperCase()
+  }
+}
+
+// ── Storage ───────────────────────────────────────────────────────────────────
+
+export function loadKeymap(): KeyMap {
+  if (typeof window === 'undefined') return { ...DEFAULT_KEYMAP }
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<KeyMap> | null
+    const map = { ...DEFAULT_KEYMAP, ...stored }
+    // A hand-edited or stale map with duplicates or reserved keys falls back to the defaults
+    const keys = GAME_ACTIONS.map(a => map[a.action])
+    const valid = keys.every(k => typeof k === 'string' && k !== '' && !RESERVED_KEYS.has(k)) && new Set(keys).size === keys.length
+    return valid ? map : { ...DEFAULT_KEYMAP }
+  } catch {
+    return { ...DEFAULT_KEYMAP }
+  }
+}
+
+export function saveKeymap(map: KeyMap): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(map))
+}
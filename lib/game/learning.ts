@@ -0,0 +1,109 @@
+/**
+ * Per-student learning record for the Classroom quiz.
+ *
+ * Tracks how every question (keyed by Question.id) has gone for this player
+ * and biases getQuestion() toward items that were missed or haven't come up
+ * in a while, so the quiz works as a vocabulary trainer instead of a coin flip.
+ *
+ * "A while" is counted in questions shown, not wall-clock time: the pick stays
+ * a pure function of the record and the run's rng(), so a replay that carries
+ * the record's starting snapshot draws the same questions.
+ */
+
+const STORAGE_KEY = 'shadowpulse_learning'
+
+export interface QuestionStats {
+  attempts: number         // times the question was shown
+  correctFirstTry: number  // times it was answered correctly without using the retry
+  lastSeen: number         // record.shown when it was last shown
+  lastSeenAt: number       // wall-clock ms of the last attempt (0 = unknown) — for reporting only
+}
+
+export interface LearningRecord {
+  shown: number                          // questions shown so far — the clock for lastSeen
+  items: Record<string, QuestionStats>
+}
+
+/** One answer to a quiz question, queued by the engine for the component to persist. */
+export interface QuizAttempt {
+  questionId: string
+  correct: boolean
+  firstTry: boolean        // false for the answer given on the retry
+}
+
+// Selection weights — relative, only their ratios matter
+const UNSEEN_WEIGHT = 3
+const MISS_WEIGHT = 4        // added at a 100% miss rate
+const STALE_WEIGHT = 2       // added once an item is STALE_AFTER questions old
+const STALE_AFTER = 20
+const RECENT_WINDOW = 3      // shown within the last N questions → heavily damped
+const RECENT_FACTOR = 0.1
+
+export function createLearningRecord(): LearningRecord {
+  return { shown: 0, items: {} }
+}
+
+export function cloneLearningRecord(record: LearningRecord): LearningRecord {
+  return JSON.parse(JSON.stringify(record)) as LearningRecord
+}
+
+/**
+ * Fold one attempt into `record` (mutates). Retries are ignored — they are a
+ * second chance at the same showing, not a new one. `now` stamps lastSeenAt.
+ */
+export function recordAttempt(record: LearningRecord, attempt: QuizAttempt, now = 0): void {
+  if (!attempt.firstTry) return
+  record.shown++
+  const stats = record.items[attempt.questionId] ?? { attempts: 0, correctFirstTry: 0, lastSeen: 0, lastSeenAt: 0 }
+  stats.attempts++
+  if (attempt.correct) stats.correctFirstTry++
+  stats.lastSeen = record.shown
+  if (now > 0) stats.lastSeenAt = now
+  record.items[attempt.questionId] = stats
+}
+
+/**
+ * How strongly a question should be favoured. Unseen items get a flat boost,
+ * seen items grow with their miss rate and age, and anything shown in the
+ * last few questions is pushed to the back so it doesn't repeat immediately.
+ */
+export function questionWeight(record: LearningRecord, questionId: string): number {
+  const stats = record.items[questionId]
+  if (!stats || stats.attempts === 0) return UNSEEN_WEIGHT
+  const missRate = 1 - stats.correctFirstTry / stats.attempts
+  const age = record.shown - stats.lastSeen
+  const weight = 1 + MISS_WEIGHT * missRate + STALE_WEIGHT * Math.min(1, age / STALE_AFTER)
+  return age < RECENT_WINDOW ? weight * RECENT_FACTOR : weight
+}
+
+/** Weighted pick from `pool` using a single draw from `random`. */
+export function pickWeighted<T extends { id: string }>(pool: T[], record: LearningRecord, random: () => number): T {
+  const weights = pool.map(q => questionWeight(record, q.id))
+  const total = weights.reduce((sum, w) => sum + w, 0)
+  let r = random() * total
+  for (let i = 0; i < pool.length; i++) {
+    r -= weights[i]
+    if (r < 0) return pool[i]
+  }
+  return pool[pool.length - 1]
+}
+
+// ── Storage ───────────────────────────────────────────────────────────────────
+
+export function loadLearningRecord(): LearningRecord {
+  if (typeof window === 'undefined') return createLearningRecord()
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as LearningRecord | null
+    return stored && typeof stored.shown === 'number' && stored.items ? stored : createLearningRecord()
+  } catch {
+    return createLearningRecord()
+  }
+}
+
+/** Merge a run's attempts into the stored record and save it. Returns the updated record. */
+export function storeQuizAttempts(attempts: QuizAttempt[], now = Date.now()): LearningRecord {
+  const record = loadLearningRecord()
+  for (const attempt of attempts) recordAttempt(record, attempt, now)
+  if (typeof window !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(record))
+  return record
+}
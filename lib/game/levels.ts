@@ -2,6 +2,8 @@
 // SHADOW PULSE - Level Themes
 // ==============================
 
+import type { StatusKind } from './status'
+
 export type ThemeKey = 'void' | 'inferno' | 'cryo' | 'storm' | 'abyss' | 'apocalypse'
 
 export interface Hazard {
@@ -13,6 +15,8 @@ export interface Hazard {
   onDuration: number
   offDuration: number
   color: string
+  // Status effect this hazard applies to whatever it hits (see status.ts)
+  status?: StatusKind
   // wall_trap only: angle facing the arena center (set in generateHazards)
   trapAngle?: number
 }
@@ -206,43 +210,48 @@ export function generateObstacles(theme: LevelTheme, centerX: number, centerY: n
 }
 
 export function generateHazards(theme: LevelTheme, cx: number, cy: number): Hazard[] {
-    function makeZone(ox: number, oy: number, r: number, onD: number, offD: number, timerOffset: number, color: string): Hazard {
-        return { type: 'floor_zone', pos: { x: cx + ox, y: cy + oy }, radius: r, active: false, timer: timerOffset, onDuration: onD, offDuration: offD, color }
+    function makeZone(ox: number, oy: number, r: number, onD: number, offD: number, timerOffset: number, color: string, status?: StatusKind): Hazard {
+        return { type: 'floor_zone', pos: { x: cx + ox, y: cy + oy }, radius: r, active: false, timer: timerOffset, onDuration: onD, offDuration: offD, color, status }
     }
-    function makeTrap(ox: number, oy: number, timerOffset: number, color: string): Hazard {
+    function makeTrap(ox: number, oy: number, timerOffset: number, color: string, status?: StatusKind): Hazard {
         const px = cx + ox, py = cy + oy
-        return { type: 'wall_trap', pos: { x: px, y: py }, radius: 18, active: true, timer: timerOffset, onDuration: 0.25, offDuration: 2.5, color, trapAngle: Math.atan2(cy - py, cx - px) }
+        return { type: 'wall_trap', pos: { x: px, y: py }, radius: 18, active: true, timer: timerOffset, onDuration: 0.25, offDuration: 2.5, color, status, trapAngle: Math.atan2(cy - py, cx - px) }
     }
-    function makePulse(r: number, timerOffset: number, color: string): Hazard {
-        return { type: 'pulse_center', pos: { x: cx, y: cy }, radius: r, active: false, timer: timerOffset, onDuration: 0.6, offDuration: 5.0, color }
+    function makePulse(r: number, timerOffset: number, color: string, status?: StatusKind): Hazard {
+        return { type: 'pulse_center', pos: { x: cx, y: cy }, radius: r, active: false, timer: timerOffset, onDuration: 0.6, offDuration: 5.0, color, status }
     }
 
     switch (theme.themeKey) {
         case 'inferno':
             return [
-                makeZone(-90, 70, 55, 3.0, 2.0, 2.0, '#ff4400'),
-                makeZone(90, -70, 55, 3.0, 2.0, 0.5, '#ff4400'),
+                makeZone(-90, 70, 55, 3.0, 2.0, 2.0, '#ff4400', 'burning'),
+                makeZone(90, -70, 55, 3.0, 2.0, 0.5, '#ff4400', 'burning'),
+            ]
+        case 'cryo':
+            return [
+                makeZone(-100, -60, 60, 3.5, 2.5, 1.0, '#00ccff', 'chilled'),
+                makeZone(100, 60, 60, 3.5, 2.5, 2.5, '#00ccff', 'chilled'),
             ]
         case 'storm':
             return [
-                makeTrap(-200, 0, 2.5, '#ffee00'),
-                makeTrap(200, 0, 1.25, '#ffee00'),
-                makePulse(210, 4.5, '#ffee00'),
+                makeTrap(-200, 0, 2.5, '#ffee00', 'shocked'),
+                makeTrap(200, 0, 1.25, '#ffee00', 'shocked'),
+                makePulse(210, 4.5, '#ffee00', 'shocked'),
             ]
         case 'abyss':
             return [
-                makeZone(-110, 0, 52, 3.5, 2.0, 1.5, '#cc00ff'),
-                makeZone(110, 0, 52, 3.5, 2.0, 3.0, '#cc00ff'),
-                makeZone(0, -110, 52, 3.5, 2.0, 0.0, '#cc00ff'),
+                makeZone(-110, 0, 52, 3.5, 2.0, 1.5, '#cc00ff', 'vulnerable'),
+                makeZone(110, 0, 52, 3.5, 2.0, 3.0, '#cc00ff', 'vulnerable'),
+                makeZone(0, -110, 52, 3.5, 2.0, 0.0, '#cc00ff', 'vulnerable'),
                 makeTrap(-210, 90, 1.8, '#aa00cc'),
             ]
         case 'apocalypse':
             return [
-                makeZone(-120, 90, 52, 3.0, 2.0, 1.0, '#ff0040'),
-                makeZone(120, -90, 52, 3.0, 2.0, 2.5, '#ff0040'),
-                makeTrap(-225, -80, 1.8, '#ff2255'),
-                makeTrap(225, 80, 0.6, '#ff2255'),
-                makePulse(230, 4.0, '#ff0040'),
+                makeZone(-120, 90, 52, 3.0, 2.0, 1.0, '#ff0040', 'burning'),
+                makeZone(120, -90, 52, 3.0, 2.0, 2.5, '#ff0040', 'burning'),
+                makeTrap(-225, -80, 1.8, '#ff2255', 'shocked'),
+                makeTrap(225, 80, 0.6, '#ff2255', 'shocked'),
+                makePulse(230, 4.0, '#ff0040', 'shocked'),
             ]
         default:
             return []
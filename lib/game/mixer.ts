@@ -0,0 +1,70 @@
+/**
+ * Player volume settings.
+ *
+ * Master, music and SFX sliders (0–1) plus a mute toggle, stored in
+ * localStorage and edited from the title screen or the pause menu. The audio
+ * engine keeps its own balance and ducking (Last Stand, intensity swells);
+ * these levels scale on top of it.
+ *
+ * Music is off in Classroom Mode unless the player turns it back on there —
+ * a room full of soundtracks is a lot.
+ */
+
+const STORAGE_KEY = 'shadowpulse_audio'
+
+export interface AudioSettings {
+  master: number
+  music: number
+  sfx: number
+  muted: boolean
+  classroomMusic: boolean   // play music while Classroom Mode is on
+}
+
+/** Gain multipliers for the engine's master, music and SFX buses. */
+export interface MixLevels {
+  master: number
+  music: number
+  sfx: number
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 1,
+  music: 1,
+  sfx: 1,
+  muted: false,
+  classroomMusic: false,
+}
+
+/** The levels to play at, after mute and the Classroom Mode music default. */
+export function mixLevels(settings: AudioSettings, classroom: boolean): MixLevels {
+  return {
+    master: settings.muted ? 0 : settings.master,
+    music: classroom && !settings.classroomMusic ? 0 : settings.music,
+    sfx: settings.sfx,
+  }
+}
+
+const clampLevel = (v: unknown, fallback: number) =>
+  typeof v === 'number' && Number.isFinite(v) ? Math.min(1, Math.max(0, v)) : fallback
+
+export function loadAudioSettings(): AudioSettings {
+  if (typeof window === 'undefined') return { ...DEFAULT_AUDIO_SETTINGS }
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return { ...DEFAULT_AUDIO_SETTINGS }
+    const stored = JSON.parse(raw) as Partial<AudioSettings>
+    return {
+      master: clampLevel(stored.master, DEFAULT_AUDIO_SETTINGS.master),
+      music: clampLevel(stored.music, DEFAULT_AUDIO_SETTINGS.music),
+      sfx: clampLevel(stored.sfx, DEFAULT_AUDIO_SETTINGS.sfx),
+      muted: stored.muted === true,
+      classroomMusic: stored.classroomMusic === true,
+    }
+  } catch {
+    return { ...DEFAULT_AUDIO_SETTINGS }
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
@@ -42,6 +42,13 @@ export interface MutatorModifiers {
   heavyChainCount?: number        // heavy chains to N nearest enemies after primary hit
   dashDamagesEnemies?: boolean    // dashing through enemies deals damage
   movementTrail?: boolean         // player leaves an afterimage trail while moving fast
+  perfectDodgeStun?: boolean      // a perfect dodge stuns the attacker
+
+  // Elemental — status effects left on enemies hit (see status.ts)
+  burnOnLight?: boolean           // light attacks set enemies burning
+  chillOnHit?: boolean            // every attack chills
+  shockOnPulse?: boolean          // pulse wave shocks; the next hit arcs to neighbors
+  vulnerableOnHeavy?: boolean     // heavy attacks leave enemies vulnerable
 }
 
 export interface MutatorStackEffect {
@@ -60,6 +67,7 @@ export interface Mutator {
   rarity: 'common' | 'rare' | 'epic'
   synergizes?: MutatorId[]            // IDs that combo well with this mutator
   stackEffects?: MutatorStackEffect[] // if present, mutator can be picked multiple times
+  locked?: boolean                    // only drafted once bought in the unlock tree (progression.ts)
 }
 
 // ============================================================================
@@ -126,6 +134,15 @@ export const MUTATOR_POOL: Mutator[] = [
     modifiers: { maxEnergyBonus: 20 },
     rarity: 'common',
   },
+  {
+    id: 'frost_edge',
+    name: 'Frost Edge',
+    description: 'Every hit chills enemies (slower movement)',
+    icon: '**',
+    color: '#88ddff',
+    modifiers: { chillOnHit: true },
+    rarity: 'common',
+  },
 
   // === RARE (trade-offs or larger buffs) ===
   {
@@ -201,6 +218,46 @@ export const MUTATOR_POOL: Mutator[] = [
     modifiers: { heavyRangeMultiplier: 1.25 },
     rarity: 'rare',
   },
+  {
+    id: 'counterstep',
+    name: 'Counterstep',
+    description: 'Perfect dodges stun the attacker',
+    icon: '/\\',
+    color: '#66ffee',
+    modifiers: { perfectDodgeStun: true },
+    rarity: 'rare',
+    synergizes: ['shadow_step'],
+  },
+  {
+    id: 'ember_blade',
+    name: 'Ember Blade',
+    description: 'Light attacks set enemies burning (stacks 3x)',
+    icon: '~~',
+    color: '#ff6622',
+    modifiers: { burnOnLight: true },
+    rarity: 'rare',
+    synergizes: ['swift_strikes', 'auto_light'],
+  },
+  {
+    id: 'static_charge',
+    name: 'Static Charge',
+    description: 'Pulse wave shocks enemies; their next hit arcs to neighbors',
+    icon: '/\\/',
+    color: '#ffee33',
+    modifiers: { shockOnPulse: true },
+    rarity: 'rare',
+    synergizes: ['pulse_master', 'auto_pulse'],
+  },
+  {
+    id: 'sunder',
+    name: 'Sunder',
+    description: 'Heavy attacks leave enemies vulnerable (+25% damage taken, stacks 2x)',
+    icon: '><',
+    color: '#ff44aa',
+    modifiers: { vulnerableOnHeavy: true },
+    rarity: 'rare',
+    synergizes: ['heavy_hitter', 'chain_heavy'],
+  },
 
   // === EPIC (powerful trade-offs) ===
   {
@@ -276,6 +333,41 @@ export const MUTATOR_POOL: Mutator[] = [
     rarity: 'epic',
     synergizes: ['heavy_hitter', 'devastating_force'],
   },
+
+  // === UNLOCKABLE (bought with shards in the unlock tree) ===
+  {
+    id: 'phantom_dash',
+    name: 'Phantom Dash',
+    description: 'Dashes cut through enemies and cost 5 less energy',
+    icon: '=>',
+    color: '#b366ff',
+    modifiers: { dashDamagesEnemies: true, dashCostBonus: -5 },
+    rarity: 'rare',
+    synergizes: ['shadow_step', 'swift_strikes'],
+    locked: true,
+  },
+  {
+    id: 'cinder_soul',
+    name: 'Cinder Soul',
+    description: 'Light attacks burn enemies and deal +10% damage',
+    icon: '^~',
+    color: '#ff6622',
+    modifiers: { burnOnLight: true, lightDamageMultiplier: 1.1 },
+    rarity: 'rare',
+    synergizes: ['ember_blade', 'auto_light'],
+    locked: true,
+  },
+  {
+    id: 'tempest_core',
+    name: 'Tempest Core',
+    description: 'Pulse wave shocks enemies and hits 20% harder',
+    icon: '(/)',
+    color: '#ffee33',
+    modifiers: { shockOnPulse: true, pulseWaveDamageMultiplier: 1.2 },
+    rarity: 'epic',
+    synergizes: ['static_charge', 'pulse_master'],
+    locked: true,
+  },
 ]
 
 // ============================================================================
@@ -288,7 +380,8 @@ export const MUTATOR_POOL: Mutator[] = [
  */
 export function getRandomMutators(
   count: number,
-  ownedIds: MutatorId[]
+  ownedIds: MutatorId[],
+  unlockedIds: MutatorId[] = []
 ): Mutator[] {
   // Count how many of each mutator is already owned (for stacking)
   const ownedCount: Record<string, number> = {}
@@ -297,6 +390,7 @@ export function getRandomMutators(
   }
 
   const available = MUTATOR_POOL.filter((m) => {
+    if (m.locked && !unlockedIds.includes(m.id)) return false
     const count = ownedCount[m.id] || 0
     if (count === 0) return true // Not owned yet
     if (m.stackEffects && count <= m.stackEffects.length) return true // Can still stack
@@ -335,12 +429,13 @@ export function getRandomMutators(
 }
 
 /** Pick `count` guaranteed-epic mutators (boss reward). Falls back to any rarity if epics run out. */
-export function getEpicMutators(count: number, ownedIds: MutatorId[]): Mutator[] {
+export function getEpicMutators(count: number, ownedIds: MutatorId[], unlockedIds: MutatorId[] = []): Mutator[] {
   const ownedCount: Record<string, number> = {}
   for (const id of ownedIds) {
     ownedCount[id] = (ownedCount[id] || 0) + 1
   }
   const available = MUTATOR_POOL.filter((m) => {
+    if (m.locked && !unlockedIds.includes(m.id)) return false
     const c = ownedCount[m.id] || 0
     if (c === 0) return true
     if (m.stackEffects && c <= m.stackEffects.length) return true
@@ -1,5 +1,9 @@
-import { Vec2, vec2, add, scale, fromAngle } from './vec2'
+import { Vec2, vec2, scale, fromAngle } from './vec2'
 import type { EnemyType } from './enemy'
+import type { ThemeKey } from './levels'
+import type { BossZoneKind } from './bosses'
+import { acquire, cull } from './pool'
+import { getQualityPreset } from './quality'
 
 export interface Particle {
   pos: Vec2
@@ -15,25 +19,49 @@ export interface ParticleSystem {
   particles: Particle[]
 }
 
+// Past this (scaled by the quality preset), new bursts are dropped rather than slowing the frame down
+const MAX_PARTICLES = 1500
+// Drifting ambient motes kept alive at once on High quality
+const MAX_AMBIENT = 30
+
+// Dead particles wait here to be reused
+const freeParticles: Particle[] = []
+
+const blankParticle = (): Particle => ({ pos: { x: 0, y: 0 }, vel: { x: 0, y: 0 }, life: 0, maxLife: 0, color: '', size: 0, type: 'spark' })
+
 export function createParticleSystem(): ParticleSystem {
   return { particles: [] }
 }
 
+/** Add a particle, recycling a dead one when there is one. Lower quality presets thin bursts out. */
+function spawnParticle(ps: ParticleSystem, spec: Particle): void {
+  const share = getQualityPreset().particles
+  if (ps.particles.length >= MAX_PARTICLES * share) return
+  if (share < 1 && spec.type !== 'ambient' && Math.random() >= share) return
+  const p = acquire(freeParticles, blankParticle)
+  p.pos.x = spec.pos.x
+  p.pos.y = spec.pos.y
+  p.vel.x = spec.vel.x
+  p.vel.y = spec.vel.y
+  p.life = spec.life
+  p.maxLife = spec.maxLife
+  p.color = spec.color
+  p.size = spec.size
+  p.type = spec.type
+  ps.particles.push(p)
+}
+
 export function updateParticles(ps: ParticleSystem, dt: number): void {
-  for (let i = ps.particles.length - 1; i >= 0; i--) {
-    const p = ps.particles[i]
-    p.life -= dt
-    if (p.life <= 0) {
-      ps.particles.splice(i, 1)
-      continue
-    }
-    p.pos = add(p.pos, scale(p.vel, dt))
-    p.vel = scale(p.vel, 0.96)
+  cull(ps.particles, freeParticles, p => (p.life -= dt) <= 0)
+  for (const p of ps.particles) {
+    p.pos.x += p.vel.x * dt
+    p.pos.y += p.vel.y * dt
+    p.vel.x *= 0.96
+    p.vel.y *= 0.96
 
     // Shrink over life
-    const lifeRatio = p.life / p.maxLife
     if (p.type === 'spark') {
-      p.size = 3 * lifeRatio
+      p.size = 3 * (p.life / p.maxLife)
     }
   }
 }
@@ -42,7 +70,7 @@ export function emitHitSparks(ps: ParticleSystem, pos: Vec2, color: string, coun
   for (let i = 0; i < count; i++) {
     const angle = Math.random() * Math.PI * 2
     const speed = 100 + Math.random() * 250
-    ps.particles.push({
+    spawnParticle(ps, {
       pos: { x: pos.x + (Math.random() - 0.5) * 10, y: pos.y + (Math.random() - 0.5) * 10 },
       vel: scale(fromAngle(angle), speed),
       life: 0.2 + Math.random() * 0.3,
@@ -54,11 +82,27 @@ export function emitHitSparks(ps: ParticleSystem, pos: Vec2, color: string, coun
   }
 }
 
-export function emitPulseWave(ps: ParticleSystem, pos: Vec2, facing: number, arc: number): void {
-  for (let i = 0; i < 20; i++) {
+/** Expanding ring of cyan sparks around the player for a perfect dodge. */
+export function emitPerfectDodge(ps: ParticleSystem, pos: Vec2): void {
+  for (let i = 0; i < 24; i++) {
+    const angle = (i / 24) * Math.PI * 2
+    spawnParticle(ps, {
+      pos: { ...pos },
+      vel: scale(fromAngle(angle), 260 + Math.random() * 60),
+      life: 0.35 + Math.random() * 0.15,
+      maxLife: 0.5,
+      color: '#66ffee',
+      size: 3 + Math.random() * 2,
+      type: 'pulse',
+    })
+  }
+}
+
+export function emitPulseWave(ps: ParticleSystem, pos: Vec2, facing: number, arc: number, count: number = 20): void {
+  for (let i = 0; i < count; i++) {
     const angle = facing - arc / 2 + Math.random() * arc
     const speed = 200 + Math.random() * 300
-    ps.particles.push({
+    spawnParticle(ps, {
       pos: { ...pos },
       vel: scale(fromAngle(angle), speed),
       life: 0.3 + Math.random() * 0.2,
@@ -74,7 +118,7 @@ export function emitDeathExplosion(ps: ParticleSystem, pos: Vec2, color: string)
   for (let i = 0; i < 25; i++) {
     const angle = Math.random() * Math.PI * 2
     const speed = 50 + Math.random() * 200
-    ps.particles.push({
+    spawnParticle(ps, {
       pos: { x: pos.x + (Math.random() - 0.5) * 8, y: pos.y + (Math.random() - 0.5) * 8 },
       vel: scale(fromAngle(angle), speed),
       life: 0.3 + Math.random() * 0.5,
@@ -95,7 +139,7 @@ export function emitTypedDeathExplosion(type: EnemyType, pos: Vec2, ps: Particle
       for (let i = 0; i < 6; i++) {
         const angle = Math.random() * Math.PI * 2
         const speed = 30 + Math.random() * 50
-        ps.particles.push({
+        spawnParticle(ps, {
           pos: { x: pos.x + (Math.random() - 0.5) * 6, y: pos.y + (Math.random() - 0.5) * 6 },
           vel: scale(fromAngle(angle), speed),
           life: 0.6,
@@ -114,7 +158,7 @@ export function emitTypedDeathExplosion(type: EnemyType, pos: Vec2, ps: Particle
         for (let i = 0; i < 5; i++) {
           const angle = baseAngle + (Math.random() - 0.5) * 0.3
           const speed = 80 + i * 40 + Math.random() * 30
-          ps.particles.push({
+          spawnParticle(ps, {
             pos: { x: pos.x, y: pos.y },
             vel: scale(fromAngle(angle), speed),
             life: 0.25 + Math.random() * 0.25,
@@ -128,7 +172,7 @@ export function emitTypedDeathExplosion(type: EnemyType, pos: Vec2, ps: Particle
       // Scatter burst
       for (let i = 0; i < 12; i++) {
         const angle = Math.random() * Math.PI * 2
-        ps.particles.push({
+        spawnParticle(ps, {
           pos: { x: pos.x + (Math.random() - 0.5) * 8, y: pos.y + (Math.random() - 0.5) * 8 },
           vel: scale(fromAngle(angle), 60 + Math.random() * 120),
           life: 0.3 + Math.random() * 0.3,
@@ -145,7 +189,7 @@ export function emitTypedDeathExplosion(type: EnemyType, pos: Vec2, ps: Particle
       for (let i = 0; i < 30; i++) {
         const angle = (i / 30) * Math.PI * 2
         const speed = 20 + Math.random() * 40
-        ps.particles.push({
+        spawnParticle(ps, {
           pos: { x: pos.x, y: pos.y },
           vel: scale(fromAngle(angle), speed),
           life: 0.6 + Math.random() * 0.3,
@@ -159,7 +203,7 @@ export function emitTypedDeathExplosion(type: EnemyType, pos: Vec2, ps: Particle
       for (let i = 0; i < 18; i++) {
         const angle = Math.random() * Math.PI * 2
         const speed = 80 + Math.random() * 180
-        ps.particles.push({
+        spawnParticle(ps, {
           pos: { x: pos.x + (Math.random() - 0.5) * 10, y: pos.y + (Math.random() - 0.5) * 10 },
           vel: scale(fromAngle(angle), speed),
           life: 0.4 + Math.random() * 0.4,
@@ -176,7 +220,7 @@ export function emitTypedDeathExplosion(type: EnemyType, pos: Vec2, ps: Particle
       for (let i = 0; i < 8; i++) {
         const angle = (i / 8) * Math.PI * 2
         const speed = 200 + Math.random() * 200
-        ps.particles.push({
+        spawnParticle(ps, {
           pos: { x: pos.x, y: pos.y },
           vel: scale(fromAngle(angle), speed),
           life: 0.2 + Math.random() * 0.1,
@@ -190,7 +234,7 @@ export function emitTypedDeathExplosion(type: EnemyType, pos: Vec2, ps: Particle
       for (let i = 0; i < 18; i++) {
         const angle = Math.random() * Math.PI * 2
         const speed = 80 + Math.random() * 200
-        ps.particles.push({
+        spawnParticle(ps, {
           pos: { x: pos.x + (Math.random() - 0.5) * 8, y: pos.y + (Math.random() - 0.5) * 8 },
           vel: scale(fromAngle(angle), speed),
           life: 0.2 + Math.random() * 0.15,
@@ -205,6 +249,174 @@ export function emitTypedDeathExplosion(type: EnemyType, pos: Vec2, ps: Particle
   }
 }
 
+/** Each boss goes out in its own way — Pyre in embers, Glacier in ice shards, Tempest in arcs. */
+export function emitBossDeath(theme: ThemeKey, pos: Vec2, ps: ParticleSystem): void {
+  const burst = (count: number, color: string, minSpeed: number, maxSpeed: number, life: number, size: number, type: Particle['type']) => {
+    for (let i = 0; i < count; i++) {
+      const angle = Math.random() * Math.PI * 2
+      spawnParticle(ps, {
+        pos: { x: pos.x + (Math.random() - 0.5) * 20, y: pos.y + (Math.random() - 0.5) * 20 },
+        vel: scale(fromAngle(angle), minSpeed + Math.random() * (maxSpeed - minSpeed)),
+        life: life * (0.6 + Math.random() * 0.4),
+        maxLife: life,
+        color,
+        size: size * (0.6 + Math.random() * 0.8),
+        type,
+      })
+    }
+  }
+
+  switch (theme) {
+    case 'inferno': {
+      // Fireball, then slow embers drifting upward
+      burst(50, '#ff5511', 100, 320, 0.8, 7, 'death')
+      burst(20, '#ffcc33', 40, 140, 0.6, 5, 'spark')
+      for (let i = 0; i < 30; i++) {
+        spawnParticle(ps, {
+          pos: { x: pos.x + (Math.random() - 0.5) * 60, y: pos.y + (Math.random() - 0.5) * 60 },
+          vel: { x: (Math.random() - 0.5) * 40, y: -40 - Math.random() * 80 },
+          life: 1.2 + Math.random() * 0.8,
+          maxLife: 2,
+          color: Math.random() < 0.5 ? '#ff8822' : '#ff3300',
+          size: 2 + Math.random() * 3,
+          type: 'ambient',
+        })
+      }
+      break
+    }
+    case 'cryo': {
+      // Big, slow ice shards and a frost mist ring
+      burst(24, '#e6fbff', 60, 180, 1.2, 10, 'death')
+      for (let i = 0; i < 36; i++) {
+        spawnParticle(ps, {
+          pos: { ...pos },
+          vel: scale(fromAngle((i / 36) * Math.PI * 2), 140),
+          life: 0.9,
+          maxLife: 0.9,
+          color: '#66ddff',
+          size: 6,
+          type: 'pulse',
+        })
+      }
+      break
+    }
+    case 'storm': {
+      // Fast arcs in every direction
+      burst(60, '#ffee33', 300, 650, 0.35, 3, 'spark')
+      burst(25, '#ffffff', 120, 300, 0.5, 5, 'death')
+      break
+    }
+    case 'abyss': {
+      // The Hollow caves in: motes rush to the centre, then a dark flare
+      for (let i = 0; i < 48; i++) {
+        const angle = (i / 48) * Math.PI * 2
+        const r = 90 + Math.random() * 60
+        spawnParticle(ps, {
+          pos: { x: pos.x + Math.cos(angle) * r, y: pos.y + Math.sin(angle) * r },
+          vel: scale(fromAngle(angle), -r / 0.5),
+          life: 0.5,
+          maxLife: 0.5,
+          color: i % 2 === 0 ? '#9933ff' : '#ff00cc',
+          size: 4,
+          type: 'spark',
+        })
+      }
+      burst(35, '#2a0050', 40, 160, 1.4, 12, 'death')
+      burst(25, '#cc66ff', 200, 420, 0.6, 4, 'spark')
+      break
+    }
+    case 'apocalypse': {
+      // A bit of every boss it borrowed from
+      burst(30, '#ff0040', 100, 360, 0.9, 8, 'death')
+      burst(20, '#ff5511', 60, 200, 0.8, 5, 'death')
+      burst(20, '#66ddff', 60, 200, 1.0, 6, 'death')
+      burst(30, '#ffee33', 300, 600, 0.35, 3, 'spark')
+      break
+    }
+    default: {
+      // The Warden collapses in on itself: a ring, then a violet burst
+      for (let i = 0; i < 40; i++) {
+        spawnParticle(ps, {
+          pos: { ...pos },
+          vel: scale(fromAngle((i / 40) * Math.PI * 2), 260),
+          life: 0.6,
+          maxLife: 0.6,
+          color: '#cc00ff',
+          size: 5,
+          type: 'pulse',
+        })
+      }
+      burst(40, '#dd66ff', 80, 280, 0.9, 7, 'death')
+      break
+    }
+  }
+}
+
+/** The moment a frost zone freezes, a lightning bolt lands or a void rift collapses. */
+export function emitBossZoneStrike(kind: BossZoneKind, pos: Vec2, radius: number, ps: ParticleSystem): void {
+  const color = kind === 'frost' ? '#bff4ff' : kind === 'lightning' ? '#ffee33' : kind === 'rift' ? '#cc66ff' : '#ff5511'
+  const count = kind === 'lightning' ? 18 : 24
+  for (let i = 0; i < count; i++) {
+    const angle = Math.random() * Math.PI * 2
+    const r = Math.random() * radius
+    // A rift throws its debris outward as it shuts; the rest settle in place
+    const speed = kind === 'lightning' ? 200 + Math.random() * 250 : kind === 'rift' ? 150 + Math.random() * 150 : 30 + Math.random() * 60
+    spawnParticle(ps, {
+      pos: { x: pos.x + Math.cos(angle) * r, y: pos.y + Math.sin(angle) * r },
+      vel: scale(fromAngle(angle), speed),
+      life: kind === 'lightning' ? 0.25 : 0.6,
+      maxLife: kind === 'lightning' ? 0.25 : 0.6,
+      color,
+      size: kind === 'lightning' ? 2 + Math.random() * 2 : 3 + Math.random() * 3,
+      type: 'spark',
+    })
+  }
+}
+
+/** A boss blinking from `from` to `to`: a puff where it left, a ring where it lands. */
+export function emitBossBlink(from: Vec2, to: Vec2, color: string, ps: ParticleSystem): void {
+  for (let i = 0; i < 16; i++) {
+    spawnParticle(ps, {
+      pos: { x: from.x + (Math.random() - 0.5) * 40, y: from.y + (Math.random() - 0.5) * 40 },
+      vel: { x: (Math.random() - 0.5) * 40, y: -20 - Math.random() * 40 },
+      life: 0.6,
+      maxLife: 0.6,
+      color,
+      size: 4 + Math.random() * 4,
+      type: 'death',
+    })
+  }
+  for (let i = 0; i < 24; i++) {
+    spawnParticle(ps, {
+      pos: { ...to },
+      vel: scale(fromAngle((i / 24) * Math.PI * 2), 220),
+      life: 0.35,
+      maxLife: 0.35,
+      color,
+      size: 4,
+      type: 'pulse',
+    })
+  }
+}
+
+/** Sparks strung along a shock discharge from `from` to `to`. */
+export function emitShockArc(from: Vec2, to: Vec2, ps: ParticleSystem): void {
+  const steps = 10
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps
+    const jitter = (Math.random() - 0.5) * 16
+    spawnParticle(ps, {
+      pos: { x: from.x + (to.x - from.x) * t + jitter, y: from.y + (to.y - from.y) * t - jitter },
+      vel: scale(fromAngle(Math.random() * Math.PI * 2), 40 + Math.random() * 80),
+      life: 0.2,
+      maxLife: 0.2,
+      color: i % 2 === 0 ? '#ffee33' : '#ffffff',
+      size: 2 + Math.random() * 2,
+      type: 'spark',
+    })
+  }
+}
+
 export function emitAffixDeathEffect(affix: { id: string; color: string; explosionRadius?: number }, pos: Vec2, ps: ParticleSystem): void {
   switch (affix.id) {
     case 'volatile': {
@@ -213,7 +425,7 @@ export function emitAffixDeathEffect(affix: { id: string; color: string; explosi
       for (let i = 0; i < 40; i++) {
         const angle = Math.random() * Math.PI * 2
         const speed = 100 + Math.random() * 300
-        ps.particles.push({
+        spawnParticle(ps, {
           pos: { ...pos },
           vel: scale(fromAngle(angle), speed),
           life: 0.5 + Math.random() * 0.4,
@@ -226,7 +438,7 @@ export function emitAffixDeathEffect(affix: { id: string; color: string; explosi
       // Shockwave ring
       for (let i = 0; i < 24; i++) {
         const angle = (i / 24) * Math.PI * 2
-        ps.particles.push({
+        spawnParticle(ps, {
           pos: { ...pos },
           vel: scale(fromAngle(angle), r * 3),
           life: 0.25,
@@ -243,7 +455,7 @@ export function emitAffixDeathEffect(affix: { id: string; color: string; explosi
       for (let i = 0; i < 20; i++) {
         const angle = (i / 20) * Math.PI * 2
         const speed = 200 + Math.random() * 150
-        ps.particles.push({
+        spawnParticle(ps, {
           pos: { ...pos },
           vel: scale(fromAngle(angle), speed),
           life: 0.3 + Math.random() * 0.2,
@@ -259,7 +471,7 @@ export function emitAffixDeathEffect(affix: { id: string; color: string; explosi
         for (let i = 0; i < 5; i++) {
           const angle = baseAngle + (Math.random() - 0.5) * 0.4
           const speed = 250 + Math.random() * 200
-          ps.particles.push({
+          spawnParticle(ps, {
             pos: { ...pos },
             vel: scale(fromAngle(angle), speed),
             life: 0.2 + Math.random() * 0.15,
@@ -277,7 +489,7 @@ export function emitAffixDeathEffect(affix: { id: string; color: string; explosi
       for (let i = 0; i < 15; i++) {
         const angle = Math.random() * Math.PI * 2
         const speed = 5 + Math.random() * 15
-        ps.particles.push({
+        spawnParticle(ps, {
           pos: { x: pos.x + (Math.random() - 0.5) * 20, y: pos.y + (Math.random() - 0.5) * 20 },
           vel: scale(fromAngle(angle), speed),
           life: 1.5,
@@ -293,7 +505,7 @@ export function emitAffixDeathEffect(affix: { id: string; color: string; explosi
       // Generic affix sparkle
       for (let i = 0; i < 12; i++) {
         const angle = Math.random() * Math.PI * 2
-        ps.particles.push({
+        spawnParticle(ps, {
           pos: { ...pos },
           vel: scale(fromAngle(angle), 60 + Math.random() * 120),
           life: 0.3 + Math.random() * 0.3,
@@ -309,10 +521,12 @@ export function emitAffixDeathEffect(affix: { id: string; color: string; explosi
 }
 
 export function emitAmbientParticle(ps: ParticleSystem, bounds: { x: number; y: number; w: number; h: number }): void {
-  if (ps.particles.filter(p => p.type === 'ambient').length > 30) return
   if (Math.random() > 0.1) return
+  let ambient = 0
+  for (const p of ps.particles) if (p.type === 'ambient') ambient++
+  if (ambient >= MAX_AMBIENT * getQualityPreset().ambient) return
 
-  ps.particles.push({
+  spawnParticle(ps, {
     pos: vec2(
       bounds.x + Math.random() * bounds.w,
       bounds.y + Math.random() * bounds.h,
@@ -327,6 +541,7 @@ export function emitAmbientParticle(ps: ParticleSystem, bounds: { x: number; y:
 }
 
 export function drawParticles(ctx: CanvasRenderingContext2D, ps: ParticleSystem): void {
+  const glow = getQualityPreset().glow
   for (const p of ps.particles) {
     const alpha = Math.min(1, p.life / p.maxLife)
     ctx.globalAlpha = alpha
@@ -339,7 +554,7 @@ export function drawParticles(ctx: CanvasRenderingContext2D, ps: ParticleSystem)
     } else {
       ctx.fillStyle = p.color
       ctx.shadowColor = p.color
-      ctx.shadowBlur = p.type === 'pulse' ? 15 : 8
+      ctx.shadowBlur = (p.type === 'pulse' ? 15 : 8) * glow
       ctx.beginPath()
       ctx.arc(p.pos.x, p.pos.y, p.size, 0, Math.PI * 2)
       ctx.fill()
@@ -1,6 +1,8 @@
 import { Vec2, vec2, add, scale, normalize, length, fromAngle, distance } from './vec2'
 import * as S from './settings'
+import type { QuizAnswer } from './questions'
 import { MutatorModifiers } from './mutators'
+import { StatusEffects, createStatusEffects, statusSpeedMultiplier, applyHitStatus } from './status'
 import { PlayerAnimState, SPRITE_FRAME_COUNTS, SPRITE_ANIM_FPS, LOOPING_STATES } from './spriteAnimator'
 
 export type { PlayerAnimState }
@@ -19,6 +21,7 @@ export interface Player {
   speed: number
   isDashing: boolean
   dashTime: number
+  perfectDodged: boolean // this dash already scored a perfect dodge
   dashCooldown: number
   dashDir: Vec2
 
@@ -40,10 +43,12 @@ export interface Player {
   // Defense
   iframes: number
   isAlive: boolean
+  status: StatusEffects
 
   // Visual
   flashTimer: number
   trailPositions: Vec2[]
+  trailColor: string
 
   // Cooldown tracking (for HUD display)
   attackMaxCooldown: number
@@ -66,6 +71,7 @@ export function createPlayer(): Player {
     speed: S.PLAYER_SPEED,
     isDashing: false,
     dashTime: 0,
+    perfectDodged: false,
     dashCooldown: 0,
     dashDir: vec2(1, 0),
     attacking: 'none',
@@ -81,8 +87,10 @@ export function createPlayer(): Player {
     pulseWaveTimer: 0,
     iframes: 0,
     isAlive: true,
+    status: createStatusEffects(),
     flashTimer: 0,
     trailPositions: [],
+    trailColor: S.PLAYER_DASH_COLOR,
     attackMaxCooldown: 0,
     animState: 'idle',
     animFrame: 0,
@@ -105,9 +113,17 @@ export interface InputState {
   consumableActivate?: boolean
   acceptWaveEvent?: boolean
   rejectWaveEvent?: boolean
+  mutatorChoice?: number     // 1–3 during mutator selection
+  quizAnswer?: QuizAnswer    // option index (A–D = 0–3) or true/false during the quiz
+  quizKeys?: string[]        // keys typed this frame for spelling / number questions
+  move?: Vec2                // analog movement (gamepad stick), length 0–1 — overrides up/down/left/right
 }
 
+/** Movement intent: the analog vector when present (partial tilt walks slower), else the 8-way booleans. */
 export function getMovementDirection(input: InputState): Vec2 {
+  if (input.move && length(input.move) > 0) {
+    return length(input.move) > 1 ? normalize(input.move) : input.move
+  }
   let dx = 0
   let dy = 0
   if (input.up) dy -= 1
@@ -122,7 +138,7 @@ export function updatePlayer(player: Player, input: InputState, dt: number, modi
   if (!player.isAlive) return
 
   // Apply modifier calculations
-  const effectiveSpeed = player.speed * (modifiers.speedMultiplier ?? 1)
+  const effectiveSpeed = player.speed * (modifiers.speedMultiplier ?? 1) * statusSpeedMultiplier(player.status)
   const effectiveDashCost = Math.max(0, S.DASH_COST + (modifiers.dashCostBonus ?? 0))
   const effectiveDashCooldown = Math.max(0.1, S.DASH_COOLDOWN + (modifiers.dashCooldownBonus ?? 0))
   const effectiveLightCooldown = Math.max(0.05, S.LIGHT_COOLDOWN + (modifiers.lightCooldownBonus ?? 0))
@@ -194,9 +210,10 @@ export function updatePlayer(player: Player, input: InputState, dt: number, modi
   if (input.dash && !player.isDashing && player.dashCooldown <= 0 && player.energy >= effectiveDashCost && player.attacking === 'none') {
     player.isDashing = true
     player.dashTime = S.DASH_DURATION
+    player.perfectDodged = false
     player.energy -= effectiveDashCost
     player.dashCooldown = effectiveDashCooldown
-    player.dashDir = length(dir) > 0 ? dir : fromAngle(player.facing)
+    player.dashDir = length(dir) > 0 ? normalize(dir) : fromAngle(player.facing)
     player.iframes = S.DASH_DURATION + 0.05
   }
 
@@ -308,16 +325,40 @@ export function updatePlayer(player: Player, input: InputState, dt: number, modi
   }
 }
 
+/**
+ * Whether a hit landing now is perfectly dodged: the player is within the
+ * opening PERFECT_DODGE_WINDOW of a dash that hasn't scored one yet. Marks the dash.
+ */
+export function tryPerfectDodge(player: Player): boolean {
+  if (!player.isDashing || player.perfectDodged) return false
+  if (S.DASH_DURATION - player.dashTime > S.PERFECT_DODGE_WINDOW) return false
+  player.perfectDodged = true
+  return true
+}
+
 export interface DamageResult {
   damaged: boolean
   wouldBeLethal: boolean
+  dealt: number         // damage after hit statuses; 0 when nothing landed
 }
 
-export function damagePlayer(player: Player, damage: number, triggerLastStand: boolean = false): DamageResult {
-  if (player.iframes > 0 || player.isDashing || !player.isAlive) {
-    return { damaged: false, wouldBeLethal: false }
+export interface DamageOptions {
+  overTime?: boolean    // a tick of damage over time (burning, fire underfoot)
+  iframes?: number      // iframes the hit grants, when not the usual PLAYER_IFRAMES
+}
+
+/**
+ * Hurt the player. Damage over time lands through iframes and a dash, grants
+ * no iframes and doesn't discharge hit statuses — but, like any hit, it can
+ * still trigger Last Stand or kill.
+ */
+export function damagePlayer(player: Player, damage: number, triggerLastStand: boolean = false, options: DamageOptions = {}): DamageResult {
+  const overTime = options.overTime === true
+  if (!player.isAlive || (!overTime && (player.iframes > 0 || player.isDashing))) {
+    return { damaged: false, wouldBeLethal: false, dealt: 0 }
   }
 
+  if (!overTime) damage = applyHitStatus(player.status, damage)
   const wouldBeLethal = player.hp - damage <= 0
 
   // If Last Stand is triggered, survive with 1 HP instead of dying
@@ -325,17 +366,19 @@ export function damagePlayer(player: Player, damage: number, triggerLastStand: b
     player.hp = S.LAST_STAND_HP
     player.iframes = S.LAST_STAND_IFRAMES
     player.flashTimer = 0.3
-    return { damaged: true, wouldBeLethal: true }
+    return { damaged: true, wouldBeLethal: true, dealt: damage }
   }
 
   player.hp -= damage
-  player.iframes = S.PLAYER_IFRAMES
-  player.flashTimer = 0.1
+  if (!overTime) {
+    player.iframes = options.iframes ?? S.PLAYER_IFRAMES
+    player.flashTimer = 0.1
+  }
 
   if (player.hp <= 0) {
     player.hp = 0
     player.isAlive = false
   }
 
-  return { damaged: true, wouldBeLethal }
+  return { damaged: true, wouldBeLethal, dealt: damage }
 }
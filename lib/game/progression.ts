@@ -0,0 +1,203 @@
+/**
+ * Meta-progression: shards earned across runs and the title-screen unlock tree.
+ *
+ * A run pays out shards for its kills, cleared waves and completed contracts.
+ * Shards buy unlocks, and the unlocks a player owns become the run's Loadout
+ * when it starts: extra mutators in the draft, consumables in hand, a spare
+ * Last Stand and a dash-trail colour.
+ *
+ * The record stores what was earned and what was bought rather than a
+ * balance, so two copies (this browser and the account) merge without losing
+ * or duplicating shards. Earnings are kept per device: each browser only
+ * ever adds to its own entry, so merging takes each entry's larger value and
+ * sums them. Daily Challenge runs ignore the loadout entirely.
+ */
+
+import type { ConsumableType } from './contracts'
+import type { MutatorId } from './mutators'
+
+const STORAGE_KEY = 'shadowpulse_progression'
+const DEVICE_KEY = 'shadowpulse_device'
+
+// Ledger entry for totals saved before the per-device ledger, on either side
+export const LEGACY_LEDGER_ENTRY = 'legacy'
+
+const SHARDS_PER_KILL = 1
+const SHARDS_PER_WAVE = 5
+const SHARDS_PER_CONTRACT = 10
+
+export type UnlockId = string
+
+export interface UnlockDef {
+  id: UnlockId
+  name: string
+  description: string
+  branch: 'arsenal' | 'supplies' | 'survival' | 'cosmetic'
+  cost: number
+  requires?: UnlockId
+  // What owning it adds to a run (one per unlock)
+  mutatorId?: MutatorId
+  consumable?: ConsumableType
+  extraLastStand?: boolean
+  trailColor?: string
+}
+
+export interface ProgressionRecord {
+  earned: Record<string, number>   // lifetime shards per device — the balance is their sum minus the cost of `unlocked`
+  unlocked: UnlockId[]
+  trail: UnlockId | null    // equipped cosmetic trail
+}
+
+/** What a run starts with from the unlock tree. */
+export interface Loadout {
+  mutators: MutatorId[]         // locked mutators allowed into the draft
+  consumables: ConsumableType[]
+  extraLastStand: boolean
+  trailColor: string | null
+}
+
+export const BASELINE_LOADOUT: Loadout = { mutators: [], consumables: [], extraLastStand: false, trailColor: null }
+
+export const UNLOCK_TREE: UnlockDef[] = [
+  // Arsenal — mutators that only enter the draft once bought
+  { id: 'phantom_dash', name: 'Phantom Dash', description: 'Adds the Phantom Dash mutator to the draft', branch: 'arsenal', cost: 60, mutatorId: 'phantom_dash' },
+  { id: 'cinder_soul', name: 'Cinder Soul', description: 'Adds the Cinder Soul mutator to the draft', branch: 'arsenal', cost: 120, requires: 'phantom_dash', mutatorId: 'cinder_soul' },
+  { id: 'tempest_core', name: 'Tempest Core', description: 'Adds the Tempest Core mutator to the draft', branch: 'arsenal', cost: 220, requires: 'cinder_soul', mutatorId: 'tempest_core' },
+
+  // Supplies — consumables in hand from the first wave
+  { id: 'field_medkit', name: 'Field Medkit', description: 'Start every run with a Full Heal', branch: 'supplies', cost: 80, consumable: 'full_heal' },
+  { id: 'emergency_shield', name: 'Emergency Shield', description: 'Start every run with an Invincibility', branch: 'supplies', cost: 150, requires: 'field_medkit', consumable: 'invincibility' },
+  { id: 'pulse_bomb', name: 'Pulse Bomb', description: 'Start every run with a Nuke', branch: 'supplies', cost: 200, requires: 'emergency_shield', consumable: 'nuke' },
+
+  // Survival
+  { id: 'second_wind', name: 'Second Wind', description: 'One extra Last Stand each run', branch: 'survival', cost: 300, extraLastStand: true },
+
+  // Cosmetic — dash trail colours; the last one bought or picked is worn
+  { id: 'trail_ember', name: 'Ember Trail', description: 'Orange dash trail', branch: 'cosmetic', cost: 40, trailColor: '#ff6622' },
+  { id: 'trail_frost', name: 'Frost Trail', description: 'Ice-blue dash trail', branch: 'cosmetic', cost: 40, trailColor: '#88ddff' },
+  { id: 'trail_gold', name: 'Gold Trail', description: 'Gold dash trail', branch: 'cosmetic', cost: 100, requires: 'trail_ember', trailColor: '#ffc800' },
+]
+
+export function createProgressionRecord(): ProgressionRecord {
+  return { earned: {}, unlocked: [], trail: null }
+}
+
+export function getUnlock(id: UnlockId): UnlockDef | undefined {
+  return UNLOCK_TREE.find(u => u.id === id)
+}
+
+/** Shards a finished run pays out. Dying mid-wave doesn't count that wave as cleared. */
+export function shardsForRun(run: { totalKills: number; wave: number; contractsCompleted: number }): number {
+  return run.totalKills * SHARDS_PER_KILL
+    + Math.max(0, run.wave - 1) * SHARDS_PER_WAVE
+    + run.contractsCompleted * SHARDS_PER_CONTRACT
+}
+
+/** Lifetime shards across every device. */
+export function totalEarned(record: ProgressionRecord): number {
+  return Object.values(record.earned).reduce((sum, n) => sum + n, 0)
+}
+
+/**
+ * Shards left to spend. Two offline devices can buy different unlocks with
+ * the same shards; after they merge, both keep what they bought and new
+ * earnings pay the difference off before anything else can be bought.
+ */
+export function shardBalance(record: ProgressionRecord): number {
+  const spent = record.unlocked.reduce((sum, id) => sum + (getUnlock(id)?.cost ?? 0), 0)
+  return Math.max(0, totalEarned(record) - spent)
+}
+
+export function canUnlock(record: ProgressionRecord, id: UnlockId): boolean {
+  const def = getUnlock(id)
+  if (!def || record.unlocked.includes(id)) return false
+  if (def.requires && !record.unlocked.includes(def.requires)) return false
+  return shardBalance(record) >= def.cost
+}
+
+/** Buy `id` (mutates). Buying a trail also puts it on. Returns false if it can't be bought. */
+export function purchaseUnlock(record: ProgressionRecord, id: UnlockId): boolean {
+  if (!canUnlock(record, id)) return false
+  record.unlocked.push(id)
+  if (getUnlock(id)?.trailColor) record.trail = id
+  return true
+}
+
+/** Wear an owned trail, or none. */
+export function equipTrail(record: ProgressionRecord, id: UnlockId | null): void {
+  if (id === null || record.unlocked.includes(id)) record.trail = id
+}
+
+export function buildLoadout(record: ProgressionRecord): Loadout {
+  const owned = record.unlocked.flatMap(id => getUnlock(id) ?? [])
+  return {
+    mutators: owned.flatMap(u => u.mutatorId ?? []),
+    consumables: owned.flatMap(u => u.consumable ?? []),
+    extraLastStand: owned.some(u => u.extraLastStand),
+    trailColor: (record.trail && getUnlock(record.trail)?.trailColor) || null,
+  }
+}
+
+/**
+ * Combine two copies of the record (this browser and the account). Each
+ * device's earnings only grow, so its larger entry is the newer one; unlocks
+ * take the union. Neither side loses what it earned or bought, and merging
+ * the same copies again changes nothing.
+ */
+export function mergeProgression(a: ProgressionRecord, b: ProgressionRecord): ProgressionRecord {
+  const earned = { ...a.earned }
+  for (const [device, shards] of Object.entries(b.earned)) {
+    earned[device] = Math.max(earned[device] ?? 0, shards)
+  }
+  const unlocked = [...new Set([...a.unlocked, ...b.unlocked])].filter(id => getUnlock(id))
+  return { earned, unlocked, trail: a.trail ?? b.trail }
+}
+
+/** Read a stored ledger; a bare number is a total from before the ledger. */
+export function parseLedger(stored: unknown): Record<string, number> {
+  if (typeof stored === 'number') return stored > 0 ? { [LEGACY_LEDGER_ENTRY]: stored } : {}
+  if (typeof stored !== 'object' || stored === null) return {}
+  const ledger: Record<string, number> = {}
+  for (const [device, shards] of Object.entries(stored)) {
+    if (typeof shards === 'number' && Number.isFinite(shards) && shards > 0) ledger[device] = shards
+  }
+  return ledger
+}
+
+// ── Storage ───────────────────────────────────────────────────────────────────
+
+export function loadProgression(): ProgressionRecord {
+  if (typeof window === 'undefined') return createProgressionRecord()
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as ProgressionRecord | null
+    return stored && Array.isArray(stored.unlocked)
+      ? { earned: parseLedger(stored.earned), unlocked: stored.unlocked, trail: stored.trail ?? null }
+      : createProgressionRecord()
+  } catch {
+    return createProgressionRecord()
+  }
+}
+
+export function saveProgression(record: ProgressionRecord): void {
+  if (typeof window !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(record))
+}
+
+/** This browser's ledger entry. */
+function deviceId(): string {
+  let id = localStorage.getItem(DEVICE_KEY)
+  if (!id) {
+    id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+    localStorage.setItem(DEVICE_KEY, id)
+  }
+  return id
+}
+
+/** Add a finished run's shards to the stored record and save it. Returns the updated record. */
+export function creditRun(shards: number): ProgressionRecord {
+  const record = loadProgression()
+  if (typeof window === 'undefined') return record
+  const device = deviceId()
+  record.earned[device] = (record.earned[device] ?? 0) + shards
+  saveProgression(record)
+  return record
+}
@@ -0,0 +1,100 @@
+/**
+ * Graphics quality presets.
+ *
+ * Glow (canvas shadowBlur), particle bursts and ambient floor animation are
+ * the bulk of a frame's cost on low-end laptops. A preset scales all three;
+ * the renderer and particle system read the active one. Auto mode starts at
+ * High and steps down (or back up) from the measured frame time.
+ *
+ * Quality is purely visual — the simulation never reads it, so runs on any
+ * preset replay and verify the same.
+ */
+
+const STORAGE_KEY = 'shadowpulse_quality'
+
+export type QualityLevel = 'low' | 'medium' | 'high'
+export type QualitySetting = QualityLevel | 'auto'
+
+export interface QualityPreset {
+  glow: number          // shadowBlur multiplier (0 turns glow off)
+  particles: number     // share of burst particles kept, and of the particle cap
+  ambient: number       // share of drifting ambient particles kept
+  floorMotion: boolean  // animated floor details (lava, sparkles, arcs, ripples)
+}
+
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high']
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+  low:    { glow: 0,   particles: 0.35, ambient: 0,   floorMotion: false },
+  medium: { glow: 0.5, particles: 0.6,  ambient: 0.5, floorMotion: true },
+  high:   { glow: 1,   particles: 1,    ambient: 1,   floorMotion: true },
+}
+
+let activeLevel: QualityLevel = 'high'
+
+export function getQualityLevel(): QualityLevel {
+  return activeLevel
+}
+
+export function getQualityPreset(): QualityPreset {
+  return QUALITY_PRESETS[activeLevel]
+}
+
+export function setQualityLevel(level: QualityLevel): void {
+  activeLevel = level
+}
+
+export function loadQualitySetting(): QualitySetting {
+  if (typeof window === 'undefined') return 'auto'
+  const stored = localStorage.getItem(STORAGE_KEY) as QualitySetting | null
+  return stored && (stored === 'auto' || QUALITY_LEVELS.includes(stored)) ? stored : 'auto'
+}
+
+export function saveQualitySetting(setting: QualitySetting): void {
+  localStorage.setItem(STORAGE_KEY, setting)
+}
+
+// ── Auto mode ───────────────────────────────────────────────────────────────
+
+// Averaged frame time above this (under ~45 fps) steps quality down…
+const SLOW_FRAME_MS = 1000 / 45
+// …and below this (a steady ~58 fps or better) steps it back up
+const FAST_FRAME_MS = 1000 / 58
+// Seconds at a level before changing again. A vsynced frame looks the same with
+// or without headroom, so an upgrade is a guess: its wait doubles every time
+// quality has to drop, which stops auto mode flapping between two levels
+const SETTLE_DOWN = 2
+const SETTLE_UP = 8
+const MAX_SETTLE_UP = 120
+// Frames longer than this are a stall (tab switch, GC) rather than the steady cost of drawing
+const STALL_MS = 250
+const SMOOTHING = 0.05
+
+export interface AutoQuality {
+  level: QualityLevel
+  avgFrameMs: number
+  sinceChange: number  // seconds at the current level
+  upgradeWait: number  // seconds at a level before trying the next one up
+}
+
+export function createAutoQuality(): AutoQuality {
+  return { level: 'high', avgFrameMs: 1000 / 60, sinceChange: 0, upgradeWait: SETTLE_UP }
+}
+
+/** Feed one frame's duration and get the level auto mode wants now. */
+export function trackFrameTime(auto: AutoQuality, frameMs: number): QualityLevel {
+  if (frameMs <= 0 || frameMs > STALL_MS) return auto.level
+  auto.avgFrameMs += (frameMs - auto.avgFrameMs) * SMOOTHING
+  auto.sinceChange += frameMs / 1000
+
+  const index = QUALITY_LEVELS.indexOf(auto.level)
+  if (auto.avgFrameMs > SLOW_FRAME_MS && index > 0 && auto.sinceChange >= SETTLE_DOWN) {
+    auto.level = QUALITY_LEVELS[index - 1]
+    auto.sinceChange = 0
+    auto.upgradeWait = Math.min(auto.upgradeWait * 2, MAX_SETTLE_UP)
+  } else if (auto.avgFrameMs < FAST_FRAME_MS && index < QUALITY_LEVELS.length - 1 && auto.sinceChange >= auto.upgradeWait) {
+    auto.level = QUALITY_LEVELS[index + 1]
+    auto.sinceChange = 0
+  }
+  return auto.level
+}
@@ -1,14 +1,98 @@
 import { englishVocabTopic } from './topics/english-vocab'
+import { mathBasicsTopic } from './topics/math-basics'
+import { rng } from './seeded-rng'
+import { LearningRecord, pickWeighted } from './learning'
 
-export interface Question {
+// ── Question kinds ────────────────────────────────────────────────────────────
+// Every kind shares id/grade/difficulty so getQuestion() can pool them together.
+// `kind` is optional on the original 4-option format so existing topic files and
+// imported packs keep working unchanged.
+
+interface QuestionBase {
   id: string
+  grade: 3 | 4 | 5 | 6
+  difficulty: 1 | 2 | 3
+}
+
+/** English word → pick the Hebrew translation from A/B/C/D. */
+export interface ChoiceQuestion extends QuestionBase {
+  kind?: 'choice'
   englishWord: string
   emoji: string
   hebrewHint: string           // Hebrew translation of the English word
   options: [string, string, string, string]  // A/B/C/D — all in Hebrew
   correctIndex: 0 | 1 | 2 | 3
-  grade: 3 | 4 | 5 | 6
-  difficulty: 1 | 2 | 3
+}
+
+/** A statement the student marks true (T) or false (F). */
+export interface TrueFalseQuestion extends QuestionBase {
+  kind: 'true-false'
+  statement: string            // shown as the prompt, e.g. "cat = חתול"
+  emoji: string
+  answer: boolean
+}
+
+/** Hebrew hint → type the English word on the keyboard. */
+export interface SpellingQuestion extends QuestionBase {
+  kind: 'spelling'
+  hebrewHint: string
+  emoji: string
+  answer: string               // compared case-insensitively, surrounding spaces ignored
+}
+
+/** Arithmetic or word problem → type the number. */
+export interface NumberQuestion extends QuestionBase {
+  kind: 'number'
+  prompt: string               // e.g. "7 × 8"
+  answer: number
+}
+
+/** English word → pick the matching emoji from A/B/C/D. */
+export interface EmojiMatchQuestion extends QuestionBase {
+  kind: 'emoji-match'
+  englishWord: string
+  options: [string, string, string, string]  // four emoji
+  correctIndex: 0 | 1 | 2 | 3
+}
+
+export type Question =
+  | ChoiceQuestion
+  | TrueFalseQuestion
+  | SpellingQuestion
+  | NumberQuestion
+  | EmojiMatchQuestion
+
+export type QuestionKind = NonNullable<Question['kind']>
+
+/** What the student submitted: an option index, true/false, or typed text. */
+export type QuizAnswer = number | boolean | string
+
+/** Longest typed answer accepted for spelling / number questions. */
+export const MAX_TYPED_ANSWER = 16
+
+export function questionKind(question: Question): QuestionKind {
+  return question.kind ?? 'choice'
+}
+
+/** Kinds answered by typing on the keyboard rather than a single key press. */
+export function isTypedQuestion(question: Question): question is SpellingQuestion | NumberQuestion {
+  return question.kind === 'spelling' || question.kind === 'number'
+}
+
+/** Grade an answer against any question kind. Answers of the wrong type are simply wrong. */
+export function isCorrectAnswer(question: Question, answer: QuizAnswer): boolean {
+  switch (question.kind) {
+    case 'true-false':
+      return answer === question.answer
+    case 'spelling':
+      return typeof answer === 'string' && answer.trim().toLowerCase() === question.answer.trim().toLowerCase()
+    case 'number': {
+      if (typeof answer !== 'string' || answer.trim() === '') return false
+      return Math.abs(Number(answer) - question.answer) < 1e-9
+    }
+    default:
+      return answer === question.correctIndex
+  }
 }
 
 export interface QuestionTopic {
@@ -18,19 +102,60 @@ export interface QuestionTopic {
 }
 
 // Registry — add new topic files here to extend the system
-export const TOPICS: QuestionTopic[] = [englishVocabTopic]
+export const TOPICS: QuestionTopic[] = [englishVocabTopic, mathBasicsTopic]
+
+// Teacher-imported packs (see topic-packs.ts), registered at startup
+let customTopics: QuestionTopic[] = []
+
+export function setCustomTopics(topics: QuestionTopic[]): void {
+  customTopics = topics
+}
+
+/** Built-in topics followed by imported packs — what the topic dropdown lists. */
+export function getTopics(): QuestionTopic[] {
+  return [...TOPICS, ...customTopics]
+}
+
+/** Look up a question and its topic by id across built-in and imported topics. */
+export function findQuestion(questionId: string): { topic: QuestionTopic; question: Question } | null {
+  for (const topic of getTopics()) {
+    const question = topic.questions.find(q => q.id === questionId)
+    if (question) return { topic, question }
+  }
+  return null
+}
+
+/** Short human-readable name for a question — the word or prompt a teacher would recognise. */
+export function questionLabel(question: Question): string {
+  switch (question.kind) {
+    case 'true-false':
+      return question.statement
+    case 'spelling':
+      return question.answer
+    case 'number':
+      return question.prompt
+    default:
+      return question.englishWord
+  }
+}
 
 /**
  * Pick a random question appropriate for the given grade and wave.
  * - grade clamped to 3–6 (grades 1–2 never call this)
  * - difficulty: wave ≤ 4 → 1, wave ≤ 8 → 2, wave 9+ → 3
- * - uses Math.random() (intentionally not seeded — questions are independent of Daily seed)
+ * - with a learning record, missed and stale questions are favoured (see learning.ts)
+ * - uses the run's seeded rng() so replays draw the same questions
  */
-export function getQuestion(grade: number, waveNumber: number, topicId = 'english-vocab'): Question {
+export function getQuestion(
+  grade: number,
+  waveNumber: number,
+  topicId = 'english-vocab',
+  learning: LearningRecord | null = null,
+): Question {
   const clampedGrade = Math.max(3, Math.min(6, grade)) as 3 | 4 | 5 | 6
   const difficulty: 1 | 2 | 3 = waveNumber <= 4 ? 1 : waveNumber <= 8 ? 2 : 3
 
-  const topic = TOPICS.find(t => t.id === topicId) ?? TOPICS[0]
+  const topic = getTopics().find(t => t.id === topicId) ?? TOPICS[0]
   const pool = topic.questions.filter(
     q => q.grade === clampedGrade && q.difficulty === difficulty
   )
@@ -45,5 +170,6 @@ export function getQuestion(grade: number, waveNumber: number, topicId = 'englis
           ? topic.questions.filter(q => q.difficulty === difficulty)
           : topic.questions
 
-  return fallback[Math.floor(Math.random() * fallback.length)]
+  if (learning) return pickWeighted(fallback, learning, rng)
+  return fallback[Math.floor(rng() * fallback.length)]
 }
@@ -1,7 +1,7 @@
 import { Player } from './player'
-import { Enemy, EnemyType } from './enemy'
+import { Enemy, EnemyType, getTopDamageSource } from './enemy'
 import { Camera } from './camera'
-import { ParticleSystem, drawParticles } from './particles'
+import { drawParticles } from './particles'
 import { LevelTheme, Obstacle, Hazard } from './levels'
 import { fromAngle } from './vec2'
 import * as S from './settings'
@@ -9,275 +9,358 @@ import { Mutator, computeCombinedModifiers } from './mutators'
 import { ContractState, ConsumableType, getContractProgressText, getDifficultyColor } from './contracts'
 import { WaveAffix } from './affixes'
 import { Question } from './questions'
+import { ACTION_COLORS, DEFAULT_KEYMAP, KeyMap, keyLabel } from './keymap'
+import { BossZone, getBossDef, zoneWarmup } from './bosses'
+import type { StatusEffects } from './status'
+import { AchievementToast, ACHIEVEMENT_TOAST_DURATION, getAchievement } from './achievements'
 
-// Inline shape to avoid circular dependency with engine.ts
-interface LetterFlash {
-  letter: string
-  x: number
-  y: number
-  age: number
-  color: string
-}
+type QuizResult = 'pending' | 'correct' | 'wrong-first' | 'wrong-final'
 import { WaveEvent } from './waves'
 import { AssetCache } from './assetLoader'
 import { getAnimFrame } from './spriteAnimator'
+import { getQualityLevel, getQualityPreset } from './quality'
+import { DailyEntry, LetterFlash, ReplayView, Scene, SceneFrame, SceneView, createScene, renderScene } from './scene'
+import { Viewport } from './viewport'
+
+export interface RenderOptions {
+  keymap?: KeyMap                  // bound keys, for the on-screen key hints
+  assets?: AssetCache | null
+  dailyLeaderboard?: DailyEntry[]
+  difficultyLabel?: string
+  replay?: ReplayView              // undefined = live run
+  scene?: Scene                    // defaults to gameScene
+  viewport?: Viewport              // defaults to the canvas size, unscaled
+}
 
-/** Leaderboard entry passed from the daily challenge system */
-export interface DailyEntry {
-  rank: number
-  player_name: string
-  score: number
-  wave_reached: number
-  is_you: boolean
+/**
+ * Draw one frame of the game through the scene's layers. Leaves the context
+ * scaled to the viewport's logical units for anything drawn on top.
+ */
+export function render(ctx: CanvasRenderingContext2D, view: SceneView, options: RenderOptions = {}): void {
+  const viewport = options.viewport
+  ctx.setTransform(viewport?.pixelScale ?? 1, 0, 0, viewport?.pixelScale ?? 1, 0, 0)
+  renderScene(ctx, options.scene ?? gameScene, {
+    view,
+    w: viewport?.w ?? ctx.canvas.width,
+    h: viewport?.h ?? ctx.canvas.height,
+    originX: viewport?.originX ?? 0,
+    originY: viewport?.originY ?? 0,
+    now: Date.now(),
+    keymap: options.keymap ?? DEFAULT_KEYMAP,
+    assets: options.assets ?? null,
+    dailyLeaderboard: options.dailyLeaderboard ?? [],
+    difficultyLabel: options.difficultyLabel ?? '',
+    replay: options.replay,
+  })
 }
 
-export function render(
-  ctx: CanvasRenderingContext2D,
-  player: Player,
-  enemies: Enemy[],
-  camera: Camera,
-  particles: ParticleSystem,
-  wave: number,
-  waveTimer: number,
-  gameOver: boolean,
-  score: number,
-  highScore: number,
-  levelTheme: LevelTheme,
-  obstacles: Obstacle[],
-  hazards: Hazard[],
-  level: number,
-  levelUpTimer: number,
-  levelUpName: string,
-  // Mutator system
-  mutatorSelectionActive: boolean,
-  mutatorChoices: Mutator[],
-  activeMutators: Mutator[],
-  // Contract system
-  contractState: ContractState,
-  // Affix system
-  currentAffix: WaveAffix | null,
-  // Last Stand system
-  lastStandActive: boolean,
-  lastStandTimer: number,
-  lastStandUsed: boolean,
-  // Death recap
-  damageByEnemyType: Record<EnemyType, number>,
-  // Daily Challenge
-  isDailyChallenge?: boolean,
-  dailyLeaderboard?: DailyEntry[],
-  // Mutator feedback overlay
-  mutatorFeedback?: { name: string; description: string; color: string; timer: number } | null,
-  // Damage feedback
-  damageFlashTimer?: number,
-  damageDir?: { x: number; y: number },
-  // Slash trails
-  slashTrails?: Array<{ pos: { x: number; y: number }; facing: number; attackType: string; age: number; maxAge: number }>,
-  // Mutator ceremony
-  mutatorSelectionTimer?: number,
-  mutatorPeekActive?: boolean,
-  playerRarityGlowTimer?: number,
-  playerRarityGlowColor?: string,
-  // Consumables
-  consumables?: ConsumableType[],
-  consumableActive?: { type: ConsumableType; timer: number } | null,
-  // Wave events
-  pendingWaveEvent?: WaveEvent | null,
-  activeWaveEvent?: WaveEvent | null,
-  surgeZone?: { x: number; y: number; radius: number } | null,
-  assets?: AssetCache | null,
-  damageNumbers?: Array<{ value: number; pos: { x: number; y: number }; vel: { x: number; y: number }; age: number; lifetime: number; color: string }>,
-  // Educational layer
-  quizEnabled?: boolean,
-  selectedGrade?: number,
-  hebrewLayoutActive?: boolean,
-  keyboardPanelTimer?: number,
-  letterFlashes?: LetterFlash[],
-  questionPhase?: boolean,
-  currentQuestion?: Question | null,
-  questionResult?: 'pending' | 'correct' | 'wrong-first' | 'wrong-final',
-  questionRetryAvailable?: boolean,
-  questionFeedbackTimer?: number,
-  pendingMutatorIndex?: number,
-  // Difficulty badge
-  difficultyLabel?: string,
-  // Pause menu
-  paused?: boolean,
-  pauseMenuSelection?: number,
-  // Run stats (shown on game over screen)
-  totalKills?: number,
-  totalDamageDealt?: number,
-  contractsCompleted?: number,
-  mutatorsCount?: number,
-): void {
-  const w = ctx.canvas.width
-  const h = ctx.canvas.height
-  const now = Date.now()
+// ─── Scene Layers ────────────────────────────────────────────────────────────
+
+/** The game's layer stack, bottom to top. */
+export function createGameScene(): Scene {
+  return createScene([
+    { id: 'floor', space: 'world', enabled: true, draw: drawFloorLayer },
+    { id: 'hazards', space: 'world', enabled: true, draw: drawHazardLayer },
+    { id: 'entities', space: 'world', enabled: true, draw: drawEntityLayer },
+    { id: 'effects', space: 'world', enabled: true, draw: drawEffectLayer },
+    { id: 'feedback', space: 'screen', enabled: true, draw: drawFeedbackLayer },
+    { id: 'layoutGuide', space: 'screen', enabled: true, draw: drawLayoutGuideLayer },
+    { id: 'pause', space: 'screen', enabled: true, draw: drawPauseLayer },
+    { id: 'hud', space: 'screen', enabled: true, draw: drawHudLayer },
+    { id: 'choices', space: 'screen', enabled: true, draw: drawChoiceLayer },
+    { id: 'announcements', space: 'screen', enabled: true, draw: drawAnnouncementLayer },
+    { id: 'replayBadge', space: 'screen', enabled: true, draw: drawReplayBadgeLayer },
+    { id: 'gameOver', space: 'screen', enabled: true, draw: drawGameOverLayer },
+  ])
+}
 
-  ctx.save()
-  ctx.translate(camera.offsetX, camera.offsetY)
+/** The scene render() draws by default — add, toggle or reorder layers here. */
+export const gameScene = createGameScene()
 
-  // Background
-  ctx.fillStyle = levelTheme.bgColor
-  ctx.fillRect(-10, -10, w + 20, h + 20)
+function drawFloorLayer(ctx: CanvasRenderingContext2D, { view, w, h, originX, originY, now }: SceneFrame): void {
+  // Background, over the whole viewport (with room for camera shake)
+  ctx.fillStyle = view.levelTheme.bgColor
+  ctx.fillRect(-originX - 10, -originY - 10, w + 20, h + 20)
 
   // Arena floor (themed)
-  drawArena(ctx, levelTheme, now)
+  drawArena(ctx, view.levelTheme, now)
 
   // Obstacles
-  drawObstacles(ctx, obstacles, levelTheme, now)
+  drawObstacles(ctx, view.obstacles, view.levelTheme, now)
+}
+
+/** Floor-level dangers and zones, below particles and entities. */
+function drawHazardLayer(ctx: CanvasRenderingContext2D, { view, now }: SceneFrame): void {
+  if (view.hazards.length > 0) drawHazards(ctx, view.hazards, now)
 
-  // Hazards (drawn on floor, below particles and entities)
-  if (hazards.length > 0) drawHazards(ctx, hazards, now)
+  // Boss ground attacks (floor level, like hazards)
+  if (view.bossZones.length > 0) drawBossZones(ctx, view.bossZones, now)
 
-  // Surge zone (drawn on floor, player-benefit zone)
-  if (surgeZone) drawSurgeZone(ctx, surgeZone, now)
+  // Surge zone (player-benefit zone)
+  if (view.surgeZone) drawSurgeZone(ctx, view.surgeZone, now)
+}
+
+function drawEntityLayer(ctx: CanvasRenderingContext2D, { view, assets }: SceneFrame): void {
+  const { player } = view
 
   // Ambient particles
-  drawParticles(ctx, particles)
+  drawParticles(ctx, view.particles)
 
   // Enemies
-  for (const enemy of enemies) {
+  for (const enemy of view.enemies) {
     if (enemy.isAlive) drawEnemy(ctx, enemy)
   }
 
   // Slash trails (drawn before player so player renders on top)
-  if (slashTrails && slashTrails.length > 0) {
-    drawSlashTrails(ctx, slashTrails, player)
+  if (view.slashTrails.length > 0) {
+    drawSlashTrails(ctx, view.slashTrails, player)
   }
 
   // Player
-  if (player.isAlive) drawPlayer(ctx, player, playerRarityGlowTimer ?? 0, playerRarityGlowColor ?? '#7b2fff', assets ?? null)
+  if (player.isAlive) drawPlayer(ctx, player, view.playerRarityGlowTimer, view.playerRarityGlowColor, assets)
+}
 
+/** World-space effects over the entities. */
+function drawEffectLayer(ctx: CanvasRenderingContext2D, { view, w, h, originX, originY }: SceneFrame): void {
   // Blackout event: near-black overlay with radial vision cutouts
-  if (activeWaveEvent?.effectType === 'blackout') {
-    drawBlackout(ctx, player, enemies, w, h)
+  if (view.activeWaveEvent?.effectType === 'blackout') {
+    drawBlackout(ctx, view.player, view.enemies, -originX - 10, -originY - 10, w + 20, h + 20)
   }
 
-  // Floating damage numbers (world space, inside camera transform)
-  if (damageNumbers && damageNumbers.length > 0) {
-    drawDamageNumbers(ctx, damageNumbers)
+  // Floating damage numbers
+  if (view.damageNumbers.length > 0) {
+    drawDamageNumbers(ctx, view.damageNumbers)
   }
 
-  // Letter flashes (world space, inside camera transform — Classroom Mode only)
-  if (quizEnabled && letterFlashes && letterFlashes.length > 0) {
-    drawLetterFlashes(ctx, letterFlashes)
+  // Letter flashes (Classroom Mode only)
+  if (view.quizEnabled && view.letterFlashes.length > 0) {
+    drawLetterFlashes(ctx, view.letterFlashes)
   }
+}
 
-  // Restore camera transform for HUD
-  ctx.restore()
+/** Screen-space feedback drawn under the HUD. */
+function drawFeedbackLayer(ctx: CanvasRenderingContext2D, { view, w, h, originX, originY }: SceneFrame): void {
+  // World positions land on screen at camera offset + viewport origin
+  const camera = { ...view.camera, offsetX: view.camera.offsetX + originX, offsetY: view.camera.offsetY + originY }
 
-  // Off-screen enemy indicators (screen-space, before HUD)
-  if (enemies.length > 0) {
-    drawOffScreenIndicators(ctx, enemies, camera, w, h)
+  // Off-screen enemy indicators
+  if (view.enemies.length > 0) {
+    drawOffScreenIndicators(ctx, view.enemies, camera, w, h)
   }
 
-  // Boss health bar (screen-space, top-center)
-  drawBossHealthBar(ctx, enemies, w, h)
+  // Boss health bar (top-center)
+  drawBossHealthBar(ctx, view.enemies, w, h)
 
   // Damage feedback (red vignette + directional blur)
-  if (damageFlashTimer && damageFlashTimer > 0) {
-    drawDamageFeedback(ctx, damageFlashTimer, damageDir ?? { x: 0, y: 0 }, w, h)
+  if (view.damageFlashTimer > 0) {
+    drawDamageFeedback(ctx, view.damageFlashTimer, view.damageDir, w, h)
   }
 
   // Last Stand screen effect
-  if (lastStandActive) {
-    drawLastStandEffect(ctx, lastStandTimer, w, h)
+  if (view.lastStandActive) {
+    drawLastStandEffect(ctx, view.lastStandTimer, w, h)
+  } else if (view.perfectDodgeTimer > 0) {
+    drawPerfectDodgeEffect(ctx, view.perfectDodgeTimer, view.player, camera, w, h)
   }
 
   // Consumable active effect (screen overlay)
-  if (consumableActive) {
-    drawConsumableEffect(ctx, consumableActive, w, h)
+  if (view.consumableActive) {
+    drawConsumableEffect(ctx, view.consumableActive, w, h)
   }
+}
 
-  // Hebrew layout guide — full-screen blocking overlay (Classroom Mode only)
-  if (quizEnabled && hebrewLayoutActive) {
-    drawHebrewLayoutGuide(ctx, w, h)
-    return
-  }
+/** Hebrew layout guide — full-screen blocking overlay (Classroom Mode only). */
+function drawLayoutGuideLayer(ctx: CanvasRenderingContext2D, { view, w, h }: SceneFrame): boolean {
+  if (!view.quizEnabled || !view.hebrewLayoutActive) return false
+  drawHebrewLayoutGuide(ctx, w, h)
+  return true
+}
 
-  // Pause menu — full-screen blocking overlay
-  if (paused) {
-    drawPauseMenu(ctx, pauseMenuSelection ?? 0, score, w, h)
-    return
-  }
+/** Pause menu — full-screen blocking overlay. */
+function drawPauseLayer(ctx: CanvasRenderingContext2D, { view, w, h, keymap }: SceneFrame): boolean {
+  if (!view.paused) return false
+  drawPauseMenu(ctx, view.pauseMenuSelection, view.score, w, h, keymap)
+  return true
+}
 
-  // HUD
-  drawHUD(ctx, player, wave, score, highScore, level, levelTheme, w, h, lastStandUsed, isDailyChallenge, difficultyLabel)
+function drawHudLayer(ctx: CanvasRenderingContext2D, { view, w, h, keymap, difficultyLabel }: SceneFrame): void {
+  drawHUD(ctx, view.player, view.wave, view.score, view.highScore, view.level, view.levelTheme, w, h, view.lastStandUsed, keymap, view.isDailyChallenge, difficultyLabel)
 
   // Active mutators HUD
-  if (activeMutators.length > 0) {
-    drawActiveMutators(ctx, activeMutators, w, h)
+  if (view.activeMutators.length > 0) {
+    drawActiveMutators(ctx, view.activeMutators, w, h)
   }
 
   // Consumable HUD
-  if (consumables && (consumables.length > 0 || consumableActive)) {
-    drawConsumableHUD(ctx, consumables, consumableActive ?? null, w, h)
+  if (view.consumables.length > 0 || view.consumableActive) {
+    drawConsumableHUD(ctx, view.consumables, view.consumableActive, w, h, keymap)
   }
 
   // Contract banner (top-center)
-  if (contractState.contract) {
-    drawContractBanner(ctx, contractState, w)
+  if (view.contractState.contract) {
+    drawContractBanner(ctx, view.contractState, w)
   }
 
   // Keyboard teaching panel (Grade 1–4)
-  const grade = selectedGrade ?? 1
-  if (quizEnabled && S.KEYBOARD_PANEL_GRADES.includes(grade)) {
-    drawKeyboardPanel(ctx, grade, wave, keyboardPanelTimer ?? 0, w, h)
+  if (view.quizEnabled && S.KEYBOARD_PANEL_GRADES.includes(view.selectedGrade)) {
+    drawKeyboardPanel(ctx, view.selectedGrade, view.wave, view.keyboardPanelTimer, keymap, w, h)
   }
+}
 
+/** Between-wave choices the engine waits on — each covers the screen. */
+function drawChoiceLayer(ctx: CanvasRenderingContext2D, { view, w, h, keymap }: SceneFrame): boolean {
   // Mutator selection screen (must be resolved before wave event is shown,
   // because the engine blocks on mutator input — Y/N won't fire until after)
-  if (mutatorSelectionActive && mutatorChoices.length > 0) {
-    drawMutatorSelection(ctx, mutatorChoices, activeMutators, mutatorSelectionTimer ?? 0, mutatorPeekActive ?? false, w, h)
-    return
+  if (view.mutatorSelectionActive && view.mutatorChoices.length > 0) {
+    drawMutatorSelection(ctx, view.mutatorChoices, view.activeMutators, view.mutatorSelectionTimer, view.mutatorPeekActive, keymap, w, h)
+    return true
   }
 
   // Vocabulary quiz — shown after mutator selection for Grade 3+ (Classroom Mode only)
-  if (quizEnabled && questionPhase && currentQuestion && S.QUIZ_GRADES.includes(grade)) {
-    const chosenMutator = mutatorChoices[pendingMutatorIndex ?? 0] ?? null
-    drawQuestionChallenge(ctx, currentQuestion, questionResult ?? 'pending', questionFeedbackTimer ?? 0, chosenMutator, w, h)
-    return
+  if (view.quizEnabled && view.questionPhase && view.currentQuestion && S.QUIZ_GRADES.includes(view.selectedGrade)) {
+    const chosenMutator = view.mutatorChoices[view.pendingMutatorIndex] ?? null
+    drawQuestionChallenge(ctx, view.currentQuestion, view.questionResult, view.questionFeedbackTimer, view.questionTyped, chosenMutator, w, h)
+    return true
   }
 
   // Wave event offer (shown after mutator selection is complete)
-  if (pendingWaveEvent) {
-    drawWaveEventOffer(ctx, pendingWaveEvent, w, h)
-    return
+  if (view.pendingWaveEvent) {
+    drawWaveEventOffer(ctx, view.pendingWaveEvent, w, h)
+    return true
   }
+  return false
+}
 
+function drawAnnouncementLayer(ctx: CanvasRenderingContext2D, { view, w, h }: SceneFrame): void {
   // Wave announcement
-  if (waveTimer > 0) {
-    drawWaveAnnouncement(ctx, wave, waveTimer, levelTheme, currentAffix, w, h)
+  if (view.waveActive && view.waveTimer > 0) {
+    drawWaveAnnouncement(ctx, view.wave, view.waveTimer, view.levelTheme, view.currentAffix, w, h)
   }
 
   // Active wave affix HUD indicator
-  if (currentAffix) {
-    drawCurrentAffix(ctx, currentAffix, activeMutators.length, w, h)
+  if (view.currentAffix) {
+    drawCurrentAffix(ctx, view.currentAffix, view.activeMutators.length, w, h)
   }
 
   // Level-up announcement
-  if (levelUpTimer > 0) {
-    drawLevelAnnouncement(ctx, level, levelUpName, levelUpTimer, levelTheme, w, h)
+  if (view.levelUpTimer > 0) {
+    drawLevelAnnouncement(ctx, view.level, view.levelUpName, view.levelUpTimer, view.levelTheme, w, h)
   }
 
   // Mutator feedback overlay (fades in over gameplay after picking)
-  if (mutatorFeedback && mutatorFeedback.timer > 0) {
-    drawMutatorFeedback(ctx, mutatorFeedback, w, h)
+  if (view.mutatorFeedback && view.mutatorFeedback.timer > 0) {
+    drawMutatorFeedback(ctx, view.mutatorFeedback, w, h)
   }
 
-  // Game Over
-  if (gameOver) {
-    drawGameOver(ctx, score, highScore, level, damageByEnemyType, w, h, isDailyChallenge, dailyLeaderboard, totalKills ?? 0, totalDamageDealt ?? 0, contractsCompleted ?? 0, mutatorsCount ?? 0)
+  // Achievement toasts (over play, never pausing it)
+  if (view.achievementToasts.length > 0) {
+    drawAchievementToasts(ctx, view.achievementToasts, w)
   }
 }
 
+function drawReplayBadgeLayer(ctx: CanvasRenderingContext2D, { replay, w, h }: SceneFrame): void {
+  if (replay) drawReplayBadge(ctx, replay, w, h)
+}
+
+function drawGameOverLayer(ctx: CanvasRenderingContext2D, { view, w, h, dailyLeaderboard, replay }: SceneFrame): void {
+  if (!view.gameOver) return
+  drawGameOver(ctx, view.score, view.highScore, view.level, view.damageByEnemyType, w, h, view.isDailyChallenge, dailyLeaderboard, view.totalKills, view.totalDamageDealt, view.contractsCompleted, view.activeMutators.length, view.perfectDodges, view.runTime, replay !== undefined)
+}
+
 // ─── Arena Drawing ───────────────────────────────────────────────────────────
 
+/** An offscreen bitmap of part of the world, repainted only when its key changes */
+interface LayerCache {
+  key: string
+  canvas: HTMLCanvasElement | null
+}
+
+// The static parts of the arena — vignette, floor, grid, border — and of the obstacles
+const floorCache: LayerCache = { key: '', canvas: null }
+const obstacleCache: LayerCache = { key: '', canvas: null }
+
+/**
+ * Blit the square at (x, y) with side `size` from `cache`, running `paint`
+ * first if `key` is new. The bitmap matches the context's pixel scale so it
+ * stays sharp on high-DPI screens.
+ */
+function drawCachedLayer(
+  ctx: CanvasRenderingContext2D,
+  cache: LayerCache,
+  key: string,
+  x: number,
+  y: number,
+  size: number,
+  paint: (layer: CanvasRenderingContext2D) => void,
+): void {
+  const pixelScale = ctx.getTransform().a
+  key += `|${pixelScale}`
+  if (cache.key !== key || !cache.canvas) {
+    const canvas = cache.canvas ?? document.createElement('canvas')
+    // Assigning the size also clears the canvas and resets its context
+    canvas.width = canvas.height = Math.ceil(size * pixelScale)
+    const layer = canvas.getContext('2d')
+    if (!layer) {
+      paint(ctx)
+      return
+    }
+    layer.scale(pixelScale, pixelScale)
+    layer.translate(-x, -y)
+    paint(layer)
+    cache.canvas = canvas
+    cache.key = key
+  }
+  ctx.drawImage(cache.canvas, x, y, size, size)
+}
+
 function drawArena(ctx: CanvasRenderingContext2D, theme: LevelTheme, now: number): void {
   const cx = S.ARENA_CENTER_X
   const cy = S.ARENA_CENTER_Y
   const r = theme.arenaRadius
+  const quality = getQualityPreset()
+
+  const reach = r + 24
+  drawCachedLayer(ctx, floorCache, `${theme.name}|${r}`, cx - reach, cy - reach, reach * 2, layer => drawArenaBase(layer, theme, cx, cy, r))
+
+  // Animated floor details, clipped to the arena circle
+  if (quality.floorMotion) {
+    ctx.save()
+    ctx.beginPath()
+    ctx.arc(cx, cy, r, 0, Math.PI * 2)
+    ctx.clip()
+
+    switch (theme.themeKey) {
+      case 'inferno':
+        drawInfernoMotion(ctx, cx, cy, now)
+        break
+      case 'cryo':
+        drawCryoMotion(ctx, cx, cy, r, now)
+        break
+      case 'storm':
+        drawStormMotion(ctx, cx, cy, r, now)
+        break
+      case 'abyss':
+        drawAbyssMotion(ctx, theme, cx, cy, r, now)
+        break
+      case 'apocalypse':
+        drawApocalypseMotion(ctx, cx, cy, r, now)
+        break
+    }
 
+    ctx.restore()
+  }
+
+  // Pulsing border glow
+  const pulse = Math.sin(now * 0.002) * 0.3 + 0.5
+  ctx.strokeStyle = theme.glowColor + Math.round(pulse * 80).toString(16).padStart(2, '0')
+  ctx.lineWidth = 4
+  ctx.beginPath()
+  ctx.arc(cx, cy, r + 2, 0, Math.PI * 2)
+  ctx.stroke()
+}
+
+/** Everything about the arena that doesn't move: painted once per level into the floor layer. */
+function drawArenaBase(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: number, cy: number, r: number): void {
   // Outer vignette glow
   const gradient = ctx.createRadialGradient(cx, cy, r - 60, cx, cy, r + 20)
   gradient.addColorStop(0, 'transparent')
@@ -305,19 +388,18 @@ function drawArena(ctx: CanvasRenderingContext2D, theme: LevelTheme, now: number
       drawVoidFloor(ctx, theme, cx, cy, r)
       break
     case 'inferno':
-      drawInfernoFloor(ctx, theme, cx, cy, r, now)
+      drawInfernoFloor(ctx, theme, cx, cy, r)
       break
     case 'cryo':
-      drawCryoFloor(ctx, theme, cx, cy, r, now)
+      drawCryoFloor(ctx, theme, cx, cy, r)
       break
     case 'storm':
-      drawStormFloor(ctx, theme, cx, cy, r, now)
+      drawStormFloor(ctx, theme, cx, cy, r)
       break
     case 'abyss':
-      drawAbyssFloor(ctx, theme, cx, cy, r, now)
-      break
+      break   // the spiral turns, so all of it is motion
     case 'apocalypse':
-      drawApocalypseFloor(ctx, theme, cx, cy, r, now)
+      drawApocalypseFloor(ctx, theme, cx, cy, r)
       break
   }
 
@@ -329,14 +411,6 @@ function drawArena(ctx: CanvasRenderingContext2D, theme: LevelTheme, now: number
   ctx.beginPath()
   ctx.arc(cx, cy, r, 0, Math.PI * 2)
   ctx.stroke()
-
-  // Pulsing border glow
-  const pulse = Math.sin(now * 0.002) * 0.3 + 0.5
-  ctx.strokeStyle = theme.glowColor + Math.round(pulse * 80).toString(16).padStart(2, '0')
-  ctx.lineWidth = 4
-  ctx.beginPath()
-  ctx.arc(cx, cy, r + 2, 0, Math.PI * 2)
-  ctx.stroke()
 }
 
 function drawVoidFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: number, cy: number, r: number): void {
@@ -366,7 +440,7 @@ function drawVoidFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: num
   }
 }
 
-function drawInfernoFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: number, cy: number, r: number, now: number): void {
+function drawInfernoFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: number, cy: number, r: number): void {
   // Diagonal crack lines
   ctx.strokeStyle = theme.gridColor
   ctx.lineWidth = 1
@@ -376,6 +450,9 @@ function drawInfernoFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx:
     ctx.lineTo(cx - r + i + r * 0.6, cy + r)
     ctx.stroke()
   }
+}
+
+function drawInfernoMotion(ctx: CanvasRenderingContext2D, cx: number, cy: number, now: number): void {
   // Lava pools (pulsing orange circles)
   const lavaPositions = [
     [cx - 90, cy - 70], [cx + 110, cy + 50], [cx - 50, cy + 100],
@@ -393,7 +470,7 @@ function drawInfernoFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx:
   }
 }
 
-function drawCryoFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: number, cy: number, r: number, now: number): void {
+function drawCryoFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: number, cy: number, r: number): void {
   // Hex grid
   ctx.strokeStyle = theme.gridColor
   ctx.lineWidth = 1
@@ -407,6 +484,9 @@ function drawCryoFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: num
       drawHex(ctx, hx, hy, hex * 0.85)
     }
   }
+}
+
+function drawCryoMotion(ctx: CanvasRenderingContext2D, cx: number, cy: number, r: number, now: number): void {
   // Ice sparkles
   for (let i = 0; i < 12; i++) {
     const angle = (i / 12) * Math.PI * 2 + now * 0.0005
@@ -442,7 +522,7 @@ function drawIceCrystal(ctx: CanvasRenderingContext2D, x: number, y: number, siz
   }
 }
 
-function drawStormFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: number, cy: number, r: number, now: number): void {
+function drawStormFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: number, cy: number, r: number): void {
   // Radial lines from center
   ctx.strokeStyle = theme.gridColor
   ctx.lineWidth = 1
@@ -459,6 +539,9 @@ function drawStormFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: nu
     ctx.arc(cx, cy, r * ring / 4.5, 0, Math.PI * 2)
     ctx.stroke()
   }
+}
+
+function drawStormMotion(ctx: CanvasRenderingContext2D, cx: number, cy: number, r: number, now: number): void {
   // Electric arcs
   const arcCount = 5
   for (let a = 0; a < arcCount; a++) {
@@ -485,7 +568,7 @@ function drawStormFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: nu
   }
 }
 
-function drawAbyssFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: number, cy: number, r: number, now: number): void {
+function drawAbyssMotion(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: number, cy: number, r: number, now: number): void {
   // Spiral arms
   ctx.strokeStyle = theme.gridColor
   ctx.lineWidth = 1
@@ -513,7 +596,7 @@ function drawAbyssFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: nu
   }
 }
 
-function drawApocalypseFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: number, cy: number, r: number, now: number): void {
+function drawApocalypseFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, cx: number, cy: number, r: number): void {
   // Combination: diagonal grid + rings + chaos
   ctx.strokeStyle = theme.gridColor
   ctx.lineWidth = 1
@@ -527,6 +610,9 @@ function drawApocalypseFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, c
     ctx.lineTo(cx + r - i - r, cy + r)
     ctx.stroke()
   }
+}
+
+function drawApocalypseMotion(ctx: CanvasRenderingContext2D, cx: number, cy: number, r: number, now: number): void {
   // Pulsing rings
   for (let ring = 1; ring <= 5; ring++) {
     const ripple = Math.sin(now * 0.004 + ring * 1.2) * 8
@@ -554,84 +640,108 @@ function drawApocalypseFloor(ctx: CanvasRenderingContext2D, theme: LevelTheme, c
 // ─── Obstacles ───────────────────────────────────────────────────────────────
 
 function drawObstacles(ctx: CanvasRenderingContext2D, obstacles: Obstacle[], theme: LevelTheme, now: number): void {
-  for (const obs of obstacles) {
-    const isRubble = obs.state === 'rubble'
-    const isCracked = obs.state === 'cracked'
-    const drawRadius = isRubble ? obs.rubbleRadius : obs.radius
-    const alpha = isRubble ? 0.45 : 1.0
-
-    ctx.globalAlpha = alpha
+  if (obstacles.length === 0) return
 
-    // Glow halo (dimmer when damaged)
-    const haloAlpha = isRubble ? '08' : isCracked ? '12' : '18'
-    const grad = ctx.createRadialGradient(obs.x, obs.y, drawRadius * 0.5, obs.x, obs.y, drawRadius * 1.8)
-    grad.addColorStop(0, theme.glowColor + haloAlpha)
-    grad.addColorStop(1, 'transparent')
-    ctx.fillStyle = grad
-    ctx.beginPath()
-    ctx.arc(obs.x, obs.y, drawRadius * 1.8, 0, Math.PI * 2)
-    ctx.fill()
+  // Pillars only change when one cracks or crumbles (or quality changes the glow)
+  const cx = S.ARENA_CENTER_X
+  const cy = S.ARENA_CENTER_Y
+  const reach = theme.arenaRadius + 24
+  const key = `${theme.name}|${getQualityLevel()}|` + obstacles.map(o => `${o.x},${o.y},${o.state}`).join(';')
+  drawCachedLayer(ctx, obstacleCache, key, cx - reach, cy - reach, reach * 2, layer => {
+    for (const obs of obstacles) drawObstacleBody(layer, obs, theme)
+  })
 
-    // Pillar body
-    ctx.fillStyle = isRubble ? theme.gridColor : theme.floorColor
-    ctx.shadowColor = theme.glowColor
-    ctx.shadowBlur = isRubble ? 4 : isCracked ? 8 : 12
-    ctx.beginPath()
-    ctx.arc(obs.x, obs.y, drawRadius, 0, Math.PI * 2)
-    ctx.fill()
-    ctx.shadowBlur = 0
+  for (const obs of obstacles) {
+    if (obs.state === 'rubble') continue
 
-    // Border
+    // Pulsing border
     const pulse = Math.sin(now * 0.002 + obs.x * 0.01) * 0.3 + 0.5
-    const borderAlpha = isRubble ? 0x44 : Math.round(pulse * 160)
-    ctx.strokeStyle = theme.glowColor + borderAlpha.toString(16).padStart(2, '0')
-    ctx.lineWidth = isRubble ? 1 : 2
+    ctx.strokeStyle = theme.glowColor + Math.round(pulse * 160).toString(16).padStart(2, '0')
+    ctx.lineWidth = 2
     ctx.beginPath()
-    ctx.arc(obs.x, obs.y, drawRadius, 0, Math.PI * 2)
+    ctx.arc(obs.x, obs.y, obs.radius, 0, Math.PI * 2)
     ctx.stroke()
 
-    if (!isRubble) {
-      // Inner symbol ring
-      ctx.strokeStyle = theme.accentColor + (isCracked ? '22' : '44')
-      ctx.lineWidth = 1
-      ctx.beginPath()
-      ctx.arc(obs.x, obs.y, drawRadius * 0.5, 0, Math.PI * 2)
-      ctx.stroke()
+    if (obs.state === 'cracked') {
+      // HP bar below pillar
+      const barW = obs.radius * 2
+      const barX = obs.x - barW / 2
+      const barY = obs.y + obs.radius + 6
+      ctx.fillStyle = '#33333388'
+      ctx.fillRect(barX, barY, barW, 4)
+      ctx.fillStyle = theme.glowColor + 'cc'
+      ctx.fillRect(barX, barY, barW * (obs.hp / obs.maxHp), 4)
+    }
+  }
+}
 
-      if (isCracked) {
-        // Crack lines — 3 radial fractures
-        ctx.strokeStyle = theme.glowColor + '66'
-        ctx.lineWidth = 1.5
-        for (let c = 0; c < 3; c++) {
-          const crackAngle = (c / 3) * Math.PI * 2 + obs.x * 0.05
-          ctx.beginPath()
-          ctx.moveTo(obs.x + Math.cos(crackAngle) * drawRadius * 0.2, obs.y + Math.sin(crackAngle) * drawRadius * 0.2)
-          ctx.lineTo(obs.x + Math.cos(crackAngle) * drawRadius * 0.95, obs.y + Math.sin(crackAngle) * drawRadius * 0.95)
-          ctx.stroke()
-        }
-        // HP bar below pillar
-        const barW = drawRadius * 2
-        const barX = obs.x - barW / 2
-        const barY = obs.y + drawRadius + 6
-        ctx.fillStyle = '#33333388'
-        ctx.fillRect(barX, barY, barW, 4)
-        ctx.fillStyle = theme.glowColor + 'cc'
-        ctx.fillRect(barX, barY, barW * (obs.hp / obs.maxHp), 4)
-      }
-    } else {
-      // Rubble: scattered debris dots
-      ctx.fillStyle = theme.gridColor
-      for (let d = 0; d < 5; d++) {
-        const dAngle = (d / 5) * Math.PI * 2 + obs.x * 0.1
-        const dDist = drawRadius * 1.3
+/** Halo, body, markings and debris of one obstacle — everything but the animated border. */
+function drawObstacleBody(ctx: CanvasRenderingContext2D, obs: Obstacle, theme: LevelTheme): void {
+  const isRubble = obs.state === 'rubble'
+  const isCracked = obs.state === 'cracked'
+  const drawRadius = isRubble ? obs.rubbleRadius : obs.radius
+  const alpha = isRubble ? 0.45 : 1.0
+
+  ctx.globalAlpha = alpha
+
+  // Glow halo (dimmer when damaged)
+  const haloAlpha = isRubble ? '08' : isCracked ? '12' : '18'
+  const grad = ctx.createRadialGradient(obs.x, obs.y, drawRadius * 0.5, obs.x, obs.y, drawRadius * 1.8)
+  grad.addColorStop(0, theme.glowColor + haloAlpha)
+  grad.addColorStop(1, 'transparent')
+  ctx.fillStyle = grad
+  ctx.beginPath()
+  ctx.arc(obs.x, obs.y, drawRadius * 1.8, 0, Math.PI * 2)
+  ctx.fill()
+
+  // Pillar body
+  ctx.fillStyle = isRubble ? theme.gridColor : theme.floorColor
+  ctx.shadowColor = theme.glowColor
+  ctx.shadowBlur = glow(isRubble ? 4 : isCracked ? 8 : 12)
+  ctx.beginPath()
+  ctx.arc(obs.x, obs.y, drawRadius, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.shadowBlur = 0
+
+  if (!isRubble) {
+    // Inner symbol ring
+    ctx.strokeStyle = theme.accentColor + (isCracked ? '22' : '44')
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.arc(obs.x, obs.y, drawRadius * 0.5, 0, Math.PI * 2)
+    ctx.stroke()
+
+    if (isCracked) {
+      // Crack lines — 3 radial fractures
+      ctx.strokeStyle = theme.glowColor + '66'
+      ctx.lineWidth = 1.5
+      for (let c = 0; c < 3; c++) {
+        const crackAngle = (c / 3) * Math.PI * 2 + obs.x * 0.05
         ctx.beginPath()
-        ctx.arc(obs.x + Math.cos(dAngle) * dDist, obs.y + Math.sin(dAngle) * dDist, 2, 0, Math.PI * 2)
-        ctx.fill()
+        ctx.moveTo(obs.x + Math.cos(crackAngle) * drawRadius * 0.2, obs.y + Math.sin(crackAngle) * drawRadius * 0.2)
+        ctx.lineTo(obs.x + Math.cos(crackAngle) * drawRadius * 0.95, obs.y + Math.sin(crackAngle) * drawRadius * 0.95)
+        ctx.stroke()
       }
     }
+  } else {
+    // Rubble: faint border and scattered debris dots
+    ctx.strokeStyle = theme.glowColor + '44'
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.arc(obs.x, obs.y, drawRadius, 0, Math.PI * 2)
+    ctx.stroke()
 
-    ctx.globalAlpha = 1
+    ctx.fillStyle = theme.gridColor
+    for (let d = 0; d < 5; d++) {
+      const dAngle = (d / 5) * Math.PI * 2 + obs.x * 0.1
+      const dDist = drawRadius * 1.3
+      ctx.beginPath()
+      ctx.arc(obs.x + Math.cos(dAngle) * dDist, obs.y + Math.sin(dAngle) * dDist, 2, 0, Math.PI * 2)
+      ctx.fill()
+    }
   }
+
+  ctx.globalAlpha = 1
 }
 
 // ─── Hazards ─────────────────────────────────────────────────────────────────
@@ -769,12 +879,12 @@ function drawSurgeZone(ctx: CanvasRenderingContext2D, zone: { x: number; y: numb
   ctx.globalAlpha = 1
 }
 
-function drawBlackout(ctx: CanvasRenderingContext2D, player: Player, enemies: Enemy[], w: number, h: number): void {
+function drawBlackout(ctx: CanvasRenderingContext2D, player: Player, enemies: Enemy[], x: number, y: number, w: number, h: number): void {
   // Create composite dark overlay with vision cutouts
   ctx.save()
   // First: fill near-black overlay
   ctx.fillStyle = 'rgba(0, 0, 0, 0.88)'
-  ctx.fillRect(0, 0, w, h)
+  ctx.fillRect(x, y, w, h)
 
   // Cutout: player vision (150px radius)
   ctx.globalCompositeOperation = 'destination-out'
@@ -824,13 +934,13 @@ function drawWaveEventOffer(ctx: CanvasRenderingContext2D, event: WaveEvent, w:
   ctx.textAlign = 'center'
   ctx.fillStyle = '#ff8844'
   ctx.shadowColor = '#ff4400'
-  ctx.shadowBlur = 25
+  ctx.shadowBlur = glow(25)
   ctx.font = 'bold 14px monospace'
   ctx.fillText('⚠  INCOMING CHALLENGE  ⚠', w / 2, h / 2 - 130)
   ctx.shadowBlur = 0
 
   // Card
-  const cardW = 380, cardH = 240
+  const { w: cardW, h: cardH } = WAVE_EVENT_CARD
   const cardX = (w - cardW) / 2, cardY = h / 2 - 100
   ctx.fillStyle = '#110800'
   ctx.strokeStyle = '#ff4400aa'
@@ -843,7 +953,7 @@ function drawWaveEventOffer(ctx: CanvasRenderingContext2D, event: WaveEvent, w:
   ctx.font = 'bold 34px monospace'
   ctx.fillStyle = '#ff8844'
   ctx.shadowColor = '#ff4400'
-  ctx.shadowBlur = 20
+  ctx.shadowBlur = glow(20)
   ctx.fillText(event.name, w / 2, cardY + 58)
   ctx.shadowBlur = 0
 
@@ -859,7 +969,7 @@ function drawWaveEventOffer(ctx: CanvasRenderingContext2D, event: WaveEvent, w:
   ctx.font = 'bold 13px monospace'
   ctx.fillStyle = '#22ffaa'
   ctx.shadowColor = '#22ffaa'
-  ctx.shadowBlur = 10
+  ctx.shadowBlur = glow(10)
   ctx.fillText(`REWARD: ${event.rewardText}`, w / 2, cardY + 165)
   ctx.shadowBlur = 0
 
@@ -869,7 +979,7 @@ function drawWaveEventOffer(ctx: CanvasRenderingContext2D, event: WaveEvent, w:
   ctx.globalAlpha = yFlash
   ctx.fillStyle = '#22ffaa'
   ctx.shadowColor = '#22ffaa'
-  ctx.shadowBlur = 12
+  ctx.shadowBlur = glow(12)
   ctx.fillText('[Y] Accept', w / 2 - 80, cardY + cardH + 32)
   ctx.shadowBlur = 0
   ctx.globalAlpha = 0.5
@@ -909,7 +1019,7 @@ function drawSlashTrails(
     ctx.globalAlpha = remaining * 0.35
     ctx.fillStyle = color
     ctx.shadowColor = color
-    ctx.shadowBlur = 18
+    ctx.shadowBlur = glow(18)
     ctx.beginPath()
     ctx.moveTo(0, 0)
     ctx.arc(0, 0, range * 1.1, trail.facing - arc / 2, trail.facing + arc / 2)
@@ -941,7 +1051,7 @@ function drawSlashTrails(
       ctx.globalAlpha = remaining * 0.6
       ctx.strokeStyle = color
       ctx.shadowColor = color
-      ctx.shadowBlur = 12
+      ctx.shadowBlur = glow(12)
       ctx.lineWidth = ribbonWidth
       ctx.lineCap = 'round'
       // Control point: midpoint between trail and player, offset perpendicular
@@ -985,7 +1095,7 @@ function drawPlayer(ctx: CanvasRenderingContext2D, player: Player, rarityGlowTim
     const t = player.trailPositions[i]
     const alpha = (i / player.trailPositions.length) * 0.4
     ctx.globalAlpha = alpha
-    ctx.fillStyle = S.PLAYER_DASH_COLOR
+    ctx.fillStyle = player.trailColor
     ctx.beginPath()
     ctx.arc(t.x - player.pos.x, t.y - player.pos.y, S.PLAYER_SIZE * 0.8, 0, Math.PI * 2)
     ctx.fill()
@@ -1032,7 +1142,7 @@ function drawPlayer(ctx: CanvasRenderingContext2D, player: Player, rarityGlowTim
     ctx.globalAlpha = orbPulse
     ctx.fillStyle = orbColor
     ctx.shadowColor = orbColor
-    ctx.shadowBlur = 10
+    ctx.shadowBlur = glow(10)
     ctx.beginPath()
     ctx.arc(ox, oy, 3.5, 0, Math.PI * 2)
     ctx.fill()
@@ -1055,7 +1165,7 @@ function drawPlayer(ctx: CanvasRenderingContext2D, player: Player, rarityGlowTim
       ctx.globalAlpha = 1
     }
     ctx.shadowColor = S.NEON_GLOW
-    ctx.shadowBlur = player.isDashing ? 25 : 12
+    ctx.shadowBlur = glow(player.isDashing ? 25 : 12)
     ctx.drawImage(assets.player, sx, sy, S.SPRITE_SIZE, S.SPRITE_SIZE, -half, -half, S.SPRITE_SIZE, S.SPRITE_SIZE)
     ctx.shadowBlur = 0
     ctx.restore()
@@ -1065,7 +1175,7 @@ function drawPlayer(ctx: CanvasRenderingContext2D, player: Player, rarityGlowTim
                       player.isDashing ? S.PLAYER_DASH_COLOR : S.PLAYER_COLOR
     ctx.fillStyle = bodyColor
     ctx.shadowColor = S.NEON_GLOW
-    ctx.shadowBlur = player.isDashing ? 25 : 14
+    ctx.shadowBlur = glow(player.isDashing ? 25 : 14)
     ctx.beginPath()
     const bodyRotation = player.facing + Math.PI / 8
     for (let i = 0; i < 8; i++) {
@@ -1079,7 +1189,7 @@ function drawPlayer(ctx: CanvasRenderingContext2D, player: Player, rarityGlowTim
 
     // Inner core
     ctx.shadowColor = '#ffffff'
-    ctx.shadowBlur = 8
+    ctx.shadowBlur = glow(8)
     ctx.fillStyle = '#ffffff33'
     ctx.beginPath()
     ctx.arc(0, 0, S.PLAYER_SIZE * 0.4, 0, Math.PI * 2)
@@ -1112,7 +1222,7 @@ function drawPlayer(ctx: CanvasRenderingContext2D, player: Player, rarityGlowTim
     const bladeHalfWidth = 4
     ctx.fillStyle = bladeColor
     ctx.shadowColor = bladeColor
-    ctx.shadowBlur = 20
+    ctx.shadowBlur = glow(20)
     ctx.globalAlpha = Math.max(0.2, 1 - progress)
     ctx.beginPath()
     ctx.moveTo(facingDir.x * bladeLen, facingDir.y * bladeLen)
@@ -1130,6 +1240,8 @@ function drawPlayer(ctx: CanvasRenderingContext2D, player: Player, rarityGlowTim
     ctx.shadowBlur = 0
   }
 
+  drawStatusIndicators(ctx, player.status, S.PLAYER_SIZE, now)
+
   // Time Flicker indicator
   if (player.timeFlickerActive) {
     const flickerPulse = Math.sin(now * 0.015) * 0.3 + 0.5
@@ -1175,7 +1287,7 @@ function drawAttackArc(ctx: CanvasRenderingContext2D, player: Player): void {
   ctx.globalAlpha = progress * 0.5
   ctx.fillStyle = color
   ctx.shadowColor = color
-  ctx.shadowBlur = 20
+  ctx.shadowBlur = glow(20)
   ctx.beginPath()
   ctx.moveTo(0, 0)
   ctx.arc(0, 0, range * (1.2 - progress * 0.2), player.facing - arc / 2, player.facing + arc / 2)
@@ -1269,15 +1381,34 @@ function drawEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
     for (let ring = 0; ring < 4; ring++) {
       const rp = Math.max(0, Math.min(1, shockProgress + ring * 0.06))
       if (rp <= 0) continue
-      const alpha = Math.max(0, (1 - shockProgress) * (1 - ring * 0.2))
-      ctx.strokeStyle = `rgba(204, 0, 255, ${alpha})`
+      ctx.globalAlpha = Math.max(0, (1 - shockProgress) * (1 - ring * 0.2))
+      ctx.strokeStyle = enemy.color
       ctx.lineWidth = 4 - ring
-      ctx.shadowColor = '#cc00ff'
-      ctx.shadowBlur = 12
+      ctx.shadowColor = enemy.color
+      ctx.shadowBlur = glow(12)
       ctx.beginPath()
       ctx.arc(0, 0, enemy.shockwaveRange * rp, 0, Math.PI * 2)
       ctx.stroke()
     }
+    ctx.globalAlpha = 1
+    ctx.shadowBlur = 0
+  }
+
+  // Boss phase-change roar — rings thrown off while it stands still
+  if (enemy.type === 'boss' && enemy.bossPhaseTimer > 0) {
+    const roar = 1 - enemy.bossPhaseTimer / S.BOSS_PHASE_TRANSITION
+    ctx.strokeStyle = enemy.color
+    ctx.shadowColor = enemy.color
+    ctx.shadowBlur = glow(16)
+    for (let ring = 0; ring < 3; ring++) {
+      const rp = (roar * 1.5 + ring / 3) % 1
+      ctx.globalAlpha = (1 - rp) * 0.7
+      ctx.lineWidth = 3
+      ctx.beginPath()
+      ctx.arc(0, 0, enemy.size + rp * enemy.size * 2.5, 0, Math.PI * 2)
+      ctx.stroke()
+    }
+    ctx.globalAlpha = 1
     ctx.shadowBlur = 0
   }
 
@@ -1288,7 +1419,7 @@ function drawEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
     ctx.strokeStyle = `rgba(255, 255, 255, ${pulseAlpha})`
     ctx.lineWidth = 4
     ctx.shadowColor = '#ffffff'
-    ctx.shadowBlur = 20 * windupRatio
+    ctx.shadowBlur = glow(20 * windupRatio)
     ctx.beginPath()
     ctx.arc(0, 0, enemy.size + 8, 0, Math.PI * 2)
     ctx.stroke()
@@ -1330,7 +1461,7 @@ function drawEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
 
   // Glow — intensifies when attacking or critically low
   ctx.shadowColor = hpRatio < 0.3 ? '#ff2222' : enemy.color
-  ctx.shadowBlur = enemy.isAttacking ? 22 : (hpRatio < 0.3 ? 16 : 8)
+  ctx.shadowBlur = glow(enemy.isAttacking ? 22 : (hpRatio < 0.3 ? 16 : 8))
 
   // Draw by type
   switch (enemy.type) {
@@ -1344,6 +1475,7 @@ function drawEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
   }
 
   ctx.shadowBlur = 0
+  drawStatusIndicators(ctx, enemy.status, enemy.size, now)
 
   // HP bar (color shifts red as damage increases)
   if (enemy.hp < enemy.maxHp) {
@@ -1575,13 +1707,13 @@ function drawShielderEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy, _now: nu
     ctx.strokeStyle = shieldColor
     ctx.lineWidth = 3
     ctx.shadowColor = shieldColor
-    ctx.shadowBlur = 12
+    ctx.shadowBlur = glow(12)
     ctx.beginPath()
     ctx.arc(0, 0, s + 8, -Math.PI / 3, Math.PI / 3)
     ctx.stroke()
     // Shield glow tips
     ctx.lineWidth = 1.5
-    ctx.shadowBlur = 6
+    ctx.shadowBlur = glow(6)
     for (const tipAngle of [-Math.PI / 3, Math.PI / 3]) {
       ctx.beginPath()
       ctx.arc(Math.cos(tipAngle) * (s + 8), Math.sin(tipAngle) * (s + 8), 3, 0, Math.PI * 2)
@@ -1653,27 +1785,37 @@ function drawSpawnerEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy, now: numb
 }
 
 function drawBossEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy, now: number, hpRatio: number): void {
-  const s = enemy.size
   const color = enemy.flashTimer > 0 ? S.HIT_FLASH_COLOR : enemy.color
-  const phase = enemy.bossPhase ?? 1
-  const chargeActive = enemy.isCharging ?? false
   // Motion blur trail during charge
-  if (chargeActive) {
+  if (enemy.isCharging) {
     for (let ghost = 3; ghost >= 1; ghost--) {
-      const offsetX = -(enemy.chargeDir?.x ?? 0) * ghost * 12
-      const offsetY = -(enemy.chargeDir?.y ?? 0) * ghost * 12
+      const offsetX = -enemy.chargeDir.x * ghost * 12
+      const offsetY = -enemy.chargeDir.y * ghost * 12
       ctx.globalAlpha = 0.12 * (4 - ghost) / 3
       ctx.fillStyle = color
       ctx.beginPath()
-      ctx.arc(offsetX, offsetY, s, 0, Math.PI * 2)
+      ctx.arc(offsetX, offsetY, enemy.size, 0, Math.PI * 2)
       ctx.fill()
     }
     ctx.globalAlpha = 1
   }
+  switch (enemy.bossTheme) {
+    case 'inferno':    drawPyreBoss(ctx, enemy, color, now, hpRatio);    break
+    case 'cryo':       drawGlacierBoss(ctx, enemy, color, now, hpRatio); break
+    case 'storm':      drawTempestBoss(ctx, enemy, color, now, hpRatio); break
+    case 'abyss':      drawHollowBoss(ctx, enemy, color, now, hpRatio);  break
+    case 'apocalypse': drawHeraldBoss(ctx, enemy, color, now, hpRatio);  break
+    default:           drawWardenBoss(ctx, enemy, color, now, hpRatio);  break
+  }
+}
+
+function drawWardenBoss(ctx: CanvasRenderingContext2D, enemy: Enemy, color: string, now: number, hpRatio: number): void {
+  const s = enemy.size
+  const phase = enemy.bossPhase
   // Main body
   ctx.fillStyle = color
   ctx.shadowColor = color
-  ctx.shadowBlur = 25
+  ctx.shadowBlur = glow(25)
   ctx.beginPath()
   ctx.arc(0, 0, s, 0, Math.PI * 2)
   ctx.fill()
@@ -1703,33 +1845,388 @@ function drawBossEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy, now: number,
       const dotAlpha = 0.6 + Math.sin(now * 0.003 + i) * 0.3
       ctx.fillStyle = `rgba(220, 100, 255, ${dotAlpha})`
       ctx.shadowColor = '#dd66ff'
-      ctx.shadowBlur = 6
+      ctx.shadowBlur = glow(6)
+      ctx.beginPath()
+      ctx.arc(Math.cos(a) * haloR, Math.sin(a) * haloR, 4, 0, Math.PI * 2)
+      ctx.fill()
+    }
+    ctx.shadowBlur = 0
+  }
+  // Phase 3: red-purple tint overlay + cracks
+  if (phase >= 3) {
+    ctx.fillStyle = 'rgba(200, 0, 80, 0.25)'
+    ctx.beginPath()
+    ctx.arc(0, 0, s, 0, Math.PI * 2)
+    ctx.fill()
+    drawCracks(ctx, s, hpRatio, '#ff0055')
+  }
+  // Core bright center
+  ctx.fillStyle = '#ffffff33'
+  ctx.beginPath()
+  ctx.arc(0, 0, s * 0.25, 0, Math.PI * 2)
+  ctx.fill()
+  // Phase label inside body
+  ctx.fillStyle = '#ffffff66'
+  ctx.font = `bold ${Math.round(s * 0.45)}px monospace`
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(`P${phase}`, 0, 0)
+  ctx.textBaseline = 'alphabetic'
+}
+
+/** Inferno: a living bonfire — flame tongues lick outward, a molten crown from phase 2. */
+function drawPyreBoss(ctx: CanvasRenderingContext2D, enemy: Enemy, color: string, now: number, hpRatio: number): void {
+  const s = enemy.size
+  const phase = enemy.bossPhase
+  // Flame tongues
+  const tongues = 10 + phase * 2
+  ctx.fillStyle = color
+  ctx.shadowColor = '#ff8800'
+  ctx.shadowBlur = glow(25)
+  ctx.beginPath()
+  for (let i = 0; i <= tongues * 2; i++) {
+    const a = (i / (tongues * 2)) * Math.PI * 2
+    const flicker = Math.sin(now * 0.012 + i * 1.7) * 0.5 + 0.5
+    const r = i % 2 === 0 ? s * (1.05 + flicker * 0.35 * phase / 2) : s * 0.85
+    if (i === 0) ctx.moveTo(Math.cos(a) * r, Math.sin(a) * r)
+    else ctx.lineTo(Math.cos(a) * r, Math.sin(a) * r)
+  }
+  ctx.closePath()
+  ctx.fill()
+  ctx.shadowBlur = 0
+  // Molten core
+  const core = ctx.createRadialGradient(0, 0, 0, 0, 0, s * 0.8)
+  core.addColorStop(0, '#fff2a0')
+  core.addColorStop(0.5, '#ffaa22')
+  core.addColorStop(1, 'transparent')
+  ctx.fillStyle = core
+  ctx.beginPath()
+  ctx.arc(0, 0, s * 0.8, 0, Math.PI * 2)
+  ctx.fill()
+  // Phase 2+: crown of molten spikes
+  if (phase >= 2) {
+    ctx.save()
+    ctx.rotate(now * 0.001)
+    ctx.fillStyle = '#ffcc33'
+    for (let i = 0; i < 6; i++) {
+      const a = (i / 6) * Math.PI * 2
+      ctx.beginPath()
+      ctx.moveTo(Math.cos(a - 0.12) * s * 1.15, Math.sin(a - 0.12) * s * 1.15)
+      ctx.lineTo(Math.cos(a) * (s * 1.15 + 16), Math.sin(a) * (s * 1.15 + 16))
+      ctx.lineTo(Math.cos(a + 0.12) * s * 1.15, Math.sin(a + 0.12) * s * 1.15)
+      ctx.closePath()
+      ctx.fill()
+    }
+    ctx.restore()
+  }
+  if (phase >= 3) drawCracks(ctx, s, hpRatio, '#ffee88')
+}
+
+/** Cryo: a faceted ice crystal with shards orbiting it — more shards each phase. */
+function drawGlacierBoss(ctx: CanvasRenderingContext2D, enemy: Enemy, color: string, now: number, hpRatio: number): void {
+  const s = enemy.size
+  const phase = enemy.bossPhase
+  // Hexagonal body
+  ctx.fillStyle = color
+  ctx.shadowColor = '#aaf0ff'
+  ctx.shadowBlur = glow(20)
+  ctx.beginPath()
+  for (let i = 0; i < 6; i++) {
+    const a = (i / 6) * Math.PI * 2 + Math.PI / 6
+    if (i === 0) ctx.moveTo(Math.cos(a) * s, Math.sin(a) * s)
+    else ctx.lineTo(Math.cos(a) * s, Math.sin(a) * s)
+  }
+  ctx.closePath()
+  ctx.fill()
+  ctx.shadowBlur = 0
+  // Facets
+  ctx.strokeStyle = '#e6fbffaa'
+  ctx.lineWidth = 1.5
+  for (let i = 0; i < 6; i++) {
+    const a = (i / 6) * Math.PI * 2 + Math.PI / 6
+    ctx.beginPath()
+    ctx.moveTo(0, 0)
+    ctx.lineTo(Math.cos(a) * s, Math.sin(a) * s)
+    ctx.stroke()
+  }
+  // Orbiting shards
+  const shards = phase * 3
+  for (let i = 0; i < shards; i++) {
+    const a = now * 0.0012 + (i / shards) * Math.PI * 2
+    const r = s + 18 + (i % 2) * 8
+    ctx.save()
+    ctx.translate(Math.cos(a) * r, Math.sin(a) * r)
+    ctx.rotate(a)
+    ctx.fillStyle = '#e6fbff'
+    ctx.beginPath()
+    ctx.moveTo(7, 0)
+    ctx.lineTo(0, 3)
+    ctx.lineTo(-7, 0)
+    ctx.lineTo(0, -3)
+    ctx.closePath()
+    ctx.fill()
+    ctx.restore()
+  }
+  // Cold core
+  ctx.fillStyle = '#ffffffcc'
+  ctx.beginPath()
+  ctx.arc(0, 0, s * 0.2, 0, Math.PI * 2)
+  ctx.fill()
+  if (phase >= 3) drawCracks(ctx, s, hpRatio, '#ffffff')
+}
+
+/** Storm: a churning cloud with an eye, arcing electricity that grows wilder each phase. */
+function drawTempestBoss(ctx: CanvasRenderingContext2D, enemy: Enemy, color: string, now: number, hpRatio: number): void {
+  const s = enemy.size
+  const phase = enemy.bossPhase
+  // Cloud puffs
+  ctx.fillStyle = '#3a3a44'
+  ctx.shadowColor = color
+  ctx.shadowBlur = glow(18)
+  for (let i = 0; i < 7; i++) {
+    const a = now * 0.0008 + (i / 7) * Math.PI * 2
+    ctx.beginPath()
+    ctx.arc(Math.cos(a) * s * 0.45, Math.sin(a) * s * 0.45, s * 0.65, 0, Math.PI * 2)
+    ctx.fill()
+  }
+  ctx.shadowBlur = 0
+  // Electric arcs
+  ctx.strokeStyle = color
+  ctx.lineWidth = 2
+  ctx.shadowColor = color
+  ctx.shadowBlur = glow(10)
+  for (let i = 0; i < phase * 2 + 1; i++) {
+    const a = Math.floor(now / 90) * 2.3 + i * 2.1
+    ctx.beginPath()
+    ctx.moveTo(Math.cos(a) * s * 0.4, Math.sin(a) * s * 0.4)
+    for (let seg = 1; seg <= 4; seg++) {
+      const r = s * 0.4 + seg * (s * 0.22)
+      const jitter = Math.sin(now * 0.05 + i * 7 + seg * 3) * 0.25
+      ctx.lineTo(Math.cos(a + jitter) * r, Math.sin(a + jitter) * r)
+    }
+    ctx.stroke()
+  }
+  ctx.shadowBlur = 0
+  // The eye
+  ctx.fillStyle = color
+  ctx.beginPath()
+  ctx.arc(0, 0, s * 0.28, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.fillStyle = '#ffffff'
+  ctx.beginPath()
+  ctx.arc(0, 0, s * 0.12, 0, Math.PI * 2)
+  ctx.fill()
+  if (phase >= 3) drawCracks(ctx, s * 0.9, hpRatio, '#ffffaa')
+}
+
+/** Abyss: a black hole with a violet event horizon; fades out while winding up a blink. */
+function drawHollowBoss(ctx: CanvasRenderingContext2D, enemy: Enemy, color: string, now: number, hpRatio: number): void {
+  const s = enemy.size
+  const phase = enemy.bossPhase
+  const fade = enemy.blinkWindupTimer > 0 ? enemy.blinkWindupTimer / S.BOSS_BLINK.windup : 1
+  ctx.globalAlpha = 0.15 + fade * 0.85
+  // Accretion arms, more of them each phase
+  ctx.strokeStyle = color
+  ctx.lineWidth = 3
+  ctx.shadowColor = color
+  ctx.shadowBlur = glow(16)
+  const arms = phase + 2
+  for (let i = 0; i < arms; i++) {
+    const start = -now * 0.002 + (i / arms) * Math.PI * 2
+    ctx.beginPath()
+    for (let step = 0; step <= 12; step++) {
+      const a = start + step * 0.22
+      const r = s * (1.35 - step * 0.05)
+      if (step === 0) ctx.moveTo(Math.cos(a) * r, Math.sin(a) * r)
+      else ctx.lineTo(Math.cos(a) * r, Math.sin(a) * r)
+    }
+    ctx.stroke()
+  }
+  ctx.shadowBlur = 0
+  // Event horizon and the dark core
+  ctx.strokeStyle = '#ff00cc'
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  ctx.arc(0, 0, s * 0.82, 0, Math.PI * 2)
+  ctx.stroke()
+  ctx.fillStyle = '#05000a'
+  ctx.beginPath()
+  ctx.arc(0, 0, s * 0.78, 0, Math.PI * 2)
+  ctx.fill()
+  // A single pupil that tracks its rotation
+  const pupil = now * 0.001
+  ctx.fillStyle = color
+  ctx.beginPath()
+  ctx.arc(Math.cos(pupil) * s * 0.2, Math.sin(pupil) * s * 0.2, s * 0.14, 0, Math.PI * 2)
+  ctx.fill()
+  if (phase >= 3) drawCracks(ctx, s * 0.78, hpRatio, '#cc66ff')
+  ctx.globalAlpha = 1
+}
+
+/** Apocalypse: a horned crimson core ringed by fire, ice and lightning as it unlocks each. */
+function drawHeraldBoss(ctx: CanvasRenderingContext2D, enemy: Enemy, color: string, now: number, hpRatio: number): void {
+  const s = enemy.size
+  const phase = enemy.bossPhase
+  ctx.fillStyle = color
+  ctx.shadowColor = color
+  ctx.shadowBlur = glow(25)
+  ctx.beginPath()
+  ctx.arc(0, 0, s, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.shadowBlur = 0
+  // Horns
+  ctx.fillStyle = '#2a0008'
+  for (let i = 0; i < 6; i++) {
+    const a = (i / 6) * Math.PI * 2 - Math.PI / 2
+    ctx.beginPath()
+    ctx.moveTo(Math.cos(a - 0.2) * s * 0.95, Math.sin(a - 0.2) * s * 0.95)
+    ctx.lineTo(Math.cos(a) * (s + 18), Math.sin(a) * (s + 18))
+    ctx.lineTo(Math.cos(a + 0.2) * s * 0.95, Math.sin(a + 0.2) * s * 0.95)
+    ctx.closePath()
+    ctx.fill()
+  }
+  // One orbit ring per borrowed element
+  const rings = ['#ff5511', '#66ddff', '#ffee33'].slice(0, phase)
+  rings.forEach((ringColor, i) => {
+    const r = s + 26 + i * 9
+    const rot = now * (0.0015 + i * 0.0007) * (i % 2 === 0 ? 1 : -1)
+    ctx.strokeStyle = ringColor
+    ctx.lineWidth = 2
+    ctx.setLineDash([10, 8])
+    ctx.lineDashOffset = rot * 40
+    ctx.beginPath()
+    ctx.arc(0, 0, r, 0, Math.PI * 2)
+    ctx.stroke()
+  })
+  ctx.setLineDash([])
+  ctx.lineDashOffset = 0
+  // Burning eye
+  ctx.fillStyle = '#ffffff'
+  ctx.beginPath()
+  ctx.ellipse(0, 0, s * 0.3, s * 0.12, 0, 0, Math.PI * 2)
+  ctx.fill()
+  if (phase >= 3) drawCracks(ctx, s, hpRatio, '#ffaa00')
+}
+
+// ─── Boss Zones ──────────────────────────────────────────────────────────────
+
+function drawBossZones(ctx: CanvasRenderingContext2D, zones: BossZone[], now: number): void {
+  for (const zone of zones) {
+    const { x, y } = zone.pos
+    if (zone.warmup > 0) {
+      // Telegraph: a ring closing in on the spot about to be hit
+      const progress = 1 - zone.warmup / zoneWarmup(zone.kind)
+      const color = zone.kind === 'frost' ? '#66ddff' : zone.kind === 'rift' ? '#9933ff' : '#ffee33'
+      if (zone.kind === 'rift') {
+        // Spiral arms turning inward, and a faint ring where the pull reaches
+        ctx.globalAlpha = 0.15
+        ctx.strokeStyle = color
+        ctx.lineWidth = 1
+        ctx.beginPath()
+        ctx.arc(x, y, S.BOSS_VOID_RIFT.pullRadius, 0, Math.PI * 2)
+        ctx.stroke()
+        ctx.globalAlpha = 0.4 + progress * 0.4
+        ctx.lineWidth = 2
+        for (let arm = 0; arm < 4; arm++) {
+          const start = now * 0.004 + arm * (Math.PI / 2)
+          ctx.beginPath()
+          for (let step = 0; step <= 10; step++) {
+            const a = start + step * 0.35
+            const r = zone.radius * (1.6 - step * 0.14)
+            if (step === 0) ctx.moveTo(x + Math.cos(a) * r, y + Math.sin(a) * r)
+            else ctx.lineTo(x + Math.cos(a) * r, y + Math.sin(a) * r)
+          }
+          ctx.stroke()
+        }
+      }
+      ctx.globalAlpha = 0.12 + progress * 0.2
+      ctx.fillStyle = color
+      ctx.beginPath()
+      ctx.arc(x, y, zone.radius, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.globalAlpha = 0.5 + Math.sin(now * 0.03) * 0.3
+      ctx.strokeStyle = color
+      ctx.lineWidth = 2
+      ctx.setLineDash([6, 5])
+      ctx.beginPath()
+      ctx.arc(x, y, zone.radius, 0, Math.PI * 2)
+      ctx.stroke()
+      ctx.setLineDash([])
+      ctx.lineWidth = 3
+      ctx.beginPath()
+      ctx.arc(x, y, zone.radius * (1 - progress) + 4, 0, Math.PI * 2)
+      ctx.stroke()
+      ctx.globalAlpha = 1
+      continue
+    }
+
+    const fade = Math.min(1, zone.life / 0.4)
+    if (zone.kind === 'fire') {
+      const flicker = 0.75 + Math.sin(now * 0.02 + x) * 0.25
+      const grad = ctx.createRadialGradient(x, y, 0, x, y, zone.radius)
+      grad.addColorStop(0, '#ffcc33')
+      grad.addColorStop(0.5, '#ff5511aa')
+      grad.addColorStop(1, 'transparent')
+      ctx.globalAlpha = fade * flicker * 0.8
+      ctx.fillStyle = grad
+      ctx.beginPath()
+      ctx.arc(x, y, zone.radius, 0, Math.PI * 2)
+      ctx.fill()
+    } else if (zone.kind === 'frost') {
+      ctx.globalAlpha = fade * 0.45
+      ctx.fillStyle = '#bff4ff'
+      ctx.beginPath()
+      ctx.arc(x, y, zone.radius, 0, Math.PI * 2)
+      ctx.fill()
+      // Frost spokes
+      ctx.globalAlpha = fade * 0.8
+      ctx.strokeStyle = '#ffffff'
+      ctx.lineWidth = 1.5
+      for (let i = 0; i < 6; i++) {
+        const a = (i / 6) * Math.PI * 2
+        ctx.beginPath()
+        ctx.moveTo(x, y)
+        ctx.lineTo(x + Math.cos(a) * zone.radius * 0.9, y + Math.sin(a) * zone.radius * 0.9)
+        ctx.stroke()
+      }
+    } else if (zone.kind === 'rift') {
+      // Collapse: a dark disc shrinking to nothing inside a bright rim
+      const t = zone.life / zone.maxLife
+      ctx.globalAlpha = t
+      ctx.fillStyle = '#05000a'
+      ctx.beginPath()
+      ctx.arc(x, y, zone.radius * t, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.strokeStyle = '#cc66ff'
+      ctx.lineWidth = 3
+      ctx.shadowColor = '#9933ff'
+      ctx.shadowBlur = glow(18)
+      ctx.beginPath()
+      ctx.arc(x, y, zone.radius * t + 3, 0, Math.PI * 2)
+      ctx.stroke()
+      ctx.shadowBlur = 0
+    } else {
+      // Lightning bolt dropping from above the screen
+      ctx.globalAlpha = zone.life / zone.maxLife
+      ctx.strokeStyle = '#ffffaa'
+      ctx.lineWidth = 4
+      ctx.shadowColor = '#ffee33'
+      ctx.shadowBlur = glow(20)
+      ctx.beginPath()
+      ctx.moveTo(x, y - 400)
+      for (let seg = 1; seg <= 8; seg++) {
+        ctx.lineTo(x + Math.sin(seg * 12.9 + x) * 18, y - 400 + seg * 50)
+      }
+      ctx.stroke()
+      ctx.shadowBlur = 0
+      ctx.fillStyle = '#ffee33'
       ctx.beginPath()
-      ctx.arc(Math.cos(a) * haloR, Math.sin(a) * haloR, 4, 0, Math.PI * 2)
+      ctx.arc(x, y, zone.radius, 0, Math.PI * 2)
+      ctx.globalAlpha *= 0.4
       ctx.fill()
     }
-    ctx.shadowBlur = 0
-  }
-  // Phase 3: red-purple tint overlay + cracks
-  if (phase >= 3) {
-    ctx.fillStyle = 'rgba(200, 0, 80, 0.25)'
-    ctx.beginPath()
-    ctx.arc(0, 0, s, 0, Math.PI * 2)
-    ctx.fill()
-    drawCracks(ctx, s, hpRatio, '#ff0055')
+    ctx.globalAlpha = 1
   }
-  // Core bright center
-  ctx.fillStyle = '#ffffff33'
-  ctx.beginPath()
-  ctx.arc(0, 0, s * 0.25, 0, Math.PI * 2)
-  ctx.fill()
-  // Phase label inside body
-  ctx.fillStyle = '#ffffff66'
-  ctx.font = `bold ${Math.round(s * 0.45)}px monospace`
-  ctx.textAlign = 'center'
-  ctx.textBaseline = 'middle'
-  ctx.fillText(`P${phase}`, 0, 0)
-  ctx.textBaseline = 'alphabetic'
 }
 
 // ─── Off-Screen Enemy Indicators ─────────────────────────────────────────────
@@ -1765,7 +2262,7 @@ function drawOffScreenIndicators(
     // Glow for boss
     if (isBoss) {
       ctx.shadowColor = enemy.color
-      ctx.shadowBlur = 12 + Math.sin(Date.now() * 0.004) * 5
+      ctx.shadowBlur = glow(12 + Math.sin(Date.now() * 0.004) * 5)
     }
     // Arrow triangle
     ctx.fillStyle = enemy.color
@@ -1792,6 +2289,7 @@ function drawBossHealthBar(
 ): void {
   const boss = enemies.find(e => e.type === 'boss' && e.isAlive)
   if (!boss) return
+  const def = getBossDef(boss)
   const barW = 400
   const barH = 18
   const barX = w / 2 - barW / 2
@@ -1806,7 +2304,7 @@ function drawBossHealthBar(
   const fillColor = hpRatio > 0.66 ? '#22cc66' : hpRatio > 0.33 ? '#ffaa22' : '#ff2244'
   ctx.fillStyle = fillColor
   ctx.shadowColor = fillColor
-  ctx.shadowBlur = 8
+  ctx.shadowBlur = glow(8)
   roundRect(ctx, barX, barY, barW * hpRatio, barH, 3)
   ctx.fill()
   ctx.shadowBlur = 0
@@ -1829,7 +2327,8 @@ function drawBossHealthBar(
   ctx.fillStyle = '#ffffff'
   ctx.font = 'bold 12px monospace'
   ctx.textAlign = 'center'
-  ctx.fillText('BOSS', w / 2, barY - 8)
+  ctx.fillStyle = def.color
+  ctx.fillText(def.name, w / 2, barY - 8)
   ctx.fillStyle = '#ffffff88'
   ctx.font = '10px monospace'
   ctx.fillText(`${boss.hp} / ${boss.maxHp}  [Phase ${phase}]`, w / 2, barY + barH + 14)
@@ -1838,7 +2337,7 @@ function drawBossHealthBar(
 
 // ─── HUD ─────────────────────────────────────────────────────────────────────
 
-function drawHUD(ctx: CanvasRenderingContext2D, player: Player, wave: number, score: number, highScore: number, level: number, theme: LevelTheme, w: number, h: number, lastStandUsed: boolean, isDailyChallenge?: boolean, difficultyLabel?: string): void {
+function drawHUD(ctx: CanvasRenderingContext2D, player: Player, wave: number, score: number, highScore: number, level: number, theme: LevelTheme, w: number, h: number, lastStandUsed: boolean, keymap: KeyMap, isDailyChallenge?: boolean, difficultyLabel?: string): void {
   const padding = 24
   const barWidth = 220
   const barHeight = 12
@@ -1865,7 +2364,7 @@ function drawHUD(ctx: CanvasRenderingContext2D, player: Player, wave: number, sc
   const hpColor = hpRatio > 0.5 ? S.HP_COLOR : hpRatio > 0.25 ? '#ff8822' : '#ff2222'
   ctx.fillStyle = hpColor
   ctx.shadowColor = hpColor
-  ctx.shadowBlur = 6
+  ctx.shadowBlur = glow(6)
   roundRect(ctx, hpX, hpY, barWidth * hpRatio, barHeight, 3)
   ctx.fill()
   ctx.shadowBlur = 0
@@ -1879,7 +2378,7 @@ function drawHUD(ctx: CanvasRenderingContext2D, player: Player, wave: number, sc
     // Last Stand available - golden icon
     ctx.fillStyle = '#ffaa00'
     ctx.shadowColor = '#ffaa00'
-    ctx.shadowBlur = 8
+    ctx.shadowBlur = glow(8)
     ctx.beginPath()
     // Draw a small shield/heart icon
     ctx.arc(lsX + lsSize / 2, lsY + lsSize / 2, lsSize / 2, 0, Math.PI * 2)
@@ -1915,20 +2414,20 @@ function drawHUD(ctx: CanvasRenderingContext2D, player: Player, wave: number, sc
 
   ctx.fillStyle = S.ENERGY_COLOR
   ctx.shadowColor = S.NEON_GLOW
-  ctx.shadowBlur = 8
+  ctx.shadowBlur = glow(8)
   roundRect(ctx, hpX, enY, barWidth * (player.energy / player.maxEnergy), barHeight, 3)
   ctx.fill()
   ctx.shadowBlur = 0
 
   // Ability cooldown icons (below energy bar)
-  drawAbilityCooldowns(ctx, player, theme, hpX, h - 38)
+  drawAbilityCooldowns(ctx, player, theme, keymap, hpX, h - 38)
 
   // Time Flicker indicator
   if (player.timeFlickerActive) {
     const flickerText = `TIME FLICKER ${player.timeFlickerTimer.toFixed(1)}s`
     ctx.fillStyle = '#00ccff'
     ctx.shadowColor = '#00ccff'
-    ctx.shadowBlur = 10
+    ctx.shadowBlur = glow(10)
     ctx.font = 'bold 14px monospace'
     ctx.textAlign = 'center'
     ctx.fillText(flickerText, w / 2, h - padding)
@@ -1941,7 +2440,7 @@ function drawHUD(ctx: CanvasRenderingContext2D, player: Player, wave: number, sc
   // Level badge
   ctx.fillStyle = theme.glowColor
   ctx.shadowColor = theme.glowColor
-  ctx.shadowBlur = 10
+  ctx.shadowBlur = glow(10)
   ctx.font = 'bold 13px monospace'
   ctx.fillText(`LEVEL ${level}`, w - padding, h - padding - 58)
   ctx.shadowBlur = 0
@@ -1970,7 +2469,7 @@ function drawHUD(ctx: CanvasRenderingContext2D, player: Player, wave: number, sc
     ctx.font = 'bold 11px monospace'
     ctx.fillStyle = diffColor
     ctx.shadowColor = diffColor
-    ctx.shadowBlur = 8
+    ctx.shadowBlur = glow(8)
     ctx.globalAlpha = 0.80
     ctx.fillText(difficultyLabel, w - padding, h - padding - 94)
     ctx.globalAlpha = 1
@@ -1983,7 +2482,7 @@ function drawHUD(ctx: CanvasRenderingContext2D, player: Player, wave: number, sc
   if (player.comboCount > 1) {
     ctx.fillStyle = '#ffaa22'
     ctx.shadowColor = '#ffaa22'
-    ctx.shadowBlur = 10
+    ctx.shadowBlur = glow(10)
     ctx.font = 'bold 22px monospace'
     ctx.textAlign = 'center'
     ctx.fillText(`${player.comboCount}x COMBO`, w / 2, 40)
@@ -1995,7 +2494,9 @@ function drawHUD(ctx: CanvasRenderingContext2D, player: Player, wave: number, sc
   ctx.fillStyle = '#ffffff22'
   ctx.font = '10px monospace'
   ctx.textAlign = 'center'
-  ctx.fillText('WASD Move | SPACE Dash | J Light | K Heavy | L Pulse | ; Time | Q Consumable', w / 2, h - 4)
+  const k = (action: keyof KeyMap) => keyLabel(keymap[action])
+  const move = `${k('up')}${k('left')}${k('down')}${k('right')}`
+  ctx.fillText(`${move} Move | ${k('dash')} Dash | ${k('lightAttack')} Light | ${k('heavyAttack')} Heavy | ${k('pulseWave')} Pulse | ${k('timeFlicker')} Time | ${k('consumable')} Consumable`, w / 2, h - 4)
   ctx.textAlign = 'left'
 
   // Daily Challenge badge (top-left)
@@ -2011,7 +2512,7 @@ function drawHUD(ctx: CanvasRenderingContext2D, player: Player, wave: number, sc
     ctx.stroke()
     ctx.fillStyle = '#ffc800'
     ctx.shadowColor = '#ffc800'
-    ctx.shadowBlur = 6
+    ctx.shadowBlur = glow(6)
     ctx.font = 'bold 11px monospace'
     ctx.textAlign = 'center'
     ctx.fillText('◆ DAILY CHALLENGE', badgeX + 55, badgeY + 15)
@@ -2022,15 +2523,15 @@ function drawHUD(ctx: CanvasRenderingContext2D, player: Player, wave: number, sc
 
 // ─── Ability Cooldown Icons ───────────────────────────────────────────────────
 
-function drawAbilityCooldowns(ctx: CanvasRenderingContext2D, player: Player, theme: LevelTheme, x: number, y: number): void {
+function drawAbilityCooldowns(ctx: CanvasRenderingContext2D, player: Player, theme: LevelTheme, keymap: KeyMap, x: number, y: number): void {
   const iconSize = 30
   const gap = 5
   const abilities = [
-    { label: 'LT', key: 'J', color: '#cc88ff' },
-    { label: 'HV', key: 'K', color: '#ffaa22' },
-    { label: 'PW', key: 'L', color: '#7b2fff' },
-    { label: 'TF', key: ';', color: '#00ccff' },
-    { label: 'DS', key: '↑', color: '#22ffaa' },
+    { label: 'LT', key: keyLabel(keymap.lightAttack), color: '#cc88ff' },
+    { label: 'HV', key: keyLabel(keymap.heavyAttack), color: '#ffaa22' },
+    { label: 'PW', key: keyLabel(keymap.pulseWave), color: '#7b2fff' },
+    { label: 'TF', key: keyLabel(keymap.timeFlicker), color: '#00ccff' },
+    { label: 'DS', key: keyLabel(keymap.dash), color: '#22ffaa' },
   ] as const
 
   // Compute per-ability cooldown ratio (0 = ready, 1 = full cooldown)
@@ -2071,7 +2572,7 @@ function drawAbilityCooldowns(ctx: CanvasRenderingContext2D, player: Player, the
       ctx.clip()
       ctx.fillStyle = lowEnergy ? '#444455' : ab.color + '55'
       ctx.shadowColor = lowEnergy ? 'transparent' : ab.color
-      ctx.shadowBlur = coolRatio < 0.05 ? 8 : 0
+      ctx.shadowBlur = glow(coolRatio < 0.05 ? 8 : 0)
       ctx.fillRect(ix, iy + iconSize - fillH, iconSize, fillH)
       ctx.shadowBlur = 0
       ctx.restore()
@@ -2082,7 +2583,7 @@ function drawAbilityCooldowns(ctx: CanvasRenderingContext2D, player: Player, the
     ctx.lineWidth = coolRatio < 0.05 && !lowEnergy ? 1.5 : 1
     if (coolRatio < 0.05 && !lowEnergy) {
       ctx.shadowColor = ab.color
-      ctx.shadowBlur = 6
+      ctx.shadowBlur = glow(6)
     }
     roundRect(ctx, ix, iy, iconSize, iconSize, 4)
     ctx.stroke()
@@ -2118,7 +2619,7 @@ function drawMutatorFeedback(ctx: CanvasRenderingContext2D, feedback: { name: st
   ctx.textAlign = 'center'
   ctx.fillStyle = feedback.color
   ctx.shadowColor = feedback.color
-  ctx.shadowBlur = 20
+  ctx.shadowBlur = glow(20)
   ctx.fillText(feedback.name.toUpperCase(), w / 2, cy)
   ctx.shadowBlur = 0
 
@@ -2130,20 +2631,63 @@ function drawMutatorFeedback(ctx: CanvasRenderingContext2D, feedback: { name: st
   ctx.restore()
 }
 
+function drawAchievementToasts(ctx: CanvasRenderingContext2D, toasts: AchievementToast[], w: number): void {
+  const toastW = 300
+  const toastH = 46
+  ctx.save()
+  toasts.forEach((toast, i) => {
+    const def = getAchievement(toast.id)
+    if (!def) return
+    // Slide in from the top, fade out over the last half second
+    const age = ACHIEVEMENT_TOAST_DURATION - toast.timer
+    const slide = Math.min(1, age / 0.25)
+    ctx.globalAlpha = Math.min(1, toast.timer / 0.5)
+    const x = w / 2 - toastW / 2
+    const y = 64 + i * (toastH + 8) - (1 - slide) * 30
+
+    ctx.fillStyle = 'rgba(10, 10, 20, 0.9)'
+    ctx.strokeStyle = def.color
+    ctx.lineWidth = 1.5
+    ctx.shadowColor = def.color
+    ctx.shadowBlur = glow(12)
+    roundRect(ctx, x, y, toastW, toastH, 6)
+    ctx.fill()
+    ctx.stroke()
+    ctx.shadowBlur = 0
+
+    ctx.font = 'bold 20px monospace'
+    ctx.textAlign = 'center'
+    ctx.fillStyle = def.color
+    ctx.fillText(def.icon, x + 24, y + 30)
+
+    ctx.textAlign = 'left'
+    ctx.font = '9px monospace'
+    ctx.fillStyle = '#ffc800'
+    ctx.fillText('ACHIEVEMENT UNLOCKED', x + 46, y + 16)
+    ctx.font = 'bold 13px monospace'
+    ctx.fillStyle = '#ffffff'
+    ctx.fillText(def.name.toUpperCase(), x + 46, y + 31)
+    ctx.font = '10px monospace'
+    ctx.fillStyle = '#ffffff88'
+    ctx.fillText(def.description, x + 46, y + 42)
+  })
+  ctx.restore()
+}
+
 // ─── Announcements ───────────────────────────────────────────────────────────
 
 function drawWaveAnnouncement(ctx: CanvasRenderingContext2D, wave: number, timer: number, theme: LevelTheme, affix: WaveAffix | null, w: number, h: number): void {
   const alpha = Math.min(1, timer / 1.5)
   ctx.fillStyle = `rgba(${hexToRgb(theme.glowColor)}, ${alpha * 0.85})`
   ctx.shadowColor = theme.glowColor
-  ctx.shadowBlur = 30
+  ctx.shadowBlur = glow(30)
   ctx.font = 'bold 48px monospace'
   ctx.textAlign = 'center'
   ctx.fillText(`WAVE ${wave}`, w / 2, h / 2 - 40)
 
   // Affix announcement (if present)
   if (affix) {
-    ctx.shadowBlur = 15
+    ctx.shadowBlur = glow(15)
     ctx.shadowColor = affix.color
     ctx.fillStyle = affix.color
     ctx.font = 'bold 22px monospace'
@@ -2175,7 +2719,7 @@ function drawLevelAnnouncement(ctx: CanvasRenderingContext2D, level: number, nam
   // Level number
   ctx.fillStyle = `rgba(${hexToRgb(theme.accentColor)}, ${alpha})`
   ctx.shadowColor = theme.glowColor
-  ctx.shadowBlur = 50
+  ctx.shadowBlur = glow(50)
   ctx.font = 'bold 72px monospace'
   ctx.textAlign = 'center'
   ctx.fillText(`LEVEL ${level}`, w / 2, h / 2 - 30)
@@ -2183,7 +2727,7 @@ function drawLevelAnnouncement(ctx: CanvasRenderingContext2D, level: number, nam
   // Theme name
   ctx.fillStyle = `rgba(255,255,255,${alpha * 0.9})`
   ctx.shadowColor = theme.glowColor
-  ctx.shadowBlur = 20
+  ctx.shadowBlur = glow(20)
   ctx.font = 'bold 24px monospace'
   ctx.fillText(name, w / 2, h / 2 + 20)
 
@@ -2247,7 +2791,7 @@ function drawLastStandEffect(ctx: CanvasRenderingContext2D, timer: number, w: nu
   const textAlpha = Math.min(1, progress * 2) // Fade faster
   ctx.fillStyle = `rgba(255, 200, 50, ${textAlpha})`
   ctx.shadowColor = '#ffaa00'
-  ctx.shadowBlur = 40
+  ctx.shadowBlur = glow(40)
   ctx.font = 'bold 56px monospace'
   ctx.textAlign = 'center'
   ctx.fillText('LAST STAND!', w / 2, h / 2 - 60)
@@ -2278,7 +2822,7 @@ function drawConsumableEffect(
         const textAlpha = (active.timer - 0.25) / 0.25
         ctx.fillStyle = `rgba(255, 200, 50, ${textAlpha})`
         ctx.shadowColor = '#ff6622'
-        ctx.shadowBlur = 30
+        ctx.shadowBlur = glow(30)
         ctx.font = 'bold 48px monospace'
         ctx.textAlign = 'center'
         ctx.fillText('NUKE!', w / 2, h / 2)
@@ -2296,7 +2840,7 @@ function drawConsumableEffect(
         const textAlpha = (active.timer - 0.4) / 0.4
         ctx.fillStyle = `rgba(100, 255, 150, ${textAlpha})`
         ctx.shadowColor = '#44ff88'
-        ctx.shadowBlur = 25
+        ctx.shadowBlur = glow(25)
         ctx.font = 'bold 44px monospace'
         ctx.textAlign = 'center'
         ctx.fillText('HEALED!', w / 2, h / 2)
@@ -2311,7 +2855,7 @@ function drawConsumableEffect(
       ctx.strokeStyle = `rgba(50, 200, 255, ${0.35 + pulse * 0.35})`
       ctx.lineWidth = 8
       ctx.shadowColor = '#44ccff'
-      ctx.shadowBlur = 20
+      ctx.shadowBlur = glow(20)
       ctx.strokeRect(4, 4, w - 8, h - 8)
       ctx.shadowBlur = 0
       break
@@ -2325,6 +2869,7 @@ function drawConsumableHUD(
   consumableActive: { type: ConsumableType; timer: number } | null,
   w: number,
   h: number,
+  keymap: KeyMap,
 ): void {
   const slotSize = 36
   const slotGap = 5
@@ -2337,7 +2882,7 @@ function drawConsumableHUD(
     ctx.font = '9px monospace'
     ctx.textAlign = 'right'
     ctx.fillStyle = '#ffffff55'
-    ctx.fillText('[Q]', startX + slotSize, startY - 4)
+    ctx.fillText(`[${keyLabel(keymap.consumable)}]`, startX + slotSize, startY - 4)
     ctx.textAlign = 'left'
   }
 
@@ -2359,7 +2904,7 @@ function drawConsumableHUD(
     ctx.textAlign = 'center'
     ctx.fillStyle = color
     ctx.shadowColor = color
-    ctx.shadowBlur = 8
+    ctx.shadowBlur = glow(8)
     ctx.fillText(label, x + slotSize / 2, y + slotSize / 2 + 7)
     ctx.shadowBlur = 0
 
@@ -2387,7 +2932,7 @@ function drawConsumableHUD(
 
     ctx.fillStyle = color
     ctx.shadowColor = color
-    ctx.shadowBlur = 6
+    ctx.shadowBlur = glow(6)
     roundRect(ctx, x, y, barW * ratio, barH, 2)
     ctx.fill()
     ctx.shadowBlur = 0
@@ -2404,6 +2949,31 @@ function getConsumableStyle(type: ConsumableType): { color: string; label: strin
   }
 }
 
+function drawReplayBadge(ctx: CanvasRenderingContext2D, replay: ReplayView, w: number, h: number): void {
+  const barW = 240
+  const x = w / 2 - barW / 2
+  const y = h - 38
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)'
+  roundRect(ctx, x - 12, y - 22, barW + 24, 44, 6)
+  ctx.fill()
+
+  ctx.font = 'bold 12px monospace'
+  ctx.textAlign = 'left'
+  ctx.fillStyle = '#ff4466'
+  ctx.fillText(`\u25b6 REPLAY ${replay.speed}\u00d7`, x, y - 6)
+  ctx.textAlign = 'right'
+  ctx.fillStyle = '#ffffff66'
+  ctx.font = '10px monospace'
+  ctx.fillText('F speed · ESC exit', x + barW, y - 6)
+
+  ctx.fillStyle = '#ffffff22'
+  ctx.fillRect(x, y + 4, barW, 4)
+  ctx.fillStyle = '#ff4466'
+  ctx.fillRect(x, y + 4, barW * Math.min(1, replay.progress), 4)
+  ctx.textAlign = 'left'
+}
+
 function drawGameOver(
   ctx: CanvasRenderingContext2D,
   score: number,
@@ -2418,13 +2988,16 @@ function drawGameOver(
   totalDamageDealt = 0,
   contractsCompleted = 0,
   mutatorsCount = 0,
+  perfectDodges = 0,
+  runTime = 0,
+  isReplay = false,
 ): void {
   ctx.fillStyle = 'rgba(0, 0, 0, 0.75)'
   ctx.fillRect(0, 0, w, h)
 
   ctx.fillStyle = '#ff2244'
   ctx.shadowColor = '#ff2244'
-  ctx.shadowBlur = 30
+  ctx.shadowBlur = glow(30)
   ctx.font = 'bold 56px monospace'
   ctx.textAlign = 'center'
   ctx.fillText('SHADOW FALLS', w / 2, h / 2 - 110)
@@ -2447,7 +3020,7 @@ function drawGameOver(
 
     ctx.fillStyle = topDamageColor
     ctx.shadowColor = topDamageColor
-    ctx.shadowBlur = 10
+    ctx.shadowBlur = glow(10)
     ctx.font = 'bold 18px monospace'
     ctx.fillText(topDamageType.toUpperCase(), w / 2, h / 2 - 8)
     ctx.shadowBlur = 0
@@ -2460,7 +3033,7 @@ function drawGameOver(
 
   // Run stats card
   {
-    const cardW = 320
+    const cardW = 480
     const cardH = 66
     const cardX = w / 2 - cardW / 2
     const cardY = h / 2 + 35
@@ -2472,18 +3045,31 @@ function drawGameOver(
     roundRect(ctx, cardX, cardY, cardW, cardH, 6)
     ctx.stroke()
 
-    // Divider line between columns
+    const colW = cardW / 3   // 160px each
+
+    // Divider lines between columns
     ctx.strokeStyle = 'rgba(255,255,255,0.08)'
     ctx.beginPath()
-    ctx.moveTo(cardX + cardW / 2, cardY + 8)
-    ctx.lineTo(cardX + cardW / 2, cardY + cardH - 8)
+    for (const x of [cardX + colW, cardX + colW * 2]) {
+      ctx.moveTo(x, cardY + 8)
+      ctx.lineTo(x, cardY + cardH - 8)
+    }
     ctx.stroke()
 
-    const colW = cardW / 2   // 160px each
     const pad = 12
+    const minutes = Math.floor(runTime / 60)
+    const seconds = String(Math.floor(runTime % 60)).padStart(2, '0')
     const rows = [
-      [{ label: 'KILLS', val: String(totalKills) }, { label: 'DAMAGE', val: totalDamageDealt.toLocaleString() }],
-      [{ label: 'MUTATORS', val: String(mutatorsCount) }, { label: 'CONTRACTS', val: String(contractsCompleted) }],
+      [
+        { label: 'KILLS', val: String(totalKills) },
+        { label: 'DAMAGE', val: totalDamageDealt.toLocaleString() },
+        { label: 'PERFECT DODGES', val: String(perfectDodges) },
+      ],
+      [
+        { label: 'MUTATORS', val: String(mutatorsCount) },
+        { label: 'CONTRACTS', val: String(contractsCompleted) },
+        { label: 'TIME', val: `${minutes}:${seconds}` },
+      ],
     ]
     rows.forEach((row, ri) => {
       const y = cardY + 24 + ri * 22
@@ -2517,7 +3103,11 @@ function drawGameOver(
 
   ctx.fillStyle = '#ffffff66'
   ctx.font = '14px monospace'
-  ctx.fillText('Press R to restart', w / 2, h / 2 + 165)
+  ctx.fillText(
+    isReplay ? 'Replay finished · ESC to return' : 'Press R to restart · V watch replay · E export replay',
+    w / 2,
+    h / 2 + 165,
+  )
   ctx.textAlign = 'left'
 
   // Daily Challenge leaderboard
@@ -2528,7 +3118,7 @@ function drawGameOver(
     // Header
     ctx.fillStyle = '#ffc800'
     ctx.shadowColor = '#ffc800'
-    ctx.shadowBlur = 8
+    ctx.shadowBlur = glow(8)
     ctx.font = 'bold 13px monospace'
     ctx.textAlign = 'center'
     ctx.fillText('◆ TODAY\'S LEADERBOARD', lbX, lbY)
@@ -2540,7 +3130,7 @@ function drawGameOver(
       ctx.fillStyle = isYou ? '#ffc800' : '#ffffff88'
       if (isYou) {
         ctx.shadowColor = '#ffc800'
-        ctx.shadowBlur = 6
+        ctx.shadowBlur = glow(6)
       }
       ctx.font = isYou ? 'bold 12px monospace' : '12px monospace'
       const nameDisplay = entry.player_name.length > 14 ? entry.player_name.slice(0, 13) + '…' : entry.player_name
@@ -2561,19 +3151,30 @@ function drawGameOver(
   }
 }
 
-// Helper to find which enemy type dealt the most damage
-function getTopDamageSource(damageByType: Record<EnemyType, number>): string {
-  let topType: string = 'none'
-  let topDamage = 0
+// ─── Perfect Dodge ───────────────────────────────────────────────────────────
 
-  for (const [type, damage] of Object.entries(damageByType)) {
-    if (damage > topDamage) {
-      topDamage = damage
-      topType = type
-    }
-  }
+function drawPerfectDodgeEffect(ctx: CanvasRenderingContext2D, timer: number, player: Player, camera: Camera, w: number, h: number): void {
+  const progress = timer / S.PERFECT_DODGE_SLOW_MO_DURATION
 
-  return topType
+  // Cool cyan edge tint while enemies are slowed
+  const gradient = ctx.createRadialGradient(w / 2, h / 2, 0, w / 2, h / 2, w * 0.7)
+  gradient.addColorStop(0, 'transparent')
+  gradient.addColorStop(0.6, 'transparent')
+  gradient.addColorStop(1, `rgba(102, 255, 238, ${0.22 * progress})`)
+  ctx.fillStyle = gradient
+  ctx.fillRect(0, 0, w, h)
+
+  // "PERFECT" rising off the player
+  ctx.globalAlpha = Math.min(1, progress * 1.5)
+  ctx.fillStyle = S.PERFECT_DODGE_COLOR
+  ctx.shadowColor = S.PERFECT_DODGE_COLOR
+  ctx.shadowBlur = glow(16)
+  ctx.font = 'bold 20px monospace'
+  ctx.textAlign = 'center'
+  ctx.fillText('PERFECT', player.pos.x + camera.offsetX, player.pos.y + camera.offsetY - 36 - (1 - progress) * 24)
+  ctx.globalAlpha = 1
+  ctx.shadowBlur = 0
+  ctx.textAlign = 'left'
 }
 
 // ─── Mutator UI ─────────────────────────────────────────────────────────────
@@ -2584,11 +3185,13 @@ function drawMutatorSelection(
   activeMutators: Mutator[],
   selectionTimer: number,
   peekActive: boolean,
+  keymap: KeyMap,
   w: number,
   h: number,
 ): void {
   const now = Date.now()
   const easeOut = (t: number) => 1 - Math.pow(1 - t, 3)
+  const top = layoutTop(h)
 
   // Dark overlay with cosmic star field
   ctx.fillStyle = 'rgba(0, 0, 0, 0.88)'
@@ -2612,25 +3215,21 @@ function drawMutatorSelection(
   ctx.globalAlpha = titleAlpha
   ctx.fillStyle = '#7b2fff'
   ctx.shadowColor = '#7b2fff'
-  ctx.shadowBlur = 30
+  ctx.shadowBlur = glow(30)
   ctx.font = 'bold 36px monospace'
   ctx.textAlign = 'center'
-  ctx.fillText('CHOOSE YOUR MUTATOR', w / 2, 90)
+  ctx.fillText('CHOOSE YOUR MUTATOR', w / 2, top + 90)
   ctx.shadowBlur = 0
   ctx.globalAlpha = 1
 
   // Subtitle
   ctx.fillStyle = `rgba(255,255,255,${titleAlpha * 0.4})`
   ctx.font = '14px monospace'
-  ctx.fillText('Press 1, 2, or 3 to select  ·  Hold Tab to peek your build', w / 2, 120)
+  ctx.fillText(`Press 1, 2, or 3 to select  ·  Hold ${keyLabel(keymap.mutatorPeek)} to peek your build`, w / 2, top + 120)
 
   // Card dimensions
-  const cardWidth = 300
-  const cardHeight = 320
-  const cardSpacing = 40
-  const totalWidth = choices.length * cardWidth + (choices.length - 1) * cardSpacing
-  const startX = (w - totalWidth) / 2
-  const baseCardY = (h - cardHeight) / 2 + 20
+  const { w: cardWidth, h: cardHeight } = MUTATOR_CARD
+  const cardRects = mutatorCardRects(choices.length, w, h)
 
   // Rarity colors
   const rarityBgColors: Record<string, string> = {
@@ -2651,17 +3250,17 @@ function drawMutatorSelection(
     ctx.globalAlpha = titleAlpha * epicFlash
     ctx.fillStyle = '#cc66ff'
     ctx.shadowColor = '#aa44ee'
-    ctx.shadowBlur = 20
+    ctx.shadowBlur = glow(20)
     ctx.font = 'bold 13px monospace'
     ctx.textAlign = 'center'
-    ctx.fillText('✦ EPIC CHOICE AVAILABLE ✦', w / 2, 148)
+    ctx.fillText('✦ EPIC CHOICE AVAILABLE ✦', w / 2, top + 148)
     ctx.shadowBlur = 0
     ctx.globalAlpha = 1
   }
 
   for (let i = 0; i < choices.length; i++) {
     const mutator = choices[i]
-    const cardX = startX + i * (cardWidth + cardSpacing)
+    const { x: cardX, y: baseCardY } = cardRects[i]
 
     // Float-in animation: slides up from below over first 0.4s
     const floatProgress = easeOut(Math.min(1, selectionTimer / 0.4))
@@ -2694,7 +3293,7 @@ function drawMutatorSelection(
     if (mutator.rarity === 'epic') {
       const epicPulse = Math.sin(now * 0.003) * 0.5 + 0.5
       ctx.shadowColor = mutator.color
-      ctx.shadowBlur = 18 + epicPulse * 14
+      ctx.shadowBlur = glow(18 + epicPulse * 14)
       ctx.strokeStyle = mutator.color + Math.round((0.4 + epicPulse * 0.4) * 255).toString(16).padStart(2, '0')
       ctx.lineWidth = 2.5
       roundRect(ctx, cardX, cardY, cardWidth, cardHeight, 12)
@@ -2729,7 +3328,7 @@ function drawMutatorSelection(
     ctx.font = 'bold 48px monospace'
     ctx.fillStyle = mutator.color
     ctx.shadowColor = mutator.color
-    ctx.shadowBlur = 15
+    ctx.shadowBlur = glow(15)
     ctx.fillText(mutator.icon, cardX + cardWidth / 2, cardY + 90)
     ctx.shadowBlur = 0
 
@@ -2758,7 +3357,7 @@ function drawMutatorSelection(
       ctx.font = 'bold 11px monospace'
       ctx.fillStyle = '#ffee44'
       ctx.shadowColor = '#ffee44'
-      ctx.shadowBlur = 8
+      ctx.shadowBlur = glow(8)
       ctx.fillText(`⚡ Synergy: ${synergyNames.join(', ')}`, cardX + cardWidth / 2, synergyY)
       ctx.shadowBlur = 0
     }
@@ -2818,7 +3417,7 @@ function drawMutatorSelection(
     ctx.font = 'bold 28px monospace'
     ctx.fillStyle = mutator.color
     ctx.shadowColor = mutator.color
-    ctx.shadowBlur = 12
+    ctx.shadowBlur = glow(12)
     ctx.textAlign = 'center'
     ctx.fillText(`[${i + 1}]`, cardX + cardWidth / 2, cardY + cardHeight - 18)
     ctx.shadowBlur = 0
@@ -2945,7 +3544,7 @@ function drawContractBanner(ctx: CanvasRenderingContext2D, contractState: Contra
   // Glow effect for completed
   if (glowColor) {
     ctx.shadowColor = glowColor
-    ctx.shadowBlur = 15
+    ctx.shadowBlur = glow(15)
   }
 
   // Banner background
@@ -3066,6 +3665,84 @@ function wrapText(text: string, maxChars: number): string[] {
   return lines
 }
 
+// ─── Status Effect Rendering ─────────────────────────────────────────────────
+
+/** Per-effect overlay around a status carrier; the context is already translated to it. */
+function drawStatusIndicators(ctx: CanvasRenderingContext2D, status: StatusEffects, size: number, now: number): void {
+  const { burning, chilled, shocked, vulnerable } = status.active
+
+  // Burning: flame tongues licking up the sides, one more per stack
+  if (burning) {
+    const color = S.STATUS_EFFECTS.burning.color
+    const flames = burning.stacks + 2
+    for (let i = 0; i < flames; i++) {
+      const a = (i / flames) * Math.PI * 2 + now * 0.002
+      const flicker = Math.sin(now * 0.02 + i * 1.7) * 0.3 + 0.7
+      const x = Math.cos(a) * size * 0.9
+      const y = Math.sin(a) * size * 0.6
+      ctx.fillStyle = color + Math.round(flicker * 200).toString(16).padStart(2, '0')
+      ctx.beginPath()
+      ctx.moveTo(x - 3, y)
+      ctx.quadraticCurveTo(x, y - size * 0.9 * flicker, x + 3, y)
+      ctx.closePath()
+      ctx.fill()
+    }
+  }
+
+  // Chilled: a frosted ring with ice shards pointing in
+  if (chilled) {
+    const color = S.STATUS_EFFECTS.chilled.color
+    ctx.strokeStyle = color + 'aa'
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    ctx.arc(0, 0, size + 5, 0, Math.PI * 2)
+    ctx.stroke()
+    ctx.fillStyle = color + 'cc'
+    for (let i = 0; i < 6; i++) {
+      const a = (i / 6) * Math.PI * 2
+      ctx.beginPath()
+      ctx.moveTo(Math.cos(a) * (size + 9), Math.sin(a) * (size + 9))
+      ctx.lineTo(Math.cos(a + 0.12) * (size + 3), Math.sin(a + 0.12) * (size + 3))
+      ctx.lineTo(Math.cos(a - 0.12) * (size + 3), Math.sin(a - 0.12) * (size + 3))
+      ctx.closePath()
+      ctx.fill()
+    }
+  }
+
+  // Shocked: jagged arcs crawling over the body, re-rolled every 60ms
+  if (shocked) {
+    const seed = Math.floor(now / 60)
+    ctx.strokeStyle = S.STATUS_EFFECTS.shocked.color
+    ctx.lineWidth = 1.5
+    for (let arc = 0; arc < 2; arc++) {
+      const start = (((seed * 7 + arc * 3) % 12) / 12) * Math.PI * 2
+      ctx.beginPath()
+      for (let j = 0; j <= 4; j++) {
+        const a = start + j * 0.35
+        const r = size + (((seed + j * 5 + arc) % 3) - 1) * 4
+        if (j === 0) ctx.moveTo(Math.cos(a) * r, Math.sin(a) * r)
+        else ctx.lineTo(Math.cos(a) * r, Math.sin(a) * r)
+      }
+      ctx.stroke()
+    }
+  }
+
+  // Vulnerable: pink chevrons under the body, one per stack
+  if (vulnerable) {
+    const pulse = Math.sin(now * 0.008) * 0.25 + 0.75
+    ctx.strokeStyle = S.STATUS_EFFECTS.vulnerable.color + Math.round(pulse * 255).toString(16).padStart(2, '0')
+    ctx.lineWidth = 2
+    for (let i = 0; i < vulnerable.stacks; i++) {
+      const y = size + 8 + i * 5
+      ctx.beginPath()
+      ctx.moveTo(-5, y)
+      ctx.lineTo(0, y + 4)
+      ctx.lineTo(5, y)
+      ctx.stroke()
+    }
+  }
+}
+
 // ─── Affix Rendering ─────────────────────────────────────────────────────────
 
 function drawAffixAura(ctx: CanvasRenderingContext2D, enemy: Enemy, affix: WaveAffix, now: number): void {
@@ -3264,7 +3941,7 @@ function drawCurrentAffix(ctx: CanvasRenderingContext2D, affix: WaveAffix, mutat
   const cardH = 28
 
   ctx.shadowColor = affix.color
-  ctx.shadowBlur = 8
+  ctx.shadowBlur = glow(8)
   ctx.fillStyle = affix.color + '30'
   ctx.strokeStyle = affix.color + '99'
   ctx.lineWidth = 1.5
@@ -3291,6 +3968,19 @@ function drawCurrentAffix(ctx: CanvasRenderingContext2D, affix: WaveAffix, mutat
 
 // ─── Utilities ───────────────────────────────────────────────────────────────
 
+/**
+ * Top of the 1280×720 design area when it is centered in a taller viewport
+ * (4:3 projectors). Full-screen overlays laid out top-down start from here.
+ */
+function layoutTop(h: number): number {
+  return Math.max(0, (h - S.GAME_HEIGHT) / 2)
+}
+
+/** A shadowBlur radius scaled for the graphics quality preset (Low turns glow off entirely). */
+function glow(blur: number): number {
+  return blur * getQualityPreset().glow
+}
+
 function hexToRgb(hex: string): string {
   const clean = hex.replace('#', '')
   const r = parseInt(clean.substring(0, 2), 16)
@@ -3409,6 +4099,7 @@ function drawKeyboardPanel(
   grade: number,
   wave: number,
   keyboardPanelTimer: number,
+  keymap: KeyMap,
   w: number,
   h: number,
 ): void {
@@ -3449,32 +4140,26 @@ function drawKeyboardPanel(
   ctx.fillText('KEYBOARD', panelX + 8, panelY + 7)
 
   // Progressive key unlock by wave
-  const unlocked: Record<string, boolean> = {
-    w: true, a: true, s: true, d: true,   // Wave 1
-    j: wave >= 2,                          // Wave 2
-    k: wave >= 3,                          // Wave 3
-    l: wave >= 4, ' ': wave >= 4,          // Wave 4
-    ';': wave >= 6,                        // Wave 6
+  type PanelAction = 'up' | 'left' | 'down' | 'right' | 'lightAttack' | 'heavyAttack' | 'pulseWave' | 'timeFlicker' | 'dash'
+  const unlocked: Record<PanelAction, boolean> = {
+    up: true, left: true, down: true, right: true,   // Wave 1
+    lightAttack: wave >= 2,                          // Wave 2
+    heavyAttack: wave >= 3,                          // Wave 3
+    pulseWave: wave >= 4, dash: wave >= 4,           // Wave 4
+    timeFlicker: wave >= 6,                          // Wave 6
   }
 
-  const KEY_COLORS: Record<string, string> = {
-    w: '#88ff88', a: '#88ff88', s: '#88ff88', d: '#88ff88',
-    j: '#cc99ff', k: '#ffaa22', l: '#44ccff', ';': '#ffffff', ' ': '#ffdd44',
-  }
-  const KEY_LABELS: Record<string, string> = {
-    w: 'W', a: 'A', s: 'S', d: 'D',
-    j: 'J', k: 'K', l: 'L', ';': ';', ' ': 'SPC',
-  }
-  const ACTION_LABELS: Record<string, string> = {
-    w: '', a: '', s: 'Move', d: '',
-    j: 'Light', k: 'Heavy', l: 'Pulse', ';': 'Slow', ' ': 'Dash',
+  const ACTION_LABELS: Record<PanelAction, string> = {
+    up: '', left: '', down: 'Move', right: '',
+    lightAttack: 'Light', heavyAttack: 'Heavy', pulseWave: 'Pulse', timeFlicker: 'Slow', dash: 'Dash',
   }
 
   const kW = 28
   const kH = 26
+  const keyWidth = (label: string) => label.length > 1 ? 44 : kW
 
   const drawKey = (label: string, action: string, kx: number, ky: number, color: string, isUnlocked: boolean) => {
-    const kActual = label === 'SPC' ? 44 : kW
+    const kActual = keyWidth(label)
     ctx.fillStyle = isUnlocked ? color + '22' : '#ffffff08'
     ctx.strokeStyle = isUnlocked ? color + 'cc' : '#ffffff22'
     ctx.lineWidth = 1
@@ -3503,18 +4188,20 @@ function drawKeyboardPanel(
   const asdY  = panelY + 56
   const wY    = asdY - kH - 5
 
-  drawKey('W', '',     wasdX + kW + 4,       wY,   KEY_COLORS['w'], unlocked['w'])
-  drawKey('A', '',     wasdX,                asdY, KEY_COLORS['a'], unlocked['a'])
-  drawKey('S', 'Move', wasdX + kW + 4,       asdY, KEY_COLORS['s'], unlocked['s'])
-  drawKey('D', '',     wasdX + 2 * (kW + 4), asdY, KEY_COLORS['d'], unlocked['d'])
+  const moveKey = (a: PanelAction, kx: number, ky: number) =>
+    drawKey(keyLabel(keymap[a]), ACTION_LABELS[a], kx, ky, ACTION_COLORS[a]!, unlocked[a])
+  moveKey('up',    wasdX + kW + 4,       wY)
+  moveKey('left',  wasdX,                asdY)
+  moveKey('down',  wasdX + kW + 4,       asdY)
+  moveKey('right', wasdX + 2 * (kW + 4), asdY)
 
-  // ── J K L ; SPC — aligned with ASD row ───────────────────────────────
+  // ── Abilities (J K L ; SPC by default) — aligned with ASD row ───────
   // WASD block width: 3*(kW+4)-4 = 92px; gap = 12px
   let cx = wasdX + 3 * (kW + 4) - 4 + 12
-  for (const k of ['j', 'k', 'l', ';', ' '] as const) {
-    const label = KEY_LABELS[k]
-    drawKey(label, ACTION_LABELS[k], cx, asdY, KEY_COLORS[k], unlocked[k])
-    cx += (label === 'SPC' ? 44 : kW) + 4
+  for (const a of ['lightAttack', 'heavyAttack', 'pulseWave', 'timeFlicker', 'dash'] as const) {
+    const label = keyLabel(keymap[a])
+    drawKey(label, ACTION_LABELS[a], cx, asdY, ACTION_COLORS[a]!, unlocked[a])
+    cx += keyWidth(label) + 4
   }
 
   ctx.restore()
@@ -3539,7 +4226,7 @@ function drawLetterFlashes(ctx: CanvasRenderingContext2D, flashes: LetterFlash[]
 
     // Glow shadow
     ctx.shadowColor = f.color
-    ctx.shadowBlur = 20
+    ctx.shadowBlur = glow(20)
 
     ctx.font = `bold 72px monospace`
     ctx.fillStyle = f.color
@@ -3552,14 +4239,16 @@ function drawLetterFlashes(ctx: CanvasRenderingContext2D, flashes: LetterFlash[]
 }
 
 /**
- * Full-screen blocking overlay for the post-wave vocabulary quiz (Grade 3+).
- * Shows mini mutator card, English word + emoji + Hebrew hint, and A/B/C/D options.
+ * Full-screen blocking overlay for the post-wave quiz (Grade 3+).
+ * Shows the mini mutator card, then the prompt and answer area for the
+ * question's kind: A/B/C/D grid, true/false pair or a typed-answer box.
  */
 function drawQuestionChallenge(
   ctx: CanvasRenderingContext2D,
   question: Question,
-  result: 'pending' | 'correct' | 'wrong-first' | 'wrong-final',
+  result: QuizResult,
   feedbackTimer: number,
+  typed: string,
   chosenMutator: Mutator | null,
   w: number,
   h: number,
@@ -3569,7 +4258,7 @@ function drawQuestionChallenge(
   ctx.fillRect(0, 0, w, h)
 
   const cx = w / 2
-  let y = 60
+  let y = layoutTop(h) + 60
 
   // ── Header ────────────────────────────────────────────────────────────────
   // Draw Hebrew and emoji in separate calls to avoid Canvas BiDi stray-glyph artefacts
@@ -3577,7 +4266,7 @@ function drawQuestionChallenge(
   ctx.textBaseline = 'top'
   ctx.fillStyle = '#ffdd44'
   ctx.shadowColor = '#ffdd44'
-  ctx.shadowBlur = 12
+  ctx.shadowBlur = glow(12)
   // Hebrew text only (pure RTL — no emoji mixed in)
   ctx.textAlign = 'center'
   ctx.fillText('ענה נכון — קבל את הכוח!', cx, y)
@@ -3615,96 +4304,42 @@ function drawQuestionChallenge(
     y += 20
   }
 
-  // ── English word + emoji ──────────────────────────────────────────────────
-  // Measure combined width so the emoji+word group is centered as a unit
-  ctx.textBaseline = 'middle'
-  const wordY = y + 28
-  const wordText = `"${question.englishWord}"`
-  const emojiGap = 10
-
-  ctx.font = 'bold 36px monospace'
-  const wordW = ctx.measureText(wordText).width
-  ctx.font = 'bold 32px serif'
-  const emojiW = ctx.measureText(question.emoji).width
-  const groupW = emojiW + emojiGap + wordW
-  const groupX = cx - groupW / 2
-
-  ctx.fillStyle = '#ffffff'
-  ctx.textAlign = 'left'
-  ctx.fillText(question.emoji, groupX, wordY)
-
-  ctx.font = 'bold 36px monospace'
-  ctx.fillStyle = '#ffffff'
-  ctx.shadowColor = '#7b2fff'
-  ctx.shadowBlur = 16
-  ctx.textAlign = 'left'
-  ctx.fillText(wordText, groupX + emojiW + emojiGap, wordY)
-  ctx.shadowBlur = 0
-  y += 70
-
-  // ── Answer options (A/B/C/D) ───────────────────────────────────────────────
-  const optionLabels = ['A', 'B', 'C', 'D']
-  const optW = 180
-  const optH = 48
-  const gap = 14
-  const totalW = optW * 2 + gap
-  const optStartX = cx - totalW / 2
-
-  ctx.font = '14px monospace'
-  ctx.textBaseline = 'middle'
-
-  for (let i = 0; i < 4; i++) {
-    const col = i % 2
-    const row = Math.floor(i / 2)
-    const ox = optStartX + col * (optW + gap)
-    const oy = y + row * (optH + gap)
-    const label = optionLabels[i]
-    const text = question.options[i]
-
-    let bg = 'rgba(30, 20, 60, 0.8)'
-    let border = '#7b2fff88'
-    let textColor = '#ffffffcc'
-
-    if (result !== 'pending') {
-      if (i === question.correctIndex) {
-        bg = 'rgba(34, 180, 80, 0.25)'
-        border = '#22b450cc'
-        textColor = '#22ff88'
-      } else if (result === 'wrong-first' || result === 'wrong-final') {
-        bg = 'rgba(180, 34, 34, 0.1)'
-        border = '#ff222222'
-        textColor = '#ffffff44'
-      }
-    }
-
-    ctx.fillStyle = bg
-    ctx.strokeStyle = border
-    ctx.lineWidth = 2
-    roundRect(ctx, ox, oy, optW, optH, 8)
-    ctx.fill()
-    ctx.stroke()
-
-    // Option label letter
-    ctx.font = 'bold 16px monospace'
-    ctx.fillStyle = border
-    ctx.textAlign = 'left'
-    ctx.fillText(`[${label}]`, ox + 10, oy + optH / 2)
-
-    // Option text (Hebrew, RTL-ish drawn right-aligned)
-    ctx.font = '17px sans-serif'
-    ctx.fillStyle = textColor
-    ctx.textAlign = 'right'
-    ctx.fillText(text, ox + optW - 10, oy + optH / 2)
+  // ── Prompt + answer area, per question kind ──────────────────────────────
+  // (quizAnswerTop() mirrors this layout for tap targets)
+  let hint: string
+  switch (question.kind) {
+    case 'true-false':
+      y = drawQuizPrompt(ctx, question.emoji, question.statement, cx, y)
+      y = drawTrueFalseOptions(ctx, question.answer, result, cx, y)
+      hint = 'לחץ על  T · F'
+      break
+    case 'spelling':
+      y = drawQuizPrompt(ctx, question.emoji, question.hebrewHint, cx, y, '34px sans-serif')
+      y = drawTypedAnswer(ctx, typed, question.answer, result, cx, y)
+      hint = 'הקלד באנגלית · Enter'
+      break
+    case 'number':
+      y = drawQuizPrompt(ctx, '', question.prompt, cx, y)
+      y = drawTypedAnswer(ctx, typed, String(question.answer), result, cx, y)
+      hint = 'הקלד מספר · Enter'
+      break
+    case 'emoji-match':
+      y = drawQuizPrompt(ctx, '', `"${question.englishWord}"`, cx, y)
+      y = drawQuizOptions(ctx, question.options, question.correctIndex, result, cx, y, '30px serif')
+      hint = 'לחץ על  A · B · C · D'
+      break
+    default:
+      y = drawQuizPrompt(ctx, question.emoji, `"${question.englishWord}"`, cx, y)
+      y = drawQuizOptions(ctx, question.options, question.correctIndex, result, cx, y, '17px sans-serif')
+      hint = 'לחץ על  A · B · C · D'
   }
 
-  y += 2 * (optH + gap) + 24
-
   // ── Key hint ──────────────────────────────────────────────────────────────
   ctx.font = '14px monospace'
   ctx.fillStyle = '#ffffff44'
   ctx.textAlign = 'center'
   ctx.textBaseline = 'top'
-  ctx.fillText('לחץ על  A · B · C · D', cx, y)
+  ctx.fillText(hint, cx, y)
   y += 30
 
   // ── Feedback states ────────────────────────────────────────────────────────
@@ -3712,7 +4347,7 @@ function drawQuestionChallenge(
     ctx.font = 'bold 22px monospace'
     ctx.fillStyle = '#22ff88'
     ctx.shadowColor = '#22ff88'
-    ctx.shadowBlur = 16
+    ctx.shadowBlur = glow(16)
     ctx.textAlign = 'center'
     ctx.fillText('נכון! הכוח שלך! 🎉', cx, y)
     ctx.shadowBlur = 0
@@ -3741,6 +4376,169 @@ function drawQuestionChallenge(
   }
 }
 
+/** Emoji + prompt text, measured so the pair is centered as a unit. Returns the next y. */
+function drawQuizPrompt(
+  ctx: CanvasRenderingContext2D,
+  emoji: string,
+  text: string,
+  cx: number,
+  y: number,
+  font = 'bold 36px monospace',
+): number {
+  ctx.textBaseline = 'middle'
+  const wordY = y + 28
+  const emojiGap = emoji ? 10 : 0
+
+  ctx.font = font
+  const wordW = ctx.measureText(text).width
+  ctx.font = 'bold 32px serif'
+  const emojiW = emoji ? ctx.measureText(emoji).width : 0
+  const groupX = cx - (emojiW + emojiGap + wordW) / 2
+
+  ctx.fillStyle = '#ffffff'
+  ctx.textAlign = 'left'
+  if (emoji) ctx.fillText(emoji, groupX, wordY)
+
+  ctx.font = font
+  ctx.fillStyle = '#ffffff'
+  ctx.shadowColor = '#7b2fff'
+  ctx.shadowBlur = glow(16)
+  ctx.fillText(text, groupX + emojiW + emojiGap, wordY)
+  ctx.shadowBlur = 0
+  return y + 70
+}
+
+/** Colours for one answer box: correct answer lights up once graded, the rest fade on a miss. */
+function quizOptionColors(isCorrect: boolean, result: QuizResult): { bg: string; border: string; textColor: string } {
+  if (result !== 'pending' && isCorrect) {
+    return { bg: 'rgba(34, 180, 80, 0.25)', border: '#22b450cc', textColor: '#22ff88' }
+  }
+  if (result === 'wrong-first' || result === 'wrong-final') {
+    return { bg: 'rgba(180, 34, 34, 0.1)', border: '#ff222222', textColor: '#ffffff44' }
+  }
+  return { bg: 'rgba(30, 20, 60, 0.8)', border: '#7b2fff88', textColor: '#ffffffcc' }
+}
+
+/** A/B/C/D answer grid (2×2). Returns the next y. */
+function drawQuizOptions(
+  ctx: CanvasRenderingContext2D,
+  options: readonly string[],
+  correctIndex: number,
+  result: QuizResult,
+  cx: number,
+  y: number,
+  optionFont: string,
+): number {
+  const optionLabels = ['A', 'B', 'C', 'D']
+  const { h: optH, gap } = QUIZ_OPTION
+
+  ctx.textBaseline = 'middle'
+
+  choiceOptionRects(cx, y).forEach(({ x: ox, y: oy, w: optW }, i) => {
+    const { bg, border, textColor } = quizOptionColors(i === correctIndex, result)
+
+    ctx.fillStyle = bg
+    ctx.strokeStyle = border
+    ctx.lineWidth = 2
+    roundRect(ctx, ox, oy, optW, optH, 8)
+    ctx.fill()
+    ctx.stroke()
+
+    // Option label letter
+    ctx.font = 'bold 16px monospace'
+    ctx.fillStyle = border
+    ctx.textAlign = 'left'
+    ctx.fillText(`[${optionLabels[i]}]`, ox + 10, oy + optH / 2)
+
+    // Option text (Hebrew, RTL-ish drawn right-aligned; emoji options use the same slot)
+    ctx.font = optionFont
+    ctx.fillStyle = textColor
+    ctx.textAlign = 'right'
+    ctx.fillText(options[i], ox + optW - 10, oy + optH / 2)
+  })
+
+  return y + 2 * (optH + gap) + 24
+}
+
+/** [T] נכון / [F] לא נכון side by side. Returns the next y. */
+function drawTrueFalseOptions(
+  ctx: CanvasRenderingContext2D,
+  answer: boolean,
+  result: QuizResult,
+  cx: number,
+  y: number,
+): number {
+  const choices = [
+    { label: 'T', text: 'נכון', value: true },
+    { label: 'F', text: 'לא נכון', value: false },
+  ]
+
+  const rects = trueFalseRects(cx, y)
+  ctx.textBaseline = 'middle'
+  choices.forEach((choice, i) => {
+    const { x: ox, w: optW, h: optH } = rects[i]
+    const { bg, border, textColor } = quizOptionColors(choice.value === answer, result)
+
+    ctx.fillStyle = bg
+    ctx.strokeStyle = border
+    ctx.lineWidth = 2
+    roundRect(ctx, ox, y, optW, optH, 8)
+    ctx.fill()
+    ctx.stroke()
+
+    ctx.font = 'bold 16px monospace'
+    ctx.fillStyle = border
+    ctx.textAlign = 'left'
+    ctx.fillText(`[${choice.label}]`, ox + 10, y + optH / 2)
+
+    ctx.font = '20px sans-serif'
+    ctx.fillStyle = textColor
+    ctx.textAlign = 'right'
+    ctx.fillText(choice.text, ox + optW - 14, y + optH / 2)
+  })
+
+  return y + TRUE_FALSE_OPTION.h + 38
+}
+
+/**
+ * Text box for spelling / number answers. Shows a blinking caret while
+ * pending and reveals the expected answer after the final miss.
+ */
+function drawTypedAnswer(
+  ctx: CanvasRenderingContext2D,
+  typed: string,
+  expected: string,
+  result: QuizResult,
+  cx: number,
+  y: number,
+): number {
+  const boxW = 320
+  const boxH = 56
+  const border = result === 'correct' ? '#22b450cc' : result === 'pending' ? '#7b2fff88' : '#ff4444aa'
+
+  ctx.fillStyle = 'rgba(30, 20, 60, 0.8)'
+  ctx.strokeStyle = border
+  ctx.lineWidth = 2
+  roundRect(ctx, cx - boxW / 2, y, boxW, boxH, 8)
+  ctx.fill()
+  ctx.stroke()
+
+  const caret = result === 'pending' && Math.floor(Date.now() / 500) % 2 === 0 ? '_' : ' '
+  ctx.font = 'bold 28px monospace'
+  ctx.fillStyle = result === 'correct' ? '#22ff88' : '#ffffff'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(typed + caret, cx, y + boxH / 2)
+  y += boxH + 12
+
+  if (result === 'wrong-final') {
+    ctx.font = 'bold 18px monospace'
+    ctx.fillStyle = '#22ff88'
+    ctx.fillText(expected, cx, y + 10)
+  }
+  return y + 38
+}
+
 /**
  * Full-screen pause overlay — dark backdrop + 3-option menu (Resume / Restart / Return to Title).
  * Navigated with W/S or ↑↓; confirmed with Enter or number keys 1/2/3.
@@ -3751,6 +4549,7 @@ function drawPauseMenu(
   score: number,
   w: number,
   h: number,
+  keymap: KeyMap,
 ): void {
   const cx = w / 2
   const cy = h / 2
@@ -3765,7 +4564,7 @@ function drawPauseMenu(
   ctx.font = 'bold 48px monospace'
   ctx.fillStyle = '#c084fc'
   ctx.shadowColor = '#7b2fff'
-  ctx.shadowBlur = 24
+  ctx.shadowBlur = glow(24)
   ctx.fillText('⏸ PAUSED', cx, cy - 110)
   ctx.shadowBlur = 0
 
@@ -3776,27 +4575,28 @@ function drawPauseMenu(
 
   // Menu items
   const items = [
-    { key: '1', label: 'RESUME', hint: 'ESC' },
+    { key: '1', label: 'RESUME', hint: 'or ESC' },
     { key: '2', label: 'RESTART', hint: '' },
-    { key: '3', label: 'RETURN TO TITLE', hint: '' },
+    { key: '3', label: 'AUDIO', hint: 'M mute' },
+    { key: '4', label: 'RETURN TO TITLE', hint: '' },
   ]
-  const itemH = 52
-  const startY = cy - 18
+  const itemRects = pauseMenuRects(w, h)
 
   for (let i = 0; i < items.length; i++) {
     const item = items[i]
-    const iy = startY + i * itemH
+    const box = itemRects[i]
+    const iy = box.y + box.h / 2
     const isSelected = i === selection
 
     if (isSelected) {
       ctx.fillStyle = 'rgba(123, 47, 255, 0.30)'
       ctx.beginPath()
-      ctx.roundRect(cx - 140, iy - 18, 280, 36, 8)
+      ctx.roundRect(box.x, box.y, box.w, box.h, 8)
       ctx.fill()
 
       // Left accent bar
       ctx.fillStyle = '#c084fc'
-      ctx.fillRect(cx - 140, iy - 18, 4, 36)
+      ctx.fillRect(box.x, box.y, 4, box.h)
     }
 
     // Number key hint
@@ -3809,7 +4609,7 @@ function drawPauseMenu(
     ctx.font = 'bold 20px monospace'
     ctx.textAlign = 'center'
     ctx.fillStyle = isSelected ? '#ffffff' : '#666666'
-    if (isSelected) { ctx.shadowColor = '#c084fc'; ctx.shadowBlur = 8 }
+    if (isSelected) { ctx.shadowColor = '#c084fc'; ctx.shadowBlur = glow(8) }
     ctx.fillText(item.label, cx + 10, iy)
     ctx.shadowBlur = 0
 
@@ -3818,7 +4618,7 @@ function drawPauseMenu(
       ctx.font = '12px monospace'
       ctx.textAlign = 'right'
       ctx.fillStyle = '#555555'
-      ctx.fillText(`or ${item.hint}`, cx + 140, iy)
+      ctx.fillText(item.hint, cx + 140, iy)
     }
   }
 
@@ -3826,5 +4626,90 @@ function drawPauseMenu(
   ctx.font = '12px monospace'
   ctx.textAlign = 'center'
   ctx.fillStyle = '#444444'
-  ctx.fillText('W / S  or  ↑↓  navigate   •   ENTER confirm', cx, cy + 140)
+  ctx.fillText(`${keyLabel(keymap.up)} / ${keyLabel(keymap.down)}  or  ↑↓  navigate   •   ENTER confirm`, cx, cy + 170)
+}
+
+// ─── Tap targets ─────────────────────────────────────────────────────────────
+// Hit boxes for overlays that can be tapped on a touch screen, in game
+// coordinates. The draw functions above lay themselves out from the same
+// helpers so the boxes can't drift from what's on screen.
+
+/** Axis-aligned box in game coordinates. */
+export interface Rect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+const MUTATOR_CARD = { w: 300, h: 320, gap: 40 }
+const QUIZ_OPTION = { w: 180, h: 48, gap: 14 }
+const TRUE_FALSE_OPTION = { w: 180, h: 56, gap: 14 }
+const WAVE_EVENT_CARD = { w: 380, h: 240 }
+const PAUSE_ITEM = { w: 280, h: 36, spacing: 52 }
+
+export function pointInRect(x: number, y: number, r: Rect): boolean {
+  return x >= r.x && x <= r.x + r.w && y >= r.y && y <= r.y + r.h
+}
+
+/** Resting position of each mutator card (ignores the float-in animation). */
+export function mutatorCardRects(count: number, w: number, h: number): Rect[] {
+  const totalWidth = count * MUTATOR_CARD.w + (count - 1) * MUTATOR_CARD.gap
+  const startX = (w - totalWidth) / 2
+  const y = (h - MUTATOR_CARD.h) / 2 + 20
+  return Array.from({ length: count }, (_, i) => ({
+    x: startX + i * (MUTATOR_CARD.w + MUTATOR_CARD.gap),
+    y,
+    w: MUTATOR_CARD.w,
+    h: MUTATOR_CARD.h,
+  }))
+}
+
+/** A/B/C/D grid, row by row. */
+function choiceOptionRects(cx: number, y: number): Rect[] {
+  const { w, h, gap } = QUIZ_OPTION
+  const startX = cx - (w * 2 + gap) / 2
+  return [0, 1, 2, 3].map(i => ({ x: startX + (i % 2) * (w + gap), y: y + Math.floor(i / 2) * (h + gap), w, h }))
+}
+
+/** True, then false. */
+function trueFalseRects(cx: number, y: number): Rect[] {
+  const { w, h, gap } = TRUE_FALSE_OPTION
+  return [0, 1].map(i => ({ x: cx - w - gap / 2 + i * (w + gap), y, w, h }))
+}
+
+/** Where drawQuestionChallenge starts the answer area: header, mini mutator card, prompt. */
+function quizAnswerTop(hasMutatorCard: boolean, h: number): number {
+  return layoutTop(h) + 60 + 42 + (hasMutatorCard ? 80 : 20) + 70
+}
+
+/** Answer boxes in answer order — A–D, or true/false. Typed kinds have none. */
+export function quizAnswerRects(question: Question, hasMutatorCard: boolean, w: number, h = S.GAME_HEIGHT): Rect[] {
+  const y = quizAnswerTop(hasMutatorCard, h)
+  switch (question.kind) {
+    case 'true-false':
+      return trueFalseRects(w / 2, y)
+    case 'spelling':
+    case 'number':
+      return []
+    default:
+      return choiceOptionRects(w / 2, y)
+  }
+}
+
+/** [Y] Accept, then [N] Decline. */
+export function waveEventRects(w: number, h: number): Rect[] {
+  const promptY = h / 2 - 100 + WAVE_EVENT_CARD.h + 32
+  return [-80, 80].map(dx => ({ x: w / 2 + dx - 80, y: promptY - 30, w: 160, h: 44 }))
+}
+
+/** Resume, restart, return to title. */
+export function pauseMenuRects(w: number, h: number): Rect[] {
+  const startY = h / 2 - 36
+  return [0, 1, 2, 3].map(i => ({
+    x: w / 2 - PAUSE_ITEM.w / 2,
+    y: startY + i * PAUSE_ITEM.spacing - PAUSE_ITEM.h / 2,
+    w: PAUSE_ITEM.w,
+    h: PAUSE_ITEM.h,
+  }))
 }
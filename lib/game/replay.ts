@@ -0,0 +1,266 @@
+/**
+ * Deterministic run replays.
+ *
+ * A run is fully determined by its seed, the options passed to
+ * createGameState and the (InputState, dt) pair fed to every updateGame call.
+ * The recorder captures exactly that; playback feeds the same frames into a
+ * fresh GameState and arrives at the same score.
+ *
+ * Encoded frames are run-length compressed: `[mask, dt, count, extras?]`
+ * where `mask` packs the boolean inputs (bit order = INPUT_FLAGS) and
+ * `extras` carries the non-boolean fields (mutator choice, quiz answer, typed
+ * quiz keys, analog stick vector).
+ */
+
+import { GameState, createGameState, updateGame } from './engine'
+import type { InputState } from './player'
+import type { DifficultyLevel } from './settings'
+import { LearningRecord, cloneLearningRecord } from './learning'
+import type { Loadout } from './progression'
+
+export const REPLAY_VERSION = 1
+
+// Bit position in the encoded mask = index in this list. Append only.
+const INPUT_FLAGS = [
+  'up',
+  'down',
+  'left',
+  'right',
+  'dash',
+  'lightAttack',
+  'heavyAttack',
+  'heavyRelease',
+  'pulseWave',
+  'timeFlicker',
+  'mutatorPeek',
+  'consumableActivate',
+  'acceptWaveEvent',
+  'rejectWaveEvent',
+] as const
+
+type InputFlag = (typeof INPUT_FLAGS)[number]
+export type ReplayExtras = Partial<Omit<InputState, InputFlag>>
+
+export type ReplayFrame =
+  | [mask: number, dt: number, count: number]
+  | [mask: number, dt: number, count: number, extras: ReplayExtras]
+
+/** Everything createGameState needs to rebuild the run's opening state. */
+export interface ReplayHeader {
+  seed: number
+  isDailyChallenge: boolean
+  challengeDate: string
+  selectedGrade: number
+  quizEnabled: boolean
+  selectedTopicId: string
+  difficulty: DifficultyLevel
+  learningRecord?: LearningRecord | null   // quiz history at run start — steers question picks
+  loadout?: Loadout                         // unlocks the run started with (absent = baseline)
+}
+
+export interface Replay extends ReplayHeader {
+  version: number
+  frames: ReplayFrame[]
+  finalScore: number
+  finalWave: number
+}
+
+export interface ReplayRecorder {
+  header: ReplayHeader
+  frames: ReplayFrame[]
+}
+
+// ── Input encoding ────────────────────────────────────────────────────────────
+
+function encodeInput(input: InputState): { mask: number; extras: ReplayExtras | null } {
+  let mask = 0
+  for (let i = 0; i < INPUT_FLAGS.length; i++) {
+    if (input[INPUT_FLAGS[i]]) mask |= 1 << i
+  }
+  let extras: ReplayExtras | null = null
+  for (const key of Object.keys(input) as (keyof InputState)[]) {
+    if ((INPUT_FLAGS as readonly string[]).includes(key)) continue
+    const value = input[key]
+    if (value === undefined) continue
+    extras = { ...(extras ?? {}), [key]: value }
+  }
+  return { mask, extras }
+}
+
+/** Rebuild the InputState for one encoded frame. */
+export function decodeInput(mask: number, extras?: ReplayExtras): InputState {
+  const input = { ...extras } as InputState
+  for (let i = 0; i < INPUT_FLAGS.length; i++) {
+    input[INPUT_FLAGS[i]] = (mask & (1 << i)) !== 0
+  }
+  return input
+}
+
+// ── Recording ─────────────────────────────────────────────────────────────────
+
+export function createReplayRecorder(state: GameState): ReplayRecorder {
+  return {
+    header: {
+      seed: state.seed,
+      isDailyChallenge: state.isDailyChallenge,
+      challengeDate: state.challengeDate,
+      selectedGrade: state.selectedGrade,
+      quizEnabled: state.quizEnabled,
+      selectedTopicId: state.selectedTopicId,
+      difficulty: state.difficulty,
+      learningRecord: state.learningRecord && cloneLearningRecord(state.learningRecord),
+      loadout: state.loadout,
+    },
+    frames: [],
+  }
+}
+
+/**
+ * Record the frame about to be passed to updateGame.
+ * Frames that updateGame ignores (paused, Hebrew-layout guard, game over) are
+ * skipped — those states are set outside the engine and never occur in playback.
+ */
+export function recordFrame(recorder: ReplayRecorder, state: GameState, input: InputState, dt: number): void {
+  if (state.gameOver || state.paused || state.hebrewLayoutActive) return
+  const { mask, extras } = encodeInput(input)
+  const last = recorder.frames[recorder.frames.length - 1]
+  // A held stick repeats the same extras every frame, so compare them too
+  if (last && last[0] === mask && last[1] === dt && JSON.stringify(last[3] ?? null) === JSON.stringify(extras)) {
+    last[2]++
+    return
+  }
+  recorder.frames.push(extras ? [mask, dt, 1, extras] : [mask, dt, 1])
+}
+
+export function finishReplay(recorder: ReplayRecorder, state: GameState): Replay {
+  return {
+    version: REPLAY_VERSION,
+    ...recorder.header,
+    frames: recorder.frames,
+    finalScore: state.score,
+    finalWave: state.wave,
+  }
+}
+
+// ── Serialization ─────────────────────────────────────────────────────────────
+
+export function encodeReplay(replay: Replay): string {
+  return JSON.stringify(replay)
+}
+
+const MAX_QUIZ_KEYS = 32      // keys typed in one frame
+const MAX_QUIZ_TEXT = 64      // length of a typed key or string answer
+
+const isShortString = (v: unknown) => typeof v === 'string' && v.length <= MAX_QUIZ_TEXT
+
+/** Extras must hold only the known non-boolean inputs, each of the right type. */
+function isReplayExtras(extras: unknown): extras is ReplayExtras {
+  if (typeof extras !== 'object' || extras === null || Array.isArray(extras)) return false
+  return Object.entries(extras).every(([key, v]) => {
+    switch (key) {
+      case 'mutatorChoice':
+        return Number.isInteger(v)
+      case 'quizAnswer':
+        return Number.isInteger(v) || typeof v === 'boolean' || isShortString(v)
+      case 'quizKeys':
+        return Array.isArray(v) && v.length <= MAX_QUIZ_KEYS && v.every(isShortString)
+      case 'move':
+        return (
+          typeof v === 'object' && v !== null &&
+          Number.isFinite((v as { x: unknown }).x) && Number.isFinite((v as { y: unknown }).y)
+        )
+      default:
+        return false
+    }
+  })
+}
+
+/** Validate already-parsed JSON as a replay. Returns null for anything this build can't play. */
+export function parseReplay(data: unknown): Replay | null {
+  const replay = data as Replay | null
+  if (replay?.version !== REPLAY_VERSION) return null
+  if (typeof replay.seed !== 'number' || !Array.isArray(replay.frames)) return null
+  const framesOk = replay.frames.every(
+    f =>
+      Array.isArray(f) &&
+      (f.length === 3 || (f.length === 4 && isReplayExtras(f[3]))) &&
+      typeof f[0] === 'number' && typeof f[1] === 'number' && typeof f[2] === 'number',
+  )
+  return framesOk ? replay : null
+}
+
+/** Parse a replay file. */
+export function decodeReplay(text: string): Replay | null {
+  try {
+    return parseReplay(JSON.parse(text))
+  } catch {
+    return null
+  }
+}
+
+// ── Playback ──────────────────────────────────────────────────────────────────
+
+export interface ReplayPlayer {
+  replay: Replay
+  state: GameState
+  frameIndex: number     // index into replay.frames
+  repeat: number         // repeats already played of the current frame
+  clock: number          // real seconds banked but not yet simulated
+  played: number         // frames simulated so far
+  total: number          // total frames in the replay
+  done: boolean
+}
+
+/** Fresh GameState for the start of a replay — same seed and options as the recording. */
+export function createReplayState(header: ReplayHeader): GameState {
+  const state = createGameState(
+    header.isDailyChallenge,
+    header.selectedGrade,
+    header.quizEnabled,
+    header.selectedTopicId,
+    header.difficulty,
+    header.seed,
+    header.loadout,
+  )
+  state.challengeDate = header.challengeDate
+  state.learningRecord = header.learningRecord ? cloneLearningRecord(header.learningRecord) : null
+  state.isReplay = true
+  return state
+}
+
+export function createReplayPlayer(replay: Replay): ReplayPlayer {
+  const total = replay.frames.reduce((sum, f) => sum + f[2], 0)
+  return { replay, state: createReplayState(replay), frameIndex: 0, repeat: 0, clock: 0, played: 0, total, done: total === 0 }
+}
+
+/** Simulate the next recorded frame. Returns its dt (0 once the replay is exhausted). */
+export function stepReplay(player: ReplayPlayer): number {
+  if (player.done) return 0
+  const [mask, dt, count, extras] = player.replay.frames[player.frameIndex]
+  updateGame(player.state, decodeInput(mask, extras), dt)
+  player.played++
+  player.repeat++
+  if (player.repeat >= count) {
+    player.frameIndex++
+    player.repeat = 0
+  }
+  if (player.frameIndex >= player.replay.frames.length || player.state.gameOver) player.done = true
+  return dt
+}
+
+/** Advance playback by real time, at `speed`× the recorded pace. */
+export function advanceReplay(player: ReplayPlayer, realDt: number, speed = 1): void {
+  player.clock += realDt * speed
+  while (!player.done) {
+    const nextDt = player.replay.frames[player.frameIndex][1]
+    if (player.clock < nextDt) break
+    player.clock -= stepReplay(player)
+  }
+}
+
+/** Run a whole replay headlessly and return the final state. */
+export function simulateReplay(replay: Replay): GameState {
+  const player = createReplayPlayer(replay)
+  while (!player.done) stepReplay(player)
+  return player.state
+}
@@ -0,0 +1,104 @@
+/**
+ * Save and resume a run in progress.
+ *
+ * GameState is plain data, so a save is its JSON plus the two pieces of run
+ * state the engine keeps at module level: ARENA_RADIUS (shrunk by Collapse
+ * waves) and the seeded RNG's counter. Restoring the counter means a resumed
+ * run draws exactly the numbers it would have drawn without the break, so a
+ * Daily can't be reloaded to reroll the next wave.
+ *
+ * The replay recorder is saved alongside: a resumed run still finishes with a
+ * replay of the whole run, which is what Daily score verification checks.
+ *
+ * Runs are saved at safe points only (paused, or between waves) — never mid-
+ * fight with inputs in flight.
+ */
+
+import type { GameState } from './engine'
+import type { ReplayRecorder } from './replay'
+import { ARENA_RADIUS, setArenaRadius } from './settings'
+import { getRngState, resumeSeededRng, setRng } from './seeded-rng'
+import { reserveEnemyIds } from './enemy'
+
+const STORAGE_KEY = 'shadowpulse_saved_run'
+// Bump whenever GameState or the recorder's frames change shape; older saves are dropped.
+// 8: replay frames all step at the fixed SIM_DT
+export const SAVE_VERSION = 8
+
+export interface SavedRun {
+  version: number
+  savedAt: string
+  state: GameState
+  arenaRadius: number
+  rngState: number
+  recorder: ReplayRecorder | null
+}
+
+/** Whether `state` is at a point where saving and resuming loses nothing. */
+export function isSafePoint(state: GameState): boolean {
+  if (state.gameOver || state.isReplay || state.hebrewLayoutActive) return false
+  return state.paused || !state.waveActive
+}
+
+/** Snapshot a live run. The state is deep-copied; later frames don't touch the save. */
+export function createSavedRun(state: GameState, recorder: ReplayRecorder | null): SavedRun | null {
+  const rngState = getRngState()
+  if (rngState === null) return null
+  return JSON.parse(JSON.stringify({
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    // Attempts are persisted by the component as they happen; events only matter to the tick that raised them
+    state: { ...state, quizAttempts: [], events: [] },
+    arenaRadius: ARENA_RADIUS,
+    rngState,
+    recorder,
+  }))
+}
+
+/**
+ * Rebuild the live run from a save: restores the arena radius and RNG and
+ * returns the GameState, opened on the pause menu.
+ */
+export function restoreSavedRun(saved: SavedRun): GameState {
+  const state = saved.state
+  // JSON turns the last theme's open-ended waveRange (Infinity) into null
+  const [from, to] = state.levelTheme.waveRange
+  state.levelTheme.waveRange = [from, to ?? Infinity]
+  state.paused = true
+  state.pauseMenuSelection = 0
+  setArenaRadius(saved.arenaRadius)
+  setRng(resumeSeededRng(saved.rngState))
+  reserveEnemyIds(Math.max(-1, ...state.enemies.map(e => e.id)) + 1)
+  return state
+}
+
+// ── Storage ───────────────────────────────────────────────────────────────────
+
+export function saveRun(state: GameState, recorder: ReplayRecorder | null): void {
+  if (typeof window === 'undefined') return
+  const saved = createSavedRun(state, recorder)
+  if (!saved) return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved))
+  } catch (err) {
+    console.warn('[savegame] could not save run:', err)
+  }
+}
+
+/** The saved run, or null if there is none this build can resume. Daily saves expire with their day. */
+export function loadSavedRun(): SavedRun | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as SavedRun | null
+    if (saved?.version !== SAVE_VERSION || typeof saved.rngState !== 'number' || !saved.state) return null
+    if (saved.state.isDailyChallenge && saved.state.challengeDate !== new Date().toISOString().slice(0, 10)) return null
+    return saved
+  } catch {
+    return null
+  }
+}
+
+export function clearSavedRun(): void {
+  if (typeof window === 'undefined') return
+  localStorage.removeItem(STORAGE_KEY)
+}
@@ -0,0 +1,203 @@
+/**
+ * Layered scene pipeline for the game renderer.
+ *
+ * A frame is drawn by running an ordered list of layers over a read-only
+ * view of the game. World layers draw inside the camera transform (offset to
+ * center the play area in the viewport), screen layers over it. A layer can
+ * be switched off, and new ones (debug overlays, say) can be slotted in
+ * anywhere without touching the rest of the stack.
+ *
+ * A layer that covers the whole screen — pause menu, mutator draft — returns
+ * true to stop the layers above it from drawing.
+ *
+ * Types only come from the game modules, so the renderer still has no runtime
+ * dependency on the engine.
+ */
+
+import type { Player } from './player'
+import type { Enemy, EnemyType } from './enemy'
+import type { Camera } from './camera'
+import type { ParticleSystem } from './particles'
+import type { LevelTheme, Obstacle, Hazard } from './levels'
+import type { BossZone } from './bosses'
+import type { Mutator } from './mutators'
+import type { ContractState, ConsumableType } from './contracts'
+import type { WaveAffix } from './affixes'
+import type { WaveEvent } from './waves'
+import type { Question } from './questions'
+import type { AchievementToast } from './achievements'
+import type { KeyMap } from './keymap'
+import type { AssetCache } from './assetLoader'
+
+export interface LetterFlash {
+  letter: string
+  x: number
+  y: number
+  age: number
+  color: string
+}
+
+/** Everything a frame reads from the game. GameState satisfies it as-is. */
+export interface SceneView {
+  readonly player: Player
+  readonly enemies: Enemy[]
+  readonly camera: Camera
+  readonly particles: ParticleSystem
+  readonly wave: number
+  readonly waveTimer: number
+  readonly waveActive: boolean
+  readonly gameOver: boolean
+  readonly score: number
+  readonly highScore: number
+  readonly level: number
+  readonly levelTheme: LevelTheme
+  readonly obstacles: Obstacle[]
+  readonly hazards: Hazard[]
+  readonly bossZones: BossZone[]
+  readonly levelUpTimer: number
+  readonly levelUpName: string
+  // Mutators, contracts, affixes
+  readonly mutatorSelectionActive: boolean
+  readonly mutatorChoices: Mutator[]
+  readonly activeMutators: Mutator[]
+  readonly mutatorFeedback: { name: string; description: string; color: string; timer: number } | null
+  readonly mutatorSelectionTimer: number
+  readonly mutatorPeekActive: boolean
+  readonly playerRarityGlowTimer: number
+  readonly playerRarityGlowColor: string
+  readonly contractState: ContractState
+  readonly currentAffix: WaveAffix | null
+  // Last Stand, damage and dodge feedback
+  readonly lastStandActive: boolean
+  readonly lastStandTimer: number
+  readonly lastStandUsed: boolean
+  readonly damageFlashTimer: number
+  readonly damageDir: { x: number; y: number }
+  readonly perfectDodgeTimer: number
+  readonly slashTrails: Array<{ pos: { x: number; y: number }; facing: number; attackType: string; age: number; maxAge: number }>
+  readonly damageNumbers: Array<{ value: number; pos: { x: number; y: number }; vel: { x: number; y: number }; age: number; lifetime: number; color: string }>
+  // Consumables and wave events
+  readonly consumables: ConsumableType[]
+  readonly consumableActive: { type: ConsumableType; timer: number } | null
+  readonly pendingWaveEvent: WaveEvent | null
+  readonly activeWaveEvent: WaveEvent | null
+  readonly surgeZone: { x: number; y: number; radius: number } | null
+  // Educational layer
+  readonly quizEnabled: boolean
+  readonly selectedGrade: number
+  readonly hebrewLayoutActive: boolean
+  readonly keyboardPanelTimer: number
+  readonly letterFlashes: LetterFlash[]
+  readonly questionPhase: boolean
+  readonly currentQuestion: Question | null
+  readonly questionResult: 'pending' | 'correct' | 'wrong-first' | 'wrong-final'
+  readonly questionFeedbackTimer: number
+  readonly questionTyped: string
+  readonly pendingMutatorIndex: number
+  // Pause menu, run stats, achievements
+  readonly paused: boolean
+  readonly pauseMenuSelection: number
+  readonly isDailyChallenge: boolean
+  readonly damageByEnemyType: Record<EnemyType, number>
+  readonly totalKills: number
+  readonly totalDamageDealt: number
+  readonly contractsCompleted: number
+  readonly perfectDodges: number
+  readonly runTime: number
+  readonly achievementToasts: AchievementToast[]
+}
+
+/** Playback progress shown while watching a recorded run */
+export interface ReplayView {
+  progress: number   // 0–1 through the recorded frames
+  speed: number      // playback multiplier
+}
+
+/** Leaderboard entry passed from the daily challenge system */
+export interface DailyEntry {
+  rank: number
+  player_name: string
+  score: number
+  wave_reached: number
+  is_you: boolean
+}
+
+/** One frame: the game view plus what comes from outside the simulation. */
+export interface SceneFrame {
+  view: SceneView
+  w: number                      // logical screen size (see viewport.ts)
+  h: number
+  originX: number                // screen position of world (0, 0)
+  originY: number
+  now: number
+  keymap: KeyMap
+  assets: AssetCache | null
+  dailyLeaderboard: DailyEntry[]
+  difficultyLabel: string        // badge next to the score ('' = Normal, hidden)
+  replay?: ReplayView            // undefined = live run
+}
+
+export type LayerSpace = 'world' | 'screen'
+
+export interface SceneLayer {
+  id: string
+  space: LayerSpace
+  enabled: boolean
+  /** Draw this layer; return true when it covers the screen and nothing above should draw. */
+  draw: (ctx: CanvasRenderingContext2D, frame: SceneFrame) => boolean | void
+}
+
+export interface Scene {
+  layers: SceneLayer[]
+}
+
+export function createScene(layers: SceneLayer[] = []): Scene {
+  return { layers: [...layers] }
+}
+
+export function getLayer(scene: Scene, id: string): SceneLayer | undefined {
+  return scene.layers.find(l => l.id === id)
+}
+
+/**
+ * Insert `layer` just before or after the layer with the given id, or on top
+ * of the stack when no anchor is given. A layer with the same id is replaced.
+ */
+export function addLayer(scene: Scene, layer: SceneLayer, anchor: { before?: string; after?: string } = {}): void {
+  removeLayer(scene, layer.id)
+  const id = anchor.before ?? anchor.after
+  const index = id === undefined ? -1 : scene.layers.findIndex(l => l.id === id)
+  if (index < 0) {
+    scene.layers.push(layer)
+  } else {
+    scene.layers.splice(anchor.before !== undefined ? index : index + 1, 0, layer)
+  }
+}
+
+export function removeLayer(scene: Scene, id: string): void {
+  const index = scene.layers.findIndex(l => l.id === id)
+  if (index >= 0) scene.layers.splice(index, 1)
+}
+
+export function setLayerEnabled(scene: Scene, id: string, enabled: boolean): void {
+  const layer = getLayer(scene, id)
+  if (layer) layer.enabled = enabled
+}
+
+/** Run the enabled layers bottom to top, stopping after one that covers the screen. */
+export function renderScene(ctx: CanvasRenderingContext2D, scene: Scene, frame: SceneFrame): void {
+  const { camera } = frame.view
+  for (const layer of scene.layers) {
+    if (!layer.enabled) continue
+    let covered: boolean | void
+    if (layer.space === 'world') {
+      ctx.save()
+      ctx.translate(frame.originX + camera.offsetX, frame.originY + camera.offsetY)
+      covered = layer.draw(ctx, frame)
+      ctx.restore()
+    } else {
+      covered = layer.draw(ctx, frame)
+    }
+    if (covered) return
+  }
+}
@@ -1,4 +1,5 @@
 import { getSupabaseClient, isSupabaseConfigured } from '@/lib/supabase/client'
+import { getOrCreatePlayerKey, sha256Hex } from '@/lib/supabase/daily-challenge'
 
 // localStorage key (matches existing implementation)
 const LOCAL_STORAGE_KEY = 'shadowpulse_hs'
@@ -10,6 +11,7 @@ export interface GameScore {
   durationSeconds?: number
   mutatorsSelected?: string[]
   deathCause?: string
+  playedAt?: string
 }
 
 export interface LeaderboardEntry {
@@ -56,8 +58,10 @@ export async function getHighScore(): Promise<number> {
 
 /**
  * Save a game score (saves to both local storage and Supabase if available).
+ * Signed-out runs are stored under the anonymous `playerId` so they can be
+ * linked to an account on first sign-in; only signed-in runs reach the leaderboard.
  */
-export async function saveScore(gameScore: GameScore): Promise<void> {
+export async function saveScore(gameScore: GameScore, playerId?: string): Promise<void> {
   // Always save locally first (immediate feedback)
   saveLocalHighScore(gameScore.score)
 
@@ -68,13 +72,16 @@ export async function saveScore(gameScore: GameScore): Promise<void> {
 
   try {
     const { data: { user } } = await supabase.auth.getUser()
-    if (!user) return
+    if (!user && !playerId) return
 
     const now = new Date().toISOString()
 
     // Save to game_sessions (personal history)
     await supabase.from('game_sessions').insert({
-      user_id: user.id,
+      user_id: user?.id ?? null,
+      player_id: playerId ?? null,
+      // Proves this browser wrote the row when it is later linked to an account
+      player_key_hash: !user && playerId ? await sha256Hex(getOrCreatePlayerKey()) : null,
       score: gameScore.score,
       wave_reached: gameScore.waveReached,
       level_reached: gameScore.levelReached,
@@ -83,6 +90,7 @@ export async function saveScore(gameScore: GameScore): Promise<void> {
       death_cause: gameScore.deathCause,
       played_at: now,
     })
+    if (!user) return
 
     // Check if this is a new personal best for the leaderboard
     const { data: existing } = await supabase
@@ -168,6 +176,7 @@ export async function getScoreHistory(limit = 50): Promise<GameScore[]> {
       durationSeconds: session.duration_seconds ?? undefined,
       mutatorsSelected: (session.mutators_selected as string[]) ?? undefined,
       deathCause: session.death_cause ?? undefined,
+      playedAt: session.played_at ?? undefined,
     }))
   } catch {
     return []
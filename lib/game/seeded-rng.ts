@@ -1,10 +1,12 @@
 /**
- * Seeded PRNG module for Daily Challenge mode.
+ * Seeded PRNG module.
  *
  * Provides a module-level rng() function that defaults to Math.random but
- * can be swapped to a deterministic seeded generator. All game code that
- * needs reproducible randomness imports rng() from here instead of calling
- * Math.random() directly.
+ * can be swapped to a deterministic seeded generator. Every run is seeded
+ * (Daily runs from the date, others from createRunSeed) so that a seed plus
+ * the recorded inputs reproduce the run exactly — see replay.ts. All game
+ * code that needs reproducible randomness imports rng() from here instead of
+ * calling Math.random() directly.
  */
 
 // Module-level RNG function — defaults to Math.random
@@ -40,16 +42,43 @@ export function getDailySeed(dateStr?: string): number {
   return Math.abs(hash) || 1 // ensure non-zero
 }
 
+/** Random non-zero 32-bit seed for a regular (non-Daily) run. */
+export function createRunSeed(): number {
+  return (Math.floor(Math.random() * 0xffffffff) >>> 0) || 1
+}
+
+/** A seeded generator whose position can be read back — see getRngState(). */
+export interface SeededRng {
+  (): number
+  state: number   // mulberry32 counter; resumeSeededRng(state) continues from here
+}
+
+function mulberry32(state: number): SeededRng {
+  const next = (() => {
+    next.state += 0x6d2b79f5
+    const s = next.state
+    let t = Math.imul(s ^ (s >>> 15), 1 | s)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }) as SeededRng
+  next.state = state
+  return next
+}
+
 /**
  * Create a mulberry32 seeded PRNG.
  * Fast, good distribution, passes most randomness tests.
  */
-export function createSeededRng(seed: number): () => number {
-  let s = seed >>> 0 // treat as uint32
-  return function (): number {
-    s += 0x6d2b79f5
-    let t = Math.imul(s ^ (s >>> 15), 1 | s)
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
-  }
+export function createSeededRng(seed: number): SeededRng {
+  return mulberry32(seed >>> 0) // treat as uint32
+}
+
+/** A generator that picks up exactly where the one with this counter left off. */
+export function resumeSeededRng(state: number): SeededRng {
+  return mulberry32(state)
+}
+
+/** Counter of the active seeded generator, or null while Math.random is in use. */
+export function getRngState(): number | null {
+  return 'state' in _rng ? (_rng as SeededRng).state : null
 }
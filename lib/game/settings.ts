@@ -6,6 +6,10 @@
 export const GAME_WIDTH = 1280
 export const GAME_HEIGHT = 720
 
+// Simulation — the engine always advances by SIM_DT, whatever the display rate (see timestep.ts)
+export const SIM_DT = 1 / 120
+export const MAX_FRAME_TIME = 0.25 // a longer stall (tab switch, GC pause) is dropped, not caught up
+
 // Colors
 export const BG_COLOR = '#0f0f19'
 export const PLAYER_COLOR = '#7800ff'
@@ -45,6 +49,13 @@ export const ENERGY_REGEN = 8
 export const ENERGY_PER_HIT = 12
 export const ENERGY_PERFECT_DODGE = 25
 
+// Perfect Dodge (dashing through a hit at the start of the dash)
+export const PERFECT_DODGE_WINDOW = 0.08           // seconds into a dash a hit still counts as perfectly dodged
+export const PERFECT_DODGE_SLOW_MO_DURATION = 0.35
+export const PERFECT_DODGE_SLOW_MO_SCALE = 0.3
+export const PERFECT_DODGE_STUN = 1.2              // attacker stun with the Counterstep mutator
+export const PERFECT_DODGE_COLOR = '#66ffee'
+
 // Combat - Light Attack
 export const LIGHT_DAMAGE = 12
 export const LIGHT_RANGE = 55
@@ -104,6 +115,8 @@ export const LAST_STAND_HP = 1                  // HP player survives with
 
 // Enemies
 export const ENEMY_SIZE = 18
+export const ENEMY_SEPARATION = 0.5   // Horde only: share of an overlap pushed out per tick — crowds spread instead of stacking
+export const SPATIAL_CELL_SIZE = 64   // px per spatial-hash cell (about two enemies wide)
 
 export const NORMAL_ENEMY = {
   hp: 40,
@@ -179,7 +192,16 @@ export const BOSS_ENEMY = {
   ringPulseCooldown: 1.8,
 }
 
-export const BOSS_WAVE_INTERVAL = 5 // boss spawns on wave 5, 10, 15, ...
+export const FIRST_BOSS_WAVE = 6
+export const BOSS_WAVE_INTERVAL = 3 // a boss closes every level from Inferno on: waves 6, 9, 12, ...
+export const BOSS_PHASE_TRANSITION = 0.9 // boss halts and roars this long on entering a new phase
+
+// Themed boss attacks (see bosses.ts)
+export const BOSS_FIRE_TRAIL = { interval: 0.08, walkInterval: 0.3, radius: 22, life: 2.4, dps: 16 }
+export const BOSS_FROST_ZONE = { cooldown: 3.4, warmup: 1.1, radius: 70, life: 3.0, damage: 14 }
+export const BOSS_LIGHTNING = { cooldown: 2.6, warmup: 0.8, radius: 42, damage: 22, scatter: 140 }
+export const BOSS_VOID_RIFT = { cooldown: 3.2, warmup: 1.4, radius: 55, pullRadius: 200, pull: 85, damage: 24 }
+export const BOSS_BLINK = { cooldown: 5.0, windup: 0.55, distance: 120, burstRange: 95 }
 
 // Contract Banner
 export const CONTRACT_BANNER_Y = 70
@@ -205,6 +227,21 @@ export const HAZARD_ZONE_DAMAGE = 8         // damage per second while standing
 export const HAZARD_PULSE_DAMAGE = 15       // instant damage when pulse fires
 export const HAZARD_TRAP_DAMAGE = 12        // instant damage from wall trap
 export const HAZARD_TRAP_RANGE = 220        // max range wall trap can hit player
+
+// Status Effects (see status.ts)
+export const STATUS_EFFECTS = {
+  burning:    { duration: 3.0, maxStacks: 3, color: '#ff6622' },
+  chilled:    { duration: 2.0, maxStacks: 1, color: '#88ddff' },
+  shocked:    { duration: 4.0, maxStacks: 1, color: '#ffee33' },
+  vulnerable: { duration: 4.0, maxStacks: 2, color: '#ff44aa' },
+}
+export const STATUS_STACK_GAP = 0.2          // reapplying sooner than this only refreshes (one stack per hit, not per frame)
+export const STATUS_BURN_DPS = 5             // per burning stack
+export const STATUS_CHILL_SPEED = 0.6        // movement multiplier while chilled
+export const STATUS_SHOCK_DAMAGE = 10        // discharge damage to the carrier and each neighbor it arcs to
+export const STATUS_SHOCK_RANGE = 110
+export const STATUS_SHOCK_ARCS = 2
+export const STATUS_VULNERABLE_PER_STACK = 0.25 // extra damage taken per vulnerable stack
 export const SHRINK_START_WAVE = 10         // wave to start arena shrink
 export const SHRINK_RATE = 1.5             // px per second
 export const SHRINK_MIN_RADIUS = 210        // minimum arena radius
@@ -233,7 +270,7 @@ export const DAMAGE_NUMBER_COLORS: Record<string, string> = {
 }
 
 // ── Difficulty System ─────────────────────────────────────────────────────────
-export type DifficultyLevel = 'very_easy' | 'easy' | 'normal' | 'arcade'
+export type DifficultyLevel = 'very_easy' | 'easy' | 'normal' | 'arcade' | 'horde'
 
 export interface DifficultyPreset {
   enemyDamageMult: number   // multiplied on top of level-based scaling
@@ -243,6 +280,7 @@ export interface DifficultyPreset {
   waveCountMult: number     // scales enemy count per wave (min 1 per type)
   hazardDamageMult: number
   shrinkStartWave: number   // wave number when arena starts shrinking
+  horde?: boolean           // waves are swarms of weak enemies (see getHordeWaveConfig)
 }
 
 export const DIFFICULTY_PRESETS: Record<DifficultyLevel | 'classroom', DifficultyPreset> = {
@@ -263,6 +301,12 @@ export const DIFFICULTY_PRESETS: Record<DifficultyLevel | 'classroom', Difficult
     enemyDamageMult: 1.25, enemySpeedMult: 1.12, enemyHpMult: 1.20,
     playerHpBonus: -15, waveCountMult: 1.20, hazardDamageMult: 1.25, shrinkStartWave: 8,
   },
+  // Hundreds of fragile enemies per wave; the arena never shrinks on a crowd that size
+  horde: {
+    enemyDamageMult: 0.45, enemySpeedMult: 0.90, enemyHpMult: 0.30,
+    playerHpBonus: 50, waveCountMult: 1.00, hazardDamageMult: 0.75, shrinkStartWave: Infinity,
+    horde: true,
+  },
   // Grades 3-6 classroom override (quiz-gated mutators, educational focus)
   classroom: {
     enemyDamageMult: 0.65, enemySpeedMult: 0.75, enemyHpMult: 0.80,
@@ -270,6 +314,13 @@ export const DIFFICULTY_PRESETS: Record<DifficultyLevel | 'classroom', Difficult
   },
 }
 
+// ── Horde mode ────────────────────────────────────────────────────────────────
+export const HORDE_BASE_COUNT = 150       // enemies in the first Horde wave
+export const HORDE_COUNT_PER_WAVE = 25
+export const HORDE_MAX_COUNT = 400
+export const HORDE_FAST_SHARE = 0.25      // share of the swarm that are Fast enemies
+export const HORDE_HEAVY_EVERY = 40       // one Heavy per this many enemies, from wave 4
+
 // ── Hebrew Classroom Educational Layer ───────────────────────────────────────
 export const QUESTION_FEEDBACK_DURATION = 2000   // ms to show correct answer after wrong attempt
 export const KEYBOARD_PANEL_FADE_DELAY = 30000   // ms before panel fades (Grade 3-4)
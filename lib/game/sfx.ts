@@ -0,0 +1,83 @@
+/**
+ * Sound effects as an engine event listener.
+ *
+ * The engine never calls the AudioEngine; the game component attaches this
+ * listener while it is mounted, so the simulation harness, tests and
+ * verification run without audio at all. The soundtrack follows the game
+ * view instead of events (see followMusic).
+ */
+
+import { audio } from './audio'
+import { musicCue } from './soundtrack'
+import type { GameEvent, PlayerHitSource } from './events'
+import type { SceneView } from './scene'
+
+// The arena hurts without a sound of its own; the hit sound is for enemy and boss attacks
+const SILENT_HITS: PlayerHitSource[] = ['hazard_zone', 'hazard_trap', 'hazard_pulse', 'explosion', 'contract', 'burn']
+
+export function playEventSound(event: GameEvent): void {
+  switch (event.type) {
+    case 'waveStarted':
+      audio.setMusicIntensity(event.wave)
+      audio.playWaveStart(event.wave)
+      break
+    case 'waveCleared':
+      audio.playWaveEnd()
+      break
+    case 'levelStarted':
+      audio.playLevelUp()
+      break
+    case 'attackStarted':
+      if (event.attack === 'light') audio.playAttack('light')
+      else if (event.attack === 'heavy') audio.playAttack('heavy')
+      else if (event.attack === 'pulse_wave') audio.playAttack('pulse')
+      break
+    case 'timeFlickerStarted':
+      audio.playAttack('flicker')
+      break
+    case 'dashStarted':
+      audio.playDash()
+      break
+    case 'consumableUsed':
+      audio.playConsumable(event.consumable)
+      break
+    case 'perfectDodge':
+      audio.playPerfectDodge()
+      break
+    case 'enemyKilled':
+      audio.playEnemyDeath(event.enemy.type)
+      break
+    case 'playerHit':
+      if (event.lastStand) audio.playLastStand()
+      else if (!SILENT_HITS.includes(event.source)) audio.playHit(event.damage)
+      break
+    case 'lastStandEnded':
+      audio.resumeMusic()
+      break
+    case 'bossZoneStruck':
+      audio.playBossStrike(event.zone.kind)
+      break
+    case 'bossPhaseChanged':
+      audio.playBossPhase()
+      break
+    case 'bossBlinked':
+      audio.playBossBlink()
+      break
+    case 'mutatorPicked':
+      audio.playMutatorSelect(event.mutator.rarity as 'common' | 'rare' | 'epic')
+      break
+    case 'contractCompleted':
+      audio.playContractResult(true)
+      break
+    case 'contractFailed':
+      audio.playContractResult(false)
+      break
+  }
+}
+
+/** Cue the track and ducking for the game on screen; call once per frame. */
+export function followMusic(view: SceneView): void {
+  const cue = musicCue(view)
+  audio.setSoundtrack(cue.track)
+  audio.setMusicDucked(cue.ducked)
+}
@@ -0,0 +1,219 @@
+/**
+ * Headless simulation harness for balance testing.
+ *
+ * Drives createGameState/updateGame at a fixed timestep with bot or scripted
+ * input — no canvas, no AudioEngine (sound listens on the event bus and only
+ * the component attaches it) and no localStorage (all engine access is behind
+ * a window guard).
+ * Runs in plain Node as well as under vitest.
+ */
+
+import { GameState, createGameState, updateGame } from './engine'
+import type { InputState } from './player'
+import type { EnemyType } from './enemy'
+import { DifficultyLevel, SIM_DT } from './settings'
+
+/** Produces the input for one tick. `tick` counts every updateGame call. */
+export type Bot = (state: GameState, tick: number) => InputState
+
+export interface SimulationOptions {
+  difficulty?: DifficultyLevel
+  seed?: number
+  bot?: Bot
+  dt?: number          // fixed timestep in seconds; defaults to the live game's SIM_DT
+  maxWaves?: number    // stop once this wave is cleared
+  maxTime?: number     // hard cap on simulated seconds
+}
+
+export interface WaveStats {
+  wave: number
+  cleared: boolean
+  timeToClear: number                          // seconds of active wave time
+  kills: number
+  damageTaken: Record<EnemyType, number>
+  hpAtEnd: number
+}
+
+export interface SimulationResult {
+  survived: boolean
+  finalWave: number
+  wavesCleared: number
+  score: number
+  totalKills: number
+  simulatedTime: number
+  deathCause: EnemyType | null                 // top damage source when the player died
+  waves: WaveStats[]
+}
+
+const EMPTY_INPUT: InputState = {
+  up: false,
+  down: false,
+  left: false,
+  right: false,
+  dash: false,
+  lightAttack: false,
+  heavyAttack: false,
+  heavyRelease: false,
+  pulseWave: false,
+  timeFlicker: false,
+}
+
+// ── Bots ──────────────────────────────────────────────────────────────────────
+
+function nearestEnemy(state: GameState) {
+  let best = null
+  let bestDist = Infinity
+  for (const e of state.enemies) {
+    if (!e.isAlive) continue
+    const d = Math.hypot(e.pos.x - state.player.pos.x, e.pos.y - state.player.pos.y)
+    if (d < bestDist) {
+      best = e
+      bestDist = d
+    }
+  }
+  return best ? { enemy: best, dist: bestDist } : null
+}
+
+/** Move toward (or, with `away`, from) a point using the 8-way keyboard booleans. */
+function steer(input: InputState, state: GameState, x: number, y: number, away = false): void {
+  const sign = away ? -1 : 1
+  const dx = (x - state.player.pos.x) * sign
+  const dy = (y - state.player.pos.y) * sign
+  const deadZone = 6
+  input.left = dx < -deadZone
+  input.right = dx > deadZone
+  input.up = dy < -deadZone
+  input.down = dy > deadZone
+}
+
+/** Stands still and never presses anything. Useful as a damage baseline. */
+export const idleBot: Bot = () => ({ ...EMPTY_INPUT })
+
+/** Walks up to the nearest enemy and light-attacks. No dash, no energy abilities. */
+export const passiveBot: Bot = (state, tick) => {
+  const input = { ...EMPTY_INPUT }
+  const target = nearestEnemy(state)
+  if (!target) return input
+  // Close to just inside light range, then stop — facing stays locked on the target
+  if (target.dist > 45) steer(input, state, target.enemy.pos.x, target.enemy.pos.y)
+  input.lightAttack = tick % 6 === 0
+  return input
+}
+
+/** Uses the full kit: combos, charged heavies, pulse on crowds, dashes out of attacks when low. */
+export const aggressiveBot: Bot = (state, tick) => {
+  const input = { ...EMPTY_INPUT }
+  const p = state.player
+  const target = nearestEnemy(state)
+  if (!target) return input
+
+  const crowd = state.enemies.filter(e => e.isAlive && Math.hypot(e.pos.x - p.pos.x, e.pos.y - p.pos.y) < 120).length
+  const lowHp = p.hp < p.maxHp * 0.3
+
+  if (lowHp && target.dist < 60 && target.enemy.isAttacking) {
+    steer(input, state, target.enemy.pos.x, target.enemy.pos.y, true)
+    input.dash = true
+    return input
+  }
+  if (target.dist > 45) steer(input, state, target.enemy.pos.x, target.enemy.pos.y)
+  input.pulseWave = crowd >= 3
+  input.timeFlicker = crowd >= 4
+  if (target.enemy.type === 'heavy' || target.enemy.type === 'boss') {
+    input.heavyAttack = tick % 60 < 40
+    input.heavyRelease = tick % 60 === 40
+  } else {
+    input.lightAttack = tick % 6 === 0
+  }
+  return input
+}
+
+/** Plays back a fixed list of inputs, holding the last one once it runs out. */
+export function scriptedBot(inputs: InputState[]): Bot {
+  return (_state, tick) => ({ ...(inputs[Math.min(tick, inputs.length - 1)] ?? EMPTY_INPUT) })
+}
+
+// ── Runner ────────────────────────────────────────────────────────────────────
+
+function topDamageSource(damage: Record<EnemyType, number>): EnemyType | null {
+  let top: EnemyType | null = null
+  for (const [type, amount] of Object.entries(damage) as [EnemyType, number][]) {
+    if (amount > 0 && (top === null || amount > damage[top])) top = type
+  }
+  return top
+}
+
+/**
+ * Run one game to death, `maxWaves` or `maxTime`. Menus are resolved for the
+ * bot unless it answers them itself: first mutator card, wave events declined.
+ */
+export function runSimulation(options: SimulationOptions = {}): SimulationResult {
+  const {
+    difficulty = 'normal',
+    seed = 1,
+    bot = passiveBot,
+    dt = SIM_DT,
+    maxWaves = Infinity,
+    maxTime = 600,
+  } = options
+
+  const state = createGameState(false, 1, false, 'english-vocab', difficulty, seed)
+  const waves: WaveStats[] = []
+  let current: { stats: WaveStats; killsAtStart: number; damageAtStart: Record<EnemyType, number> } | null = null
+  let wasActive = false
+  let simulatedTime = 0
+  let tick = 0
+
+  const closeWave = (cleared: boolean) => {
+    if (!current) return
+    current.stats.cleared = cleared
+    current.stats.kills = state.totalKills - current.killsAtStart
+    for (const type of Object.keys(state.damageByEnemyType) as EnemyType[]) {
+      current.stats.damageTaken[type] = state.damageByEnemyType[type] - current.damageAtStart[type]
+    }
+    current.stats.hpAtEnd = Math.max(0, state.player.hp)
+    waves.push(current.stats)
+    current = null
+  }
+
+  while (!state.gameOver && simulatedTime < maxTime) {
+    const input = bot(state, tick)
+    if (state.mutatorSelectionActive && input.mutatorChoice === undefined) input.mutatorChoice = 1
+    if (state.pendingWaveEvent && !input.acceptWaveEvent) input.rejectWaveEvent = true
+
+    updateGame(state, input, dt)
+    tick++
+    simulatedTime += dt
+
+    if (state.waveActive && !wasActive) {
+      current = {
+        stats: {
+          wave: state.wave,
+          cleared: false,
+          timeToClear: 0,
+          kills: 0,
+          damageTaken: { ...state.damageByEnemyType },
+          hpAtEnd: state.player.hp,
+        },
+        killsAtStart: state.totalKills,
+        damageAtStart: { ...state.damageByEnemyType },
+      }
+    } else if (!state.waveActive && wasActive && !state.gameOver) {
+      closeWave(true)
+      if (state.wave >= maxWaves) break
+    }
+    if (current && state.waveActive) current.stats.timeToClear += dt
+    wasActive = state.waveActive
+  }
+  closeWave(false)
+
+  return {
+    survived: !state.gameOver,
+    finalWave: state.wave,
+    wavesCleared: waves.filter(w => w.cleared).length,
+    score: state.score,
+    totalKills: state.totalKills,
+    simulatedTime,
+    deathCause: state.gameOver ? topDamageSource(state.damageByEnemyType) : null,
+    waves,
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Soundtrack definitions.
+ *
+ * Each level theme has its own procedural track — scale, tempo, oscillator
+ * timbres and drum pattern — and boss waves switch to a dedicated boss track.
+ * The audio engine plays whichever track is cued, crossfading on a change;
+ * wave intensity still decides how many layers (bass, arp, lead, drums) join
+ * in. Music ducks under the quiz and the mutator draft.
+ *
+ * musicCue() reads the cue off the game view each frame; the engine ignores
+ * repeats, so only changes cost anything.
+ *
+ * Notes are written as scale degrees from the track's root (0 = root, one
+ * scale length up = an octave up, negative = below) so the patterns read the
+ * same in any key.
+ */
+
+import type { ThemeKey } from './levels'
+import type { SceneView } from './scene'
+import { isBossWave } from './waves'
+
+export type TrackId = ThemeKey | 'boss'
+
+export interface Track {
+  bpm: number
+  root: number                       // Hz of degree 0 (third octave)
+  scale: number[]                    // semitones above the root
+  pad: number[]                      // held chord, always on
+  bass: (number | null)[]            // 8 eighth notes, an octave down; null = rest
+  arp: number[]                      // 16 sixteenth notes
+  lead: number[]                     // one note per half bar
+  // Drum steps over one bar of sixteenths: 'x' = hit. Kick joins at intensity 4, snare and hats at 6.
+  kick: string
+  snare: string
+  hat: string
+  timbre: { pad: OscillatorType; bass: OscillatorType; arp: OscillatorType; lead: OscillatorType }
+  intensityFloor: number             // play at least this intensity regardless of the wave
+}
+
+const PENTATONIC_MINOR = [0, 3, 5, 7, 10]
+const HARMONIC_MINOR = [0, 2, 3, 5, 7, 8, 11]
+const PHRYGIAN_DOMINANT = [0, 1, 4, 5, 7, 8, 10]
+
+export const TRACKS: Record<TrackId, Track> = {
+  // C minor seventh arpeggios at 120 — the original synthwave loop
+  void: {
+    bpm: 120,
+    root: 130.81,
+    scale: [0, 3, 7, 10],
+    pad: [0, 1, 2, 3],
+    bass: [0, null, null, 0, null, 0, null, null],
+    arp: [0, 2, 1, 3, 4, 2, 1, 0, -2, -1, 0, 2, 5, 4, 3, 2],
+    lead: [5, 6, 7, 8],
+    kick: 'x.......x.......',
+    snare: '................',
+    hat: '..x...x...x...x.',
+    timbre: { pad: 'triangle', bass: 'sawtooth', arp: 'square', lead: 'sawtooth' },
+    intensityFloor: 0,
+  },
+  // E phrygian dominant, four on the floor
+  inferno: {
+    bpm: 132,
+    root: 164.81,
+    scale: PHRYGIAN_DOMINANT,
+    pad: [0, 2, 4],
+    bass: [0, null, 0, null, 0, null, 1, null],
+    arp: [0, 2, 4, 2, 7, 4, 2, 1, 0, 2, 4, 5, 7, 6, 5, 4],
+    lead: [7, 9, 8, 11],
+    kick: 'x...x...x...x...',
+    snare: '....x.......x...',
+    hat: '..x...x...x...x.',
+    timbre: { pad: 'triangle', bass: 'square', arp: 'sawtooth', lead: 'square' },
+    intensityFloor: 0,
+  },
+  // Slow A minor bells, sparse drums
+  cryo: {
+    bpm: 96,
+    root: 110.0,
+    scale: [0, 2, 3, 7, 9],
+    pad: [5, 7, 9],
+    bass: [0, null, null, null, 0, null, 3, null],
+    arp: [5, 7, 9, 7, 10, 9, 7, 5, 4, 5, 7, 9, 12, 10, 9, 7],
+    lead: [10, 12, 14, 11],
+    kick: 'x.........x.....',
+    snare: '................',
+    hat: '....x.......x...',
+    timbre: { pad: 'sine', bass: 'triangle', arp: 'sine', lead: 'triangle' },
+    intensityFloor: 0,
+  },
+  // D minor pentatonic at 140, broken beat and busy hats
+  storm: {
+    bpm: 140,
+    root: 146.83,
+    scale: PENTATONIC_MINOR,
+    pad: [0, 2, 4],
+    bass: [0, 0, null, 0, null, 0, 3, null],
+    arp: [0, 3, 1, 4, 2, 5, 3, 6, 0, 4, 2, 5, 7, 5, 4, 2],
+    lead: [5, 7, 8, 9],
+    kick: 'x.....x...x.....',
+    snare: '....x.......x..x',
+    hat: 'x.xxx.xxx.xxx.xx',
+    timbre: { pad: 'triangle', bass: 'sawtooth', arp: 'sawtooth', lead: 'square' },
+    intensityFloor: 0,
+  },
+  // B locrian drift at 84, mostly sine
+  abyss: {
+    bpm: 84,
+    root: 123.47,
+    scale: [0, 1, 3, 6, 8],
+    pad: [0, 2, 3],
+    bass: [0, null, null, null, null, null, 1, null],
+    arp: [0, 2, 4, 2, 5, 4, 2, 1, 0, 1, 3, 1, 5, 6, 5, 3],
+    lead: [5, 8, 6, 9],
+    kick: 'x.......x..x....',
+    snare: '................',
+    hat: '......x.......x.',
+    timbre: { pad: 'sine', bass: 'sine', arp: 'triangle', lead: 'sine' },
+    intensityFloor: 0,
+  },
+  // F# harmonic minor at 150, saw and square throughout
+  apocalypse: {
+    bpm: 150,
+    root: 185.0,
+    scale: HARMONIC_MINOR,
+    pad: [0, 2, 4],
+    bass: [0, null, 0, 0, null, 0, 5, null],
+    arp: [0, 2, 4, 7, 4, 2, 6, 4, 0, 3, 5, 7, 9, 7, 6, 4],
+    lead: [7, 9, 11, 13],
+    kick: 'x...x...x...x.x.',
+    snare: '....x.......x...',
+    hat: '..x.x.x...x.x.x.',
+    timbre: { pad: 'sawtooth', bass: 'sawtooth', arp: 'square', lead: 'sawtooth' },
+    intensityFloor: 0,
+  },
+  // C# phrygian dominant at 160 — starts with the lead in
+  boss: {
+    bpm: 160,
+    root: 138.59,
+    scale: PHRYGIAN_DOMINANT,
+    pad: [0, 1, 4],
+    bass: [0, 0, null, 0, 0, null, 1, null],
+    arp: [0, 1, 0, 4, 0, 1, 0, 5, 0, 1, 0, 6, 7, 6, 5, 4],
+    lead: [7, 8, 7, 11],
+    kick: 'x..x..x.x..x..x.',
+    snare: '....x.......x.x.',
+    hat: 'x.x.x.x.x.x.x.x.',
+    timbre: { pad: 'sawtooth', bass: 'square', arp: 'square', lead: 'sawtooth' },
+    intensityFloor: 5,
+  },
+}
+
+/** Frequency of scale degree `degree` in `track`. */
+export function noteFrequency(track: Track, degree: number): number {
+  const n = track.scale.length
+  const octave = Math.floor(degree / n)
+  const semitones = track.scale[degree - octave * n] + 12 * octave
+  return track.root * Math.pow(2, semitones / 12)
+}
+
+export interface MusicCue {
+  track: TrackId
+  ducked: boolean
+}
+
+/**
+ * What the music should be doing for the game on screen: the level's track,
+ * the boss track while a boss wave is being fought, and ducked under the quiz
+ * and the mutator draft.
+ */
+export function musicCue(view: Pick<SceneView, 'wave' | 'waveActive' | 'levelTheme' | 'mutatorSelectionActive' | 'questionPhase'>): MusicCue {
+  return {
+    track: view.waveActive && isBossWave(view.wave) ? 'boss' : view.levelTheme.themeKey,
+    ducked: view.mutatorSelectionActive || view.questionPhase,
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Uniform-grid spatial hash.
+ *
+ * Combat, enemy separation and area damage ask "which enemies are near this
+ * point?". Scanning the whole list is fine for a dozen enemies but not for a
+ * Horde wave of hundreds, so the engine rebuilds this grid each tick (one
+ * pass) and queries it instead.
+ *
+ * A query returns candidates in their original array order, so replacing a
+ * full loop with a query never changes which enemy is handled first — replays
+ * and Daily verification re-simulate identically. Callers still do their own
+ * exact distance check.
+ */
+
+import type { Vec2 } from './vec2'
+import { SPATIAL_CELL_SIZE } from './settings'
+
+export interface SpatialBody {
+  pos: Vec2
+  size: number   // radius
+}
+
+export interface SpatialGrid<T extends SpatialBody> {
+  cellSize: number
+  cells: Map<number, number[]>   // cell key → indices into `items`
+  items: T[]
+  maxSize: number                // largest radius inserted; queries widen by it
+}
+
+// Cells are keyed by packing both coordinates into one number (arena cells stay well inside ±1024)
+const cellKey = (cx: number, cy: number) => (cx + 1024) * 4096 + (cy + 1024)
+
+export function createSpatialGrid<T extends SpatialBody>(cellSize = SPATIAL_CELL_SIZE): SpatialGrid<T> {
+  return { cellSize, cells: new Map(), items: [], maxSize: 0 }
+}
+
+/** Re-bucket `items` at their current positions. Cell arrays are reused between ticks. */
+export function rebuildSpatialGrid<T extends SpatialBody>(grid: SpatialGrid<T>, items: T[]): void {
+  for (const bucket of grid.cells.values()) bucket.length = 0
+  grid.items = items
+  grid.maxSize = 0
+  for (let i = 0; i < items.length; i++) {
+    const { pos, size } = items[i]
+    const key = cellKey(Math.floor(pos.x / grid.cellSize), Math.floor(pos.y / grid.cellSize))
+    let bucket = grid.cells.get(key)
+    if (!bucket) {
+      bucket = []
+      grid.cells.set(key, bucket)
+    }
+    bucket.push(i)
+    if (size > grid.maxSize) grid.maxSize = size
+  }
+}
+
+/**
+ * Every item whose body could touch the circle at `center` with `radius`, in
+ * array order. Fills and returns `out` so hot loops can reuse one array.
+ */
+export function queryCircle<T extends SpatialBody>(grid: SpatialGrid<T>, center: Vec2, radius: number, out: T[] = []): T[] {
+  out.length = 0
+  const reach = radius + grid.maxSize
+  const minX = Math.floor((center.x - reach) / grid.cellSize)
+  const maxX = Math.floor((center.x + reach) / grid.cellSize)
+  const minY = Math.floor((center.y - reach) / grid.cellSize)
+  const maxY = Math.floor((center.y + reach) / grid.cellSize)
+  const indices: number[] = []
+  for (let cx = minX; cx <= maxX; cx++) {
+    for (let cy = minY; cy <= maxY; cy++) {
+      const bucket = grid.cells.get(cellKey(cx, cy))
+      if (bucket) for (const i of bucket) indices.push(i)
+    }
+  }
+  indices.sort((a, b) => a - b)
+  for (const i of indices) out.push(grid.items[i])
+  return out
+}
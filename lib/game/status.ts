@@ -0,0 +1,95 @@
+// ==============================
+// SHADOW PULSE - Status Effects
+// ==============================
+//
+// Elemental effects carried by both Player and Enemy:
+//   burning    — damage over time, stacks up to 3
+//   chilled    — slower movement, refresh only
+//   shocked    — the next hit discharges it: extra damage to the carrier,
+//                arcing to nearby enemies
+//   vulnerable — takes more damage, stacks up to 2
+//
+// Hits add a stack; continuous sources (floor zones) pass stacks = 0 and
+// only keep the effect topped up. The shock arc needs the whole enemy list,
+// so damage sets `discharged` and the engine fires the arc — the same
+// hand-off spawners use.
+
+import * as S from './settings'
+import type { EnemyType } from './enemy'
+
+export type StatusKind = 'burning' | 'chilled' | 'shocked' | 'vulnerable'
+
+export const STATUS_KINDS: StatusKind[] = ['burning', 'chilled', 'shocked', 'vulnerable']
+
+export interface ActiveStatus {
+  time: number     // seconds left
+  stacks: number
+  carry: number    // burn damage not yet dealt as a whole point
+  source?: EnemyType // enemy that last applied it, for the death recap (unset for zones and hazards)
+}
+
+export interface StatusEffects {
+  active: Partial<Record<StatusKind, ActiveStatus>>
+  discharged: boolean // a shock went off this frame; the engine arcs it to neighbors
+}
+
+export function createStatusEffects(): StatusEffects {
+  return { active: {}, discharged: false }
+}
+
+/**
+ * Apply or refresh `kind`. `stacks` = 0 refreshes without stacking (for zones
+ * standing on the effect). `source` is the enemy type behind it, if any.
+ */
+export function applyStatus(effects: StatusEffects, kind: StatusKind, stacks = 1, source?: EnemyType): void {
+  const rule = S.STATUS_EFFECTS[kind]
+  const current = effects.active[kind]
+  if (!current) {
+    effects.active[kind] = source ? { time: rule.duration, stacks: 1, carry: 0, source } : { time: rule.duration, stacks: 1, carry: 0 }
+    return
+  }
+  if (source) current.source = source
+  const fresh = rule.duration - current.time >= S.STATUS_STACK_GAP
+  if (fresh) current.stacks = Math.min(rule.maxStacks, current.stacks + stacks)
+  current.time = rule.duration
+}
+
+export function hasStatus(effects: StatusEffects, kind: StatusKind): boolean {
+  return effects.active[kind] !== undefined
+}
+
+/** Run effect timers down. Returns the whole points of burn damage due this step. */
+export function tickStatus(effects: StatusEffects, dt: number): number {
+  let burn = 0
+  for (const kind of STATUS_KINDS) {
+    const status = effects.active[kind]
+    if (!status) continue
+    if (kind === 'burning') {
+      status.carry += S.STATUS_BURN_DPS * status.stacks * dt
+      burn = Math.floor(status.carry)
+      status.carry -= burn
+    }
+    status.time -= dt
+    if (status.time <= 0) delete effects.active[kind]
+  }
+  return burn
+}
+
+export function statusSpeedMultiplier(effects: StatusEffects): number {
+  return hasStatus(effects, 'chilled') ? S.STATUS_CHILL_SPEED : 1
+}
+
+/**
+ * Damage after status: vulnerable scales it up, and a shock discharges into
+ * it (flagging `discharged` so the engine can arc to neighbors).
+ */
+export function applyHitStatus(effects: StatusEffects, damage: number): number {
+  const vulnerable = effects.active.vulnerable?.stacks ?? 0
+  let total = Math.round(damage * (1 + vulnerable * S.STATUS_VULNERABLE_PER_STACK))
+  if (effects.active.shocked) {
+    delete effects.active.shocked
+    effects.discharged = true
+    total += S.STATUS_SHOCK_DAMAGE
+  }
+  return total
+}
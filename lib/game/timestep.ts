@@ -0,0 +1,81 @@
+/**
+ * Fixed-timestep simulation.
+ *
+ * updateGame always advances by SIM_DT. The game loop banks each display
+ * frame's real time in an accumulator and runs as many whole steps as it
+ * holds — two per frame at 60Hz, about one at 144Hz, four at 30fps — so dash
+ * distance, hazard damage and contract timers come out the same on every
+ * screen, and a slow machine catches up instead of running in slow motion.
+ *
+ * Rendering then places moving bodies between their last two simulated
+ * positions by the leftover fraction of a step, so motion stays smooth when
+ * the display and simulation rates don't line up.
+ */
+
+import type { GameState } from './engine'
+import { Vec2, lerp } from './vec2'
+import { SIM_DT, MAX_FRAME_TIME } from './settings'
+
+const STEP_EPSILON = 1e-6  // of a step
+
+export interface FixedStepClock {
+  accumulator: number   // real seconds banked but not yet simulated
+}
+
+export function createFixedStepClock(): FixedStepClock {
+  return { accumulator: 0 }
+}
+
+/** Bank one display frame of real time. Returns the number of SIM_DT steps to run now. */
+export function tickClock(clock: FixedStepClock, frameDt: number): number {
+  clock.accumulator += Math.min(Math.max(frameDt, 0), MAX_FRAME_TIME)
+  // A hair of slack, so rounding in the banked frame times can't hold a whole step back a frame
+  const steps = Math.floor(clock.accumulator / SIM_DT + STEP_EPSILON)
+  clock.accumulator = Math.max(0, clock.accumulator - steps * SIM_DT)
+  return steps
+}
+
+/** How far the display sits between the last step and the next one (0–1). */
+export function interpolationAlpha(clock: FixedStepClock): number {
+  return Math.min(1, clock.accumulator / SIM_DT)
+}
+
+// ── Interpolated rendering ────────────────────────────────────────────────────
+
+export interface PositionSnapshot {
+  player: Vec2
+  enemies: Map<number, Vec2>
+}
+
+/** Positions before a step — taken ahead of the last step run each frame. */
+export function snapshotPositions(state: GameState): PositionSnapshot {
+  return {
+    player: { ...state.player.pos },
+    enemies: new Map(state.enemies.map(e => [e.id, { ...e.pos }])),
+  }
+}
+
+/**
+ * Run `draw` with the player and enemies moved `alpha` of the way from `prev`
+ * to where the simulation has them, then put the simulated positions back.
+ * Enemies spawned in the last step have no earlier position and draw as-is.
+ */
+export function drawInterpolated(state: GameState, prev: PositionSnapshot | null, alpha: number, draw: () => void): void {
+  if (!prev) {
+    draw()
+    return
+  }
+  const playerPos = state.player.pos
+  const enemyPos = state.enemies.map(e => e.pos)
+  state.player.pos = lerp(prev.player, playerPos, alpha)
+  for (const enemy of state.enemies) {
+    const from = prev.enemies.get(enemy.id)
+    if (from) enemy.pos = lerp(from, enemy.pos, alpha)
+  }
+  try {
+    draw()
+  } finally {
+    state.player.pos = playerPos
+    state.enemies.forEach((e, i) => { e.pos = enemyPos[i] })
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * Teacher-imported topic packs.
+ *
+ * A pack is a QuestionTopic supplied as JSON or CSV instead of a TypeScript
+ * file. Packs are validated on import, stored in localStorage and registered
+ * with questions.ts so they show up in the Classroom topic dropdown.
+ *
+ * JSON: `{ "displayName": "...", "questions": [Question, ...] }` or a bare array.
+ *       Any question kind is allowed (see the Question union in questions.ts).
+ * CSV:  header row `id,englishWord,emoji,hebrewHint,optionA,optionB,optionC,optionD,correctIndex,grade,difficulty`
+ *       — 4-option translation questions only; correctIndex may be 0–3 or A–D.
+ */
+
+import { Question, QuestionTopic, TOPICS, setCustomTopics } from './questions'
+
+const STORAGE_KEY = 'shadowpulse_topic_packs'
+
+export const CSV_COLUMNS = [
+  'id',
+  'englishWord',
+  'emoji',
+  'hebrewHint',
+  'optionA',
+  'optionB',
+  'optionC',
+  'optionD',
+  'correctIndex',
+  'grade',
+  'difficulty',
+] as const
+
+const GRADES = [3, 4, 5, 6] as const
+const DIFFICULTIES = [1, 2, 3] as const
+const MIN_PER_CELL = 1
+
+export interface TopicPackIssue {
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export interface TopicPackImport {
+  topic: QuestionTopic | null   // null when the file couldn't be parsed or has errors
+  issues: TopicPackIssue[]
+}
+
+/** A pack as read from a file, before validateTopicPack() has checked its questions. */
+export interface TopicPackDraft {
+  id: string
+  displayName: string
+  questions: unknown[]
+}
+
+// ── Parsing ───────────────────────────────────────────────────────────────────
+
+/** Split CSV text into rows of fields. Handles quoted fields, "" escapes and CRLF. */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++ }
+      else if (c === '"') quoted = false
+      else field += c
+    } else if (c === '"') {
+      quoted = true
+    } else if (c === ',') {
+      row.push(field)
+      field = ''
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      if (row.some(f => f.trim() !== '')) rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += c
+    }
+  }
+  row.push(field)
+  if (row.some(f => f.trim() !== '')) rows.push(row)
+  return rows
+}
+
+function parseIndex(raw: string): number {
+  const letter = 'ABCD'.indexOf(raw.trim().toUpperCase())
+  return letter >= 0 ? letter : Number(raw)
+}
+
+export function parseTopicPackCsv(text: string, displayName: string): TopicPackImport {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''))
+  const header = rows.shift()?.map(h => h.trim()) ?? []
+  const missing = CSV_COLUMNS.filter(c => !header.includes(c))
+  if (missing.length > 0) {
+    return { topic: null, issues: [{ severity: 'error', message: `Missing CSV columns: ${missing.join(', ')}` }] }
+  }
+  const col = (row: string[], name: (typeof CSV_COLUMNS)[number]) => (row[header.indexOf(name)] ?? '').trim()
+  const questions = rows.map(row => ({
+    id: col(row, 'id'),
+    englishWord: col(row, 'englishWord'),
+    emoji: col(row, 'emoji'),
+    hebrewHint: col(row, 'hebrewHint'),
+    options: [col(row, 'optionA'), col(row, 'optionB'), col(row, 'optionC'), col(row, 'optionD')],
+    correctIndex: parseIndex(col(row, 'correctIndex')),
+    grade: Number(col(row, 'grade')),
+    difficulty: Number(col(row, 'difficulty')),
+  }))
+  return finishImport({ id: '', displayName, questions })
+}
+
+export function parseTopicPackJson(text: string, displayName: string): TopicPackImport {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { topic: null, issues: [{ severity: 'error', message: 'File is not valid JSON' }] }
+  }
+  const obj = (Array.isArray(data) ? { questions: data } : data) as { id?: unknown; displayName?: unknown; questions?: unknown } | null
+  if (!obj || !Array.isArray(obj.questions)) {
+    return { topic: null, issues: [{ severity: 'error', message: 'Expected a "questions" array' }] }
+  }
+  return finishImport({
+    id: typeof obj.id === 'string' ? obj.id : '',
+    displayName: typeof obj.displayName === 'string' && obj.displayName.trim() ? obj.displayName.trim() : displayName,
+    questions: obj.questions,
+  })
+}
+
+/** Parse a pack file, picking the format from the extension (falls back to sniffing). */
+export function importTopicPack(text: string, fileName: string): TopicPackImport {
+  const baseName = fileName.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || 'Imported Topic'
+  const isJson = /\.json$/i.test(fileName) || (!/\.csv$/i.test(fileName) && /^\s*[[{]/.test(text))
+  return isJson ? parseTopicPackJson(text, baseName) : parseTopicPackCsv(text, baseName)
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9\u0590-\u05ff]+/g, '-').replace(/^-+|-+$/g, '') || 'topic'
+}
+
+/** `base`, or the first of `base-2`, `base-3`, … that no built-in or stored topic uses. */
+function uniqueTopicId(base: string, stored: QuestionTopic[]): string {
+  const used = new Set([...TOPICS, ...stored].map(t => t.id))
+  if (!used.has(base)) return base
+  let n = 2
+  while (used.has(`${base}-${n}`)) n++
+  return `${base}-${n}`
+}
+
+function finishImport(draft: TopicPackDraft): TopicPackImport {
+  // Imported ids are namespaced so they can never shadow a built-in topic
+  const base = draft.id && !draft.id.startsWith('pack-') ? `pack-${draft.id}` : draft.id || `pack-${slugify(draft.displayName)}`
+  const stored = loadTopicPacks()
+  const withId = { ...draft, id: uniqueTopicId(base, stored) }
+  const issues = validateTopicPack(withId, stored)
+  if (issues.some(i => i.severity === 'error')) return { topic: null, issues }
+  // Every question passed validation, so the draft is a real topic now
+  return { topic: { ...withId, questions: withId.questions as Question[] }, issues }
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+/**
+ * Check a pack before it is stored. Errors block the import; warnings (thin
+ * grade × difficulty coverage) don't, because getQuestion() falls back to
+ * neighbouring cells.
+ *
+ * Question ids must be unique across every topic, built-in and `stored`:
+ * learning records and class answer logs are keyed by question id alone.
+ */
+export function validateTopicPack(topic: TopicPackDraft, stored: QuestionTopic[] = []): TopicPackIssue[] {
+  const issues: TopicPackIssue[] = []
+  const error = (message: string) => issues.push({ severity: 'error', message })
+
+  if (!topic.displayName.trim()) error('Topic needs a display name')
+  if (topic.questions.length === 0) {
+    error('Topic has no questions')
+    return issues
+  }
+
+  const builtInIds = new Set(TOPICS.flatMap(t => t.questions.map(q => q.id)))
+  const packOf = new Map<string, string>()
+  for (const pack of stored) {
+    if (pack.id !== topic.id) for (const q of pack.questions) packOf.set(q.id, pack.displayName)
+  }
+  const seen = new Set<string>()
+  const perCell = new Map<string, number>()
+  topic.questions.forEach((raw, i) => {
+    const q = raw as Question | null   // checked field by field below
+    const where = `Question ${i + 1}${q?.id ? ` (${q.id})` : ''}`
+    if (!q || typeof q !== 'object') {
+      error(`${where}: not an object`)
+      return
+    }
+    if (typeof q.id !== 'string' || !q.id.trim()) error(`${where}: missing id`)
+    else if (seen.has(q.id)) error(`${where}: duplicate id`)
+    else if (builtInIds.has(q.id)) error(`${where}: id already used by a built-in topic`)
+    else if (packOf.has(q.id)) error(`${where}: id already used by the "${packOf.get(q.id)}" pack`)
+    seen.add(q.id)
+
+    const text = (field: string, value: unknown) => {
+      if (typeof value !== 'string' || !value.trim()) error(`${where}: missing ${field}`)
+    }
+    const choices = (options: unknown, correctIndex: unknown) => {
+      if (!Array.isArray(options) || options.length !== 4) {
+        error(`${where}: needs exactly 4 options`)
+      } else if (options.some(o => typeof o !== 'string' || !o.trim())) {
+        error(`${where}: options can't be empty`)
+      } else if (new Set(options).size !== 4) {
+        error(`${where}: options must be different from each other`)
+      }
+      if (![0, 1, 2, 3].includes(correctIndex as number)) error(`${where}: correctIndex must be 0–3 (A–D)`)
+    }
+
+    switch (q.kind) {
+      case undefined:
+      case 'choice':
+        text('englishWord', q.englishWord)
+        text('emoji', q.emoji)
+        text('hebrewHint', q.hebrewHint)
+        choices(q.options, q.correctIndex)
+        break
+      case 'emoji-match':
+        text('englishWord', q.englishWord)
+        choices(q.options, q.correctIndex)
+        break
+      case 'true-false':
+        text('statement', q.statement)
+        text('emoji', q.emoji)
+        if (typeof q.answer !== 'boolean') error(`${where}: answer must be true or false`)
+        break
+      case 'spelling':
+        text('hebrewHint', q.hebrewHint)
+        text('emoji', q.emoji)
+        text('answer', q.answer)
+        break
+      case 'number':
+        text('prompt', q.prompt)
+        if (typeof q.answer !== 'number' || !Number.isFinite(q.answer)) error(`${where}: answer must be a number`)
+        break
+      default:
+        error(`${where}: unknown kind "${(q as { kind: unknown }).kind}"`)
+    }
+    if (!(GRADES as readonly number[]).includes(q.grade)) error(`${where}: grade must be 3–6`)
+    if (!(DIFFICULTIES as readonly number[]).includes(q.difficulty)) error(`${where}: difficulty must be 1–3`)
+    const cell = `G${q.grade}·D${q.difficulty}`
+    perCell.set(cell, (perCell.get(cell) ?? 0) + 1)
+  })
+
+  const emptyCells: string[] = []
+  for (const grade of GRADES) {
+    for (const difficulty of DIFFICULTIES) {
+      const cell = `G${grade}·D${difficulty}`
+      if ((perCell.get(cell) ?? 0) < MIN_PER_CELL) emptyCells.push(cell)
+    }
+  }
+  if (emptyCells.length > 0) {
+    issues.push({ severity: 'warning', message: `No questions for ${emptyCells.join(', ')} — nearby cells will be used` })
+  }
+  return issues
+}
+
+// ── Storage ───────────────────────────────────────────────────────────────────
+
+export function loadTopicPacks(): QuestionTopic[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as QuestionTopic[]
+    // Re-validate: a pack edited by hand in devtools shouldn't break the quiz
+    return Array.isArray(stored)
+      ? stored.filter(t => t && Array.isArray(t.questions) && !validateTopicPack(t).some(i => i.severity === 'error'))
+      : []
+  } catch {
+    return []
+  }
+}
+
+function persist(packs: QuestionTopic[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(packs))
+  setCustomTopics(packs)
+}
+
+/** Load stored packs into the question registry. Call once on startup. */
+export function registerStoredTopicPacks(): QuestionTopic[] {
+  const packs = loadTopicPacks()
+  setCustomTopics(packs)
+  return packs
+}
+
+/**
+ * Store a validated pack alongside the others. A pack whose id was taken
+ * since it was imported gets the next free one instead of replacing the
+ * stored pack. Returns the pack as stored, or null if another pack has taken
+ * one of its question ids in the meantime.
+ */
+export function saveTopicPack(topic: QuestionTopic): QuestionTopic | null {
+  const packs = loadTopicPacks()
+  const stored = { ...topic, id: uniqueTopicId(topic.id, packs) }
+  if (validateTopicPack(stored, packs).some(i => i.severity === 'error')) return null
+  persist([...packs, stored])
+  return stored
+}
+
+export function removeTopicPack(topicId: string): void {
+  persist(loadTopicPacks().filter(t => t.id !== topicId))
+}
@@ -7,6 +7,8 @@
 // ║   4. In lib/game/questions.ts:                                              ║
 // ║        import { myTopicTopic } from './topics/my-topic'                     ║
 // ║        export const TOPICS = [englishVocabTopic, myTopicTopic]              ║
+// ║  No code needed? Teachers can import the same fields as a JSON or CSV file  ║
+// ║  from the Classroom panel (TOPIC → IMPORT) — see lib/game/topic-packs.ts.  ║
 // ╚══════════════════════════════════════════════════════════════════════════════╝
 
 import { Question, QuestionTopic } from '../questions'
@@ -38,6 +40,15 @@ import { Question, QuestionTopic } from '../questions'
 //                 wave 5–8  → 2  (medium)
 //                 wave 9+   → 3  (hard / abstract)
 //
+// ── Other question kinds ────────────────────────────────────────────────────
+//  The fields above describe the default 4-option translation question.
+//  Set `kind` for the other formats (see the Question union in questions.ts
+//  and topics/math-basics.ts for examples):
+//    'true-false'   statement, emoji, answer: true | false      — keys T / F
+//    'spelling'     hebrewHint, emoji, answer: 'english word'   — typed + Enter
+//    'number'       prompt, answer: 42                          — typed + Enter
+//    'emoji-match'  englishWord, options: [4 emoji], correctIndex — keys A–D
+//
 // ── Pool size advice ─────────────────────────────────────────────────────────
 //  Aim for ≥ 5 questions per (grade × difficulty) cell.
 //  If a cell is empty, getQuestion() falls back in this order:
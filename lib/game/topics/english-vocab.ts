@@ -5260,5 +5260,17 @@ export const englishVocabTopic: QuestionTopic = {
       grade: 6,
       difficulty: 3,
     },
+
+    // ── Mixed formats — spelling, emoji match, true/false ────────────────────
+    { id: 'ev-sp-01', kind: 'spelling', hebrewHint: 'כלב', emoji: '🐶', answer: 'dog', grade: 3, difficulty: 1 },
+    { id: 'ev-sp-02', kind: 'spelling', hebrewHint: 'שמש', emoji: '☀️', answer: 'sun', grade: 3, difficulty: 2 },
+    { id: 'ev-sp-03', kind: 'spelling', hebrewHint: 'ספר', emoji: '📖', answer: 'book', grade: 4, difficulty: 1 },
+    { id: 'ev-sp-04', kind: 'spelling', hebrewHint: 'חבר', emoji: '🤝', answer: 'friend', grade: 5, difficulty: 2 },
+    { id: 'ev-em-01', kind: 'emoji-match', englishWord: 'apple', options: ['🍌', '🍎', '🍇', '🍐'], correctIndex: 1, grade: 3, difficulty: 1 },
+    { id: 'ev-em-02', kind: 'emoji-match', englishWord: 'rain', options: ['🌧️', '☀️', '❄️', '🌈'], correctIndex: 0, grade: 3, difficulty: 2 },
+    { id: 'ev-em-03', kind: 'emoji-match', englishWord: 'bridge', options: ['🏠', '🚗', '🌉', '⛵'], correctIndex: 2, grade: 4, difficulty: 2 },
+    { id: 'ev-tf-01', kind: 'true-false', statement: 'cat = חתול', emoji: '🐱', answer: true, grade: 3, difficulty: 1 },
+    { id: 'ev-tf-02', kind: 'true-false', statement: 'big = קטן', emoji: '🐘', answer: false, grade: 3, difficulty: 2 },
+    { id: 'ev-tf-03', kind: 'true-false', statement: 'brave = אמיץ', emoji: '🦁', answer: true, grade: 4, difficulty: 3 },
   ] as Question[],
 }
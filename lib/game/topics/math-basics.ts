@@ -0,0 +1,65 @@
+import { Question, QuestionTopic } from '../questions'
+
+// Typed-number and true/false questions — the student answers with the
+// keyboard (digits + Enter, or T / F) instead of picking A/B/C/D.
+export const mathBasicsTopic: QuestionTopic = {
+  id: 'math-basics',
+  displayName: 'Math Basics',
+  questions: [
+    // ── Grade 3 — difficulty 1 ────────────────────────────────────────────────
+    { id: 'mb-g3-01', kind: 'number', prompt: '8 + 7', answer: 15, grade: 3, difficulty: 1 },
+    { id: 'mb-g3-02', kind: 'number', prompt: '20 − 6', answer: 14, grade: 3, difficulty: 1 },
+    { id: 'mb-g3-03', kind: 'true-false', statement: '5 + 5 = 10', emoji: '✋', answer: true, grade: 3, difficulty: 1 },
+
+    // ── Grade 3 — difficulty 2 ────────────────────────────────────────────────
+    { id: 'mb-g3-04', kind: 'number', prompt: '36 + 47', answer: 83, grade: 3, difficulty: 2 },
+    { id: 'mb-g3-05', kind: 'number', prompt: '4 × 6', answer: 24, grade: 3, difficulty: 2 },
+    { id: 'mb-g3-06', kind: 'true-false', statement: '3 × 5 = 18', emoji: '🧮', answer: false, grade: 3, difficulty: 2 },
+
+    // ── Grade 3 — difficulty 3 ────────────────────────────────────────────────
+    { id: 'mb-g3-07', kind: 'number', prompt: '100 − 38', answer: 62, grade: 3, difficulty: 3 },
+    { id: 'mb-g3-08', kind: 'number', prompt: '7 × 8', answer: 56, grade: 3, difficulty: 3 },
+
+    // ── Grade 4 — difficulty 1 ────────────────────────────────────────────────
+    { id: 'mb-g4-01', kind: 'number', prompt: '9 × 6', answer: 54, grade: 4, difficulty: 1 },
+    { id: 'mb-g4-02', kind: 'number', prompt: '45 ÷ 5', answer: 9, grade: 4, difficulty: 1 },
+    { id: 'mb-g4-03', kind: 'true-false', statement: '8 × 7 = 56', emoji: '🧮', answer: true, grade: 4, difficulty: 1 },
+
+    // ── Grade 4 — difficulty 2 ────────────────────────────────────────────────
+    { id: 'mb-g4-04', kind: 'number', prompt: '12 × 11', answer: 132, grade: 4, difficulty: 2 },
+    { id: 'mb-g4-05', kind: 'number', prompt: '250 + 375', answer: 625, grade: 4, difficulty: 2 },
+    { id: 'mb-g4-06', kind: 'true-false', statement: '72 ÷ 8 = 8', emoji: '🍕', answer: false, grade: 4, difficulty: 2 },
+
+    // ── Grade 4 — difficulty 3 ────────────────────────────────────────────────
+    { id: 'mb-g4-07', kind: 'number', prompt: '1000 − 457', answer: 543, grade: 4, difficulty: 3 },
+    { id: 'mb-g4-08', kind: 'number', prompt: '144 ÷ 12', answer: 12, grade: 4, difficulty: 3 },
+
+    // ── Grade 5 — difficulty 1 ────────────────────────────────────────────────
+    { id: 'mb-g5-01', kind: 'number', prompt: '0.5 + 0.25', answer: 0.75, grade: 5, difficulty: 1 },
+    { id: 'mb-g5-02', kind: 'number', prompt: '25 × 4', answer: 100, grade: 5, difficulty: 1 },
+    { id: 'mb-g5-03', kind: 'true-false', statement: '½ = 0.5', emoji: '🍰', answer: true, grade: 5, difficulty: 1 },
+
+    // ── Grade 5 — difficulty 2 ────────────────────────────────────────────────
+    { id: 'mb-g5-04', kind: 'number', prompt: '3.6 × 10', answer: 36, grade: 5, difficulty: 2 },
+    { id: 'mb-g5-05', kind: 'number', prompt: '¾ of 20', answer: 15, grade: 5, difficulty: 2 },
+    { id: 'mb-g5-06', kind: 'true-false', statement: '⅓ > ½', emoji: '🍰', answer: false, grade: 5, difficulty: 2 },
+
+    // ── Grade 5 — difficulty 3 ────────────────────────────────────────────────
+    { id: 'mb-g5-07', kind: 'number', prompt: '2.4 ÷ 0.6', answer: 4, grade: 5, difficulty: 3 },
+    { id: 'mb-g5-08', kind: 'number', prompt: '15 × 15', answer: 225, grade: 5, difficulty: 3 },
+
+    // ── Grade 6 — difficulty 1 ────────────────────────────────────────────────
+    { id: 'mb-g6-01', kind: 'number', prompt: '10% of 80', answer: 8, grade: 6, difficulty: 1 },
+    { id: 'mb-g6-02', kind: 'number', prompt: '−3 + 7', answer: 4, grade: 6, difficulty: 1 },
+    { id: 'mb-g6-03', kind: 'true-false', statement: '−5 < −2', emoji: '🌡️', answer: true, grade: 6, difficulty: 1 },
+
+    // ── Grade 6 — difficulty 2 ────────────────────────────────────────────────
+    { id: 'mb-g6-04', kind: 'number', prompt: '25% of 60', answer: 15, grade: 6, difficulty: 2 },
+    { id: 'mb-g6-05', kind: 'number', prompt: '2³', answer: 8, grade: 6, difficulty: 2 },
+    { id: 'mb-g6-06', kind: 'true-false', statement: '0.2 = ⅕', emoji: '🔢', answer: true, grade: 6, difficulty: 2 },
+
+    // ── Grade 6 — difficulty 3 ────────────────────────────────────────────────
+    { id: 'mb-g6-07', kind: 'number', prompt: '−4 × −6', answer: 24, grade: 6, difficulty: 3 },
+    { id: 'mb-g6-08', kind: 'number', prompt: '3x = 27,  x = ?', answer: 9, grade: 6, difficulty: 3 },
+  ] as Question[],
+}
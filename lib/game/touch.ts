@@ -0,0 +1,177 @@
+/**
+ * On-screen controls for tablets and phones.
+ *
+ * The left half of the screen is a floating joystick — it centres wherever the
+ * thumb lands — that feeds InputState.move. Ability buttons on the right press
+ * the same keys the keyboard does, so hold-to-charge and one-shot handling stay
+ * in the component's key handler. Overlays (mutator cards, quiz answers, wave
+ * offers, the pause menu) are tapped directly; see tapKey().
+ *
+ * Everything here works in the viewport's logical units (see viewport.ts).
+ */
+
+import type { GameState } from './engine'
+import type { PadContext } from './gamepad'
+import { stickVector } from './gamepad'
+import { DEFAULT_KEYMAP, GameAction, KeyMap, keyLabel } from './keymap'
+import { Rect, mutatorCardRects, pauseMenuRects, pointInRect, quizAnswerRects, waveEventRects } from './renderer'
+import { DEFAULT_VIEWPORT, Viewport } from './viewport'
+import type { Vec2 } from './vec2'
+
+export interface TouchButton {
+  key: string        // lower-cased KeyboardEvent.key it presses
+  label: string
+  color: string
+  x: number
+  y: number
+  r: number
+}
+
+export interface TouchLayout {
+  stickRadius: number
+  buttons: TouchButton[]
+  pause: TouchButton
+}
+
+/** Live touches, for drawing and for matching each release to its press. */
+export interface TouchState {
+  stickId: number | null
+  stickOrigin: Vec2 | null
+  stickPos: Vec2 | null
+  held: Map<number, string>   // touch identifier → key it pressed
+}
+
+const STICK_DEADZONE = 0.15
+const HIT_SLOP = 1.2 // fingers are fat — accept taps a little outside the ring
+
+export function createTouchState(): TouchState {
+  return { stickId: null, stickOrigin: null, stickPos: null, held: new Map() }
+}
+
+/**
+ * Button placement, anchored to the bottom-right of `viewport`. The canvas is
+ * scaled down to fit the screen, so on a phone everything is drawn larger to
+ * stay thumb-sized after scaling. Buttons press (and are labelled with)
+ * whatever keys `keymap` binds.
+ */
+export function touchLayout(phone: boolean, keymap: KeyMap = DEFAULT_KEYMAP, viewport: Viewport = DEFAULT_VIEWPORT): TouchLayout {
+  const k = phone ? 1.6 : 1
+  const right = viewport.w - 90 * k
+  const bottom = viewport.h - 90 * k
+  const button = (action: GameAction, color: string, dx: number, dy: number, r: number): TouchButton => ({
+    key: keymap[action],
+    label: action === 'dash' ? 'DASH' : keyLabel(keymap[action]),
+    color,
+    x: right + dx * k,
+    y: bottom + dy * k,
+    r: r * k,
+  })
+  return {
+    stickRadius: 70 * k,
+    buttons: [
+      button('dash', '#ffdd44', 0, 0, 46),
+      button('lightAttack', '#cc88ff', -110, 10, 36),
+      button('heavyAttack', '#ffaa22', -80, -90, 36),
+      button('pulseWave', '#aa44ff', 10, -115, 36),
+      button('timeFlicker', '#00ccff', -190, -30, 30),
+      button('consumable', '#22ffaa', -200, 60, 26),
+    ],
+    pause: { key: 'escape', label: 'II', color: '#ffffff', x: viewport.w - 40 * k, y: 110 * k, r: 24 * k },
+  }
+}
+
+export function hitButton(layout: TouchLayout, p: Vec2): TouchButton | null {
+  return layout.buttons.find(b => Math.hypot(p.x - b.x, p.y - b.y) <= b.r * HIT_SLOP) ?? null
+}
+
+export function hitPause(layout: TouchLayout, p: Vec2): boolean {
+  return Math.hypot(p.x - layout.pause.x, p.y - layout.pause.y) <= layout.pause.r * HIT_SLOP
+}
+
+/** Stick deflection → movement vector, clamped to the stick radius. */
+export function joystickVector(layout: TouchLayout, origin: Vec2, pos: Vec2): Vec2 | null {
+  return stickVector([(pos.x - origin.x) / layout.stickRadius, (pos.y - origin.y) / layout.stickRadius], STICK_DEADZONE)
+}
+
+/** The key a tap at `p` stands for on an overlay screen, or null when it hits nothing. */
+export function tapKey(state: GameState, context: PadContext, p: Vec2, viewport: Viewport = DEFAULT_VIEWPORT): string | null {
+  const { w, h } = viewport
+  const hit = (rects: Rect[], keys: string[]) => {
+    const i = rects.findIndex(r => pointInRect(p.x, p.y, r))
+    return i >= 0 ? keys[i] ?? null : null
+  }
+  switch (context) {
+    case 'mutator':
+      return hit(mutatorCardRects(state.mutatorChoices.length, w, h), ['1', '2', '3'])
+    case 'quiz-choice':
+    case 'quiz-true-false': {
+      if (!state.currentQuestion) return null
+      const hasCard = !!state.mutatorChoices[state.pendingMutatorIndex ?? 0]
+      const keys = context === 'quiz-true-false' ? ['t', 'f'] : ['a', 'b', 'c', 'd']
+      return hit(quizAnswerRects(state.currentQuestion, hasCard, w, h), keys)
+    }
+    case 'wave-event':
+      return hit(waveEventRects(w, h), ['y', 'n'])
+    case 'paused':
+      return hit(pauseMenuRects(w, h), ['1', '2', '3', '4'])
+    case 'game-over':
+      return 'r'
+    default:
+      return null
+  }
+}
+
+// ── Drawing ───────────────────────────────────────────────────────────────────
+
+function drawButton(ctx: CanvasRenderingContext2D, b: TouchButton, pressed: boolean): void {
+  ctx.globalAlpha = pressed ? 0.55 : 0.3
+  ctx.fillStyle = b.color + '44'
+  ctx.strokeStyle = b.color
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  ctx.arc(b.x, b.y, b.r, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.stroke()
+  ctx.globalAlpha = pressed ? 1 : 0.7
+  ctx.fillStyle = b.color
+  ctx.font = `bold ${Math.round(b.r * (b.label.length > 2 ? 0.4 : 0.7))}px monospace`
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(b.label, b.x, b.y)
+}
+
+/** Joystick and buttons on top of the frame. `showButtons` is false while watching a replay. */
+export function drawTouchControls(
+  ctx: CanvasRenderingContext2D,
+  layout: TouchLayout,
+  touch: TouchState,
+  showButtons: boolean,
+): void {
+  ctx.save()
+  const held = new Set(touch.held.values())
+
+  if (touch.stickOrigin && touch.stickPos) {
+    const { stickOrigin: o, stickPos: p } = touch
+    const dx = p.x - o.x
+    const dy = p.y - o.y
+    const dist = Math.hypot(dx, dy)
+    const clamp = dist > layout.stickRadius ? layout.stickRadius / dist : 1
+    ctx.globalAlpha = 0.25
+    ctx.strokeStyle = '#ffffff'
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    ctx.arc(o.x, o.y, layout.stickRadius, 0, Math.PI * 2)
+    ctx.stroke()
+    ctx.globalAlpha = 0.5
+    ctx.fillStyle = '#7b2fff'
+    ctx.beginPath()
+    ctx.arc(o.x + dx * clamp, o.y + dy * clamp, layout.stickRadius * 0.4, 0, Math.PI * 2)
+    ctx.fill()
+  }
+
+  if (showButtons) {
+    for (const b of layout.buttons) drawButton(ctx, b, held.has(b.key))
+  }
+  drawButton(ctx, layout.pause, held.has(layout.pause.key))
+  ctx.restore()
+}
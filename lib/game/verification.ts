@@ -0,0 +1,68 @@
+/**
+ * Daily Challenge run verification.
+ *
+ * The server never trusts a submitted score. It re-simulates the recorded
+ * inputs from the day's seed and takes the score and wave from the result.
+ * A replay that can't be re-simulated (wrong seed, stale date, malformed or
+ * implausible frames, run never ended) is rejected. A replay that simulates
+ * fine but disagrees with what the client claimed is accepted with the
+ * server's numbers and flagged for review.
+ */
+
+import { Replay, simulateReplay } from './replay'
+import { getDailySeed } from './seeded-rng'
+import { SIM_DT } from './settings'
+
+export const MAX_RUN_SECONDS = 60 * 60      // one hour of simulated play
+export const MAX_RUN_TICKS = Math.round(MAX_RUN_SECONDS / SIM_DT)
+
+export type VerificationResult =
+  | { status: 'verified'; score: number; wave: number }
+  | { status: 'flagged'; score: number; wave: number; reason: string }
+  | { status: 'rejected'; reason: string }
+
+/** UTC date (YYYY-MM-DD) offset by `days` from `now`. */
+function utcDate(now: Date, days = 0): string {
+  return new Date(now.getTime() + days * 86_400_000).toISOString().slice(0, 10)
+}
+
+export function verifyDailyReplay(replay: Replay, now = new Date()): VerificationResult {
+  if (!replay.isDailyChallenge) return { status: 'rejected', reason: 'not a daily challenge run' }
+
+  // Today's challenge, or yesterday's for runs that end just after midnight
+  if (replay.challengeDate !== utcDate(now) && replay.challengeDate !== utcDate(now, -1)) {
+    return { status: 'rejected', reason: 'challenge date is not current' }
+  }
+  if (replay.seed !== getDailySeed(replay.challengeDate)) {
+    return { status: 'rejected', reason: 'seed does not match the challenge date' }
+  }
+  // Daily is locked to the baseline ruleset
+  if (replay.difficulty !== 'normal') {
+    return { status: 'rejected', reason: 'daily runs use the baseline ruleset' }
+  }
+
+  // Count ticks before simulating anything, so an oversized run costs the server nothing
+  let ticks = 0
+  for (const [mask, dt, count] of replay.frames) {
+    if (!Number.isInteger(mask) || mask < 0) return { status: 'rejected', reason: 'malformed input frame' }
+    if (!Number.isInteger(count) || count < 1) return { status: 'rejected', reason: 'malformed input frame' }
+    // Every Daily run steps at the fixed rate, so no refresh rate plays a different game
+    // and no frame is shorter or longer than one tick
+    if (dt !== SIM_DT) return { status: 'rejected', reason: 'frame timestep is not the fixed simulation step' }
+    ticks += count
+    if (ticks > MAX_RUN_TICKS) return { status: 'rejected', reason: 'run is too long' }
+  }
+
+  const state = simulateReplay(replay)
+  if (!state.gameOver) return { status: 'rejected', reason: 'run did not end' }
+
+  if (state.score !== replay.finalScore || state.wave !== replay.finalWave) {
+    return {
+      status: 'flagged',
+      score: state.score,
+      wave: state.wave,
+      reason: `claimed ${replay.finalScore} (wave ${replay.finalWave}), simulated ${state.score} (wave ${state.wave})`,
+    }
+  }
+  return { status: 'verified', score: state.score, wave: state.wave }
+}
@@ -0,0 +1,86 @@
+/**
+ * Screen fitting for the game canvas.
+ *
+ * The game is laid out in logical units: the 1280×720 play area is always
+ * fully visible and centered, and screens of other shapes widen or heighten
+ * the view around it — up to ultra-wide 21:9 and down to 4:3 projectors.
+ * Past those the canvas is letterboxed. HUD and overlays lay out against the
+ * viewport's w × h, never the fixed game size.
+ *
+ * The backing store is sized in device pixels (devicePixelRatio × the chosen
+ * render scale) so text and neon lines stay sharp on Retina screens, and the
+ * renderer draws through a scale transform onto it.
+ */
+
+import { GAME_WIDTH, GAME_HEIGHT } from './settings'
+import type { Vec2 } from './vec2'
+
+const STORAGE_KEY = 'shadowpulse_render_scale'
+
+// Supported aspect ratios; anything wider or taller is letterboxed
+const MIN_ASPECT = 4 / 3
+const MAX_ASPECT = 21 / 9
+// Largest backing store we'll allocate (4K); bigger screens render below native resolution
+const MAX_PIXELS = 3840 * 2160
+
+export type RenderScale = 0.5 | 0.75 | 1
+
+export const RENDER_SCALES: RenderScale[] = [0.5, 0.75, 1]
+
+export interface Viewport {
+  w: number            // logical width, at least GAME_WIDTH
+  h: number            // logical height, at least GAME_HEIGHT
+  originX: number      // where world (0, 0) lands on screen, keeping the play area centered
+  originY: number
+  cssWidth: number     // displayed size in CSS pixels (letterboxed past the supported aspects)
+  cssHeight: number
+  pixelWidth: number   // backing store size in device pixels
+  pixelHeight: number
+  pixelScale: number   // backing store pixels per logical unit
+}
+
+/** Fit the game to a `screenW` × `screenH` CSS-pixel area. */
+export function computeViewport(screenW: number, screenH: number, pixelRatio = 1, renderScale: RenderScale = 1): Viewport {
+  const aspect = Math.min(MAX_ASPECT, Math.max(MIN_ASPECT, screenW / screenH))
+  const gameAspect = GAME_WIDTH / GAME_HEIGHT
+  const w = aspect >= gameAspect ? GAME_HEIGHT * aspect : GAME_WIDTH
+  const h = aspect >= gameAspect ? GAME_HEIGHT : GAME_WIDTH / aspect
+
+  const cssWidth = Math.min(screenW, screenH * aspect)
+  const cssHeight = cssWidth / aspect
+  let pixelScale = (cssWidth * pixelRatio * renderScale) / w
+  if (w * h * pixelScale * pixelScale > MAX_PIXELS) pixelScale = Math.sqrt(MAX_PIXELS / (w * h))
+
+  return {
+    w,
+    h,
+    originX: (w - GAME_WIDTH) / 2,
+    originY: (h - GAME_HEIGHT) / 2,
+    cssWidth,
+    cssHeight,
+    pixelWidth: Math.round(w * pixelScale),
+    pixelHeight: Math.round(h * pixelScale),
+    pixelScale,
+  }
+}
+
+/** The unscaled 1280×720 view — what the renderer assumes when it isn't given one. */
+export const DEFAULT_VIEWPORT = computeViewport(GAME_WIDTH, GAME_HEIGHT)
+
+/** A pointer position over the canvas element, in the viewport's logical units. */
+export function toViewport(viewport: Viewport, rect: { left: number; top: number; width: number; height: number }, clientX: number, clientY: number): Vec2 {
+  return {
+    x: (clientX - rect.left) * (viewport.w / rect.width),
+    y: (clientY - rect.top) * (viewport.h / rect.height),
+  }
+}
+
+export function loadRenderScale(): RenderScale {
+  if (typeof window === 'undefined') return 1
+  const stored = Number(localStorage.getItem(STORAGE_KEY))
+  return RENDER_SCALES.find(s => s === stored) ?? 1
+}
+
+export function saveRenderScale(scale: RenderScale): void {
+  localStorage.setItem(STORAGE_KEY, String(scale))
+}
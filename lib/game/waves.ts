@@ -11,7 +11,7 @@ export interface WaveEvent {
   bonusScore: number
   bonusHp?: number
   bonusEnergy?: number
-  effectType: 'blackout' | 'surge_zone' | 'enemy_frenzy' | 'double_enemies'
+  effectType: 'blackout' | 'surge_zone' | 'enemy_frenzy' | 'double_enemies' | 'exposed'
   duration: number   // -1 = whole wave
 }
 
@@ -55,6 +55,15 @@ export const WAVE_EVENT_POOL: WaveEvent[] = [
     effectType: 'double_enemies',
     duration: -1,
   },
+  {
+    id: 'exposed',
+    name: 'EXPOSED',
+    description: 'Everyone is vulnerable: you and the enemies take 25% more damage.',
+    rewardText: '+350 score',
+    bonusScore: 350,
+    effectType: 'exposed',
+    duration: -1,
+  },
 ]
 
 export function selectWaveEvent(wave: number): WaveEvent | null {
@@ -68,9 +77,14 @@ export interface WaveConfig {
   enemies: { type: EnemyType; count: number }[]
 }
 
+/** Boss waves close each level from Inferno on — every BOSS_WAVE_INTERVAL waves from FIRST_BOSS_WAVE. */
+export function isBossWave(wave: number): boolean {
+  return wave >= S.FIRST_BOSS_WAVE && (wave - S.FIRST_BOSS_WAVE) % S.BOSS_WAVE_INTERVAL === 0
+}
+
 export function getWaveConfig(wave: number): WaveConfig {
-  // Boss waves — solo encounter every BOSS_WAVE_INTERVAL waves
-  if (wave % S.BOSS_WAVE_INTERVAL === 0) {
+  // Boss waves — solo encounter with the level theme's boss
+  if (isBossWave(wave)) {
     return { enemies: [{ type: 'boss', count: 1 }] }
   }
 
@@ -83,21 +97,21 @@ export function getWaveConfig(wave: number): WaveConfig {
     { enemies: [{ type: 'normal', count: 3 }, { type: 'sniper', count: 2 }] },
     // Wave 4
     { enemies: [{ type: 'normal', count: 3 }, { type: 'fast', count: 2 }, { type: 'sniper', count: 1 }] },
-    // Wave 5 - Boss (handled above, never reached)
+    // Wave 5
     { enemies: [{ type: 'heavy', count: 1 }, { type: 'normal', count: 3 }] },
-    // Wave 6 - Introduce Shielder
+    // Wave 6 - Boss (handled above, never reached)
     { enemies: [{ type: 'shielder', count: 1 }, { type: 'fast', count: 3 }, { type: 'sniper', count: 1 }] },
-    // Wave 7
+    // Wave 7 - Introduce Shielder
     { enemies: [{ type: 'heavy', count: 1 }, { type: 'shielder', count: 1 }, { type: 'fast', count: 2 }, { type: 'normal', count: 2 }] },
     // Wave 8 - Introduce Spawner
     { enemies: [{ type: 'heavy', count: 1 }, { type: 'spawner', count: 1 }, { type: 'sniper', count: 2 }, { type: 'fast', count: 1 }] },
-    // Wave 9
+    // Wave 9 - Boss (handled above, never reached)
     { enemies: [{ type: 'shielder', count: 1 }, { type: 'spawner', count: 1 }, { type: 'fast', count: 2 }, { type: 'normal', count: 2 }] },
-    // Wave 10 - Boss (handled above, never reached)
+    // Wave 10
     { enemies: [{ type: 'heavy', count: 3 }, { type: 'sniper', count: 3 }, { type: 'fast', count: 2 }] },
     // Wave 11
     { enemies: [{ type: 'heavy', count: 2 }, { type: 'shielder', count: 1 }, { type: 'spawner', count: 1 }, { type: 'fast', count: 3 }, { type: 'sniper', count: 2 }] },
-    // Wave 12
+    // Wave 12 - Boss (handled above, never reached)
     { enemies: [{ type: 'heavy', count: 2 }, { type: 'shielder', count: 2 }, { type: 'sniper', count: 3 }, { type: 'fast', count: 2 }, { type: 'normal', count: 1 }] },
     // Wave 13
     { enemies: [{ type: 'heavy', count: 2 }, { type: 'shielder', count: 2 }, { type: 'spawner', count: 1 }, { type: 'fast', count: 3 }, { type: 'sniper', count: 2 }] },
@@ -132,6 +146,25 @@ export function getWaveConfig(wave: number): WaveConfig {
   }
 }
 
+/**
+ * Horde mode: every regular wave is one big swarm of Normals and Fasts, with
+ * a few Heavies from wave 4 to break it up. Boss waves are unchanged.
+ */
+export function getHordeWaveConfig(wave: number): WaveConfig {
+  if (isBossWave(wave)) return getWaveConfig(wave)
+
+  const total = Math.min(S.HORDE_MAX_COUNT, S.HORDE_BASE_COUNT + (wave - 1) * S.HORDE_COUNT_PER_WAVE)
+  const heavies = wave >= 4 ? Math.floor(total / S.HORDE_HEAVY_EVERY) : 0
+  const fasts = Math.round(total * S.HORDE_FAST_SHARE)
+  return {
+    enemies: [
+      { type: 'normal', count: total - fasts - heavies },
+      { type: 'fast', count: fasts },
+      ...(heavies > 0 ? [{ type: 'heavy' as EnemyType, count: heavies }] : []),
+    ],
+  }
+}
+
 export function spawnWaveEnemies(
   wave: number,
   arenaRadius: number,
@@ -141,8 +174,9 @@ export function spawnWaveEnemies(
   affix: WaveAffix | null = null,
   presetMults?: { hp: number; speed: number; damage: number },
   waveCountMult = 1.0,
+  horde = false,
 ): Enemy[] {
-  const config = getWaveConfig(wave)
+  const config = horde ? getHordeWaveConfig(wave) : getWaveConfig(wave)
   const enemies: Enemy[] = []
 
   for (const group of config.enemies) {
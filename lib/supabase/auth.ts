@@ -0,0 +1,105 @@
+import type { User } from '@supabase/supabase-js'
+import { getSupabaseClient } from './client'
+
+/**
+ * Optional sign-in. Players sign in with an emailed magic link; an account
+ * gets a profiles row (username + display name) and its own run history.
+ * Playing signed out keeps working exactly as before.
+ */
+
+const LINKED_KEY = 'shadowpulse_linked_user'
+
+export interface Profile {
+  id: string
+  username: string | null
+  displayName: string | null
+}
+
+export async function getCurrentUser(): Promise<User | null> {
+  const supabase = getSupabaseClient()
+  if (!supabase) return null
+  const { data } = await supabase.auth.getSession()
+  return data.session?.user ?? null
+}
+
+/** Subscribe to sign-in / sign-out. Returns the unsubscribe function. */
+export function onAuthChange(callback: (user: User | null) => void): () => void {
+  const supabase = getSupabaseClient()
+  if (!supabase) return () => {}
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => callback(session?.user ?? null))
+  return () => data.subscription.unsubscribe()
+}
+
+/** Email a magic sign-in link that returns to the current page. */
+export async function signInWithEmail(email: string): Promise<{ error: string | null }> {
+  const supabase = getSupabaseClient()
+  if (!supabase) return { error: 'Accounts need Supabase to be configured' }
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin + window.location.pathname },
+  })
+  return { error: error?.message ?? null }
+}
+
+export async function signOut(): Promise<void> {
+  const supabase = getSupabaseClient()
+  if (!supabase) return
+  await supabase.auth.signOut()
+}
+
+export async function getProfile(userId: string): Promise<Profile | null> {
+  const supabase = getSupabaseClient()
+  if (!supabase) return null
+  const { data } = await supabase.from('profiles').select('id, username, display_name').eq('id', userId).maybeSingle()
+  return data ? { id: data.id, username: data.username, displayName: data.display_name } : null
+}
+
+/** Create or update the signed-in user's profile. Usernames are unique (case-insensitive). */
+export async function saveProfile(
+  userId: string,
+  fields: { username: string; displayName: string },
+): Promise<{ data: Profile | null; error: string | null }> {
+  const supabase = getSupabaseClient()
+  if (!supabase) return { data: null, error: 'Accounts need Supabase to be configured' }
+  const username = fields.username.trim().toLowerCase()
+  if (!/^[a-z0-9_]{3,20}$/.test(username)) {
+    return { data: null, error: 'Username: 3–20 letters, numbers or _' }
+  }
+  const { data, error } = await supabase
+    .from('profiles')
+    .upsert({
+      id: userId,
+      username,
+      display_name: fields.displayName.trim().slice(0, 30) || username,
+      updated_at: new Date().toISOString(),
+    })
+    .select('id, username, display_name')
+    .single()
+  if (error) return { data: null, error: error.code === '23505' ? 'That username is taken' : error.message }
+  return { data: { id: data.id, username: data.username, displayName: data.display_name }, error: null }
+}
+
+/**
+ * Attach this browser's anonymous runs and daily scores to the account. The
+ * secret player key proves the runs are this browser's — the id alone is public.
+ * Runs once per account per browser; later sign-ins skip the request.
+ */
+export async function linkAnonymousHistory(user: User, playerId: string, playerKey: string): Promise<void> {
+  if (localStorage.getItem(LINKED_KEY) === user.id) return
+  const supabase = getSupabaseClient()
+  if (!supabase) return
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) return
+  try {
+    const res = await fetch('/api/account/link', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ playerId, playerKey }),
+    })
+    if (res.ok) localStorage.setItem(LINKED_KEY, user.id)
+    else console.warn('[auth] could not link anonymous history:', (await res.json()).error)
+  } catch (err) {
+    console.warn('[auth] could not link anonymous history:', err)
+  }
+}
@@ -0,0 +1,100 @@
+import type { Tables } from './types'
+
+/**
+ * Turns raw class_students / quiz_answers rows into the numbers the teacher
+ * dashboard shows. Accuracy counts first tries only — a right answer on the
+ * retry means the student needed the hint of a wrong guess.
+ */
+
+export interface Tally {
+  answered: number   // first-try answers
+  correct: number    // of those, correct
+}
+
+export interface StudentSummary {
+  studentId: string
+  name: string
+  total: Tally
+  byTopic: Record<string, Tally>
+  byGrade: Record<number, Tally>
+  lastActive: string | null
+}
+
+export interface MissedQuestion {
+  questionId: string
+  label: string
+  topicId: string
+  misses: number     // wrong first tries
+  answered: number   // all first tries
+}
+
+export interface ClassDashboard {
+  code: string
+  name: string
+  topics: string[]
+  grades: number[]
+  students: StudentSummary[]
+  mostMissed: MissedQuestion[]
+}
+
+type StudentRow = Pick<Tables<'class_students'>, 'id' | 'name'>
+type AnswerRow = Pick<
+  Tables<'quiz_answers'>,
+  'student_id' | 'question_id' | 'question_label' | 'topic_id' | 'grade' | 'correct' | 'first_try' | 'answered_at'
+>
+
+function tally(into: Record<string | number, Tally>, key: string | number, correct: boolean): void {
+  const t = into[key] ?? (into[key] = { answered: 0, correct: 0 })
+  t.answered++
+  if (correct) t.correct++
+}
+
+/** Fraction correct, or null when there is nothing to measure. */
+export function accuracy(t: Tally | undefined): number | null {
+  return t && t.answered > 0 ? t.correct / t.answered : null
+}
+
+export function buildClassDashboard(
+  cls: { code: string; name: string },
+  students: StudentRow[],
+  answers: AnswerRow[],
+  missedLimit = 15,
+): ClassDashboard {
+  const summaries = new Map<string, StudentSummary>(
+    students.map(s => [s.id, { studentId: s.id, name: s.name, total: { answered: 0, correct: 0 }, byTopic: {}, byGrade: {}, lastActive: null }]),
+  )
+  const missed = new Map<string, MissedQuestion>()
+  const topics = new Set<string>()
+  const grades = new Set<number>()
+
+  for (const a of answers) {
+    const student = summaries.get(a.student_id)
+    if (!student) continue
+    if (a.answered_at && (!student.lastActive || a.answered_at > student.lastActive)) student.lastActive = a.answered_at
+    if (!a.first_try) continue
+
+    topics.add(a.topic_id)
+    grades.add(a.grade)
+    student.total.answered++
+    if (a.correct) student.total.correct++
+    tally(student.byTopic, a.topic_id, a.correct)
+    tally(student.byGrade, a.grade, a.correct)
+
+    const q = missed.get(a.question_id) ?? { questionId: a.question_id, label: a.question_label, topicId: a.topic_id, misses: 0, answered: 0 }
+    q.answered++
+    if (!a.correct) q.misses++
+    missed.set(a.question_id, q)
+  }
+
+  return {
+    code: cls.code,
+    name: cls.name,
+    topics: [...topics].sort(),
+    grades: [...grades].sort((a, b) => a - b),
+    students: [...summaries.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    mostMissed: [...missed.values()]
+      .filter(q => q.misses > 0)
+      .sort((a, b) => b.misses - a.misses || b.misses / b.answered - a.misses / a.answered)
+      .slice(0, missedLimit),
+  }
+}
@@ -0,0 +1,155 @@
+import { isSupabaseConfigured } from './client'
+import type { ClassDashboard } from './class-analytics'
+
+/**
+ * Browser side of teacher classes. Every call goes through /api/classes/*,
+ * which holds the service-role key — the class tables aren't readable with
+ * the anon key.
+ */
+
+const MEMBERSHIP_KEY = 'shadowpulse_class'
+const STUDENT_KEYS_KEY = 'shadowpulse_class_keys'
+const TEACHER_CLASSES_KEY = 'shadowpulse_teacher_classes'
+
+// No 0/O or 1/I — codes get read aloud and copied off a whiteboard
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+export const CLASS_CODE_LENGTH = 6
+
+/** A student's seat in a class, kept in localStorage once they've joined. */
+export interface ClassMembership {
+  classId: string
+  className: string
+  code: string
+  studentId: string
+  studentName: string
+  studentKey: string   // secret issued on first join; proves the seat is ours
+}
+
+/** A class this browser created. `teacherKey` unlocks its dashboard. */
+export interface TeacherClass {
+  code: string
+  name: string
+  teacherKey: string
+}
+
+/** One quiz answer as logged to quiz_answers. */
+export interface QuizAnswerLog {
+  questionId: string
+  questionLabel: string
+  topicId: string
+  grade: number
+  difficulty: number
+  correct: boolean
+  firstTry: boolean
+}
+
+export function generateClassCode(): string {
+  const bytes = new Uint8Array(CLASS_CODE_LENGTH)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('')
+}
+
+/** Upper-case and strip spaces/dashes so "abc-123" matches "ABC123". */
+export function normalizeClassCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+// ── Local storage ─────────────────────────────────────────────────────────────
+
+export function getClassMembership(): ClassMembership | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const stored = JSON.parse(localStorage.getItem(MEMBERSHIP_KEY) ?? 'null') as ClassMembership | null
+    // Memberships from before student keys have to join again to get one
+    return stored?.studentKey ? stored : null
+  } catch {
+    return null
+  }
+}
+
+// Student keys outlive leaving a class, so rejoining under the same name still works
+function loadStudentKeys(): Record<string, string> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STUDENT_KEYS_KEY) ?? '{}') as Record<string, string>
+    return stored && typeof stored === 'object' ? stored : {}
+  } catch {
+    return {}
+  }
+}
+
+const seatId = (code: string, studentName: string) => `${normalizeClassCode(code)}/${studentName.trim()}`
+
+export function leaveClass(): void {
+  localStorage.removeItem(MEMBERSHIP_KEY)
+}
+
+export function getTeacherClasses(): TeacherClass[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const stored = JSON.parse(localStorage.getItem(TEACHER_CLASSES_KEY) ?? '[]') as TeacherClass[]
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+export function saveTeacherClass(cls: TeacherClass): void {
+  const others = getTeacherClasses().filter(c => c.code !== cls.code)
+  localStorage.setItem(TEACHER_CLASSES_KEY, JSON.stringify([...others, cls]))
+}
+
+// ── API calls ─────────────────────────────────────────────────────────────────
+
+async function post<T>(path: string, body: unknown): Promise<{ data: T | null; error: string | null }> {
+  if (!isSupabaseConfigured()) return { data: null, error: 'Classes need Supabase to be configured' }
+  try {
+    const res = await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const json = await res.json()
+    return res.ok ? { data: json as T, error: null } : { data: null, error: json.error ?? 'Request failed' }
+  } catch (err) {
+    console.warn(`[classroom] ${path} failed:`, err)
+    return { data: null, error: 'Network error' }
+  }
+}
+
+/** Create a class and remember its teacher key in this browser. */
+export async function createClass(name: string): Promise<{ data: TeacherClass | null; error: string | null }> {
+  const result = await post<TeacherClass>('/api/classes', { name })
+  if (result.data) saveTeacherClass(result.data)
+  return result
+}
+
+/**
+ * Join a class by code. Joining again with the same name returns the same
+ * seat — from this browser, or another one given the seat's student key.
+ */
+export async function joinClass(
+  code: string,
+  studentName: string,
+  playerId: string,
+): Promise<{ data: ClassMembership | null; error: string | null }> {
+  const keys = loadStudentKeys()
+  const studentKey = keys[seatId(code, studentName)]
+  const result = await post<ClassMembership>('/api/classes/join', { code: normalizeClassCode(code), studentName, playerId, studentKey })
+  if (result.data) {
+    localStorage.setItem(MEMBERSHIP_KEY, JSON.stringify(result.data))
+    keys[seatId(result.data.code, result.data.studentName)] = result.data.studentKey
+    localStorage.setItem(STUDENT_KEYS_KEY, JSON.stringify(keys))
+  }
+  return result
+}
+
+/** Log quiz answers for the joined student. Best effort — failures are only warned about. */
+export async function logQuizAnswers(membership: ClassMembership, answers: QuizAnswerLog[]): Promise<void> {
+  if (answers.length === 0) return
+  const { error } = await post('/api/classes/answers', { studentId: membership.studentId, studentKey: membership.studentKey, answers })
+  if (error) console.warn('[classroom] could not log answers:', error)
+}
+
+export async function fetchClassDashboard(cls: TeacherClass) {
+  return post<ClassDashboard>('/api/classes/dashboard', { code: cls.code, teacherKey: cls.teacherKey })
+}
@@ -1,4 +1,5 @@
 import { getSupabaseClient, isSupabaseConfigured } from './client'
+import type { Replay } from '@/lib/game/replay'
 
 export interface DailyEntry {
   rank: number
@@ -28,53 +29,66 @@ export function getOrCreatePlayerId(): string {
 }
 
 /**
- * Submit (or upsert) a daily challenge score.
- * Only updates if the new score is higher than the existing one.
+ * Get or create this browser's secret player key. The player id appears on
+ * leaderboards; the key is never shown. API routes keep only its SHA-256, and
+ * linking anonymous history to an account needs the key itself.
+ */
+export function getOrCreatePlayerKey(): string {
+  if (typeof window === 'undefined') return 'server'
+  const storageKey = 'shadowpulse_player_key'
+  let key = localStorage.getItem(storageKey)
+  if (!key) {
+    key = toHex(crypto.getRandomValues(new Uint8Array(32)))
+    localStorage.setItem(storageKey, key)
+  }
+  return key
+}
+
+/** Hex SHA-256 of `text`, or null where Web Crypto is missing (plain-HTTP dev hosts). */
+export async function sha256Hex(text: string): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return toHex(new Uint8Array(digest))
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export type DailySubmitResult = 'verified' | 'flagged' | 'rejected' | 'unavailable'
+
+/**
+ * Submit a finished daily challenge run for verification.
+ * The server re-simulates the replay and records its own score — the client
+ * never writes to daily_challenge_scores directly.
  */
 export async function submitDailyChallengeScore(params: {
-  date: string
   playerId: string
+  playerKey: string
   playerName: string
-  score: number
-  waveReached: number
-  seed: string
-}): Promise<void> {
-  const supabase = getSupabaseClient()
-  if (!supabase) return
-
-  const { date, playerId, playerName, score, waveReached, seed } = params
-
-  // Check existing score for this player today
-  const { data: existing } = await supabase
-    .from('daily_challenge_scores')
-    .select('id, score')
-    .eq('challenge_date', date)
-    .eq('player_id', playerId)
-    .maybeSingle()
-
-  if (existing) {
-    // Only update if new score is higher
-    if (score > existing.score) {
-      await supabase
-        .from('daily_challenge_scores')
-        .update({ score, wave_reached: waveReached, submitted_at: new Date().toISOString() })
-        .eq('id', existing.id)
-    }
-  } else {
-    await supabase.from('daily_challenge_scores').insert({
-      challenge_date: date,
-      player_id: playerId,
-      player_name: playerName,
-      score,
-      wave_reached: waveReached,
-      seed,
+  replay: Replay
+}): Promise<DailySubmitResult> {
+  if (!isSupabaseConfigured()) return 'unavailable'
+
+  try {
+    const res = await fetch('/api/daily-challenge', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
     })
+    const data = (await res.json()) as { status?: DailySubmitResult; reason?: string }
+    if (data.status === 'rejected') console.warn('[daily-challenge] run rejected:', data.reason)
+    return data.status ?? 'unavailable'
+  } catch (err) {
+    console.warn('[daily-challenge] submit failed:', err)
+    return 'unavailable'
   }
 }
 
 /**
  * Fetch the top N daily challenge scores for a given date.
- * Marks the entry belonging to the current player with is_you = true.
+ * Marks the entry belonging to the current player with is_you = true. Player
+ * ids aren't public; rows carry player_tag, the SHA-256 of the id.
  */
 export async function getDailyLeaderboard(
   date: string,
@@ -86,19 +100,21 @@ export async function getDailyLeaderboard(
 
   const { data, error } = await supabase
     .from('daily_challenge_scores')
-    .select('player_name, score, wave_reached, player_id')
+    .select('player_name, score, wave_reached, player_tag')
     .eq('challenge_date', date)
+    .eq('verified', true)
     .order('score', { ascending: false })
     .limit(limit)
 
   if (error || !data) return []
+  const tag = await sha256Hex(playerId)
 
   return data.map((row, index) => ({
     rank: index + 1,
     player_name: row.player_name,
     score: row.score,
     wave_reached: row.wave_reached,
-    is_you: row.player_id === playerId,
+    is_you: tag !== null && row.player_tag === tag,
   }))
 }
 
@@ -127,18 +143,20 @@ export async function getAllTimeLeaderboard(
   // and deduplicate in JS (simple and works for small leaderboards).
   const { data, error } = await supabase
     .from('daily_challenge_scores')
-    .select('player_id, player_name, score, wave_reached')
+    .select('player_tag, player_name, score, wave_reached')
+    .eq('verified', true)
     .order('score', { ascending: false })
     .limit(limit * 5) // fetch extra to ensure we have enough unique players after dedup
 
   if (error || !data) return []
+  const tag = await sha256Hex(playerId)
 
-  // Keep only the highest score per player_id
-  const seen = new Set<string>()
+  // Keep only the highest score per player
+  const seen = new Set<string | null>()
   const deduped: typeof data = []
   for (const row of data) {
-    if (!seen.has(row.player_id)) {
-      seen.add(row.player_id)
+    if (!seen.has(row.player_tag)) {
+      seen.add(row.player_tag)
       deduped.push(row)
     }
     if (deduped.length >= limit) break
@@ -149,6 +167,6 @@ export async function getAllTimeLeaderboard(
     player_name: row.player_name,
     score: row.score,
     wave_reached: row.wave_reached,
-    is_you: row.player_id === playerId,
+    is_you: tag !== null && row.player_tag === tag,
   }))
 }
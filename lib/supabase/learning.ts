@@ -0,0 +1,52 @@
+import { isSupabaseConfigured } from './client'
+import type { LearningRecord } from '@/lib/game/learning'
+
+/** One question's stats as sent to /api/learning. */
+export interface LearningRecordSync {
+  questionId: string
+  attempts: number
+  correctFirstTry: number
+  lastSeenAt: string | null   // ISO timestamp
+}
+
+/** Whose record this is: a class seat, or an anonymous player on this browser. */
+export type LearningOwner =
+  | { studentId: string; studentKey: string }
+  | { playerId: string; playerKey: string }
+
+/**
+ * Push the stats for `questionIds` to Supabase so a teacher can see them.
+ * localStorage stays the source of truth — this is a best-effort mirror and
+ * silently does nothing when Supabase isn't configured. Writes go through
+ * /api/learning, which checks the owner's key.
+ */
+export async function syncLearningRecord(
+  owner: LearningOwner,
+  record: LearningRecord,
+  questionIds: string[],
+): Promise<void> {
+  if (!isSupabaseConfigured()) return
+
+  const records: LearningRecordSync[] = [...new Set(questionIds)].flatMap(questionId => {
+    const stats = record.items[questionId]
+    if (!stats) return []
+    return [{
+      questionId,
+      attempts: stats.attempts,
+      correctFirstTry: stats.correctFirstTry,
+      lastSeenAt: stats.lastSeenAt ? new Date(stats.lastSeenAt).toISOString() : null,
+    }]
+  })
+  if (records.length === 0) return
+
+  try {
+    const res = await fetch('/api/learning', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...owner, records }),
+    })
+    if (!res.ok) console.warn('[learning] sync failed:', res.status)
+  } catch (err) {
+    console.warn('[learning] sync failed:', err)
+  }
+}
@@ -0,0 +1,59 @@
+import { getSupabaseClient } from './client'
+import {
+  ProgressionRecord,
+  loadProgression,
+  mergeProgression,
+  parseLedger,
+  saveProgression,
+  totalEarned,
+} from '@/lib/game/progression'
+
+/**
+ * Mirror the shard record onto the signed-in player's profile. localStorage
+ * stays the working copy; the profile lets it follow the account to another
+ * browser. Does nothing when Supabase isn't configured.
+ */
+export async function pushProgression(userId: string, record: ProgressionRecord): Promise<void> {
+  const supabase = getSupabaseClient()
+  if (!supabase) return
+  const { error } = await supabase
+    .from('profiles')
+    .upsert({
+      id: userId,
+      shards_earned: totalEarned(record),
+      shards_ledger: record.earned,
+      unlocks: record.unlocked,
+      trail: record.trail,
+      updated_at: new Date().toISOString(),
+    })
+  if (error) console.warn('[progression] sync failed:', error.message)
+}
+
+/**
+ * Merge the account's record into this browser's and write the result to
+ * both. Returns the merged record.
+ */
+export async function syncProgression(userId: string): Promise<ProgressionRecord> {
+  const local = loadProgression()
+  const supabase = getSupabaseClient()
+  if (!supabase) return local
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('shards_earned, shards_ledger, unlocks, trail')
+    .eq('id', userId)
+    .maybeSingle()
+  if (error) {
+    console.warn('[progression] could not load account progress:', error.message)
+    return local
+  }
+  let merged = local
+  if (data) {
+    // Profiles from before the ledger only have the total
+    const ledger = parseLedger(data.shards_ledger)
+    const earned = Object.keys(ledger).length > 0 ? ledger : parseLedger(data.shards_earned)
+    merged = mergeProgression(local, { earned, unlocked: data.unlocks, trail: data.trail })
+  }
+  saveProgression(merged)
+  await pushProgression(userId, merged)
+  return merged
+}
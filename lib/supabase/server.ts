@@ -0,0 +1,37 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './types'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+let serviceClient: SupabaseClient<Database> | null = null
+
+/**
+ * Service-role Supabase client for API routes. Bypasses RLS — never import
+ * this from client components. Returns null when the key isn't configured.
+ */
+export function getServiceSupabaseClient(): SupabaseClient<Database> | null {
+  if (typeof window !== 'undefined') return null
+  if (!supabaseUrl || !serviceRoleKey) return null
+
+  if (!serviceClient) {
+    serviceClient = createClient<Database>(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false },
+    })
+  }
+
+  return serviceClient
+}
+
+/** SHA-256 of a secret (player key, student key), as stored in place of the secret itself. */
+export function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex')
+}
+
+/** Compare a submitted secret or hash with the stored one without leaking timing. */
+export function secretsMatch(given: string, stored: string): boolean {
+  const a = Buffer.from(given)
+  const b = Buffer.from(stored)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
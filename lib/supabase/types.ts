@@ -17,6 +17,8 @@ export type Database = {
           level_reached: number
           mutators_selected: Json | null
           played_at: string | null
+          player_id: string | null
+          player_key_hash: string | null
           score: number
           user_id: string | null
           wave_reached: number
@@ -28,6 +30,8 @@ export type Database = {
           level_reached: number
           mutators_selected?: Json | null
           played_at?: string | null
+          player_id?: string | null
+          player_key_hash?: string | null
           score: number
           user_id?: string | null
           wave_reached: number
@@ -39,6 +43,8 @@ export type Database = {
           level_reached?: number
           mutators_selected?: Json | null
           played_at?: string | null
+          player_id?: string | null
+          player_key_hash?: string | null
           score?: number
           user_id?: string | null
           wave_reached?: number
@@ -53,6 +59,122 @@ export type Database = {
           },
         ]
       }
+      classes: {
+        Row: {
+          id: string
+          code: string
+          name: string
+          teacher_key_hash: string
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          code: string
+          name: string
+          teacher_key_hash: string
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          code?: string
+          name?: string
+          teacher_key_hash?: string
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      class_students: {
+        Row: {
+          id: string
+          class_id: string
+          name: string
+          player_id: string | null
+          student_key_hash: string | null
+          joined_at: string | null
+        }
+        Insert: {
+          id?: string
+          class_id: string
+          name: string
+          player_id?: string | null
+          student_key_hash?: string | null
+          joined_at?: string | null
+        }
+        Update: {
+          id?: string
+          class_id?: string
+          name?: string
+          player_id?: string | null
+          student_key_hash?: string | null
+          joined_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_students_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_answers: {
+        Row: {
+          id: string
+          class_id: string
+          student_id: string
+          question_id: string
+          question_label: string
+          topic_id: string
+          grade: number
+          difficulty: number
+          correct: boolean
+          first_try: boolean
+          answered_at: string | null
+        }
+        Insert: {
+          id?: string
+          class_id: string
+          student_id: string
+          question_id: string
+          question_label: string
+          topic_id: string
+          grade: number
+          difficulty: number
+          correct: boolean
+          first_try: boolean
+          answered_at?: string | null
+        }
+        Update: {
+          id?: string
+          class_id?: string
+          student_id?: string
+          question_id?: string
+          question_label?: string
+          topic_id?: string
+          grade?: number
+          difficulty?: number
+          correct?: boolean
+          first_try?: boolean
+          answered_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_answers_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_answers_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "class_students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       daily_challenge_scores: {
         Row: {
           id: string
@@ -63,6 +185,11 @@ export type Database = {
           wave_reached: number
           seed: string
           submitted_at: string | null
+          verified: boolean
+          flag_reason: string | null
+          user_id: string | null
+          player_key_hash: string | null
+          player_tag: string | null
         }
         Insert: {
           id?: string
@@ -73,6 +200,10 @@ export type Database = {
           wave_reached: number
           seed: string
           submitted_at?: string | null
+          verified?: boolean
+          flag_reason?: string | null
+          user_id?: string | null
+          player_key_hash?: string | null
         }
         Update: {
           id?: string
@@ -83,6 +214,40 @@ export type Database = {
           wave_reached?: number
           seed?: string
           submitted_at?: string | null
+          verified?: boolean
+          flag_reason?: string | null
+          user_id?: string | null
+          player_key_hash?: string | null
+        }
+        Relationships: []
+      }
+      learning_records: {
+        Row: {
+          player_id: string
+          question_id: string
+          attempts: number
+          correct_first_try: number
+          last_seen_at: string | null
+          updated_at: string | null
+          owner_key_hash: string | null
+        }
+        Insert: {
+          player_id: string
+          question_id: string
+          attempts?: number
+          correct_first_try?: number
+          last_seen_at?: string | null
+          updated_at?: string | null
+          owner_key_hash?: string | null
+        }
+        Update: {
+          player_id?: string
+          question_id?: string
+          attempts?: number
+          correct_first_try?: number
+          last_seen_at?: string | null
+          updated_at?: string | null
+          owner_key_hash?: string | null
         }
         Relationships: []
       }
@@ -127,6 +292,10 @@ export type Database = {
           created_at: string | null
           display_name: string | null
           id: string
+          shards_earned: number
+          shards_ledger: Json
+          trail: string | null
+          unlocks: string[]
           updated_at: string | null
           username: string | null
         }
@@ -135,6 +304,10 @@ export type Database = {
           created_at?: string | null
           display_name?: string | null
           id: string
+          shards_earned?: number
+          shards_ledger?: Json
+          trail?: string | null
+          unlocks?: string[]
           updated_at?: string | null
           username?: string | null
         }
@@ -143,6 +316,10 @@ export type Database = {
           created_at?: string | null
           display_name?: string | null
           id?: string
+          shards_earned?: number
+          shards_ledger?: Json
+          trail?: string | null
+          unlocks?: string[]
           updated_at?: string | null
           username?: string | null
         }
@@ -0,0 +1,13 @@
+-- Daily challenge scores are written only by /api/daily-challenge, which
+-- re-simulates each run from its replay before storing the score.
+
+alter table public.daily_challenge_scores
+  -- Rows submitted before verification existed stay unverified
+  add column if not exists verified boolean not null default false,
+  add column if not exists flag_reason text;
+
+-- The browser keeps read access for leaderboards; writes go through the service role
+revoke insert, update, delete on public.daily_challenge_scores from anon, authenticated;
+
+create index if not exists daily_challenge_scores_verified_idx
+  on public.daily_challenge_scores (challenge_date, verified, score desc);
@@ -0,0 +1,22 @@
+-- Per-student quiz history mirrored from the browser (lib/game/learning.ts).
+-- One row per anonymous player and question; the browser upserts whole rows.
+
+create table if not exists public.learning_records (
+  player_id text not null,
+  question_id text not null,
+  attempts integer not null default 0,
+  correct_first_try integer not null default 0,
+  last_seen_at timestamptz,
+  updated_at timestamptz default now(),
+  primary key (player_id, question_id)
+);
+
+alter table public.learning_records enable row level security;
+
+-- Players are anonymous (localStorage id), so the anon key reads and writes rows directly
+create policy "learning_records are readable" on public.learning_records
+  for select using (true);
+create policy "learning_records are insertable" on public.learning_records
+  for insert with check (true);
+create policy "learning_records are updatable" on public.learning_records
+  for update using (true);
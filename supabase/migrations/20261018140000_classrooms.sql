@@ -0,0 +1,41 @@
+-- Teacher classes, students who joined them with a class code, and every
+-- quiz answer those students give. All access goes through /api/classes/*
+-- with the service role; the browser never reads these tables directly.
+
+create table if not exists public.classes (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  name text not null,
+  teacher_key text not null,          -- secret handed to the teacher on creation
+  created_at timestamptz default now()
+);
+
+create table if not exists public.class_students (
+  id uuid primary key default gen_random_uuid(),
+  class_id uuid not null references public.classes (id) on delete cascade,
+  name text not null,
+  player_id text,
+  joined_at timestamptz default now(),
+  unique (class_id, name)
+);
+
+create table if not exists public.quiz_answers (
+  id uuid primary key default gen_random_uuid(),
+  class_id uuid not null references public.classes (id) on delete cascade,
+  student_id uuid not null references public.class_students (id) on delete cascade,
+  question_id text not null,
+  question_label text not null,
+  topic_id text not null,
+  grade integer not null,
+  difficulty integer not null,
+  correct boolean not null,
+  first_try boolean not null,
+  answered_at timestamptz default now()
+);
+
+create index if not exists quiz_answers_class_idx on public.quiz_answers (class_id, answered_at desc);
+
+-- RLS on with no policies: anon and authenticated get nothing, the service role bypasses it
+alter table public.classes enable row level security;
+alter table public.class_students enable row level security;
+alter table public.quiz_answers enable row level security;
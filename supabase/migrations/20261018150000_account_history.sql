@@ -0,0 +1,43 @@
+-- Account-based run history (lib/game/scores.ts, lib/supabase/auth.ts).
+-- Every finished run is a game_sessions row. Signed-out runs carry the
+-- anonymous localStorage player id instead of a user id; /api/account/link
+-- moves them (and daily challenge scores) onto the account on first sign-in.
+
+alter table public.game_sessions
+  add column if not exists player_id text;
+
+create index if not exists game_sessions_user_played_idx
+  on public.game_sessions (user_id, played_at desc);
+create index if not exists game_sessions_unlinked_player_idx
+  on public.game_sessions (player_id) where user_id is null;
+
+alter table public.daily_challenge_scores
+  add column if not exists user_id uuid references public.profiles (id) on delete set null;
+
+alter table public.game_sessions enable row level security;
+
+drop policy if exists "players read their own sessions" on public.game_sessions;
+create policy "players read their own sessions" on public.game_sessions
+  for select using (auth.uid() = user_id);
+
+-- Signed-in players write their own rows; anonymous rows must name a player id
+drop policy if exists "players insert sessions" on public.game_sessions;
+create policy "players insert sessions" on public.game_sessions
+  for insert with check (auth.uid() = user_id or (user_id is null and player_id is not null));
+
+alter table public.profiles enable row level security;
+
+drop policy if exists "profiles are readable" on public.profiles;
+create policy "profiles are readable" on public.profiles
+  for select using (true);
+
+drop policy if exists "users insert their own profile" on public.profiles;
+create policy "users insert their own profile" on public.profiles
+  for insert with check (auth.uid() = id);
+
+drop policy if exists "users update their own profile" on public.profiles;
+create policy "users update their own profile" on public.profiles
+  for update using (auth.uid() = id);
+
+create unique index if not exists profiles_username_key
+  on public.profiles (lower(username)) where username is not null;
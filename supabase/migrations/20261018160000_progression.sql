@@ -0,0 +1,9 @@
+-- Meta-progression mirrored from the browser (lib/game/progression.ts).
+-- Signed-in players keep lifetime shards, bought unlocks and the equipped
+-- trail on their profile; the browser merges it with its local copy on sign-in.
+-- The balance is derived (earned minus unlock costs), so it isn't stored.
+
+alter table public.profiles
+  add column if not exists shards_earned integer not null default 0,
+  add column if not exists unlocks text[] not null default '{}',
+  add column if not exists trail text;
@@ -0,0 +1,19 @@
+-- Proof of ownership for anonymous history (lib/supabase/daily-challenge.ts).
+-- The anonymous player id shows up on leaderboards, so it can't be what
+-- /api/account/link trusts. Each browser also holds a secret player key;
+-- rows carry its SHA-256, and linking needs the key itself. Rows written
+-- before this migration have no hash and stay unlinked.
+
+alter table public.game_sessions
+  add column if not exists player_key_hash text;
+
+alter table public.daily_challenge_scores
+  add column if not exists player_key_hash text,
+  -- Public stand-in for player_id: lets a browser spot its own leaderboard rows
+  add column if not exists player_tag text
+    generated always as (encode(sha256(convert_to(player_id, 'UTF8')), 'hex')) stored;
+
+-- Leaderboards read only the public columns; ids, key hashes and flags stay server-side
+revoke select on public.daily_challenge_scores from anon, authenticated;
+grant select (id, challenge_date, player_name, score, wave_reached, seed, submitted_at, verified, player_tag)
+  on public.daily_challenge_scores to anon, authenticated;
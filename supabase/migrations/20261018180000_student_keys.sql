@@ -0,0 +1,7 @@
+-- A student's seat is claimed by a secret key issued on first join
+-- (/api/classes/join); rejoining under the same name, or logging answers,
+-- needs the key. Only its SHA-256 is stored. Seats from before this
+-- migration are claimed by the browser whose player id joined them.
+
+alter table public.class_students
+  add column if not exists student_key_hash text;
@@ -0,0 +1,19 @@
+-- learning_records writes go through /api/learning (service role) instead of
+-- the anon key. The open insert/update policies let any browser overwrite any
+-- player's history; now the route checks the writer's secret first.
+--
+-- owner_key_hash is the SHA-256 of the player key that first wrote a player's
+-- rows (see 20261018170000_player_keys.sql); class seats are checked against
+-- class_students.student_key_hash instead. Rows from before this migration
+-- have no owner until their player's next sync claims them.
+
+alter table public.learning_records
+  add column if not exists owner_key_hash text;
+
+drop policy if exists "learning_records are insertable" on public.learning_records;
+drop policy if exists "learning_records are updatable" on public.learning_records;
+
+-- Reads stay open as before, minus the owner hash
+revoke select on public.learning_records from anon, authenticated;
+grant select (player_id, question_id, attempts, correct_first_try, last_seen_at, updated_at)
+  on public.learning_records to anon, authenticated;
@@ -0,0 +1,10 @@
+-- Per-device shard ledger (lib/game/progression.ts). A single lifetime total
+-- can't merge two devices that both earned and spent: taking the larger total
+-- drops the other device's shards. Each browser now adds only to its own
+-- entry, and merging keeps each entry's larger value.
+--
+-- shards_earned stays as the ledger's sum for anything that reads totals;
+-- profiles without a ledger are read as one 'legacy' entry holding it.
+
+alter table public.profiles
+  add column if not exists shards_ledger jsonb not null default '{}'::jsonb;
@@ -0,0 +1,14 @@
+-- Store only the SHA-256 of each class's teacher key, like the student and
+-- player keys: a leaked row or backup shouldn't unlock the dashboard.
+-- Existing keys are hashed in place, so teachers keep the key they have.
+
+alter table public.classes
+  add column if not exists teacher_key_hash text;
+
+update public.classes
+  set teacher_key_hash = encode(sha256(convert_to(teacher_key, 'UTF8')), 'hex')
+  where teacher_key_hash is null;
+
+alter table public.classes
+  alter column teacher_key_hash set not null,
+  drop column if exists teacher_key;
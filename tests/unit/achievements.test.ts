@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { achievementProgress, checkAchievements, createAchievementRecord, foldRun, getAchievement } from '@/lib/game/achievements'
+import { createGameState, updateGame } from '@/lib/game/engine'
+import { decodeInput } from '@/lib/game/replay'
+
+const run = (overrides: Partial<Parameters<typeof checkAchievements>[1]> = {}) => ({
+  ...createGameState(false, 1, false, 'english-vocab', 'normal', 1),
+  ...overrides,
+})
+
+describe('achievements', () => {
+  it('unlocks run goals once, within a single run', () => {
+    const record = createAchievementRecord()
+    expect(checkAchievements(record, run({ wave: 4 }))).toEqual([])
+    expect(checkAchievements(record, run({ wave: 5 }))).toEqual(['survivor'])
+    expect(checkAchievements(record, run({ wave: 6 }))).toEqual([])
+  })
+
+  it('only counts wave 20 on Arcade', () => {
+    const record = createAchievementRecord()
+    expect(checkAchievements(record, run({ wave: 20, difficulty: 'normal' }))).not.toContain('arcade_legend')
+    expect(checkAchievements(record, run({ wave: 20, difficulty: 'arcade' }))).toContain('arcade_legend')
+  })
+
+  it('adds lifetime progress across runs', () => {
+    const record = createAchievementRecord()
+    const scholar = getAchievement('scholar')!
+    foldRun(record, run({ quizCorrect: 30 }))
+    foldRun(record, run({ quizCorrect: 15 }))
+    expect(achievementProgress(scholar, record, null)).toBe(45)
+    expect(checkAchievements(record, run({ quizCorrect: 4 }))).not.toContain('scholar')
+    expect(checkAchievements(record, run({ quizCorrect: 5 }))).toContain('scholar')
+  })
+
+  it('toasts an unlock in the engine without pausing play', () => {
+    const state = createGameState(false, 1, false, 'english-vocab', 'normal', 1)
+    state.achievementRecord = createAchievementRecord()
+    state.totalKills = 100
+    updateGame(state, decodeInput(0), 1 / 120)
+    expect(state.achievementUnlocks).toEqual(['centurion'])
+    expect(state.achievementToasts.map(t => t.id)).toEqual(['centurion'])
+    expect(state.paused).toBe(false)
+  })
+})
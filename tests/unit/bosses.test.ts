@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { BOSS_ROSTER, assignBoss } from '@/lib/game/bosses'
+import { createEnemy, updateEnemy } from '@/lib/game/enemy'
+import { createGameState, updateGame } from '@/lib/game/engine'
+import { decodeInput } from '@/lib/game/replay'
+import { applyStatus } from '@/lib/game/status'
+import { LEVEL_THEMES } from '@/lib/game/levels'
+import { createPlayer } from '@/lib/game/player'
+import { BOSS_BLINK, BOSS_PHASE_TRANSITION } from '@/lib/game/settings'
+import { isBossWave } from '@/lib/game/waves'
+
+const DT = 1 / 120
+
+function bossOf(theme: keyof typeof BOSS_ROSTER) {
+  const boss = createEnemy('boss', 400, 200)
+  assignBoss(boss, theme)
+  return boss
+}
+
+describe('bosses', () => {
+  it('fights every themed level from Inferno on', () => {
+    for (const theme of LEVEL_THEMES.slice(1)) {
+      const [from, to] = theme.waveRange
+      const last = Number.isFinite(to) ? to : from + 2
+      const bossWaves = Array.from({ length: last - from + 1 }, (_, i) => from + i).filter(isBossWave)
+      expect(bossWaves).toHaveLength(1)
+    }
+  })
+
+  it('casts its own ground attacks', () => {
+    const player = createPlayer()
+    const kinds = (theme: keyof typeof BOSS_ROSTER) => {
+      const boss = bossOf(theme)
+      const cast = new Set<string>()
+      for (let i = 0; i < 600; i++) {
+        updateEnemy(boss, player, DT, 1)
+        boss.bossCasts.forEach(z => cast.add(z.kind))
+        boss.bossCasts = []
+      }
+      return [...cast].sort()
+    }
+    expect(kinds('cryo')).toEqual(['frost'])
+    expect(kinds('storm')).toEqual(['lightning'])
+    expect(kinds('abyss')).toEqual(['rift'])
+  })
+
+  it('blinks the Hollow to the far side of the player from phase 2', () => {
+    const player = createPlayer()   // arena centre
+    const boss = bossOf('abyss')
+    boss.bossPhase = 2
+    boss.blinkTimer = 0
+    let from: { x: number; y: number } | null = null
+    for (let i = 0; i < 200 && !from; i++) {
+      updateEnemy(boss, player, DT, 1)
+      from = boss.bossBlinkedFrom
+    }
+    expect(from).not.toBeNull()
+    const toBoss = { x: boss.pos.x - player.pos.x, y: boss.pos.y - player.pos.y }
+    const toStart = { x: from!.x - player.pos.x, y: from!.y - player.pos.y }
+    expect(Math.hypot(toBoss.x, toBoss.y)).toBeCloseTo(BOSS_BLINK.distance)
+    expect(toBoss.x * toStart.x + toBoss.y * toStart.y).toBeLessThan(0)
+    expect(boss.shockwaveActive).toBe(true)
+  })
+
+  it('stops to roar when a big hit skips it to phase 3', () => {
+    const boss = bossOf('inferno')
+    boss.hp = Math.floor(boss.maxHp * 0.3)
+    updateEnemy(boss, createPlayer(), DT, 1)
+
+    expect(boss.bossPhase).toBe(3)
+    expect(boss.bossPhaseChanged).toBe(true)
+    expect(boss.pendingSpawn).toBe(true)
+    expect(boss.bossPhaseTimer).toBeCloseTo(BOSS_PHASE_TRANSITION - DT)
+    expect(boss.vel).toEqual({ x: 0, y: 0 })
+  })
+
+  it('only counts a boss kill as flawless when nothing hurt the player that wave', () => {
+    const killBoss = (burning: boolean) => {
+      const state = createGameState(false, 1, false, 'english-vocab', 'normal', 5)
+      const boss = createEnemy('boss', 200, 200)
+      boss.hp = 0
+      boss.isAlive = false
+      state.enemies.push(boss)
+      if (burning) {
+        // Status burn never counted as a hit for the contract tracker
+        applyStatus(state.player.status, 'burning')
+        state.player.status.active.burning!.carry = 0.99
+      }
+      updateGame(state, decodeInput(0), DT)
+      return state
+    }
+    expect(killBoss(false).flawlessBosses).toBe(1)
+    const burnt = killBoss(true)
+    expect(burnt.waveDamageTaken).toBeGreaterThan(0)
+    expect(burnt.flawlessBosses).toBe(0)
+  })
+})
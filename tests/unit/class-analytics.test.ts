@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { buildClassDashboard, accuracy } from '@/lib/supabase/class-analytics'
+import { normalizeClassCode } from '@/lib/supabase/classroom'
+
+function answer(student_id: string, question_id: string, correct: boolean, first_try = true, topic_id = 'english-vocab', grade = 3) {
+  return { student_id, question_id, question_label: question_id, topic_id, grade, correct, first_try, answered_at: '2026-10-18T10:00:00Z' }
+}
+
+describe('class analytics', () => {
+  const students = [{ id: 's1', name: 'Noa' }, { id: 's2', name: 'Ari' }]
+  const answers = [
+    answer('s1', 'fast', true),
+    answer('s1', 'slow', false),
+    answer('s1', 'slow', true, false),          // retry — not counted towards accuracy
+    answer('s1', 'mb-1', true, true, 'math-basics', 4),
+    answer('s2', 'slow', false),
+    answer('s2', 'fast', false),
+    answer('ghost', 'fast', false),             // student no longer in the class
+  ]
+
+  it('scores students on first tries, by topic and grade', () => {
+    const dash = buildClassDashboard({ code: 'ABC234', name: '4B' }, students, answers)
+    expect(dash.students.map(s => s.name)).toEqual(['Ari', 'Noa'])
+    const noa = dash.students.find(s => s.name === 'Noa')!
+    expect(noa.total).toEqual({ answered: 3, correct: 2 })
+    expect(noa.byTopic['english-vocab']).toEqual({ answered: 2, correct: 1 })
+    expect(accuracy(noa.byGrade[4])).toBe(1)
+    expect(dash.topics).toEqual(['english-vocab', 'math-basics'])
+    expect(dash.grades).toEqual([3, 4])
+  })
+
+  it('ranks the most missed questions', () => {
+    const dash = buildClassDashboard({ code: 'ABC234', name: '4B' }, students, answers)
+    expect(dash.mostMissed.map(q => [q.questionId, q.misses, q.answered])).toEqual([
+      ['slow', 2, 2],
+      ['fast', 1, 2],
+    ])
+  })
+
+  it('normalizes typed class codes', () => {
+    expect(normalizeClassCode(' abc-234 ')).toBe('ABC234')
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { createGameState, updateGame } from '@/lib/game/engine'
+import { GameEvent, subscribe } from '@/lib/game/events'
+import { decodeInput } from '@/lib/game/replay'
+import { getRngState } from '@/lib/game/seeded-rng'
+import { updateCamera } from '@/lib/game/camera'
+
+const DT = 1 / 120
+
+describe('event bus', () => {
+  it('publishes each tick\'s events to subscribers, then stops after unsubscribe', () => {
+    const state = createGameState(false, 1, false, 'english-vocab', 'normal', 7)
+    const heard: GameEvent[] = []
+    const unsubscribe = subscribe(event => heard.push(event))
+
+    for (let i = 0; i < 300 && state.wave === 0; i++) updateGame(state, decodeInput(0), DT)
+    expect(heard).toContainEqual({ type: 'waveStarted', wave: 1 })
+    expect(state.events).toContainEqual({ type: 'waveStarted', wave: 1 })
+
+    // The next tick starts a fresh list
+    updateGame(state, decodeInput(0), DT)
+    expect(state.events.some(e => e.type === 'waveStarted')).toBe(false)
+
+    unsubscribe()
+    const count = heard.length
+    for (let i = 0; i < 10; i++) updateGame(state, decodeInput(0), DT)
+    expect(heard.length).toBe(count)
+  })
+
+  it('reports a new attack once, when it starts', () => {
+    const state = createGameState(false, 1, false, 'english-vocab', 'normal', 7)
+    const attacks: GameEvent[] = []
+    const unsubscribe = subscribe(event => { if (event.type === 'attackStarted') attacks.push(event) })
+    updateGame(state, { ...decodeInput(0), lightAttack: true }, DT)
+    updateGame(state, decodeInput(0), DT)
+    unsubscribe()
+    expect(attacks.map(e => e.type === 'attackStarted' && e.attack)).toEqual(['light'])
+  })
+
+  it('shakes the camera without drawing from the seeded rng', () => {
+    const state = createGameState(false, 1, false, 'english-vocab', 'normal', 7)
+    state.camera.shakeTimer = state.camera.shakeDuration = 0.5
+    state.camera.shakeIntensity = 10
+    const before = getRngState()
+    expect(before).not.toBeNull()
+    updateCamera(state.camera, DT)
+    expect(getRngState()).toBe(before)
+    expect(state.camera.offsetX !== 0 || state.camera.offsetY !== 0).toBe(true)
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { createGameState } from '@/lib/game/engine'
+import { PAD, padButtonKey, padContext, stickVector, typedPadKeys } from '@/lib/game/gamepad'
+import { getMovementDirection } from '@/lib/game/player'
+import type { SpellingQuestion, NumberQuestion } from '@/lib/game/questions'
+
+const spelling: SpellingQuestion = { kind: 'spelling', id: 's1', hebrewHint: 'חתול', emoji: '🐱', answer: 'cat', grade: 3, difficulty: 1 }
+const number: NumberQuestion = { kind: 'number', id: 'n1', prompt: '2 + 2', answer: 4, grade: 3, difficulty: 1 }
+
+describe('stickVector', () => {
+  it('ignores drift inside the deadzone', () => {
+    expect(stickVector([0.1, -0.1])).toBeNull()
+    expect(stickVector([])).toBeNull()
+  })
+
+  it('rescales past the deadzone and rounds to steady values', () => {
+    expect(stickVector([1, 0])).toEqual({ x: 1, y: 0 })
+    const half = stickVector([0.6, 0])!
+    expect(half.x).toBeCloseTo(0.5, 2)
+    expect(stickVector([0.60001, 0])).toEqual(stickVector([0.60002, 0]))
+  })
+
+  it('drives movement in place of the digital directions', () => {
+    const dir = getMovementDirection({
+      up: true, down: false, left: false, right: false,
+      dash: false, lightAttack: false, heavyAttack: false, heavyRelease: false, pulseWave: false, timeFlicker: false,
+      move: { x: 0.5, y: 0 },
+    })
+    expect(dir).toEqual({ x: 0.5, y: 0 })
+  })
+})
+
+describe('pad button mapping', () => {
+  it('maps face buttons to actions during play', () => {
+    const state = createGameState(false, 1, false, 'english-vocab', 'normal', 1)
+    expect(padContext(state, false)).toBe('play')
+    expect(padButtonKey('play', PAD.A)).toBe(' ')
+    expect(padButtonKey('play', PAD.RT)).toBe('j')
+    expect(padButtonKey('play', PAD.START)).toBe('escape')
+  })
+
+  it('follows the screen the player is looking at', () => {
+    const state = createGameState(false, 1, false, 'english-vocab', 'normal', 1)
+    state.paused = true
+    expect(padContext(state, false)).toBe('paused')
+    expect(padButtonKey('paused', PAD.A)).toBe('enter')
+
+    state.paused = false
+    state.mutatorSelectionActive = true
+    expect(padButtonKey(padContext(state, false), PAD.Y)).toBe('2')
+
+    state.gameOver = true
+    expect(padButtonKey(padContext(state, false), PAD.A)).toBe('r')
+    expect(padContext(state, true)).toBe('replay')
+  })
+
+  it('routes typed quiz questions to the letter picker', () => {
+    const state = createGameState(false, 1, true, 'english-vocab', 'normal', 1)
+    state.questionPhase = true
+    state.currentQuestion = spelling
+    expect(padContext(state, false)).toBe('quiz-typed')
+    expect(padButtonKey('quiz-typed', PAD.A)).toBeNull()
+  })
+})
+
+describe('typedPadKeys', () => {
+  it('cycles the last character with the D-pad', () => {
+    expect(typedPadKeys(PAD.UP, '', spelling)).toEqual(['a'])
+    expect(typedPadKeys(PAD.UP, 'c', spelling)).toEqual(['Backspace', 'd'])
+    expect(typedPadKeys(PAD.DOWN, 'a', spelling)).toEqual(['Backspace', 'z'])
+    expect(typedPadKeys(PAD.RIGHT, 'ca', spelling)).toEqual(['a'])
+  })
+
+  it('uses digits for number questions and submits with A', () => {
+    expect(typedPadKeys(PAD.UP, '', number)).toEqual(['0'])
+    expect(typedPadKeys(PAD.B, '4', number)).toEqual(['Backspace'])
+    expect(typedPadKeys(PAD.A, '4', number)).toEqual(['Enter'])
+  })
+})
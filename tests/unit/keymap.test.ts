@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  DEFAULT_KEYMAP,
+  actionForKey,
+  bindKey,
+  fromDefaultKey,
+  isActionHeld,
+  keyLabel,
+  loadKeymap,
+  saveKeymap,
+} from '@/lib/game/keymap'
+
+describe('keymap', () => {
+  beforeEach(() => localStorage.clear())
+
+  it('resolves bound keys and the fixed alternates', () => {
+    expect(actionForKey(DEFAULT_KEYMAP, 'j')).toBe('lightAttack')
+    expect(actionForKey(DEFAULT_KEYMAP, 'arrowleft')).toBe('left')
+    expect(actionForKey(DEFAULT_KEYMAP, 'shift')).toBe('dash')
+    expect(actionForKey(DEFAULT_KEYMAP, 'p')).toBeNull()
+    expect(isActionHeld(DEFAULT_KEYMAP, new Set(['arrowup']), 'up')).toBe(true)
+  })
+
+  it('rebinds for AZERTY and swaps on conflict', () => {
+    const azerty = bindKey(bindKey(DEFAULT_KEYMAP, 'up', 'z')!, 'left', 'q')!
+    expect(azerty.up).toBe('z')
+    expect(azerty.left).toBe('q')
+    // Q was the consumable key — it takes over the old left key
+    expect(azerty.consumable).toBe('a')
+    expect(actionForKey(azerty, 'w')).toBeNull()
+  })
+
+  it('refuses menu keys', () => {
+    expect(bindKey(DEFAULT_KEYMAP, 'dash', 'escape')).toBeNull()
+    expect(bindKey(DEFAULT_KEYMAP, 'lightAttack', '1')).toBeNull()
+  })
+
+  it('maps default keys pressed by the pad and touch layers onto the bound ones', () => {
+    const lefty = bindKey(DEFAULT_KEYMAP, 'lightAttack', 'f')!
+    expect(fromDefaultKey(lefty, 'j')).toBe('f')
+    expect(fromDefaultKey(lefty, 'escape')).toBe('escape')
+  })
+
+  it('persists and falls back to defaults for a broken map', () => {
+    const custom = bindKey(DEFAULT_KEYMAP, 'pulseWave', 'u')!
+    saveKeymap(custom)
+    expect(loadKeymap()).toEqual(custom)
+
+    localStorage.setItem('shadowpulse_keymap', JSON.stringify({ ...DEFAULT_KEYMAP, dash: 'j' }))
+    expect(loadKeymap()).toEqual(DEFAULT_KEYMAP)
+  })
+
+  it('labels keys for key caps', () => {
+    expect(keyLabel(' ')).toBe('SPC')
+    expect(keyLabel('tab')).toBe('TAB')
+    expect(keyLabel(';')).toBe(';')
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { createLearningRecord, recordAttempt, questionWeight, pickWeighted } from '@/lib/game/learning'
+
+function recordWith(history: Array<[string, boolean]>) {
+  const record = createLearningRecord()
+  for (const [questionId, correct] of history) recordAttempt(record, { questionId, correct, firstTry: true })
+  return record
+}
+
+describe('learning record', () => {
+  it('counts attempts, first-try successes and when each item was last shown', () => {
+    const record = recordWith([['a', true], ['b', false], ['a', false]])
+    expect(record.shown).toBe(3)
+    expect(record.items.a).toMatchObject({ attempts: 2, correctFirstTry: 1, lastSeen: 3 })
+    expect(record.items.b).toMatchObject({ attempts: 1, correctFirstTry: 0, lastSeen: 2 })
+
+    recordAttempt(record, { questionId: 'b', correct: true, firstTry: false })
+    expect(record.items.b.attempts).toBe(1)
+  })
+
+  it('favours missed and stale items over mastered and recent ones', () => {
+    const filler: Array<[string, boolean]> = Array.from({ length: 10 }, (_, i) => [`f${i}`, true])
+    const record = recordWith([['missed', false], ['mastered', true], ...filler, ['recent', false]])
+    expect(questionWeight(record, 'missed')).toBeGreaterThan(questionWeight(record, 'mastered'))
+    expect(questionWeight(record, 'recent')).toBeLessThan(questionWeight(record, 'mastered'))
+    expect(questionWeight(record, 'never-seen')).toBeGreaterThan(questionWeight(record, 'mastered'))
+  })
+
+  it('picks proportionally to weight', () => {
+    const filler: Array<[string, boolean]> = Array.from({ length: 25 }, (_, i) => [`f${i}`, true])
+    const record = recordWith([['missed', false], ['mastered', true], ...filler])
+    const pool = [{ id: 'missed' }, { id: 'mastered' }]
+    let missed = 0
+    for (let i = 0; i < 1000; i++) {
+      if (pickWeighted(pool, record, () => (i + 0.5) / 1000).id === 'missed') missed++
+    }
+    const expected = questionWeight(record, 'missed') / (questionWeight(record, 'missed') + questionWeight(record, 'mastered'))
+    expect(missed / 1000).toBeCloseTo(expected, 2)
+  })
+})
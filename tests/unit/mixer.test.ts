@@ -0,0 +1,23 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { DEFAULT_AUDIO_SETTINGS, loadAudioSettings, mixLevels, saveAudioSettings } from '@/lib/game/mixer'
+
+describe('audio mixer', () => {
+  beforeEach(() => localStorage.clear())
+
+  it('mutes through the master bus and keeps music off in Classroom Mode by default', () => {
+    const settings = { ...DEFAULT_AUDIO_SETTINGS, music: 0.6, sfx: 0.8 }
+    expect(mixLevels(settings, false)).toEqual({ master: 1, music: 0.6, sfx: 0.8 })
+    expect(mixLevels(settings, true)).toEqual({ master: 1, music: 0, sfx: 0.8 })
+    expect(mixLevels({ ...settings, classroomMusic: true }, true).music).toBe(0.6)
+    expect(mixLevels({ ...settings, muted: true }, false).master).toBe(0)
+  })
+
+  it('round-trips settings and clamps bad stored values', () => {
+    const settings = { master: 0.5, music: 0.25, sfx: 0, muted: true, classroomMusic: true }
+    saveAudioSettings(settings)
+    expect(loadAudioSettings()).toEqual(settings)
+
+    localStorage.setItem('shadowpulse_audio', JSON.stringify({ master: 3, music: 'loud' }))
+    expect(loadAudioSettings()).toEqual({ ...DEFAULT_AUDIO_SETTINGS, master: 1 })
+  })
+})
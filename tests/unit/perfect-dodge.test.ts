@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { processEnemyAttacks } from '@/lib/game/combat'
+import { createEnemy } from '@/lib/game/enemy'
+import { createPlayer, Player } from '@/lib/game/player'
+import { DASH_DURATION, PERFECT_DODGE_WINDOW } from '@/lib/game/settings'
+
+// A player `into` seconds into a dash, with a normal enemy swinging at them
+function dashIntoSwing(into: number) {
+  const player: Player = { ...createPlayer(), isDashing: true, dashTime: DASH_DURATION - into, iframes: DASH_DURATION }
+  const enemy = createEnemy('normal', player.pos.x + 10, player.pos.y)
+  enemy.isAttacking = true
+  enemy.attackAnimTimer = 0.2
+  return { player, enemy }
+}
+
+describe('perfect dodge', () => {
+  it('counts a hit caught early in a dash once per dash', () => {
+    const { player, enemy } = dashIntoSwing(PERFECT_DODGE_WINDOW / 2)
+    const hp = player.hp
+
+    expect(processEnemyAttacks(player, [enemy]).perfectDodges).toEqual([enemy])
+    expect(processEnemyAttacks(player, [enemy]).perfectDodges).toEqual([])
+    expect(player.hp).toBe(hp)
+  })
+
+  it('treats a late dash as an ordinary dodge', () => {
+    const { player, enemy } = dashIntoSwing(PERFECT_DODGE_WINDOW + 0.02)
+    const result = processEnemyAttacks(player, [enemy])
+    expect(result.perfectDodges).toEqual([])
+    expect(result.playerDamaged).toBe(false)
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildLoadout,
+  canUnlock,
+  createProgressionRecord,
+  mergeProgression,
+  parseLedger,
+  purchaseUnlock,
+  shardBalance,
+  shardsForRun,
+  totalEarned,
+} from '@/lib/game/progression'
+import { createGameState } from '@/lib/game/engine'
+import { getRandomMutators, MUTATOR_POOL } from '@/lib/game/mutators'
+
+describe('progression', () => {
+  it('pays for kills, cleared waves and contracts', () => {
+    expect(shardsForRun({ totalKills: 30, wave: 5, contractsCompleted: 2 })).toBe(30 + 4 * 5 + 2 * 10)
+  })
+
+  it('buys down a branch in order and only with enough shards', () => {
+    const record = { ...createProgressionRecord(), earned: { laptop: 200 } }
+    expect(canUnlock(record, 'cinder_soul')).toBe(false) // needs Phantom Dash first
+    expect(purchaseUnlock(record, 'phantom_dash')).toBe(true)
+    expect(purchaseUnlock(record, 'phantom_dash')).toBe(false)
+    expect(purchaseUnlock(record, 'cinder_soul')).toBe(true)
+    expect(shardBalance(record)).toBe(20)
+    expect(purchaseUnlock(record, 'tempest_core')).toBe(false)
+  })
+
+  it('merges two copies without double-counting shards', () => {
+    // The account holds an older copy of this laptop's earnings
+    const browser = { earned: { laptop: 300 }, unlocked: ['field_medkit'], trail: null }
+    const account = { earned: { laptop: 250 }, unlocked: ['trail_ember'], trail: 'trail_ember' }
+    const merged = mergeProgression(browser, account)
+    expect(merged.unlocked.sort()).toEqual(['field_medkit', 'trail_ember'])
+    expect(shardBalance(merged)).toBe(300 - 80 - 40)
+    expect(merged.trail).toBe('trail_ember')
+    expect(mergeProgression(merged, account)).toEqual(merged)
+  })
+
+  it('keeps what each device earned when both spent before merging', () => {
+    const synced = { earned: { laptop: 100 }, unlocked: [], trail: null }
+    const laptop = mergeProgression(synced, { earned: { laptop: 200 }, unlocked: [], trail: null })
+    const phone = mergeProgression(synced, { earned: { phone: 150 }, unlocked: [], trail: null })
+    expect(purchaseUnlock(laptop, 'field_medkit')).toBe(true)     // 80 of the laptop's 200
+    expect(purchaseUnlock(phone, 'second_wind')).toBe(false)      // 250 on the phone, needs 300
+    expect(purchaseUnlock(phone, 'phantom_dash')).toBe(true)      // 60 of 250
+
+    const merged = mergeProgression(laptop, phone)
+    expect(totalEarned(merged)).toBe(200 + 150)
+    expect(shardBalance(merged)).toBe(350 - 80 - 60)
+  })
+
+  it('reads totals saved before the ledger as one legacy entry', () => {
+    expect(parseLedger(120)).toEqual({ legacy: 120 })
+    expect(parseLedger({ laptop: 40, bad: 'x' })).toEqual({ laptop: 40 })
+  })
+
+  it('starts runs with the loadout, except the Daily Challenge', () => {
+    const record = { earned: { laptop: 1000 }, unlocked: ['phantom_dash', 'field_medkit', 'second_wind', 'trail_ember'], trail: 'trail_ember' }
+    const loadout = buildLoadout(record)
+
+    const run = createGameState(false, 1, false, 'english-vocab', 'normal', 3, loadout)
+    expect(run.consumables).toEqual(['full_heal'])
+    expect(run.extraLastStand).toBe(true)
+    expect(run.player.trailColor).toBe('#ff6622')
+
+    const daily = createGameState(true, 1, false, 'english-vocab', 'normal', 3, loadout)
+    expect(daily.consumables).toEqual([])
+    expect(daily.extraLastStand).toBe(false)
+    expect(daily.loadout.mutators).toEqual([])
+  })
+
+  it('keeps locked mutators out of the draft until unlocked', () => {
+    const locked = MUTATOR_POOL.filter(m => m.locked).map(m => m.id)
+    const allIds = MUTATOR_POOL.map(m => m.id)
+    const others = allIds.filter(id => id !== 'phantom_dash')
+    // Own (and max out) everything else so only what's left can be offered
+    const owned = others.flatMap(id => Array(4).fill(id))
+    expect(getRandomMutators(3, owned)).toEqual([])
+    expect(getRandomMutators(3, owned, ['phantom_dash']).map(m => m.id)).toEqual(['phantom_dash'])
+    expect(locked).toContain('phantom_dash')
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { createAutoQuality, trackFrameTime } from '@/lib/game/quality'
+
+// Feed `seconds` worth of frames of one duration, returning the level after the last
+function run(auto: ReturnType<typeof createAutoQuality>, frameMs: number, seconds: number) {
+  let level = auto.level
+  for (let t = 0; t < seconds * 1000; t += frameMs) level = trackFrameTime(auto, frameMs)
+  return level
+}
+
+describe('auto quality', () => {
+  it('steps down on slow frames and keeps High on smooth ones', () => {
+    const smooth = createAutoQuality()
+    expect(run(smooth, 1000 / 60, 30)).toBe('high')
+
+    const slow = createAutoQuality()
+    expect(run(slow, 40, 3)).toBe('medium')
+    expect(run(slow, 40, 3)).toBe('low')
+  })
+
+  it('tries higher levels again, waiting longer after each drop', () => {
+    const auto = createAutoQuality()
+    run(auto, 40, 6)
+    expect(auto.level).toBe('low')
+
+    // Smooth at Low: retries Medium, which turns out slow again
+    expect(run(auto, 1000 / 60, 40)).toBe('medium')
+    expect(run(auto, 40, 3)).toBe('low')
+
+    // The next retry waits past the first one's delay
+    expect(run(auto, 1000 / 60, 40)).toBe('low')
+    expect(run(auto, 1000 / 60, 40)).toBe('medium')
+
+    // Stalls like a tab switch don't count as slow frames
+    expect(run(auto, 1000, 5)).toBe('medium')
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { Question, TOPICS, isCorrectAnswer } from '@/lib/game/questions'
+import { validateTopicPack } from '@/lib/game/topic-packs'
+import { createGameState, updateGame } from '@/lib/game/engine'
+import { InputState } from '@/lib/game/player'
+
+const NO_INPUT: InputState = {
+  up: false, down: false, left: false, right: false, dash: false,
+  lightAttack: false, heavyAttack: false, heavyRelease: false, pulseWave: false, timeFlicker: false,
+}
+
+describe('questions', () => {
+  it('grades every question kind', () => {
+    const choice: Question = {
+      id: 'c', englishWord: 'fast', emoji: '🏃', hebrewHint: 'מהיר',
+      options: ['גדול', 'מהיר', 'חלש', 'קטן'], correctIndex: 1, grade: 3, difficulty: 1,
+    }
+    expect(isCorrectAnswer(choice, 1)).toBe(true)
+    expect(isCorrectAnswer(choice, 2)).toBe(false)
+
+    const tf: Question = { id: 't', kind: 'true-false', statement: 'cat = חתול', emoji: '🐱', answer: true, grade: 3, difficulty: 1 }
+    expect(isCorrectAnswer(tf, true)).toBe(true)
+    expect(isCorrectAnswer(tf, 1)).toBe(false)
+
+    const spelling: Question = { id: 's', kind: 'spelling', hebrewHint: 'כלב', emoji: '🐶', answer: 'dog', grade: 3, difficulty: 1 }
+    expect(isCorrectAnswer(spelling, ' DOG ')).toBe(true)
+    expect(isCorrectAnswer(spelling, 'dgo')).toBe(false)
+
+    const num: Question = { id: 'n', kind: 'number', prompt: '0.5 + 0.25', answer: 0.75, grade: 5, difficulty: 1 }
+    expect(isCorrectAnswer(num, '.75')).toBe(true)
+    expect(isCorrectAnswer(num, '')).toBe(false)
+  })
+
+  it('built-in topics pass pack validation', () => {
+    for (const topic of TOPICS) {
+      // Built-in ids are reserved for built-ins, so check against an empty registry
+      const issues = validateTopicPack({ ...topic, questions: topic.questions.map(q => ({ ...q, id: `x-${q.id}` })) })
+      expect(issues.filter(i => i.severity === 'error')).toEqual([])
+    }
+  })
+
+  it('engine grades typed answers submitted with Enter', () => {
+    const state = createGameState(false, 5, true, 'math-basics', 'normal', 7)
+    state.questionPhase = true
+    state.currentQuestion = { id: 'n', kind: 'number', prompt: '6 × 7', answer: 42, grade: 5, difficulty: 1 }
+
+    updateGame(state, { ...NO_INPUT, quizKeys: ['4', '3', 'Backspace', '2'] }, 1 / 60)
+    expect(state.questionTyped).toBe('42')
+    expect(state.questionResult).toBe('pending')
+
+    updateGame(state, { ...NO_INPUT, quizKeys: ['Enter'] }, 1 / 60)
+    expect(state.questionResult).toBe('correct')
+  })
+})
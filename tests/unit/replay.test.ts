@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { createGameState, updateGame, GameState } from '@/lib/game/engine'
+import { InputState } from '@/lib/game/player'
+import {
+  createReplayRecorder,
+  recordFrame,
+  finishReplay,
+  encodeReplay,
+  decodeReplay,
+  simulateReplay,
+} from '@/lib/game/replay'
+
+// Scripted input: walk at the first live enemy and swing, resolve menus the way a player would
+function scriptedInput(state: GameState, frame: number): InputState {
+  const target = state.enemies.find(e => e.isAlive)
+  const dx = target ? target.pos.x - state.player.pos.x : 0
+  const dy = target ? target.pos.y - state.player.pos.y : 0
+  return {
+    up: dy < -10,
+    right: dx > 10,
+    down: dy > 10,
+    left: dx < -10,
+    dash: frame % 90 === 0,
+    lightAttack: frame % 8 === 0,
+    heavyAttack: false,
+    heavyRelease: false,
+    pulseWave: frame % 240 === 0,
+    timeFlicker: false,
+    mutatorChoice: state.mutatorSelectionActive ? 1 + (frame % 3) : undefined,
+    rejectWaveEvent: state.pendingWaveEvent !== null,
+  }
+}
+
+function recordRun(frames: number, dt: number) {
+  const state = createGameState(false, 1, false, 'english-vocab', 'normal', 1234)
+  const recorder = createReplayRecorder(state)
+  for (let i = 0; i < frames && !state.gameOver; i++) {
+    const input = scriptedInput(state, i)
+    recordFrame(recorder, state, input, dt)
+    updateGame(state, input, dt)
+  }
+  return { state, replay: finishReplay(recorder, state) }
+}
+
+describe('replay', () => {
+  it('reproduces the recorded run exactly', () => {
+    const { state, replay } = recordRun(4000, 1 / 60)
+    expect(state.score).toBeGreaterThan(0)
+    const replayed = simulateReplay(replay)
+
+    expect(replayed.score).toBe(state.score)
+    expect(replayed.wave).toBe(state.wave)
+    expect(replayed.player.hp).toBe(state.player.hp)
+    expect(replayed.player.pos).toEqual(state.player.pos)
+    expect(replayed.enemies.map(e => e.hp)).toEqual(state.enemies.map(e => e.hp))
+    expect(replayed.activeMutators.map(m => m.id)).toEqual(state.activeMutators.map(m => m.id))
+  })
+
+  it('run-length encodes identical frames', () => {
+    const { replay } = recordRun(600, 1 / 60)
+    const total = replay.frames.reduce((sum, f) => sum + f[2], 0)
+    expect(total).toBe(600)
+    expect(replay.frames.length).toBeLessThan(total)
+  })
+
+  it('survives an encode/decode round trip', () => {
+    const { state, replay } = recordRun(1500, 1 / 60)
+    const decoded = decodeReplay(encodeReplay(replay))
+    expect(decoded).not.toBeNull()
+    expect(simulateReplay(decoded!).score).toBe(state.score)
+  })
+
+  it('rejects files that are not replays', () => {
+    expect(decodeReplay('not json')).toBeNull()
+    expect(decodeReplay(JSON.stringify({ version: 99, seed: 1, frames: [] }))).toBeNull()
+  })
+
+  it('rejects frames with unknown or mistyped extras', () => {
+    const withExtras = (extras: unknown) => JSON.stringify({ version: 1, seed: 1, frames: [[0, 1 / 120, 1, extras]] })
+    expect(decodeReplay(withExtras({ mutatorChoice: 2, move: { x: 0.5, y: -1 } }))).not.toBeNull()
+    expect(decodeReplay(withExtras({ godMode: true }))).toBeNull()
+    expect(decodeReplay(withExtras({ quizKeys: 'abc' }))).toBeNull()
+    expect(decodeReplay(withExtras({ move: { x: 'far', y: 0 } }))).toBeNull()
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createGameState, updateGame, GameState } from '@/lib/game/engine'
+import { InputState } from '@/lib/game/player'
+import { createReplayRecorder, recordFrame, finishReplay, simulateReplay } from '@/lib/game/replay'
+import { ARENA_RADIUS, setArenaRadius } from '@/lib/game/settings'
+import { createSavedRun, isSafePoint, loadSavedRun, restoreSavedRun, saveRun } from '@/lib/game/savegame'
+
+// Walk at the nearest enemy and swing; take mutators as they come
+function scriptedInput(state: GameState, frame: number): InputState {
+  const target = state.enemies.find(e => e.isAlive)
+  const dx = target ? target.pos.x - state.player.pos.x : 0
+  const dy = target ? target.pos.y - state.player.pos.y : 0
+  return {
+    up: dy < -10,
+    right: dx > 10,
+    down: dy > 10,
+    left: dx < -10,
+    dash: frame % 90 === 0,
+    lightAttack: frame % 8 === 0,
+    heavyAttack: false,
+    heavyRelease: false,
+    pulseWave: frame % 240 === 0,
+    timeFlicker: false,
+    mutatorChoice: state.mutatorSelectionActive ? 1 + (frame % 3) : undefined,
+    rejectWaveEvent: state.pendingWaveEvent !== null,
+  }
+}
+
+const DT = 1 / 60
+
+describe('savegame', () => {
+  beforeEach(() => localStorage.clear())
+
+  it('resumes a run exactly where it would have gone without the break', () => {
+    const state = createGameState(true, 1, false, 'english-vocab', 'normal', 777)
+    const recorder = createReplayRecorder(state)
+    let frame = 0
+    const step = (s: GameState) => {
+      const input = scriptedInput(s, frame++)
+      recordFrame(recorder, s, input, DT)
+      updateGame(s, input, DT)
+    }
+
+    // Play into the break after a couple of mutator picks
+    while (!(state.wave >= 3 && isSafePoint(state) && state.activeMutators.length > 0) && !state.gameOver) step(state)
+    expect(state.gameOver).toBe(false)
+    const saved = createSavedRun(state, recorder)!
+    const savedFrame = frame
+
+    for (let i = 0; i < 1500 && !state.gameOver; i++) step(state)
+    const expected = { score: state.score, wave: state.wave, hp: state.player.hp, enemies: state.enemies.map(e => e.hp), radius: ARENA_RADIUS }
+
+    // Scramble the module state a fresh run would leave behind, then resume
+    createGameState()
+    setArenaRadius(123)
+    const resumed = restoreSavedRun(JSON.parse(JSON.stringify(saved)))
+    expect(resumed.paused).toBe(true)
+    resumed.paused = false
+    frame = savedFrame
+    const resumedRecorder = saved.recorder!
+    for (let i = 0; i < 1500 && !resumed.gameOver; i++) {
+      const input = scriptedInput(resumed, frame++)
+      recordFrame(resumedRecorder, resumed, input, DT)
+      updateGame(resumed, input, DT)
+    }
+
+    expect(resumed.activeMutators).toEqual(state.activeMutators)
+    expect({ score: resumed.score, wave: resumed.wave, hp: resumed.player.hp, enemies: resumed.enemies.map(e => e.hp), radius: ARENA_RADIUS }).toEqual(expected)
+    // The carried-over recording still replays the whole run
+    expect(simulateReplay(finishReplay(resumedRecorder, resumed)).score).toBe(resumed.score)
+  })
+
+  it('only offers saves this build can resume', () => {
+    const state = createGameState(false, 1, false, 'english-vocab', 'normal', 42)
+    saveRun(state, null)
+    expect(loadSavedRun()?.state.seed).toBe(42)
+
+    const daily = createGameState(true)
+    daily.challengeDate = '2000-01-01'
+    saveRun(daily, null)
+    expect(loadSavedRun()).toBeNull()
+
+    localStorage.setItem('shadowpulse_saved_run', JSON.stringify({ version: 99 }))
+    expect(loadSavedRun()).toBeNull()
+  })
+})
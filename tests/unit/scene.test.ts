@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { SceneFrame, SceneLayer, SceneView, addLayer, createScene, renderScene, setLayerEnabled } from '@/lib/game/scene'
+import { DEFAULT_KEYMAP } from '@/lib/game/keymap'
+
+// Just enough of a 2D context to see which layers ran and in what space
+function recordingContext(log: string[]) {
+  let depth = 0
+  return {
+    save: () => { depth++ },
+    restore: () => { depth-- },
+    translate: (x: number, y: number) => log.push(`translate ${x},${y}`),
+    get depth() { return depth },
+  }
+}
+
+const frame = (view: Partial<SceneView>): SceneFrame => ({
+  view: { camera: { offsetX: 5, offsetY: -3 }, ...view } as SceneView,
+  w: 1280,
+  h: 720,
+  originX: 100,
+  originY: 0,
+  now: 0,
+  keymap: DEFAULT_KEYMAP,
+  assets: null,
+  dailyLeaderboard: [],
+  difficultyLabel: '',
+})
+
+describe('scene pipeline', () => {
+  it('runs enabled layers in order, world layers inside the camera transform', () => {
+    const log: string[] = []
+    const ctx = recordingContext(log)
+    const layer = (id: string, space: 'world' | 'screen', covers = false): SceneLayer => ({
+      id,
+      space,
+      enabled: true,
+      draw: () => { log.push(`${id} depth ${ctx.depth}`); return covers },
+    })
+    const scene = createScene([layer('floor', 'world'), layer('hud', 'screen'), layer('pause', 'screen', true), layer('gameOver', 'screen')])
+    addLayer(scene, layer('debug', 'world'), { after: 'floor' })
+    setLayerEnabled(scene, 'hud', false)
+
+    renderScene(ctx as unknown as CanvasRenderingContext2D, scene, frame({}))
+
+    expect(log).toEqual([
+      'translate 105,-3', 'floor depth 1',
+      'translate 105,-3', 'debug depth 1',
+      'pause depth 0',
+    ])
+    expect(ctx.depth).toBe(0)
+  })
+
+  it('replaces a layer added under an existing id', () => {
+    const noop = () => {}
+    const scene = createScene([{ id: 'a', space: 'screen', enabled: true, draw: noop }, { id: 'b', space: 'screen', enabled: true, draw: noop }])
+    addLayer(scene, { id: 'a', space: 'world', enabled: true, draw: noop }, { after: 'b' })
+    expect(scene.layers.map(l => `${l.id}:${l.space}`)).toEqual(['b:screen', 'a:world'])
+  })
+})
@@ -0,0 +1,64 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { runSimulation, passiveBot, aggressiveBot, idleBot, scriptedBot } from '@/lib/game/simulation'
+import { EnemyType } from '@/lib/game/enemy'
+
+const SEEDS = [1, 2, 3, 4, 5]
+
+function averageWavesCleared(difficulty: 'very_easy' | 'arcade') {
+  const total = SEEDS.reduce((sum, seed) => sum + runSimulation({ difficulty, seed, bot: passiveBot, maxWaves: 10 }).wavesCleared, 0)
+  return total / SEEDS.length
+}
+
+describe('simulation', () => {
+  describe('balance', () => {
+    it('passive bot on very_easy survives wave 3', () => {
+      for (const seed of SEEDS) {
+        const result = runSimulation({ difficulty: 'very_easy', seed, bot: passiveBot, maxWaves: 3 })
+        expect(result.wavesCleared).toBe(3)
+        expect(result.survived).toBe(true)
+      }
+    })
+
+    it('very_easy lets the passive bot go further than arcade', () => {
+      expect(averageWavesCleared('very_easy')).toBeGreaterThan(averageWavesCleared('arcade'))
+    })
+
+    it('idle bot never clears wave 1', () => {
+      const result = runSimulation({ difficulty: 'normal', bot: idleBot })
+      expect(result.survived).toBe(false)
+      expect(result.finalWave).toBe(1)
+      expect(result.wavesCleared).toBe(0)
+      expect(result.deathCause).toBe('normal')
+    })
+  })
+
+  describe('reporting', () => {
+    it('per-wave kills and damage add up to the run totals', () => {
+      const result = runSimulation({ difficulty: 'easy', seed: 1, bot: aggressiveBot })
+      const kills = result.waves.reduce((sum, w) => sum + w.kills, 0)
+      expect(kills).toBe(result.totalKills)
+
+      for (const wave of result.waves) {
+        expect(wave.timeToClear).toBeGreaterThan(0)
+        for (const type of Object.keys(wave.damageTaken) as EnemyType[]) {
+          expect(wave.damageTaken[type]).toBeGreaterThanOrEqual(0)
+        }
+      }
+      const last = result.waves[result.waves.length - 1]
+      expect(last.cleared).toBe(result.survived)
+    })
+
+    it('is deterministic for a given seed', () => {
+      const a = runSimulation({ difficulty: 'normal', seed: 42, bot: aggressiveBot, maxWaves: 4 })
+      const b = runSimulation({ difficulty: 'normal', seed: 42, bot: aggressiveBot, maxWaves: 4 })
+      expect(b).toEqual(a)
+    })
+
+    it('stops at maxTime with scripted input', () => {
+      const result = runSimulation({ bot: scriptedBot([]), maxTime: 5, dt: 1 / 120 })
+      expect(result.simulatedTime).toBeCloseTo(5, 1)
+      expect(result.finalWave).toBe(1)
+    })
+  })
+})
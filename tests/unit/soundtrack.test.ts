@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { TRACKS, musicCue, noteFrequency } from '@/lib/game/soundtrack'
+import { createGameState } from '@/lib/game/engine'
+import { getLevelTheme } from '@/lib/game/levels'
+import { FIRST_BOSS_WAVE } from '@/lib/game/settings'
+
+describe('soundtrack', () => {
+  it('reads scale degrees across octaves', () => {
+    const track = TRACKS.void
+    expect(noteFrequency(track, 0)).toBeCloseTo(130.81)   // C3
+    expect(noteFrequency(track, 4)).toBeCloseTo(261.62, 1) // C4
+    expect(noteFrequency(track, -2)).toBeCloseTo(98.0, 1)  // G2
+  })
+
+  it('gives every track a full bar of patterns', () => {
+    for (const track of Object.values(TRACKS)) {
+      expect(track.arp).toHaveLength(16)
+      expect(track.bass).toHaveLength(8)
+      for (const drums of [track.kick, track.snare, track.hat]) expect(drums).toMatch(/^[x.]{16}$/)
+    }
+  })
+
+  it('cues the boss track during boss waves and ducks under the quiz and draft', () => {
+    const state = createGameState()
+    expect(musicCue(state)).toEqual({ track: 'void', ducked: false })
+
+    state.wave = FIRST_BOSS_WAVE
+    state.levelTheme = getLevelTheme(FIRST_BOSS_WAVE)
+    state.waveActive = true
+    expect(musicCue(state).track).toBe('boss')
+
+    // Cleared: back to the level's own track for the draft, pulled down under it
+    state.waveActive = false
+    state.mutatorSelectionActive = true
+    expect(musicCue(state)).toEqual({ track: state.levelTheme.themeKey, ducked: true })
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { createSpatialGrid, queryCircle, rebuildSpatialGrid } from '@/lib/game/spatial'
+import { getHordeWaveConfig, isBossWave } from '@/lib/game/waves'
+import { HORDE_MAX_COUNT } from '@/lib/game/settings'
+import { createSeededRng } from '@/lib/game/seeded-rng'
+
+describe('spatial grid', () => {
+  it('finds exactly what a full scan finds, in array order', () => {
+    const rand = createSeededRng(5)
+    const bodies = Array.from({ length: 300 }, () => ({ pos: { x: rand() * 1200, y: rand() * 900 }, size: 10 + rand() * 30 }))
+    const grid = createSpatialGrid<typeof bodies[number]>()
+    rebuildSpatialGrid(grid, bodies)
+
+    for (const [x, y, r] of [[600, 450, 80], [0, 0, 40], [1150, 880, 200], [300, 700, 5]]) {
+      const center = { x, y }
+      const touching = (b: typeof bodies[number]) => Math.hypot(b.pos.x - x, b.pos.y - y) <= r + b.size
+      const found = queryCircle(grid, center, r).filter(touching)
+      expect(found).toEqual(bodies.filter(touching))
+    }
+  })
+})
+
+describe('horde waves', () => {
+  it('swarm in the hundreds, capped, and keep boss waves solo', () => {
+    const size = (wave: number) => getHordeWaveConfig(wave).enemies.reduce((n, g) => n + g.count, 0)
+    expect(size(1)).toBeGreaterThanOrEqual(150)
+    expect(size(13)).toBeGreaterThanOrEqual(300)
+    expect(size(61)).toBe(HORDE_MAX_COUNT)
+    const bossWave = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].find(isBossWave)!
+    expect(getHordeWaveConfig(bossWave).enemies).toEqual([{ type: 'boss', count: 1 }])
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { createStatusEffects, applyStatus, tickStatus, applyHitStatus, statusSpeedMultiplier } from '@/lib/game/status'
+import { LAST_STAND_HP, STATUS_BURN_DPS, STATUS_CHILL_SPEED, STATUS_EFFECTS, STATUS_SHOCK_DAMAGE, STATUS_STACK_GAP } from '@/lib/game/settings'
+import { createGameState, updateGame } from '@/lib/game/engine'
+import { decodeInput } from '@/lib/game/replay'
+
+describe('status effects', () => {
+  it('stacks once per hit, not once per frame', () => {
+    const fx = createStatusEffects()
+    applyStatus(fx, 'burning')
+    applyStatus(fx, 'burning')
+    expect(fx.active.burning?.stacks).toBe(1)
+
+    tickStatus(fx, STATUS_STACK_GAP)
+    applyStatus(fx, 'burning')
+    tickStatus(fx, STATUS_STACK_GAP)
+    applyStatus(fx, 'burning')
+    tickStatus(fx, STATUS_STACK_GAP)
+    applyStatus(fx, 'burning')
+    expect(fx.active.burning?.stacks).toBe(STATUS_EFFECTS.burning.maxStacks)
+  })
+
+  it('burns in whole points and wears off', () => {
+    const fx = createStatusEffects()
+    applyStatus(fx, 'burning')
+    let dealt = 0
+    for (let i = 0; i < 4; i++) dealt += tickStatus(fx, 0.25)
+    expect(dealt).toBe(STATUS_BURN_DPS)
+
+    tickStatus(fx, STATUS_EFFECTS.burning.duration)
+    expect(fx.active.burning).toBeUndefined()
+  })
+
+  it('zones refresh a chill without stacking it', () => {
+    const fx = createStatusEffects()
+    applyStatus(fx, 'chilled', 0)
+    tickStatus(fx, 1)
+    applyStatus(fx, 'chilled', 0)
+    expect(fx.active.chilled).toMatchObject({ stacks: 1, time: STATUS_EFFECTS.chilled.duration })
+    expect(statusSpeedMultiplier(fx)).toBe(STATUS_CHILL_SPEED)
+  })
+
+  it('vulnerable scales damage and a shock discharges on the next hit', () => {
+    const fx = createStatusEffects()
+    applyStatus(fx, 'vulnerable')
+    applyStatus(fx, 'shocked')
+    expect(applyHitStatus(fx, 20)).toBe(25 + STATUS_SHOCK_DAMAGE)
+    expect(fx.discharged).toBe(true)
+    expect(fx.active.shocked).toBeUndefined()
+    expect(applyHitStatus(fx, 20)).toBe(25)
+  })
+
+  it('a lethal burn triggers Last Stand and is pinned on the enemy that set it', () => {
+    const state = createGameState(false, 1, false, 'english-vocab', 'normal', 1)
+    applyStatus(state.player.status, 'burning', 1, 'heavy')
+    state.player.status.active.burning!.carry = 0.99
+    state.player.hp = 1
+    state.player.iframes = 1   // burning lands through iframes
+    updateGame(state, decodeInput(0), 1 / 120)
+    expect(state.player.isAlive).toBe(true)
+    expect(state.player.hp).toBe(LAST_STAND_HP)
+    expect(state.lastStandUsed).toBe(true)
+    expect(state.damageByEnemyType.heavy).toBeGreaterThan(0)
+  })
+})
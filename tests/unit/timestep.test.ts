@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { createGameState, updateGame } from '@/lib/game/engine'
+import { InputState } from '@/lib/game/player'
+import { MAX_FRAME_TIME, SIM_DT } from '@/lib/game/settings'
+import { createFixedStepClock, drawInterpolated, interpolationAlpha, snapshotPositions, tickClock } from '@/lib/game/timestep'
+
+const HOLD_RIGHT: InputState = {
+  up: false, down: false, left: false, right: true,
+  dash: false, lightAttack: false, heavyAttack: false, heavyRelease: false, pulseWave: false, timeFlicker: false,
+}
+
+// Play one second of wall time at a display rate; the clock decides how many steps run
+function playSecond(hz: number): { steps: number; x: number } {
+  const state = createGameState(false, 1, false, 'english-vocab', 'normal', 5)
+  const clock = createFixedStepClock()
+  let steps = 0
+  for (let frame = 0; frame < hz; frame++) {
+    const n = tickClock(clock, 1 / hz)
+    for (let i = 0; i < n; i++) updateGame(state, HOLD_RIGHT, SIM_DT)
+    steps += n
+  }
+  return { steps, x: state.player.pos.x }
+}
+
+describe('timestep', () => {
+  it('simulates the same game at 30, 60 and 144Hz', () => {
+    const at60 = playSecond(60)
+    expect(at60.steps).toBe(Math.round(1 / SIM_DT))
+    expect(at60.x).toBeGreaterThan(createGameState().player.pos.x)
+    expect(playSecond(144)).toEqual(at60)
+    expect(playSecond(30)).toEqual(at60)
+  })
+
+  it('drops stalls longer than the frame cap instead of catching up', () => {
+    const clock = createFixedStepClock()
+    expect(tickClock(clock, 5)).toBe(Math.floor(MAX_FRAME_TIME / SIM_DT))
+    expect(interpolationAlpha(clock)).toBeLessThan(1)
+  })
+
+  it('draws between steps and puts the simulated positions back', () => {
+    const state = createGameState(false, 1, false, 'english-vocab', 'normal', 5)
+    const prev = snapshotPositions(state)
+    state.player.pos = { x: prev.player.x + 10, y: prev.player.y }
+    let drawnX = 0
+    drawInterpolated(state, prev, 0.25, () => { drawnX = state.player.pos.x })
+    expect(drawnX).toBeCloseTo(prev.player.x + 2.5)
+    expect(state.player.pos.x).toBe(prev.player.x + 10)
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { importTopicPack, loadTopicPacks, saveTopicPack, validateTopicPack } from '@/lib/game/topic-packs'
+import { ChoiceQuestion } from '@/lib/game/questions'
+
+const HEADER = 'id,englishWord,emoji,hebrewHint,optionA,optionB,optionC,optionD,correctIndex,grade,difficulty'
+
+function question(overrides: Partial<ChoiceQuestion> = {}): ChoiceQuestion {
+  return {
+    id: 'fr-g3-01',
+    englishWord: 'apple',
+    emoji: '🍎',
+    hebrewHint: 'תפוח',
+    options: ['תפוח', 'בננה', 'ענב', 'אגס'],
+    correctIndex: 0,
+    grade: 3,
+    difficulty: 1,
+    ...overrides,
+  }
+}
+
+describe('topic packs', () => {
+  it('parses CSV with quoted fields and letter indexes', () => {
+    const csv = `${HEADER}\r\nfr-g3-01,apple,🍎,"תפוח, אדום",תפוח,בננה,ענב,"אגס ""ירוק""",B,3,1\r\n`
+    const { topic } = importTopicPack(csv, 'fruit_words.csv')
+    expect(topic?.id).toBe('pack-fruit-words')
+    expect(topic?.displayName).toBe('fruit words')
+    const q = topic!.questions[0] as ChoiceQuestion
+    expect(q.hebrewHint).toBe('תפוח, אדום')
+    expect(q.options[3]).toBe('אגס "ירוק"')
+    expect(q.correctIndex).toBe(1)
+    expect(q.grade).toBe(3)
+  })
+
+  it('reports missing CSV columns instead of guessing', () => {
+    const { topic, issues } = importTopicPack('id,englishWord\nx,y', 'bad.csv')
+    expect(topic).toBeNull()
+    expect(issues[0].message).toContain('optionA')
+  })
+
+  it('rejects bad options, indexes and duplicate ids', () => {
+    const issues = validateTopicPack({
+      id: 'pack-x',
+      displayName: 'X',
+      questions: [
+        question({ options: ['a', 'b', 'c'] as unknown as ChoiceQuestion['options'] }),
+        question({ id: 'fr-g3-02', options: ['a', 'a', 'b', 'c'] }),
+        question({ id: 'fr-g3-02', correctIndex: 4 as ChoiceQuestion['correctIndex'] }),
+      ],
+    })
+    const errors = issues.filter(i => i.severity === 'error').map(i => i.message)
+    expect(errors.some(m => m.includes('exactly 4 options'))).toBe(true)
+    expect(errors.some(m => m.includes('different from each other'))).toBe(true)
+    expect(errors.some(m => m.includes('duplicate id'))).toBe(true)
+    expect(errors.some(m => m.includes('correctIndex'))).toBe(true)
+  })
+
+  it('accepts a JSON pack and only warns about thin coverage', () => {
+    const json = JSON.stringify({ displayName: 'Fruit', questions: [question()] })
+    const { topic, issues } = importTopicPack(json, 'fruit.json')
+    expect(topic?.displayName).toBe('Fruit')
+    expect(issues.every(i => i.severity === 'warning')).toBe(true)
+    expect(issues[0].message).toContain('G3·D2')
+    expect(issues[0].message).not.toContain('G3·D1')
+  })
+
+  it('validates the fields of each question kind', () => {
+    const issues = validateTopicPack({
+      id: 'pack-mixed',
+      displayName: 'Mixed',
+      questions: [
+        { id: 'mx-1', kind: 'true-false', statement: 'cat = חתול', emoji: '🐱', answer: true, grade: 3, difficulty: 1 },
+        { id: 'mx-2', kind: 'number', prompt: '7 × 8', answer: Number.NaN, grade: 4, difficulty: 1 },
+        { id: 'mx-3', kind: 'spelling', hebrewHint: 'כלב', emoji: '🐶', answer: '', grade: 3, difficulty: 2 },
+      ],
+    })
+    const errors = issues.filter(i => i.severity === 'error').map(i => i.message)
+    expect(errors).toEqual(['Question 2 (mx-2): answer must be a number', 'Question 3 (mx-3): missing answer'])
+  })
+
+  it('keeps two packs with the same title side by side', () => {
+    localStorage.clear()
+    const fruit = (id: string) => JSON.stringify({ displayName: 'Fruit', questions: [question({ id })] })
+    const first = saveTopicPack(importTopicPack(fruit('fr-1'), 'fruit.json').topic!)!
+    const second = saveTopicPack(importTopicPack(fruit('fr-2'), 'fruit.json').topic!)!
+    const third = saveTopicPack(importTopicPack(fruit('fr-3'), 'fruit.json').topic!)!
+    expect([first.id, second.id, third.id]).toEqual(['pack-fruit', 'pack-fruit-2', 'pack-fruit-3'])
+    expect(loadTopicPacks().map(t => t.id)).toEqual(['pack-fruit', 'pack-fruit-2', 'pack-fruit-3'])
+
+    // A stale import saved after its id was taken still gets its own slot
+    expect(saveTopicPack({ ...first, questions: [question({ id: 'fr-4' })] })!.id).toBe('pack-fruit-4')
+    localStorage.clear()
+  })
+
+  it('rejects question ids another pack already uses', () => {
+    localStorage.clear()
+    saveTopicPack(importTopicPack(JSON.stringify({ displayName: 'Fruit', questions: [question()] }), 'fruit.json').topic!)
+    const { issues } = importTopicPack(JSON.stringify({ displayName: 'Food', questions: [question()] }), 'food.json')
+    expect(issues.filter(i => i.severity === 'error').map(i => i.message)).toEqual([
+      'Question 1 (fr-g3-01): id already used by the "Fruit" pack',
+    ])
+
+    // Taken between import and save: nothing is stored
+    const stale = importTopicPack(JSON.stringify({ displayName: 'Veg', questions: [question({ id: 'vg-1' })] }), 'veg.json').topic!
+    saveTopicPack(importTopicPack(JSON.stringify({ displayName: 'Greens', questions: [question({ id: 'vg-1' })] }), 'greens.json').topic!)
+    expect(saveTopicPack(stale)).toBeNull()
+    expect(loadTopicPacks().map(t => t.displayName)).toEqual(['Fruit', 'Greens'])
+    localStorage.clear()
+  })
+})
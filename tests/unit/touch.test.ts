@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { createGameState } from '@/lib/game/engine'
+import { getRandomMutators } from '@/lib/game/mutators'
+import { mutatorCardRects, pauseMenuRects, quizAnswerRects } from '@/lib/game/renderer'
+import { GAME_WIDTH, GAME_HEIGHT } from '@/lib/game/settings'
+import { hitButton, joystickVector, tapKey, touchLayout } from '@/lib/game/touch'
+import type { ChoiceQuestion, TrueFalseQuestion } from '@/lib/game/questions'
+
+const choice: ChoiceQuestion = {
+  id: 'c1', englishWord: 'cat', emoji: '🐱', hebrewHint: 'חתול',
+  options: ['חתול', 'כלב', 'סוס', 'דג'], correctIndex: 0, grade: 3, difficulty: 1,
+}
+const trueFalse: TrueFalseQuestion = { kind: 'true-false', id: 't1', statement: 'A cat is a dog', emoji: '🐱', answer: false, grade: 3, difficulty: 1 }
+
+const centre = (r: { x: number; y: number; w: number; h: number }) => ({ x: r.x + r.w / 2, y: r.y + r.h / 2 })
+
+describe('touch joystick', () => {
+  const layout = touchLayout(false)
+
+  it('ignores small wobbles and clamps full deflection', () => {
+    const origin = { x: 200, y: 500 }
+    expect(joystickVector(layout, origin, { x: 205, y: 502 })).toBeNull()
+    expect(joystickVector(layout, origin, { x: 200 + layout.stickRadius * 3, y: 500 })).toEqual({ x: 1, y: 0 })
+  })
+
+  it('finds the ability button under a thumb', () => {
+    const dash = layout.buttons.find(b => b.key === ' ')!
+    expect(hitButton(layout, { x: dash.x + 5, y: dash.y - 5 })?.key).toBe(' ')
+    expect(hitButton(layout, { x: 100, y: 100 })).toBeNull()
+  })
+
+  it('makes buttons bigger on phones', () => {
+    expect(touchLayout(true).buttons[0].r).toBeGreaterThan(layout.buttons[0].r)
+  })
+})
+
+describe('tapKey', () => {
+  it('picks the mutator card that was tapped', () => {
+    const state = createGameState(false, 1, false, 'english-vocab', 'normal', 1)
+    state.mutatorChoices = getRandomMutators(3, [])
+    const cards = mutatorCardRects(3, GAME_WIDTH, GAME_HEIGHT)
+    expect(tapKey(state, 'mutator', centre(cards[2]))).toBe('3')
+    expect(tapKey(state, 'mutator', { x: 5, y: 5 })).toBeNull()
+  })
+
+  it('maps quiz answer boxes to their keys', () => {
+    const state = createGameState(false, 1, true, 'english-vocab', 'normal', 1)
+    state.currentQuestion = choice
+    const boxes = quizAnswerRects(choice, false, GAME_WIDTH)
+    expect(tapKey(state, 'quiz-choice', centre(boxes[3]))).toBe('d')
+
+    state.currentQuestion = trueFalse
+    const pair = quizAnswerRects(trueFalse, false, GAME_WIDTH)
+    expect(pair).toHaveLength(2)
+    expect(tapKey(state, 'quiz-true-false', centre(pair[1]))).toBe('f')
+  })
+
+  it('selects pause menu items and restarts from game over', () => {
+    const state = createGameState(false, 1, false, 'english-vocab', 'normal', 1)
+    expect(tapKey(state, 'paused', centre(pauseMenuRects(GAME_WIDTH, GAME_HEIGHT)[1]))).toBe('2')
+    expect(tapKey(state, 'game-over', { x: 0, y: 0 })).toBe('r')
+    expect(tapKey(state, 'play', { x: 640, y: 360 })).toBeNull()
+  })
+})
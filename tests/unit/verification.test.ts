@@ -0,0 +1,70 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { createGameState, updateGame } from '@/lib/game/engine'
+import { createReplayRecorder, recordFrame, finishReplay, Replay } from '@/lib/game/replay'
+import { passiveBot } from '@/lib/game/simulation'
+import { MAX_RUN_TICKS, verifyDailyReplay } from '@/lib/game/verification'
+import { SIM_DT } from '@/lib/game/settings'
+
+const NOW = new Date()
+
+// Record a Daily run to the end with the passive bot
+function recordDailyRun(dt = SIM_DT): Replay {
+  const state = createGameState(true)
+  const recorder = createReplayRecorder(state)
+  for (let tick = 0; !state.gameOver && tick < 200_000; tick++) {
+    const input = passiveBot(state, tick)
+    if (state.mutatorSelectionActive) input.mutatorChoice = 1
+    if (state.pendingWaveEvent) input.rejectWaveEvent = true
+    recordFrame(recorder, state, input, dt)
+    updateGame(state, input, dt)
+  }
+  return finishReplay(recorder, state)
+}
+
+describe('verifyDailyReplay', () => {
+  const replay = recordDailyRun()
+
+  it('verifies an honest run with the simulated score', () => {
+    const result = verifyDailyReplay(replay, NOW)
+    expect(result).toEqual({ status: 'verified', score: replay.finalScore, wave: replay.finalWave })
+  })
+
+  it('flags a run whose claimed score was edited, keeping the simulated score', () => {
+    const result = verifyDailyReplay({ ...replay, finalScore: replay.finalScore + 100_000 }, NOW)
+    expect(result.status).toBe('flagged')
+    if (result.status === 'flagged') expect(result.score).toBe(replay.finalScore)
+  })
+
+  it('rejects runs on another seed', () => {
+    expect(verifyDailyReplay({ ...replay, seed: replay.seed + 1 }, NOW).status).toBe('rejected')
+  })
+
+  it('rejects stale challenge dates', () => {
+    const weekLater = new Date(NOW.getTime() + 7 * 86_400_000)
+    expect(verifyDailyReplay(replay, weekLater).status).toBe('rejected')
+  })
+
+  it('rejects frames with an impossible timestep', () => {
+    const tampered = { ...replay, frames: [[0, 0.5, 1], ...replay.frames] as Replay['frames'] }
+    expect(verifyDailyReplay(tampered, NOW).status).toBe('rejected')
+  })
+
+  it('rejects runs longer than the tick cap before simulating them', () => {
+    const tampered = { ...replay, frames: [[0, SIM_DT, MAX_RUN_TICKS + 1], ...replay.frames] as Replay['frames'] }
+    expect(verifyDailyReplay(tampered, NOW)).toEqual({ status: 'rejected', reason: 'run is too long' })
+  })
+
+  it('rejects runs recorded off the fixed timestep', () => {
+    expect(verifyDailyReplay(recordDailyRun(1 / 60), NOW).status).toBe('rejected')
+  })
+
+  it('rejects runs that never ended', () => {
+    const truncated = { ...replay, frames: replay.frames.slice(0, 10) }
+    expect(verifyDailyReplay(truncated, NOW)).toEqual({ status: 'rejected', reason: 'run did not end' })
+  })
+
+  it('rejects non-daily runs', () => {
+    expect(verifyDailyReplay({ ...replay, isDailyChallenge: false }, NOW).status).toBe('rejected')
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { computeViewport, toViewport } from '@/lib/game/viewport'
+import { createGameState } from '@/lib/game/engine'
+import { getRandomMutators } from '@/lib/game/mutators'
+import { GAME_WIDTH, GAME_HEIGHT } from '@/lib/game/settings'
+import { tapKey } from '@/lib/game/touch'
+
+describe('viewport', () => {
+  it('sizes the backing store in device pixels', () => {
+    const vp = computeViewport(1920, 1080, 2)
+    expect([vp.w, vp.h, vp.originX, vp.originY]).toEqual([GAME_WIDTH, GAME_HEIGHT, 0, 0])
+    expect([vp.pixelWidth, vp.pixelHeight]).toEqual([3840, 2160])
+
+    const half = computeViewport(1920, 1080, 2, 0.5)
+    expect([half.pixelWidth, half.pixelHeight]).toEqual([1920, 1080])
+  })
+
+  it('widens for ultra-wide, heightens for 4:3 and letterboxes past them', () => {
+    const wide = computeViewport(2304, 1080)
+    expect(wide.h).toBe(GAME_HEIGHT)
+    expect(wide.w).toBeCloseTo(GAME_HEIGHT * 2304 / 1080)
+    expect(wide.originX).toBeCloseTo((wide.w - GAME_WIDTH) / 2)
+
+    const projector = computeViewport(1024, 768)
+    expect([projector.w, projector.h, projector.originY]).toEqual([GAME_WIDTH, 960, 120])
+    expect([projector.cssWidth, projector.cssHeight]).toEqual([1024, 768])
+
+    // 32:9 is wider than 21:9 — full height, bars at the sides
+    const superWide = computeViewport(3840, 1080)
+    expect(superWide.cssHeight).toBe(1080)
+    expect(superWide.cssWidth).toBeCloseTo(1080 * 21 / 9)
+  })
+
+  it('maps taps on a 4:3 screen onto overlays laid out for it', () => {
+    const vp = computeViewport(1024, 768)
+    const state = createGameState()
+    state.mutatorSelectionActive = true
+    state.mutatorChoices = getRandomMutators(3, [])
+    // Middle of the screen is the middle card, wherever the canvas sits on the page
+    const rect = { left: 50, top: 0, width: vp.cssWidth, height: vp.cssHeight }
+    const p = toViewport(vp, rect, 50 + vp.cssWidth / 2, vp.cssHeight / 2)
+    expect(tapKey(state, 'mutator', p, vp)).toBe('2')
+  })
+})